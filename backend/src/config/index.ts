@@ -28,6 +28,22 @@ const configSchema = z.object({
     defaultRadiusMeters: z.coerce.number().min(10).max(10000).default(500),
     alertCheckIntervalMs: z.coerce.number().min(5000).max(300000).default(30000),
   }),
+
+  // Filtrage des points GPS avant évaluation des règles
+  positionFilter: z.object({
+    maxSpeedKmh: z.coerce.number().min(10).max(1000).default(150),
+    minSatellites: z.coerce.number().min(0).max(20).default(4),
+    maxHdop: z.coerce.number().min(0.5).max(50).default(5),
+    smoothing: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  }),
+
+  // Passerelles TCP des trackers (désactivées si le port n'est pas défini)
+  trackers: z.object({
+    teltonikaPort: z.coerce.number().min(1).max(65535).optional(),
+    gt06Port: z.coerce.number().min(1).max(65535).optional(),
+    // Positions acceptées par tracker et par minute sur Socket.io
+    socketRateLimitPerMinute: z.coerce.number().min(1).max(600).default(60),
+  }),
 });
 
 type Config = z.infer<typeof configSchema>;
@@ -53,6 +69,17 @@ function loadConfig(): Config {
       defaultRadiusMeters: process.env.DEFAULT_GEOFENCE_RADIUS_METERS,
       alertCheckIntervalMs: process.env.ALERT_CHECK_INTERVAL_MS,
     },
+    positionFilter: {
+      maxSpeedKmh: process.env.GPS_MAX_SPEED_KMH,
+      minSatellites: process.env.GPS_MIN_SATELLITES,
+      maxHdop: process.env.GPS_MAX_HDOP,
+      smoothing: process.env.GPS_SMOOTHING,
+    },
+    trackers: {
+      teltonikaPort: process.env.TELTONIKA_PORT || undefined,
+      gt06Port: process.env.GT06_PORT || undefined,
+      socketRateLimitPerMinute: process.env.TRACKER_RATE_LIMIT_PER_MINUTE,
+    },
   };
 
   const result = configSchema.safeParse(rawConfig);
@@ -0,0 +1,393 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { deviceService } from '../services/DeviceService.js';
+import { ApiResponse, DeviceProtocol } from '../types/index.js';
+import { IDeviceDocument } from '../models/Device.js';
+import {
+  DeviceNotFoundError,
+  DeviceConflictError,
+  DeviceValidationError,
+} from '../services/DeviceService.js';
+
+// ============================================
+// Schémas Zod
+// ============================================
+
+const CreateDeviceSchema = z.object({
+  imei: z.string().regex(/^\d{15}$/, 'IMEI invalide (15 chiffres)'),
+  protocol: z.nativeEnum(DeviceProtocol),
+  deviceModel: z.string().max(100).optional(),
+  firmware: z.string().max(100).optional(),
+  simIccid: z.string().regex(/^\d{18,22}$/, 'ICCID invalide (18 à 22 chiffres)').optional(),
+  simPhoneNumber: z.string().max(20).optional(),
+  reportingIntervalSeconds: z.number().int().min(10).max(86400).optional(),
+});
+
+const UpdateDeviceSchema = CreateDeviceSchema.omit({ imei: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const ListDevicesQuerySchema = z.object({
+  search: z.string().optional(),
+  protocol: z.nativeEnum(DeviceProtocol).optional(),
+  assigned: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const AssignDeviceSchema = z.object({
+  vehicleId: z.string().regex(/^[a-f\d]{24}$/i, 'vehicleId invalide'),
+});
+
+// ============================================
+// Helper
+// ============================================
+
+function handleServiceError(
+  error: unknown,
+  res: Response,
+  next: NextFunction
+): void {
+  if (error instanceof DeviceNotFoundError) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { code: error.code, message: error.message },
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  if (error instanceof DeviceConflictError) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { code: error.code, message: error.message },
+    };
+    res.status(409).json(response);
+    return;
+  }
+
+  if (error instanceof DeviceValidationError) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { code: error.code, message: error.message },
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  next(error);
+}
+
+function validationError(res: Response, message: string, error: z.ZodError): void {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      details: error.flatten().fieldErrors as Record<string, string[]>,
+    },
+  };
+  res.status(400).json(response);
+}
+
+// ============================================
+// Contrôleur
+// ============================================
+
+/**
+ * Contrôleur du registre des trackers GPS
+ * Architecture : Controller → Service → Model
+ */
+export class DeviceController {
+  /**
+   * GET /api/devices
+   * Liste les trackers de l'organisation avec pagination et filtres
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const parseResult = ListDevicesQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        validationError(res, 'Paramètres de requête invalides', parseResult.error);
+        return;
+      }
+
+      const filters = parseResult.data;
+      const organizationId = req.user.organizationId.toString();
+
+      const { devices, total } = await deviceService.listDevices(organizationId, filters);
+
+      const response: ApiResponse<IDeviceDocument[]> = {
+        success: true,
+        data: devices,
+        meta: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/devices/:id
+   * Récupère un tracker par son ID (scoped à l'organisation)
+   */
+  async getOne(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const device = await deviceService.getDeviceById(organizationId, req.params.id);
+
+      const response: ApiResponse<IDeviceDocument> = {
+        success: true,
+        data: device,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * POST /api/devices
+   * Enregistre un tracker ; le secret n'est renvoyé qu'à la création
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const parseResult = CreateDeviceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        validationError(res, 'Données de création invalides', parseResult.error);
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const { device, token } = await deviceService.createDevice(organizationId, parseResult.data);
+
+      const response: ApiResponse<{ device: IDeviceDocument; token: string }> = {
+        success: true,
+        data: { device, token },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * PATCH /api/devices/:id
+   * Met à jour un tracker (firmware, SIM, protocole, activation)
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const parseResult = UpdateDeviceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        validationError(res, 'Données de mise à jour invalides', parseResult.error);
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const device = await deviceService.updateDevice(organizationId, req.params.id, parseResult.data);
+
+      const response: ApiResponse<IDeviceDocument> = {
+        success: true,
+        data: device,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * DELETE /api/devices/:id
+   * Supprime un tracker non affecté
+   */
+  async remove(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      await deviceService.deleteDevice(organizationId, req.params.id);
+
+      const response: ApiResponse<null> = {
+        success: true,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * POST /api/devices/:id/token
+   * Régénère le secret du tracker (l'ancien est invalidé)
+   */
+  async regenerateToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const token = await deviceService.regenerateToken(organizationId, req.params.id);
+
+      const response: ApiResponse<{ token: string }> = {
+        success: true,
+        data: { token },
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * POST /api/devices/:id/assign
+   * Affecte le tracker à un véhicule
+   */
+  async assign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const parseResult = AssignDeviceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        validationError(res, 'Données d\'affectation invalides', parseResult.error);
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const device = await deviceService.assignToVehicle(
+        organizationId,
+        req.params.id,
+        parseResult.data.vehicleId,
+        req.user._id.toString()
+      );
+
+      const response: ApiResponse<IDeviceDocument> = {
+        success: true,
+        data: device,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * POST /api/devices/:id/unassign
+   * Désaffecte le tracker de son véhicule
+   */
+  async unassign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const device = await deviceService.unassign(organizationId, req.params.id);
+
+      const response: ApiResponse<IDeviceDocument> = {
+        success: true,
+        data: device,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * GET /api/devices/:id/assignments
+   * Historique des affectations du tracker
+   */
+  async getAssignments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const assignments = await deviceService.getAssignmentHistory(organizationId, req.params.id);
+
+      const response: ApiResponse<typeof assignments> = {
+        success: true,
+        data: assignments,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+}
+
+export const deviceController = new DeviceController();
+
+export default deviceController;
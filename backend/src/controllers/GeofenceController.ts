@@ -1,9 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
-import { Geofence, IGeofenceDocument } from '../models/index.js';
-import { locationService } from '../services/index.js';
-import { ApiResponse } from '../types/index.js';
-import { CreateGeofenceInput, UpdateGeofenceInput } from '../validators/schemas.js';
-import { getOrganizationObjectId, DEMO_ORGANIZATION_ID } from '../config/index.js';
+import {
+  Geofence,
+  IGeofenceDocument,
+  IGeofenceRevisionDocument,
+  validAtFilter,
+} from '../models/index.js';
+import {
+  locationService,
+  geofenceTransferService,
+  geofenceRevisionService,
+  geofenceAssignmentService,
+  AssignmentConsistencyReport,
+  GeofenceRevisionNotFoundError,
+  ImportReport,
+} from '../services/index.js';
+import { ApiResponse, GeofenceShape, GeofenceMode } from '../types/index.js';
+import {
+  CreateGeofenceInput,
+  UpdateGeofenceInput,
+  ImportGeofencesInput,
+  ExportGeofencesQueryInput,
+  GeofenceRevisionParamsInput,
+} from '../validators/schemas.js';
+import { GeoFileParseError } from '../utils/geoFormats.js';
+import config, { getOrganizationObjectId, DEMO_ORGANIZATION_ID } from '../config/index.js';
 
 /**
  * Contrôleur pour la gestion des geofences (zones de sécurité)
@@ -12,11 +32,12 @@ export class GeofenceController {
   /**
    * GET /api/geofences
    * Liste toutes les geofences de l'organisation
+   * Les zones archivées ne sont renvoyées qu'avec ?includeArchived=true
    */
   async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
-      const { isActive } = req.query;
+      const { isActive, includeArchived } = req.query;
 
       const filter: Record<string, unknown> = {
         organizationId: getOrganizationObjectId(organizationId),
@@ -26,8 +47,16 @@ export class GeofenceController {
         filter.isActive = isActive === 'true';
       }
 
+      if (includeArchived !== 'true') {
+        filter.archivedAt = null;
+      }
+
       const geofences = await Geofence.find(filter)
-        .populate('assignedVehicles', 'name registrationNumber status')
+        .populate({
+          path: 'assignments',
+          match: validAtFilter(new Date()),
+          populate: { path: 'vehicleId', select: 'name registrationNumber status' },
+        })
         .sort({ name: 1 })
         .exec();
 
@@ -45,6 +74,91 @@ export class GeofenceController {
     }
   }
 
+  /**
+   * GET /api/geofences/assignments/consistency
+   * Contrôle de cohérence des affectations véhicule ↔ zone de l'organisation
+   */
+  async checkAssignments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+
+      const report = await geofenceAssignmentService.checkConsistency(
+        getOrganizationObjectId(organizationId)
+      );
+
+      const response: ApiResponse<AssignmentConsistencyReport> = {
+        success: true,
+        data: report,
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/geofences/import
+   * Importe des zones depuis un fichier GeoJSON, KML ou GPX
+   * dryRun : aperçu et rapport de validation sans création
+   */
+  async importFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+      const { format, content, ...options }: ImportGeofencesInput = req.body;
+
+      const report = await geofenceTransferService.importGeofences(
+        getOrganizationObjectId(organizationId).toString(),
+        format,
+        content,
+        options
+      );
+
+      const response: ApiResponse<ImportReport> = {
+        success: true,
+        data: report,
+      };
+
+      res.status(report.created > 0 ? 201 : 200).json(response);
+    } catch (error) {
+      if (error instanceof GeoFileParseError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/geofences/export?format=&ids=
+   * Exporte les zones de l'organisation (ou une sélection) en fichier téléchargeable
+   */
+  async exportFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+      const { format, ids } = (req as Request & { validatedQuery: ExportGeofencesQueryInput }).validatedQuery;
+
+      const file = await geofenceTransferService.exportGeofences(
+        getOrganizationObjectId(organizationId).toString(),
+        format,
+        ids?.split(',')
+      );
+
+      res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/geofences/:id
    * Récupère une geofence par son ID
@@ -54,7 +168,11 @@ export class GeofenceController {
       const { id } = req.params;
 
       const geofence = await Geofence.findById(id)
-        .populate('assignedVehicles', 'name registrationNumber status location')
+        .populate({
+          path: 'assignments',
+          match: validAtFilter(new Date()),
+          populate: { path: 'vehicleId', select: 'name registrationNumber status location' },
+        })
         .exec();
 
       if (!geofence) {
@@ -91,9 +209,14 @@ export class GeofenceController {
 
       const geofence = new Geofence({
         ...geofenceData,
+        // Cercle sans rayon explicite : rayon par défaut de la configuration
+        ...(geofenceData.shape === GeofenceShape.CIRCLE && {
+          radiusMeters: geofenceData.radiusMeters ?? config.geofencing.defaultRadiusMeters,
+        }),
         organizationId: getOrganizationObjectId(organizationId),
       });
 
+      geofence.setRevisionContext({ changedBy: req.user?._id });
       await geofence.save();
 
       const response: ApiResponse<IGeofenceDocument> = {
@@ -116,11 +239,9 @@ export class GeofenceController {
       const { id } = req.params;
       const updates: UpdateGeofenceInput = req.body;
 
-      const geofence = await Geofence.findByIdAndUpdate(
-        id,
-        { $set: updates },
-        { new: true, runValidators: true }
-      ).exec();
+      // Chargement + save (et non findByIdAndUpdate) : le polygone d'un cercle
+      // est régénéré par le middleware de validation du modèle
+      const geofence = await Geofence.findById(id).exec();
 
       if (!geofence) {
         const response: ApiResponse<null> = {
@@ -134,6 +255,20 @@ export class GeofenceController {
         return;
       }
 
+      geofence.set(updates);
+      if (geofence.shape === GeofenceShape.CIRCLE && geofence.radiusMeters === undefined) {
+        geofence.radiusMeters = config.geofencing.defaultRadiusMeters;
+      }
+      const becomesForbidden =
+        geofence.isModified('mode') && geofence.mode === GeofenceMode.FORBIDDEN;
+      geofence.setRevisionContext({ changedBy: req.user?._id });
+      await geofence.save();
+
+      // Une zone interdite n'autorise plus aucun véhicule
+      if (becomesForbidden) {
+        await geofenceAssignmentService.endForGeofence(geofence._id);
+      }
+
       const response: ApiResponse<IGeofenceDocument> = {
         success: true,
         data: geofence,
@@ -147,13 +282,13 @@ export class GeofenceController {
 
   /**
    * DELETE /api/geofences/:id
-   * Supprime une geofence
+   * Supprime une geofence (son historique de révisions est conservé)
    */
   async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
 
-      const geofence = await Geofence.findByIdAndDelete(id).exec();
+      const geofence = await Geofence.findById(id).exec();
 
       if (!geofence) {
         const response: ApiResponse<null> = {
@@ -167,6 +302,10 @@ export class GeofenceController {
         return;
       }
 
+      await geofenceRevisionService.recordDeletion(geofence, req.user?._id);
+      await geofenceAssignmentService.endForGeofence(geofence._id);
+      await geofence.deleteOne();
+
       const response: ApiResponse<null> = {
         success: true,
       };
@@ -177,6 +316,104 @@ export class GeofenceController {
     }
   }
 
+  /**
+   * GET /api/geofences/:id/revisions
+   * Historique des révisions d'une geofence (plus récente en premier)
+   */
+  async getRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+
+      const revisions = await geofenceRevisionService.listRevisions(
+        req.params.id,
+        getOrganizationObjectId(organizationId)
+      );
+
+      const response: ApiResponse<IGeofenceRevisionDocument[]> = {
+        success: true,
+        data: revisions,
+        meta: {
+          total: revisions.length,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/geofences/:id/revisions/:revision
+   * Détail d'une révision (instantané complet de la zone)
+   */
+  async getRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+      const { id, revision } = req.params as GeofenceRevisionParamsInput;
+
+      const found = await geofenceRevisionService.getRevision(
+        id,
+        Number(revision),
+        getOrganizationObjectId(organizationId)
+      );
+
+      const response: ApiResponse<IGeofenceRevisionDocument> = {
+        success: true,
+        data: found,
+      };
+
+      res.json(response);
+    } catch (error) {
+      this.handleRevisionError(error, res, next);
+    }
+  }
+
+  /**
+   * POST /api/geofences/:id/revisions/:revision/restore
+   * Restaure la définition de la zone telle qu'à cette révision (nouvelle révision créée)
+   */
+  async restoreRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizationId = req.headers['x-organization-id'] as string || DEMO_ORGANIZATION_ID;
+      const { id, revision } = req.params as GeofenceRevisionParamsInput;
+
+      const geofence = await geofenceRevisionService.restoreRevision(
+        id,
+        Number(revision),
+        getOrganizationObjectId(organizationId),
+        req.user?._id
+      );
+
+      const response: ApiResponse<IGeofenceDocument> = {
+        success: true,
+        data: geofence,
+      };
+
+      res.json(response);
+    } catch (error) {
+      this.handleRevisionError(error, res, next);
+    }
+  }
+
+  /**
+   * Révision ou zone introuvable → 404, sinon erreur générique
+   */
+  private handleRevisionError(error: unknown, res: Response, next: NextFunction): void {
+    if (error instanceof GeofenceRevisionNotFoundError) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+    next(error);
+  }
+
   /**
    * GET /api/geofences/:id/vehicles
    * Liste les véhicules actuellement dans une geofence
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { ingestionService, DeviceIngestResult } from '../services/index.js';
+import { ApiResponse } from '../types/index.js';
+import { IngestPositionsInput } from '../validators/schemas.js';
+import { getWebSocketServer } from '../websocket/index.js';
+
+/**
+ * Contrôleur d'ingestion des positions bufferisées par les trackers
+ * Les trackers s'authentifient par leur IMEI et leur secret, lot par lot
+ */
+export class IngestController {
+  /**
+   * POST /api/ingest/positions
+   * Ingère des lots de points horodatés pour plusieurs trackers
+   */
+  async ingestPositions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { devices }: IngestPositionsInput = req.body;
+      const wsServer = getWebSocketServer();
+      const results: DeviceIngestResult[] = [];
+
+      // Traitement séquentiel : un lot peut contenir des milliers de points
+      for (const batch of devices) {
+        const outcome = await ingestionService.ingestDeviceBatch(batch);
+        results.push(outcome.result);
+
+        if (wsServer && outcome.organizationId) {
+          if (outcome.locationUpdate) {
+            wsServer.emitLocationUpdate(outcome.organizationId, outcome.locationUpdate);
+          }
+          for (const alert of outcome.alerts) {
+            wsServer.emitAlert(outcome.organizationId, alert);
+          }
+          for (const alert of outcome.resolvedAlerts) {
+            wsServer.emitAlertUpdate(outcome.organizationId, alert);
+          }
+        }
+      }
+
+      // Aucun tracker reconnu : la requête entière est refusée
+      if (results.every((r) => r.status === 'UNAUTHORIZED')) {
+        const response: ApiResponse<DeviceIngestResult[]> = {
+          success: false,
+          data: results,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Aucun tracker authentifié',
+          },
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const response: ApiResponse<DeviceIngestResult[]> = {
+        success: true,
+        data: results,
+        meta: {
+          total: results.reduce((sum, r) => sum + r.stored, 0),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const ingestController = new IngestController();
+export default ingestController;
@@ -0,0 +1,209 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  organizationService,
+  OrganizationSettings,
+  OrganizationNotFoundError,
+} from '../services/OrganizationService.js';
+import { ApiResponse, VehicleType, RiskFactor } from '../types/index.js';
+import { isValidTimezone } from '../utils/timezone.js';
+import { PublicHoliday } from '../utils/holidays.js';
+
+// ============================================
+// Schémas Zod
+// ============================================
+
+const speedLimitSchema = z.number().min(1, 'Limite minimale : 1 km/h').max(200, 'Limite maximale : 200 km/h');
+
+const riskWeightSchema = z.number().int().min(0).max(100);
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format YYYY-MM-DD requis');
+
+const closurePeriodSchema = z
+  .object({
+    start: dateSchema,
+    end: dateSchema,
+    label: z.string().trim().min(1, 'Libellé requis').max(100),
+  })
+  .refine((closure) => closure.end >= closure.start, {
+    message: 'La fin de la fermeture doit suivre son début',
+    path: ['end'],
+  });
+
+const HolidaysQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(2200).default(() => new Date().getFullYear()),
+});
+
+const UpdateSettingsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, 'Fuseau horaire IANA invalide').optional(),
+  speedLimits: z
+    .object(
+      Object.fromEntries(
+        Object.values(VehicleType).map((type) => [type, speedLimitSchema.optional()])
+      ) as Record<VehicleType, z.ZodOptional<typeof speedLimitSchema>>
+    )
+    .strict()
+    .optional(),
+  speedViolationDelaySeconds: z.number().int().min(0).max(600).optional(),
+  batteryLowThreshold: z.number().int().min(1).max(99).optional(),
+  externalVoltageLowThreshold: z.number().min(0).max(60).nullable().optional(),
+  towingDistanceMeters: z.number().int().min(20).max(5000).optional(),
+  siteGeofenceRadiusMeters: z.number().int().min(10).max(50000).optional(),
+  theftRisk: z
+    .object({
+      windowMinutes: z.number().int().min(5).max(1440).optional(),
+      alertThreshold: z.number().int().min(1).max(100).optional(),
+      deliveryRadiusMeters: z.number().min(100).max(100000).optional(),
+      weights: z
+        .object(
+          Object.fromEntries(
+            Object.values(RiskFactor).map((factor) => [factor, riskWeightSchema.optional()])
+          ) as Record<RiskFactor, z.ZodOptional<typeof riskWeightSchema>>
+        )
+        .strict()
+        .optional(),
+    })
+    .optional(),
+  calendar: z
+    .object({
+      publicHolidays: z.boolean().optional(),
+      closures: z.array(closurePeriodSchema).max(100).optional(),
+    })
+    .optional(),
+});
+
+// ============================================
+// Helper
+// ============================================
+
+function handleServiceError(
+  error: unknown,
+  res: Response,
+  next: NextFunction
+): void {
+  if (error instanceof OrganizationNotFoundError) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { code: error.code, message: error.message },
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  next(error);
+}
+
+// ============================================
+// Contrôleur
+// ============================================
+
+/**
+ * Contrôleur des paramètres de l'organisation de l'utilisateur
+ * Architecture : Controller → Service → Model
+ */
+export class OrganizationController {
+  /**
+   * GET /api/organization/settings
+   * Paramètres de l'organisation courante
+   */
+  async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const settings = await organizationService.getSettings(organizationId);
+
+      const response: ApiResponse<OrganizationSettings> = {
+        success: true,
+        data: settings,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * PATCH /api/organization/settings
+   * Met à jour les paramètres de l'organisation courante
+   */
+  async updateSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentification requise' },
+        });
+        return;
+      }
+
+      const parseResult = UpdateSettingsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Paramètres invalides',
+            details: parseResult.error.flatten().fieldErrors as Record<string, string[]>,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const organizationId = req.user.organizationId.toString();
+      const settings = await organizationService.updateSettings(organizationId, parseResult.data);
+
+      const response: ApiResponse<OrganizationSettings> = {
+        success: true,
+        data: settings,
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+
+  /**
+   * GET /api/organization/holidays?year=
+   * Jours fériés français d'une année (année en cours par défaut)
+   */
+  async getHolidays(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parseResult = HolidaysQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Année invalide',
+            details: parseResult.error.flatten().fieldErrors as Record<string, string[]>,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ApiResponse<PublicHoliday[]> = {
+        success: true,
+        data: organizationService.getPublicHolidays(parseResult.data.year),
+      };
+
+      res.json(response);
+    } catch (error) {
+      handleServiceError(error, res, next);
+    }
+  }
+}
+
+export const organizationController = new OrganizationController();
+
+export default organizationController;
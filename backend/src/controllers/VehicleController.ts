@@ -1,13 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
-import { vehicleService, locationService, alertService } from '../services/index.js';
-import { ApiResponse, VehicleStatus } from '../types/index.js';
-import { IVehicleDocument } from '../models/index.js';
+import {
+  vehicleService,
+  locationService,
+  alertService,
+  positionService,
+  tripService,
+  theftRiskService,
+  ingestionService,
+  geofenceAssignmentService,
+  GeofenceAssignmentNotFoundError,
+  GeofenceAssignmentValidationError,
+  VehicleTrack,
+  TripSegmentation,
+} from '../services/index.js';
+import { ApiResponse, VehicleStatus, PositionRejectionReason } from '../types/index.js';
+import {
+  IVehicleDocument,
+  IRiskScoreDocument,
+  IGeofenceAssignmentDocument,
+} from '../models/index.js';
 import {
   CreateVehicleInput,
   UpdateVehicleInput,
   UpdateVehicleLocationInput,
   VehicleQueryInput,
+  PositionsQueryInput,
+  TripsQueryInput,
+  RiskHistoryQueryInput,
+  AssignGeofenceInput,
 } from '../validators/schemas.js';
+import { getWebSocketServer } from '../websocket/index.js';
 import { DEMO_ORGANIZATION_ID } from '../config/index.js';
 
 /**
@@ -141,7 +163,6 @@ export class VehicleController {
         organizationId,
         status: VehicleStatus.DISPONIBLE,
         lastLocationUpdate: new Date(),
-        assignedGeofences: [],
       });
 
       const response: ApiResponse<IVehicleDocument> = {
@@ -192,35 +213,140 @@ export class VehicleController {
   /**
    * PATCH /api/vehicles/:id/location
    * Met à jour la position d'un véhicule (appelé par le tracker GPS)
-   * Vérifie automatiquement les violations de geofence
+   * Même traitement que les trackers connectés : filtrage GPS, règles de zone,
+   * diffusion temps réel de la position et des alertes
    */
   async updateLocation(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const locationData: UpdateVehicleLocationInput = req.body;
 
-      // Utiliser le LocationService pour la mise à jour + détection d'alertes
-      const result = await locationService.updateVehicleLocation(id, locationData.location);
-
-      // Si des alertes ont été détectées, les créer
-      for (const alertData of result.alerts) {
-        await alertService.createAlert(
-          id,
-          alertData.type,
-          alertData.severity,
-          alertData.message,
-          locationData.location
-        );
-      }
+      const outcome = await ingestionService.ingestLiveFix({ ...locationData, vehicleId: id });
+      getWebSocketServer()?.emitLiveFix(outcome);
 
       const response: ApiResponse<{
-        vehicle: IVehicleDocument;
+        vehicle: IVehicleDocument | null;
+        accepted: boolean;
+        rejectionReason?: PositionRejectionReason;
         alertsTriggered: number;
       }> = {
         success: true,
         data: {
-          vehicle: result.vehicle,
-          alertsTriggered: result.alerts.length,
+          vehicle: outcome.vehicle ?? null,
+          accepted: outcome.accepted,
+          rejectionReason: outcome.rejectionReason,
+          alertsTriggered: outcome.alerts.length,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/vehicles/:id/positions?from=&to=
+   * Historique des positions pour la relecture de trajet (GeoJSON FeatureCollection)
+   */
+  async getPositions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { from, to } = (req as Request & { validatedQuery: PositionsQueryInput }).validatedQuery;
+
+      const vehicle = await vehicleService.getVehicleById(id);
+
+      if (!vehicle) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Véhicule non trouvé',
+          },
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const track = await positionService.getTrack(id, from, to);
+
+      const response: ApiResponse<VehicleTrack> = {
+        success: true,
+        data: track,
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/vehicles/:id/trips?from=&to=
+   * Segmentation de l'historique en trajets et arrêts
+   */
+  async getTrips(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { from, to } = (req as Request & { validatedQuery: TripsQueryInput }).validatedQuery;
+
+      const vehicle = await vehicleService.getVehicleById(id);
+
+      if (!vehicle) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Véhicule non trouvé',
+          },
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const result = await tripService.getTrips(id, from, to);
+
+      const response: ApiResponse<TripSegmentation> = {
+        success: true,
+        data: result,
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/vehicles/:id/risk?from=&to=
+   * Historique du score de risque de vol (facteurs contributifs inclus)
+   */
+  async getRiskHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { from, to } = (req as Request & { validatedQuery: RiskHistoryQueryInput }).validatedQuery;
+
+      const vehicle = await vehicleService.getVehicleById(id);
+
+      if (!vehicle) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Véhicule non trouvé',
+          },
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const history = await theftRiskService.getRiskHistory(id, from, to);
+
+      const response: ApiResponse<IRiskScoreDocument[]> = {
+        success: true,
+        data: history,
+        meta: {
+          total: history.length,
         },
       };
 
@@ -264,15 +390,44 @@ export class VehicleController {
     }
   }
 
+  /**
+   * GET /api/vehicles/:id/geofences
+   * Historique des affectations de zones du véhicule (en cours, passées et planifiées)
+   */
+  async getGeofenceAssignments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const assignments = await geofenceAssignmentService.listForVehicle(id);
+
+      const response: ApiResponse<IGeofenceAssignmentDocument[]> = {
+        success: true,
+        data: assignments,
+        meta: {
+          total: assignments.length,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/vehicles/:id/geofences/:geofenceId
-   * Assigne une geofence à un véhicule
+   * Assigne une geofence à un véhicule, éventuellement sur une période (validFrom / validTo)
    */
   async assignGeofence(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id, geofenceId } = req.params;
+      const { validFrom, validTo }: AssignGeofenceInput = req.body ?? {};
 
-      const vehicle = await vehicleService.assignGeofence(id, geofenceId);
+      const vehicle = await vehicleService.assignGeofence(id, geofenceId, {
+        validFrom,
+        validTo,
+        createdBy: req.user?._id,
+      });
 
       if (!vehicle) {
         const response: ApiResponse<null> = {
@@ -293,7 +448,7 @@ export class VehicleController {
 
       res.json(response);
     } catch (error) {
-      next(error);
+      this.handleAssignmentError(error, res, next);
     }
   }
 
@@ -330,6 +485,27 @@ export class VehicleController {
     }
   }
 
+  /**
+   * Véhicule ou zone introuvable → 404, période ou organisation invalide → 400
+   */
+  private handleAssignmentError(error: unknown, res: Response, next: NextFunction): void {
+    if (
+      error instanceof GeofenceAssignmentNotFoundError ||
+      error instanceof GeofenceAssignmentValidationError
+    ) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      };
+      res.status(error instanceof GeofenceAssignmentNotFoundError ? 404 : 400).json(response);
+      return;
+    }
+    next(error);
+  }
+
   /**
    * DELETE /api/vehicles/:id
    * Supprime (soft delete) un véhicule
@@ -5,3 +5,6 @@ export { AuthController, authController } from './AuthController.js';
 export { UserController, userController } from './UserController.js';
 export { ContractController, contractController } from './ContractController.js';
 export { ClientController, clientController } from './ClientController.js';
+export { DeviceController, deviceController } from './DeviceController.js';
+export { IngestController, ingestController } from './IngestController.js';
+export { OrganizationController, organizationController } from './OrganizationController.js';
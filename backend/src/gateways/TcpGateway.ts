@@ -0,0 +1,201 @@
+import net from 'net';
+import { deviceService } from '../services/index.js';
+import { getWebSocketServer } from '../websocket/index.js';
+import {
+  TrackerLocationInput,
+  AlertType,
+  AlertSeverity,
+  GeoJSONPoint,
+  PositionTelemetry,
+} from '../types/index.js';
+
+/**
+ * Traitement d'une position décodée (diffusion temps réel + alertes)
+ */
+export type LocationHandler = (data: TrackerLocationInput) => Promise<void>;
+
+/**
+ * Alarme remontée directement par un boîtier (coupure d'alimentation, batterie...)
+ */
+export interface TrackerAlarm {
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+}
+
+export type AlarmHandler = (
+  vehicleId: string,
+  alarm: TrackerAlarm,
+  location: GeoJSONPoint,
+  at: Date
+) => Promise<void>;
+
+/**
+ * Relevé d'état sans position (heartbeat : batterie, contact)
+ */
+export type TelemetryHandler = (
+  vehicleId: string,
+  telemetry: PositionTelemetry,
+  at: Date
+) => Promise<void>;
+
+/**
+ * Résultat d'un décodage sur un flux TCP (null si la trame est incomplète)
+ */
+export interface DecodeResult<T> {
+  value: T;
+  bytesRead: number;
+}
+
+/**
+ * Erreur de décodage d'une trame : la connexion est fermée
+ */
+export class TrackerProtocolError extends Error {
+  readonly code: string = 'TRACKER_PROTOCOL_ERROR';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackerProtocolError';
+  }
+}
+
+/**
+ * État d'une connexion boîtier
+ */
+export interface ConnectionState {
+  trackerId: string | null;
+  vehicleId: string | null;
+  buffer: Buffer;
+  processing: boolean;
+}
+
+// Déconnexion d'un boîtier silencieux (les boîtiers se reconnectent seuls)
+const SOCKET_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Base commune des passerelles TCP trackers
+ *
+ * Gère l'écoute, le découpage du flux TCP et la sérialisation des trames
+ * d'une même connexion. Chaque protocole implémente `consumeFrame`.
+ */
+export abstract class TcpGateway<S extends ConnectionState = ConnectionState> {
+  protected abstract readonly protocol: string;
+  protected server: net.Server;
+  private readonly sockets = new Set<net.Socket>();
+
+  constructor(protected readonly onLocation: LocationHandler) {
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Démarre l'écoute TCP
+   */
+  start(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, () => {
+        this.server.off('error', reject);
+        console.log(`[${this.protocol}] Passerelle TCP en écoute sur le port ${port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Arrête l'écoute et ferme les connexions en cours
+   * Les sockets sont détruites : un boîtier qui émet en continu ne serait jamais inactif
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
+    });
+  }
+
+  /**
+   * Crée l'état initial d'une connexion
+   */
+  protected abstract createState(): S;
+
+  /**
+   * Décode et traite une trame en tête de `state.buffer`
+   * @returns false si la trame est incomplète ou si la connexion doit s'arrêter
+   */
+  protected abstract consumeFrame(socket: net.Socket, state: S): Promise<boolean>;
+
+  private handleConnection(socket: net.Socket): void {
+    const state = this.createState();
+
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    socket.setTimeout(SOCKET_IDLE_TIMEOUT_MS);
+    socket.on('timeout', () => socket.destroy());
+    socket.on('error', (error) => {
+      console.error(
+        `[${this.protocol}] Erreur socket ${state.trackerId ?? socket.remoteAddress}:`,
+        error.message
+      );
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      state.buffer = Buffer.concat([state.buffer, chunk]);
+      void this.processBuffer(socket, state);
+    });
+  }
+
+  /**
+   * Consomme le buffer de la connexion trame par trame
+   * Les trames d'une même connexion sont traitées séquentiellement
+   */
+  private async processBuffer(socket: net.Socket, state: S): Promise<void> {
+    if (state.processing) return;
+    state.processing = true;
+
+    try {
+      while (state.buffer.length > 0 && !socket.destroyed) {
+        const consumed = await this.consumeFrame(socket, state);
+        if (!consumed) break;
+      }
+    } catch (error) {
+      if (error instanceof TrackerProtocolError) {
+        console.warn(
+          `[${this.protocol}] Trame invalide (${state.trackerId ?? 'tracker inconnu'}): ${error.message}`
+        );
+      } else {
+        console.error(`[${this.protocol}] Erreur de traitement:`, error);
+      }
+      socket.destroy();
+    } finally {
+      state.processing = false;
+    }
+  }
+
+  /**
+   * Transmet une position au pipeline de localisation
+   * Une position en erreur ne doit pas bloquer l'acquittement de la trame
+   */
+  protected async dispatchLocation(state: S, data: Omit<TrackerLocationInput, 'vehicleId'>): Promise<void> {
+    try {
+      await this.onLocation({ vehicleId: state.vehicleId!, ...data });
+      await this.touch(state);
+    } catch (error) {
+      console.error(
+        `[${this.protocol}] Erreur de mise à jour de position (${state.trackerId}):`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Enregistre l'activité du tracker ; la résolution de son alerte hors ligne est diffusée
+   */
+  protected async touch(state: S): Promise<void> {
+    const resolvedAlerts = await deviceService.touch(state.trackerId!);
+    getWebSocketServer()?.emitAlertUpdates(resolvedAlerts);
+  }
+}
+
+export default TcpGateway;
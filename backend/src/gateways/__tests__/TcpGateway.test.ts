@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { TcpGateway, ConnectionState } from '../TcpGateway.js';
+
+// ============================================
+// Arrêt d'une passerelle avec des boîtiers connectés
+// ============================================
+
+class IdleGateway extends TcpGateway {
+  protected readonly protocol = 'Test';
+
+  protected createState(): ConnectionState {
+    return { trackerId: null, vehicleId: null, buffer: Buffer.alloc(0), processing: false };
+  }
+
+  protected async consumeFrame(): Promise<boolean> {
+    return false;
+  }
+
+  port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+}
+
+describe('TcpGateway.stop', () => {
+  it('ferme les connexions en cours au lieu d\'attendre leur inactivité', async () => {
+    const gateway = new IdleGateway(async () => {});
+    await gateway.start(0);
+
+    const client = net.connect(gateway.port(), '127.0.0.1');
+    await new Promise<void>((resolve) => client.once('connect', () => resolve()));
+    const closed = new Promise<void>((resolve) => client.once('close', () => resolve()));
+    client.on('error', () => {});
+
+    const stopped = await Promise.race([
+      gateway.stop().then(() => true),
+      new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 2000)),
+    ]);
+
+    expect(stopped).toBe(true);
+    await closed;
+    client.destroy();
+  });
+});
@@ -0,0 +1,244 @@
+import net from 'net';
+import { deviceService } from '../../services/index.js';
+import { AlertType, AlertSeverity } from '../../types/index.js';
+import {
+  TcpGateway,
+  ConnectionState,
+  LocationHandler,
+  AlarmHandler,
+  TelemetryHandler,
+  TrackerAlarm,
+} from '../TcpGateway.js';
+import {
+  decodeFrame,
+  encodeResponse,
+  decodeLogin,
+  decodeGps,
+  decodeStatus,
+  decodeAlarm,
+  decodeExtendedLocation,
+  Gt06Gps,
+  Gt06Status,
+  GT06_PROTOCOL,
+  GT06_ALARM,
+} from './codec.js';
+
+/**
+ * État d'une connexion GT06
+ * Les paquets GPS ne portent pas la batterie : on reprend celle du dernier heartbeat
+ */
+interface Gt06ConnectionState extends ConnectionState {
+  batteryLevel?: number;
+  ignition?: boolean;
+}
+
+/**
+ * Passerelle TCP pour les trackers GT06 / Concox (remorques, groupes électrogènes)
+ *
+ * DÉROULEMENT D'UNE SESSION:
+ * 1. Login (0x01) avec l'IMEI → réponse si le tracker est enregistré et affecté, sinon fermeture
+ * 2. Positions GPS/LBS (0x12, 0x22), sans réponse
+ * 3. Heartbeat (0x13) avec état batterie/ACC → réponse + enregistrement de la batterie
+ *    (seuil d'alerte BATTERY_LOW comme pour une position)
+ * 4. Alarmes (0x16) avec position → réponse + création d'alerte
+ */
+export class Gt06Gateway extends TcpGateway<Gt06ConnectionState> {
+  protected readonly protocol = 'GT06';
+
+  constructor(
+    onLocation: LocationHandler,
+    private readonly onAlarm: AlarmHandler,
+    private readonly onTelemetry: TelemetryHandler
+  ) {
+    super(onLocation);
+  }
+
+  protected createState(): Gt06ConnectionState {
+    return {
+      trackerId: null,
+      vehicleId: null,
+      buffer: Buffer.alloc(0),
+      processing: false,
+    };
+  }
+
+  protected async consumeFrame(socket: net.Socket, state: Gt06ConnectionState): Promise<boolean> {
+    const result = decodeFrame(state.buffer);
+    if (!result) return false;
+
+    state.buffer = state.buffer.subarray(result.bytesRead);
+    const { protocol, serial, content } = result.value;
+
+    if (protocol === GT06_PROTOCOL.LOGIN) {
+      return this.handleLogin(socket, state, decodeLogin(content), serial);
+    }
+
+    // Aucun paquet accepté avant le login
+    if (!state.trackerId) {
+      console.warn('[GT06] Paquet reçu avant login, connexion fermée');
+      socket.destroy();
+      return false;
+    }
+
+    switch (protocol) {
+      case GT06_PROTOCOL.GPS_LBS:
+        await this.handleGps(state, decodeGps(content));
+        break;
+
+      case GT06_PROTOCOL.GPS_LBS_EXTENDED: {
+        const { gps, ignition } = decodeExtendedLocation(content);
+        if (ignition !== undefined) state.ignition = ignition;
+        await this.handleGps(state, gps);
+        break;
+      }
+
+      case GT06_PROTOCOL.STATUS:
+        await this.handleHeartbeat(state, decodeStatus(content));
+        // Un engin stationné n'émet que des heartbeats : le tracker reste en ligne
+        await this.touch(state);
+        socket.write(encodeResponse(protocol, serial));
+        break;
+
+      case GT06_PROTOCOL.ALARM: {
+        const { gps, status } = decodeAlarm(content);
+        this.updateStatus(state, status);
+        await this.handleGps(state, gps);
+        await this.handleAlarm(state, gps, status);
+        socket.write(encodeResponse(protocol, serial));
+        break;
+      }
+
+      default:
+        // Paquets non exploités (LBS seul, infos, réponses de commandes...)
+        break;
+    }
+
+    return true;
+  }
+
+  private async handleLogin(
+    socket: net.Socket,
+    state: Gt06ConnectionState,
+    imei: string,
+    serial: number
+  ): Promise<boolean> {
+    // Seuls les trackers enregistrés, actifs et affectés à un véhicule sont acceptés
+    const tracker = await deviceService.resolveTracker(imei);
+
+    if (!tracker) {
+      // Le protocole ne prévoit pas de refus : on ne répond pas et on ferme
+      console.warn(`[GT06] IMEI inconnu refusé: ${imei}`);
+      socket.destroy();
+      return false;
+    }
+
+    state.trackerId = imei;
+    state.vehicleId = tracker.vehicleId;
+    socket.write(encodeResponse(GT06_PROTOCOL.LOGIN, serial));
+    return true;
+  }
+
+  private updateStatus(state: Gt06ConnectionState, status: Gt06Status): void {
+    state.batteryLevel = status.batteryLevel;
+    state.ignition = status.ignition;
+  }
+
+  /**
+   * Enregistre la batterie d'un heartbeat (un engin remorqué ou stationné
+   * n'émet souvent que des heartbeats)
+   * Une erreur ne doit pas bloquer l'acquittement de la trame
+   */
+  private async handleHeartbeat(state: Gt06ConnectionState, status: Gt06Status): Promise<void> {
+    this.updateStatus(state, status);
+
+    try {
+      await this.onTelemetry(state.vehicleId!, { batteryLevel: status.batteryLevel }, new Date());
+    } catch (error) {
+      console.error(`[GT06] Erreur d'enregistrement du heartbeat (${state.trackerId}):`, error);
+    }
+  }
+
+  /**
+   * Transmet une position GPS au pipeline de localisation
+   */
+  private async handleGps(state: Gt06ConnectionState, gps: Gt06Gps): Promise<void> {
+    // Pas de fix GPS (position LBS seule) : rien à enregistrer
+    if (!gps.positioned) {
+      return;
+    }
+
+    await this.dispatchLocation(state, {
+      location: {
+        type: 'Point',
+        coordinates: [gps.longitude, gps.latitude],
+      },
+      timestamp: gps.timestamp,
+      speed: gps.speed,
+      heading: gps.course,
+      satellites: gps.satellites,
+      batteryLevel: state.batteryLevel,
+      ignition: state.ignition,
+    });
+  }
+
+  /**
+   * Convertit une alarme boîtier en alerte plateforme
+   */
+  private async handleAlarm(
+    state: Gt06ConnectionState,
+    gps: Gt06Gps,
+    status: Gt06Status
+  ): Promise<void> {
+    const alarm = toTrackerAlarm(status);
+    if (!alarm) return;
+
+    try {
+      await this.onAlarm(
+        state.vehicleId!,
+        alarm,
+        { type: 'Point', coordinates: [gps.longitude, gps.latitude] },
+        gps.timestamp
+      );
+    } catch (error) {
+      console.error(`[GT06] Erreur de création d'alerte (${state.trackerId}):`, error);
+    }
+  }
+}
+
+/**
+ * Correspondance alarme GT06 → type d'alerte plateforme
+ * Coupure et déplacement ne lèvent pas directement de vol potentiel :
+ * ce sont des signaux du score de risque (TheftRiskService)
+ */
+function toTrackerAlarm(status: Gt06Status): TrackerAlarm | null {
+  switch (status.alarm) {
+    case GT06_ALARM.POWER_CUT:
+      return {
+        type: AlertType.TRACKER_POWER_CUT,
+        severity: AlertSeverity.WARNING,
+        message: "Coupure de l'alimentation du tracker GPS",
+      };
+    case GT06_ALARM.DISPLACEMENT:
+      return {
+        type: AlertType.TOWING_DETECTED,
+        severity: AlertSeverity.WARNING,
+        message: 'Déplacement détecté par le tracker GPS (alarme boîtier)',
+      };
+    case GT06_ALARM.OVERSPEED:
+      return {
+        type: AlertType.SPEED_EXCEEDED,
+        severity: AlertSeverity.WARNING,
+        message: 'Excès de vitesse signalé par le tracker GPS',
+      };
+    case GT06_ALARM.LOW_BATTERY:
+      return {
+        type: AlertType.BATTERY_LOW,
+        severity: AlertSeverity.WARNING,
+        message: `Batterie du tracker GPS faible (${status.batteryLevel}%)`,
+      };
+    default:
+      return null;
+  }
+}
+
+export default Gt06Gateway;
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { deviceService } from '../../../services/index.js';
+import { Gt06Gateway } from '../Gt06Gateway.js';
+import { crcItu, GT06_PROTOCOL } from '../codec.js';
+
+// ============================================
+// Heartbeat : la batterie suit le pipeline d'alimentation
+// ============================================
+
+// Login : IMEI 123456789012345, série 1
+const LOGIN_FRAME = '78780D01012345678901234500018CDD0D0A';
+
+/**
+ * Trame courte : 7878 | longueur | protocole | contenu | série | CRC | 0D0A
+ */
+function frame(protocol: number, content: Buffer, serial: number): Buffer {
+  const body = Buffer.concat([
+    Buffer.from([content.length + 5, protocol]),
+    content,
+    Buffer.from([serial >> 8, serial & 0xff]),
+  ]);
+  const crc = Buffer.alloc(2);
+  crc.writeUInt16BE(crcItu(body));
+  return Buffer.concat([Buffer.from([0x78, 0x78]), body, crc, Buffer.from([0x0d, 0x0a])]);
+}
+
+describe('Gt06Gateway (heartbeat)', () => {
+  let gateway: Gt06Gateway | undefined;
+
+  afterEach(async () => {
+    await gateway?.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('transmet le niveau de batterie du heartbeat au pipeline d\'alimentation', async () => {
+    vi.spyOn(deviceService, 'resolveTracker').mockResolvedValue({
+      vehicleId: 'vehicle-1',
+    } as never);
+    const touch = vi.spyOn(deviceService, 'touch').mockResolvedValue([]);
+    const onTelemetry = vi.fn(async () => {});
+    gateway = new Gt06Gateway(async () => {}, async () => {}, onTelemetry);
+    await gateway.start(0);
+
+    const port = (gateway['server'].address() as AddressInfo).port;
+    const client = net.connect(port, '127.0.0.1');
+    client.on('error', () => {});
+    let received = Buffer.alloc(0);
+    const heartbeatAck = new Promise<void>((resolve) => {
+      client.on('data', (data: Buffer) => {
+        received = Buffer.concat([received, data]);
+        // Acquittements de 10 octets : le protocole est le 4e octet
+        for (let i = 0; i + 10 <= received.length; i += 10) {
+          if (received[i + 3] === GT06_PROTOCOL.STATUS) resolve();
+        }
+      });
+    });
+
+    client.write(Buffer.from(LOGIN_FRAME, 'hex'));
+    // Info terminal (ACC coupé), niveau de tension 2 (15 %), GSM 4, pas d'alarme, langue
+    client.write(frame(GT06_PROTOCOL.STATUS, Buffer.from([0x40, 0x02, 0x04, 0x00, 0x02]), 2));
+    await heartbeatAck;
+    client.destroy();
+
+    expect(onTelemetry).toHaveBeenCalledWith('vehicle-1', { batteryLevel: 15 }, expect.any(Date));
+    expect(touch).toHaveBeenCalledWith('123456789012345');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeFrame,
+  decodeGps,
+  decodeLogin,
+  encodeResponse,
+  GT06_PROTOCOL,
+  Gt06ProtocolError,
+} from '../codec.js';
+
+// ============================================
+// Trames enregistrées (documentation Concox GT06)
+// ============================================
+
+// Login : terminal 0123456789012345, série 1
+const LOGIN_FRAME = '78780D01012345678901234500018CDD0D0A';
+const LOGIN_ACK = '787805010001D9DC0D0A';
+
+// Position GPS + LBS (0x12) : 29/08/2011 17:46:16, 15 satellites, 23.11°N 114.41°E, cap 143°
+const GPS_FRAME = '78781F120B081D112E10CF027AC7EB0C46584900148F01CC00287D001FB8000380810D0A';
+
+const hex = (value: string): Buffer => Buffer.from(value, 'hex');
+
+describe('decodeFrame', () => {
+  it('décode une trame de login', () => {
+    const result = decodeFrame(hex(LOGIN_FRAME));
+
+    expect(result?.bytesRead).toBe(LOGIN_FRAME.length / 2);
+    expect(result?.value.protocol).toBe(GT06_PROTOCOL.LOGIN);
+    expect(result?.value.serial).toBe(1);
+    expect(decodeLogin(result!.value.content)).toBe('123456789012345');
+  });
+
+  it('décode une trame de position GPS', () => {
+    const result = decodeFrame(hex(GPS_FRAME));
+
+    expect(result?.value.protocol).toBe(GT06_PROTOCOL.GPS_LBS);
+    expect(result?.value.serial).toBe(3);
+
+    const gps = decodeGps(result!.value.content);
+    expect(gps.timestamp.toISOString()).toBe('2011-08-29T17:46:16.000Z');
+    expect(gps.satellites).toBe(15);
+    expect(gps.latitude).toBeCloseTo(23.111668, 6);
+    expect(gps.longitude).toBeCloseTo(114.409285, 6);
+    expect(gps.speed).toBe(0);
+    expect(gps.course).toBe(143);
+    expect(gps.positioned).toBe(true);
+  });
+
+  it('rejette une trame dont le CRC ne correspond pas', () => {
+    const frame = hex(LOGIN_FRAME);
+    frame[frame.length - 3] ^= 0xff;
+
+    expect(() => decodeFrame(frame)).toThrow(Gt06ProtocolError);
+  });
+
+  it('attend la suite d\'une trame partielle', () => {
+    expect(decodeFrame(hex(GPS_FRAME).subarray(0, 20))).toBeNull();
+  });
+});
+
+describe('encodeResponse', () => {
+  it('encode l\'acquittement du login', () => {
+    expect(encodeResponse(GT06_PROTOCOL.LOGIN, 1).toString('hex').toUpperCase()).toBe(LOGIN_ACK);
+  });
+});
@@ -0,0 +1,271 @@
+import { TrackerProtocolError, DecodeResult } from '../TcpGateway.js';
+
+/**
+ * Décodeur du protocole GT06 / Concox (trackers bas coût sur batterie)
+ *
+ * Fonctions pures opérant sur des Buffers, sans dépendance réseau.
+ *
+ * FORMAT D'UNE TRAME:
+ * | Start (2) 0x7878 | Longueur (1) | Protocole (1) | Contenu (N) | Série (2) | CRC (2) | Stop (2) 0x0D0A |
+ * Variante longue : start 0x7979 et longueur sur 2 octets.
+ *
+ * La longueur couvre protocole + contenu + série + CRC.
+ * Le CRC-ITU est calculé de la longueur jusqu'au numéro de série inclus.
+ */
+
+// ============================================
+// Constantes du protocole
+// ============================================
+
+export const GT06_PROTOCOL = {
+  LOGIN: 0x01,
+  GPS_LBS: 0x12,
+  STATUS: 0x13, // Heartbeat
+  ALARM: 0x16,
+  GPS_LBS_EXTENDED: 0x22, // GT06N / Concox récents
+} as const;
+
+/**
+ * Codes d'alarme (octet d'alarme des paquets 0x16)
+ */
+export const GT06_ALARM = {
+  SOS: 0x01,
+  POWER_CUT: 0x02,
+  VIBRATION: 0x03,
+  OVERSPEED: 0x06,
+  DISPLACEMENT: 0x09,
+  LOW_BATTERY: 0x0e,
+} as const;
+
+const START_SHORT = 0x7878;
+const START_LONG = 0x7979;
+const STOP = 0x0d0a;
+
+// Niveau de tension (0-6) → pourcentage de batterie approximatif
+const VOLTAGE_LEVEL_PERCENT = [0, 5, 15, 30, 55, 80, 100];
+
+// Taille de l'élément GPS (date 6 + satellites 1 + lat 4 + lng 4 + vitesse 1 + cap/état 2)
+const GPS_ELEMENT_LENGTH = 18;
+
+// Taille de l'élément LBS sans octet de longueur (MCC 2 + MNC 1 + LAC 2 + Cell ID 3)
+const LBS_ELEMENT_LENGTH = 8;
+
+// ============================================
+// Types
+// ============================================
+
+export interface Gt06Frame {
+  protocol: number;
+  serial: number;
+  content: Buffer;
+}
+
+export interface Gt06Gps {
+  timestamp: Date;
+  satellites: number;
+  latitude: number;
+  longitude: number;
+  speed: number; // km/h
+  course: number; // degrés
+  positioned: boolean;
+}
+
+export interface Gt06Status {
+  ignition: boolean; // ACC
+  batteryLevel: number; // %
+  gsmSignal: number; // 0-4
+  alarm: number; // Code d'alarme (GT06_ALARM), 0 si aucune
+}
+
+export class Gt06ProtocolError extends TrackerProtocolError {
+  readonly code = 'GT06_PROTOCOL_ERROR';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'Gt06ProtocolError';
+  }
+}
+
+// ============================================
+// Trames
+// ============================================
+
+/**
+ * Découpe une trame GT06 en tête de buffer et vérifie son CRC
+ */
+export function decodeFrame(buffer: Buffer): DecodeResult<Gt06Frame> | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+
+  const start = buffer.readUInt16BE(0);
+  if (start !== START_SHORT && start !== START_LONG) {
+    throw new Gt06ProtocolError(`Bits de start invalides: 0x${start.toString(16)}`);
+  }
+
+  const headerLength = start === START_SHORT ? 3 : 4;
+  if (buffer.length < headerLength) {
+    return null;
+  }
+
+  const length = start === START_SHORT ? buffer.readUInt8(2) : buffer.readUInt16BE(2);
+  if (length < 5) {
+    throw new Gt06ProtocolError(`Longueur de trame invalide: ${length}`);
+  }
+
+  const totalLength = headerLength + length + 2;
+  if (buffer.length < totalLength) {
+    return null;
+  }
+
+  if (buffer.readUInt16BE(totalLength - 2) !== STOP) {
+    throw new Gt06ProtocolError('Bits de stop invalides');
+  }
+
+  const crcOffset = headerLength + length - 2;
+  const expectedCrc = buffer.readUInt16BE(crcOffset);
+  const actualCrc = crcItu(buffer.subarray(2, crcOffset));
+  if (expectedCrc !== actualCrc) {
+    throw new Gt06ProtocolError(
+      `CRC invalide (attendu ${expectedCrc.toString(16)}, calculé ${actualCrc.toString(16)})`
+    );
+  }
+
+  return {
+    value: {
+      protocol: buffer.readUInt8(headerLength),
+      serial: buffer.readUInt16BE(crcOffset - 2),
+      content: buffer.subarray(headerLength + 1, crcOffset - 2),
+    },
+    bytesRead: totalLength,
+  };
+}
+
+/**
+ * Réponse serveur attendue par le boîtier (login, heartbeat, alarme)
+ */
+export function encodeResponse(protocol: number, serial: number): Buffer {
+  const response = Buffer.alloc(10);
+  response.writeUInt16BE(START_SHORT, 0);
+  response.writeUInt8(0x05, 2);
+  response.writeUInt8(protocol, 3);
+  response.writeUInt16BE(serial, 4);
+  response.writeUInt16BE(crcItu(response.subarray(2, 6)), 6);
+  response.writeUInt16BE(STOP, 8);
+  return response;
+}
+
+// ============================================
+// Contenus
+// ============================================
+
+/**
+ * Paquet de login : identifiant terminal en BCD sur 8 octets (IMEI préfixé de 0)
+ */
+export function decodeLogin(content: Buffer): string {
+  ensureLength(content, 8, 'login');
+  return content.subarray(0, 8).toString('hex').replace(/^0/, '');
+}
+
+/**
+ * Élément GPS commun aux paquets de position et d'alarme
+ */
+export function decodeGps(content: Buffer, offset = 0): Gt06Gps {
+  ensureLength(content, offset + GPS_ELEMENT_LENGTH, 'GPS');
+
+  const timestamp = new Date(Date.UTC(
+    2000 + content.readUInt8(offset),
+    content.readUInt8(offset + 1) - 1,
+    content.readUInt8(offset + 2),
+    content.readUInt8(offset + 3),
+    content.readUInt8(offset + 4),
+    content.readUInt8(offset + 5)
+  ));
+
+  const satellites = content.readUInt8(offset + 6) & 0x0f;
+  // Coordonnées en 1/30000 de minute
+  let latitude = content.readUInt32BE(offset + 7) / 30000 / 60;
+  let longitude = content.readUInt32BE(offset + 11) / 30000 / 60;
+  const speed = content.readUInt8(offset + 15);
+  const courseStatus = content.readUInt16BE(offset + 16);
+
+  // Bit 10 : latitude Nord, bit 11 : longitude Ouest
+  if (!(courseStatus & 0x0400)) latitude = -latitude;
+  if (courseStatus & 0x0800) longitude = -longitude;
+
+  return {
+    timestamp,
+    satellites,
+    latitude,
+    longitude,
+    speed,
+    course: courseStatus & 0x03ff,
+    positioned: Boolean(courseStatus & 0x1000),
+  };
+}
+
+/**
+ * Informations terminal (heartbeat et fin de paquet d'alarme)
+ * | Info terminal (1) | Niveau tension (1) | Signal GSM (1) | Alarme (1) | Langue (1) |
+ */
+export function decodeStatus(content: Buffer, offset = 0): Gt06Status {
+  ensureLength(content, offset + 3, 'status');
+
+  const terminalInfo = content.readUInt8(offset);
+  const voltageLevel = Math.min(content.readUInt8(offset + 1), VOLTAGE_LEVEL_PERCENT.length - 1);
+
+  // Coupure d'alimentation et batterie faible : remontées par le code d'alarme
+  return {
+    ignition: Boolean(terminalInfo & 0x02),
+    batteryLevel: VOLTAGE_LEVEL_PERCENT[voltageLevel],
+    gsmSignal: content.readUInt8(offset + 2),
+    alarm: content.length > offset + 3 ? content.readUInt8(offset + 3) : 0,
+  };
+}
+
+/**
+ * Paquet d'alarme 0x16 : GPS + LBS (avec octet de longueur) + informations terminal
+ */
+export function decodeAlarm(content: Buffer): { gps: Gt06Gps; status: Gt06Status } {
+  const gps = decodeGps(content);
+
+  // La longueur LBS inclut son propre octet
+  ensureLength(content, GPS_ELEMENT_LENGTH + 1, 'alarme');
+  const lbsLength = content.readUInt8(GPS_ELEMENT_LENGTH) || 1;
+  const status = decodeStatus(content, GPS_ELEMENT_LENGTH + lbsLength);
+
+  return { gps, status };
+}
+
+/**
+ * Paquet de position étendu 0x22 : GPS + LBS + état ACC
+ */
+export function decodeExtendedLocation(content: Buffer): { gps: Gt06Gps; ignition?: boolean } {
+  const gps = decodeGps(content);
+  const accOffset = GPS_ELEMENT_LENGTH + LBS_ELEMENT_LENGTH;
+
+  return {
+    gps,
+    ignition: content.length > accOffset ? content.readUInt8(accOffset) === 1 : undefined,
+  };
+}
+
+/**
+ * CRC-ITU (CRC-16/X-25), utilisé par les trames GT06
+ */
+export function crcItu(data: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return ~crc & 0xffff;
+}
+
+function ensureLength(content: Buffer, length: number, packet: string): void {
+  if (content.length < length) {
+    throw new Gt06ProtocolError(`Paquet ${packet} tronqué`);
+  }
+}
@@ -0,0 +1,64 @@
+import config from '../config/index.js';
+import { ingestionService } from '../services/index.js';
+import { WebSocketServer } from '../websocket/index.js';
+import { AlarmHandler, TelemetryHandler } from './TcpGateway.js';
+import { TeltonikaGateway } from './teltonika/TeltonikaGateway.js';
+import { Gt06Gateway } from './gt06/Gt06Gateway.js';
+
+/**
+ * Passerelles TCP des boîtiers GPS
+ *
+ * Chaque passerelle décode un protocole constructeur et injecte les positions
+ * dans le même pipeline que l'événement Socket.io `tracker:location`.
+ * Une passerelle n'est démarrée que si son port est configuré.
+ */
+export interface TrackerGateways {
+  stop(): Promise<void>;
+}
+
+export async function initGateways(wsServer: WebSocketServer): Promise<TrackerGateways> {
+  const onLocation = wsServer.handleLocationUpdate.bind(wsServer);
+
+  // Alarmes boîtier : alerte et réévaluation du score de vol, puis diffusion à l'organisation
+  const onAlarm: AlarmHandler = async (vehicleId, alarm, location, at) => {
+    const notifications = await ingestionService.ingestTrackerAlarm(vehicleId, alarm, location, at);
+    for (const notification of notifications) {
+      wsServer.emitAlert(notification.alert.organizationId, notification);
+    }
+  };
+
+  // Heartbeats : batterie enregistrée et comparée au seuil, alertes diffusées
+  const onTelemetry: TelemetryHandler = async (vehicleId, telemetry, at) => {
+    const outcome = await ingestionService.ingestTelemetry(vehicleId, telemetry, at);
+    for (const notification of outcome.alerts) {
+      wsServer.emitAlert(notification.alert.organizationId, notification);
+    }
+    wsServer.emitAlertUpdates(outcome.resolvedAlerts);
+  };
+
+  const running: { stop(): Promise<void> }[] = [];
+
+  if (config.trackers.teltonikaPort) {
+    const teltonika = new TeltonikaGateway(onLocation);
+    await teltonika.start(config.trackers.teltonikaPort);
+    running.push(teltonika);
+  }
+
+  if (config.trackers.gt06Port) {
+    const gt06 = new Gt06Gateway(onLocation, onAlarm, onTelemetry);
+    await gt06.start(config.trackers.gt06Port);
+    running.push(gt06);
+  }
+
+  return {
+    stop: async () => {
+      await Promise.all(running.map((gateway) => gateway.stop()));
+    },
+  };
+}
+
+export { TcpGateway, TrackerAlarm, TrackerProtocolError } from './TcpGateway.js';
+export { TeltonikaGateway } from './teltonika/TeltonikaGateway.js';
+export { Gt06Gateway } from './gt06/Gt06Gateway.js';
+export * as teltonikaCodec from './teltonika/codec.js';
+export * as gt06Codec from './gt06/codec.js';
@@ -0,0 +1,125 @@
+import net from 'net';
+import { deviceService } from '../../services/index.js';
+import { TrackerLocationInput } from '../../types/index.js';
+import { TcpGateway, ConnectionState } from '../TcpGateway.js';
+import {
+  decodeImei,
+  decodeAvlPacket,
+  encodeAck,
+  TeltonikaRecord,
+  TELTONIKA_IO,
+} from './codec.js';
+
+// Réponses au handshake IMEI
+const IMEI_ACCEPTED = Buffer.from([0x01]);
+const IMEI_REJECTED = Buffer.from([0x00]);
+
+/**
+ * Passerelle TCP pour les boîtiers Teltonika (FMB, FMC, FMM...)
+ *
+ * DÉROULEMENT D'UNE SESSION:
+ * 1. Le boîtier envoie son IMEI → 0x01 si le tracker est enregistré et affecté, 0x00 sinon
+ * 2. Le boîtier envoie des trames AVL (Codec 8 / 8E)
+ * 3. Chaque trame est acquittée par le nombre de records reçus
+ *    (sans acquittement correct, le boîtier renvoie la trame)
+ */
+export class TeltonikaGateway extends TcpGateway {
+  protected readonly protocol = 'Teltonika';
+
+  protected createState(): ConnectionState {
+    return {
+      trackerId: null,
+      vehicleId: null,
+      buffer: Buffer.alloc(0),
+      processing: false,
+    };
+  }
+
+  protected async consumeFrame(socket: net.Socket, state: ConnectionState): Promise<boolean> {
+    if (!state.trackerId) {
+      const result = decodeImei(state.buffer);
+      if (!result) return false;
+
+      state.buffer = state.buffer.subarray(result.bytesRead);
+      return this.handleHandshake(socket, state, result.value);
+    }
+
+    const result = decodeAvlPacket(state.buffer);
+    if (!result) return false;
+
+    state.buffer = state.buffer.subarray(result.bytesRead);
+    const { records } = result.value;
+
+    for (const record of records) {
+      await this.handleRecord(state, record);
+    }
+
+    socket.write(encodeAck(records.length));
+    return true;
+  }
+
+  private async handleHandshake(
+    socket: net.Socket,
+    state: ConnectionState,
+    imei: string
+  ): Promise<boolean> {
+    // Seuls les trackers enregistrés, actifs et affectés à un véhicule sont acceptés
+    const tracker = await deviceService.resolveTracker(imei);
+
+    if (!tracker) {
+      console.warn(`[Teltonika] IMEI inconnu refusé: ${imei}`);
+      socket.end(IMEI_REJECTED);
+      return false;
+    }
+
+    state.trackerId = imei;
+    state.vehicleId = tracker.vehicleId;
+    socket.write(IMEI_ACCEPTED);
+    return true;
+  }
+
+  /**
+   * Transmet un record AVL au pipeline de localisation
+   */
+  private async handleRecord(state: ConnectionState, record: TeltonikaRecord): Promise<void> {
+    // Pas de fix GPS : le record ne contient que des IO
+    if (record.satellites === 0 && record.longitude === 0 && record.latitude === 0) {
+      return;
+    }
+
+    await this.dispatchLocation(state, {
+      location: {
+        type: 'Point',
+        coordinates: [record.longitude, record.latitude],
+      },
+      ...toTelemetry(record),
+    });
+  }
+}
+
+/**
+ * Convertit un record AVL en télémétrie plateforme
+ */
+function toTelemetry(record: TeltonikaRecord): Omit<TrackerLocationInput, 'vehicleId' | 'location'> {
+  const ioNumber = (id: number): number | undefined => {
+    const value = record.io.get(id);
+    return typeof value === 'number' ? value : undefined;
+  };
+
+  const ignition = ioNumber(TELTONIKA_IO.IGNITION);
+  const externalVoltage = ioNumber(TELTONIKA_IO.EXTERNAL_VOLTAGE);
+  const hdop = ioNumber(TELTONIKA_IO.GNSS_HDOP);
+
+  return {
+    timestamp: record.timestamp,
+    speed: record.speed,
+    heading: record.angle,
+    batteryLevel: ioNumber(TELTONIKA_IO.BATTERY_LEVEL),
+    ignition: ignition === undefined ? undefined : ignition === 1,
+    externalVoltage: externalVoltage === undefined ? undefined : externalVoltage / 1000,
+    satellites: record.satellites,
+    hdop: hdop === undefined ? undefined : hdop / 10,
+  };
+}
+
+export default TeltonikaGateway;
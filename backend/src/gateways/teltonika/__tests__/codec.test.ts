@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeAvlPacket,
+  decodeImei,
+  encodeAck,
+  CODEC_8,
+  CODEC_8_EXTENDED,
+  TeltonikaProtocolError,
+} from '../codec.js';
+
+// ============================================
+// Trames enregistrées (documentation Teltonika, FMB920)
+// ============================================
+
+const IMEI_PACKET = '000F333536333037303432343431303133';
+
+// Codec 8 : 1 record, IO 21 (GSM) = 3, IO 1 = 1, IO 66 (tension externe) = 24079 mV
+const CODEC_8_PACKET =
+  '000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F' +
+  '01F10000601A014E0000000000000000010000C7CF';
+
+// Codec 8 Extended : 1 record, identifiants IO sur 2 octets, deux IO de 8 octets
+const CODEC_8_EXTENDED_PACKET =
+  '000000000000004A8E010000016B412CEE000100000000000000000000000000000000010005000100010100010011' +
+  '001D00010010015E2C880002000B000000003544C87A000E000000001DD7E06A00000100002994';
+
+const hex = (value: string): Buffer => Buffer.from(value, 'hex');
+
+describe('decodeImei', () => {
+  it('décode le paquet d\'identification', () => {
+    expect(decodeImei(hex(IMEI_PACKET))).toEqual({ value: '356307042441013', bytesRead: 17 });
+  });
+
+  it('attend la suite d\'un paquet incomplet', () => {
+    expect(decodeImei(hex(IMEI_PACKET).subarray(0, 10))).toBeNull();
+  });
+});
+
+describe('decodeAvlPacket', () => {
+  it('décode une trame Codec 8', () => {
+    const result = decodeAvlPacket(hex(CODEC_8_PACKET));
+
+    expect(result?.bytesRead).toBe(CODEC_8_PACKET.length / 2);
+    expect(result?.value.codecId).toBe(CODEC_8);
+    expect(result?.value.records).toHaveLength(1);
+
+    const [record] = result!.value.records;
+    expect(record.timestamp.toISOString()).toBe('2019-06-10T10:04:46.000Z');
+    expect(record.priority).toBe(1);
+    expect(record.eventIoId).toBe(1);
+    expect(record.io.get(21)).toBe(3);
+    expect(record.io.get(1)).toBe(1);
+    expect(record.io.get(66)).toBe(0x5e0f);
+    expect(record.io.get(241)).toBe(0x601a);
+    expect(record.io.get(78)).toBe(0);
+  });
+
+  it('décode une trame Codec 8 Extended', () => {
+    const result = decodeAvlPacket(hex(CODEC_8_EXTENDED_PACKET));
+
+    expect(result?.bytesRead).toBe(CODEC_8_EXTENDED_PACKET.length / 2);
+    expect(result?.value.codecId).toBe(CODEC_8_EXTENDED);
+
+    const [record] = result!.value.records;
+    expect(record.timestamp.toISOString()).toBe('2019-06-10T11:36:32.000Z');
+    expect(record.io.get(1)).toBe(1);
+    expect(record.io.get(0x11)).toBe(0x1d);
+    expect(record.io.get(0x10)).toBe(0x015e2c88);
+    expect(record.io.get(0x0b)).toBe(0x3544c87a);
+    expect(record.io.get(0x0e)).toBe(0x1dd7e06a);
+  });
+
+  it('rejette une trame dont le CRC ne correspond pas', () => {
+    const packet = hex(CODEC_8_PACKET);
+    packet[packet.length - 1] ^= 0xff;
+
+    expect(() => decodeAvlPacket(packet)).toThrow(TeltonikaProtocolError);
+    expect(() => decodeAvlPacket(packet)).toThrow(/CRC invalide/);
+  });
+
+  it('attend la suite d\'une trame partielle', () => {
+    const packet = hex(CODEC_8_PACKET);
+
+    expect(decodeAvlPacket(packet.subarray(0, 4))).toBeNull();
+    expect(decodeAvlPacket(packet.subarray(0, packet.length - 1))).toBeNull();
+  });
+
+  it('ne consomme que la première trame d\'un buffer qui en contient plusieurs', () => {
+    const buffer = Buffer.concat([hex(CODEC_8_PACKET), hex(CODEC_8_EXTENDED_PACKET).subarray(0, 12)]);
+
+    expect(decodeAvlPacket(buffer)?.bytesRead).toBe(CODEC_8_PACKET.length / 2);
+  });
+});
+
+describe('encodeAck', () => {
+  it('acquitte le nombre de records reçus sur 4 octets', () => {
+    expect(encodeAck(1).toString('hex')).toBe('00000001');
+  });
+});
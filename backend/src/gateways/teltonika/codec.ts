@@ -0,0 +1,294 @@
+import { TrackerProtocolError, DecodeResult } from '../TcpGateway.js';
+
+/**
+ * Décodeur du protocole Teltonika (Codec 8 et Codec 8 Extended)
+ *
+ * Fonctions pures opérant sur des Buffers, sans dépendance réseau :
+ * elles peuvent être rejouées sur des trames binaires enregistrées.
+ *
+ * FORMAT D'UNE TRAME AVL (TCP):
+ * | Préambule (4) = 0 | Longueur données (4) | Codec ID (1) | Nb records (1) |
+ * | Records AVL (X)   | Nb records (1)       | CRC-16/IBM (4)               |
+ *
+ * Le CRC est calculé du Codec ID jusqu'au second compteur de records inclus.
+ */
+
+// ============================================
+// Constantes du protocole
+// ============================================
+
+export const CODEC_8 = 0x08;
+export const CODEC_8_EXTENDED = 0x8e;
+
+/**
+ * Identifiants des éléments IO utilisés par la plateforme
+ */
+export const TELTONIKA_IO = {
+  IGNITION: 239,
+  MOVEMENT: 240,
+  GSM_SIGNAL: 21,
+  EXTERNAL_VOLTAGE: 66, // mV
+  BATTERY_VOLTAGE: 67, // mV
+  BATTERY_LEVEL: 113, // %
+  GNSS_HDOP: 182, // HDOP × 10
+} as const;
+
+// Taille maximum acceptée pour une trame (protection mémoire)
+const MAX_PACKET_LENGTH = 64 * 1024;
+
+// ============================================
+// Types
+// ============================================
+
+export interface TeltonikaRecord {
+  timestamp: Date;
+  priority: number;
+  longitude: number;
+  latitude: number;
+  altitude: number; // mètres
+  angle: number; // degrés
+  satellites: number;
+  speed: number; // km/h
+  eventIoId: number;
+  io: Map<number, number | Buffer>;
+}
+
+export interface TeltonikaPacket {
+  codecId: number;
+  records: TeltonikaRecord[];
+}
+
+export class TeltonikaProtocolError extends TrackerProtocolError {
+  readonly code = 'TELTONIKA_PROTOCOL_ERROR';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeltonikaProtocolError';
+  }
+}
+
+// ============================================
+// Handshake IMEI
+// ============================================
+
+/**
+ * Décode le paquet d'identification : longueur (2 octets) + IMEI ASCII
+ */
+export function decodeImei(buffer: Buffer): DecodeResult<string> | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+
+  const length = buffer.readUInt16BE(0);
+  if (length === 0 || length > 32) {
+    throw new TeltonikaProtocolError(`Longueur d'IMEI invalide: ${length}`);
+  }
+  if (buffer.length < 2 + length) {
+    return null;
+  }
+
+  const imei = buffer.toString('ascii', 2, 2 + length);
+  if (!/^\d+$/.test(imei)) {
+    throw new TeltonikaProtocolError(`IMEI invalide: ${imei}`);
+  }
+
+  return { value: imei, bytesRead: 2 + length };
+}
+
+// ============================================
+// Trames AVL
+// ============================================
+
+/**
+ * Décode une trame AVL complète (Codec 8 ou 8E)
+ */
+export function decodeAvlPacket(buffer: Buffer): DecodeResult<TeltonikaPacket> | null {
+  if (buffer.length < 8) {
+    return null;
+  }
+
+  if (buffer.readUInt32BE(0) !== 0) {
+    throw new TeltonikaProtocolError('Préambule de trame invalide');
+  }
+
+  const dataLength = buffer.readUInt32BE(4);
+  if (dataLength < 3 || dataLength > MAX_PACKET_LENGTH) {
+    throw new TeltonikaProtocolError(`Longueur de trame invalide: ${dataLength}`);
+  }
+
+  const totalLength = 8 + dataLength + 4;
+  if (buffer.length < totalLength) {
+    return null;
+  }
+
+  const data = buffer.subarray(8, 8 + dataLength);
+  const expectedCrc = buffer.readUInt32BE(8 + dataLength);
+  const actualCrc = crc16Ibm(data);
+  if (expectedCrc !== actualCrc) {
+    throw new TeltonikaProtocolError(
+      `CRC invalide (attendu ${expectedCrc.toString(16)}, calculé ${actualCrc.toString(16)})`
+    );
+  }
+
+  const codecId = data.readUInt8(0);
+  if (codecId !== CODEC_8 && codecId !== CODEC_8_EXTENDED) {
+    throw new TeltonikaProtocolError(`Codec non supporté: 0x${codecId.toString(16)}`);
+  }
+
+  const recordCount = data.readUInt8(1);
+  const reader = new BufferReader(data, 2);
+  const records: TeltonikaRecord[] = [];
+
+  for (let i = 0; i < recordCount; i++) {
+    records.push(decodeRecord(reader, codecId === CODEC_8_EXTENDED));
+  }
+
+  const trailingCount = reader.uint8();
+  if (trailingCount !== recordCount || reader.offset !== data.length) {
+    throw new TeltonikaProtocolError('Nombre de records incohérent');
+  }
+
+  return { value: { codecId, records }, bytesRead: totalLength };
+}
+
+/**
+ * Accusé de réception d'une trame AVL : nombre de records acceptés (4 octets)
+ */
+export function encodeAck(recordCount: number): Buffer {
+  const ack = Buffer.alloc(4);
+  ack.writeUInt32BE(recordCount, 0);
+  return ack;
+}
+
+/**
+ * Décode un record AVL (horodatage, élément GPS, éléments IO)
+ */
+function decodeRecord(reader: BufferReader, extended: boolean): TeltonikaRecord {
+  const timestamp = new Date(Number(reader.uint64()));
+  const priority = reader.uint8();
+
+  // Élément GPS : coordonnées en entiers signés (x 10^7)
+  const longitude = reader.int32() / 1e7;
+  const latitude = reader.int32() / 1e7;
+  const altitude = reader.int16();
+  const angle = reader.uint16();
+  const satellites = reader.uint8();
+  const speed = reader.uint16();
+
+  // Éléments IO : identifiants et compteurs sur 1 octet (Codec 8) ou 2 octets (Codec 8E)
+  const readId = (): number => (extended ? reader.uint16() : reader.uint8());
+  const eventIoId = readId();
+  readId(); // Nombre total d'IO (redondant avec les compteurs par taille)
+
+  const io = new Map<number, number | Buffer>();
+  for (const size of [1, 2, 4, 8] as const) {
+    const count = readId();
+    for (let i = 0; i < count; i++) {
+      const id = readId();
+      io.set(id, reader.unsigned(size));
+    }
+  }
+
+  // Codec 8E : éléments de longueur variable
+  if (extended) {
+    const count = reader.uint16();
+    for (let i = 0; i < count; i++) {
+      const id = reader.uint16();
+      const length = reader.uint16();
+      io.set(id, reader.bytes(length));
+    }
+  }
+
+  return {
+    timestamp,
+    priority,
+    longitude,
+    latitude,
+    altitude,
+    angle,
+    satellites,
+    speed,
+    eventIoId,
+    io,
+  };
+}
+
+/**
+ * CRC-16/IBM (polynôme 0xA001 réfléchi), utilisé par les trames Teltonika
+ */
+export function crc16Ibm(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+// ============================================
+// Lecture séquentielle d'un Buffer
+// ============================================
+
+class BufferReader {
+  constructor(
+    private readonly buffer: Buffer,
+    public offset: number
+  ) {}
+
+  private ensure(size: number): void {
+    if (this.offset + size > this.buffer.length) {
+      throw new TeltonikaProtocolError('Trame tronquée');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  int16(): number {
+    this.ensure(2);
+    const value = this.buffer.readInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  int32(): number {
+    this.ensure(4);
+    const value = this.buffer.readInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  unsigned(size: 1 | 2 | 4 | 8): number {
+    this.ensure(size);
+    const value = size === 8
+      ? Number(this.buffer.readBigUInt64BE(this.offset))
+      : this.buffer.readUIntBE(this.offset, size);
+    this.offset += size;
+    return value;
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
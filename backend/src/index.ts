@@ -10,6 +10,8 @@ import database from './config/database.js';
 import routes from './routes/index.js';
 import { errorHandler, notFoundHandler } from './middleware/index.js';
 import { initWebSocket } from './websocket/index.js';
+import { initGateways } from './gateways/index.js';
+import { initJobs } from './jobs/index.js';
 
 /**
  * Point d'entrée principal du serveur backend
@@ -83,6 +85,12 @@ async function bootstrap(): Promise<void> {
   const wsServer = initWebSocket(httpServer);
   console.log('[WebSocket] Serveur initialisé');
 
+  // Passerelles TCP des boîtiers GPS
+  const gateways = await initGateways(wsServer);
+
+  // Tâches de fond (watchdog des trackers hors ligne)
+  const jobs = initJobs(wsServer);
+
   // ============================================
   // Démarrage du serveur
   // ============================================
@@ -107,9 +115,17 @@ async function bootstrap(): Promise<void> {
   
   const gracefulShutdown = async (signal: string): Promise<void> => {
     console.log(`\n${signal} reçu. Arrêt gracieux...`);
+
+    // Force exit après 10s si l'arrêt ne se fait pas (armé avant toute attente)
+    setTimeout(() => {
+      console.error('Arrêt forcé après timeout');
+      process.exit(1);
+    }, 10000).unref();
     
-    // Fermer les connexions WebSocket
+    // Arrêter les tâches de fond, fermer les connexions WebSocket et les passerelles trackers
+    jobs.stop();
     wsServer.getIO().close();
+    await gateways.stop();
     
     // Fermer la connexion MongoDB
     await database.disconnect();
@@ -119,12 +135,6 @@ async function bootstrap(): Promise<void> {
       console.log('[Server] Arrêté proprement');
       process.exit(0);
     });
-
-    // Force exit après 10s si l'arrêt ne se fait pas
-    setTimeout(() => {
-      console.error('Arrêt forcé après timeout');
-      process.exit(1);
-    }, 10000);
   };
 
   process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
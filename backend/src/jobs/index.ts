@@ -0,0 +1,44 @@
+import config from '../config/index.js';
+import { deviceWatchdogService } from '../services/index.js';
+import { WebSocketServer } from '../websocket/index.js';
+
+/**
+ * Tâches de fond périodiques
+ *
+ * Chaque tâche s'exécute toutes les `ALERT_CHECK_INTERVAL_MS` et diffuse
+ * ses alertes aux organisations concernées. Un passage encore en cours
+ * n'est pas relancé au tick suivant.
+ */
+export interface BackgroundJobs {
+  stop(): void;
+}
+
+export function initJobs(wsServer: WebSocketServer): BackgroundJobs {
+  let running = false;
+
+  // Watchdog des trackers hors ligne
+  const checkOfflineDevices = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { raised, resolved } = await deviceWatchdogService.checkOfflineDevices();
+      for (const notification of raised) {
+        wsServer.emitAlert(notification.alert.organizationId, notification);
+      }
+      for (const notification of resolved) {
+        wsServer.emitAlertUpdate(notification.alert.organizationId, notification);
+      }
+    } catch (error) {
+      console.error('[Watchdog] Erreur de vérification des trackers:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(checkOfflineDevices, config.geofencing.alertCheckIntervalMs);
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types/index.js';
+import { GeofenceRevisionConflictError } from '../models/Geofence.js';
 
 /**
  * Middleware de gestion globale des erreurs
@@ -53,6 +54,16 @@ export function errorHandler(
     return;
   }
 
+  // Zone modifiée par une autre requête entre sa lecture et son enregistrement
+  if (error instanceof GeofenceRevisionConflictError) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { code: error.code, message: error.message },
+    };
+    res.status(409).json(response);
+    return;
+  }
+
   // Erreur générique
   const response: ApiResponse<null> = {
     success: false,
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { Geofence } from '../models/index.js';
+import { IWeeklySlot } from '../types/index.js';
+import config from '../config/index.js';
+
+/**
+ * Migration : `allowedHours` / `allowedDays` -> `schedule` (planning hebdomadaire)
+ * Exécuter avec: npx tsx src/migrations/001-geofence-weekly-schedule.ts
+ *
+ * Chaque jour autorisé (tous si `allowedDays` est vide) reçoit le créneau
+ * `allowedHours.start`-`allowedHours.end`. Idempotente : les zones déjà migrées
+ * ne portent plus les anciens champs.
+ */
+
+interface LegacyGeofence {
+  _id: mongoose.Types.ObjectId;
+  allowedHours?: { start: string; end: string } | null;
+  allowedDays?: number[];
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+async function migrate() {
+  try {
+    await mongoose.connect(config.mongodb.uri);
+    console.log('[Migration] Connecté à MongoDB');
+
+    const legacyGeofences = await Geofence.collection
+      .find<LegacyGeofence>({
+        $or: [{ allowedHours: { $exists: true } }, { allowedDays: { $exists: true } }],
+      })
+      .toArray();
+
+    for (const geofence of legacyGeofences) {
+      const unset = { allowedHours: '', allowedDays: '' };
+
+      if (!geofence.allowedHours) {
+        // Jours sans horaires : ignorés par l'ancien contrôle, on conserve ce comportement
+        await Geofence.collection.updateOne({ _id: geofence._id }, { $unset: unset });
+        continue;
+      }
+
+      const days = geofence.allowedDays?.length ? geofence.allowedDays : ALL_DAYS;
+      const slots: IWeeklySlot[] = days.map((day) => ({
+        day,
+        start: geofence.allowedHours!.start,
+        end: geofence.allowedHours!.end,
+      }));
+
+      await Geofence.collection.updateOne(
+        { _id: geofence._id },
+        { $set: { schedule: { slots, exceptions: [] } }, $unset: unset }
+      );
+    }
+
+    console.log(`[Migration] ${legacyGeofences.length} geofence(s) migrée(s)`);
+  } catch (error) {
+    console.error('[Migration] Erreur lors de la migration:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('[Migration] Déconnecté de MongoDB');
+  }
+}
+
+// Exécuter la migration
+migrate();
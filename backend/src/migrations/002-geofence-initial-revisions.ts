@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import { Geofence, GeofenceRevision, GEOFENCE_REVISION_FIELDS } from '../models/index.js';
+import { GeofenceRevisionAction } from '../types/index.js';
+import config from '../config/index.js';
+
+/**
+ * Migration : révision initiale des geofences existantes
+ * Exécuter avec: npx tsx src/migrations/002-geofence-initial-revisions.ts
+ *
+ * Chaque zone sans révision reçoit la révision 1 (instantané de son état actuel,
+ * sans auteur). Idempotente : les zones déjà migrées portent `revision >= 1`.
+ */
+
+async function migrate() {
+  try {
+    await mongoose.connect(config.mongodb.uri);
+    console.log('[Migration] Connecté à MongoDB');
+
+    const unversioned = await Geofence.collection
+      .find({ $or: [{ revision: { $exists: false } }, { revision: { $lt: 1 } }] })
+      .toArray();
+
+    for (const raw of unversioned) {
+      const geofence = Geofence.hydrate(raw);
+
+      await GeofenceRevision.create({
+        geofenceId: geofence._id,
+        organizationId: geofence.organizationId,
+        revision: 1,
+        action: GeofenceRevisionAction.CREATE,
+        changedFields: [...GEOFENCE_REVISION_FIELDS],
+        snapshot: geofence.toRevisionSnapshot(),
+        note: 'Révision initiale (migration)',
+      });
+
+      // Écriture directe : un save déclencherait l'enregistrement d'une nouvelle révision
+      await Geofence.collection.updateOne({ _id: geofence._id }, { $set: { revision: 1 } });
+    }
+
+    console.log(`[Migration] ${unversioned.length} geofence(s) versionnée(s)`);
+  } catch (error) {
+    console.error('[Migration] Erreur lors de la migration:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('[Migration] Déconnecté de MongoDB');
+  }
+}
+
+// Exécuter la migration
+migrate();
@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import { Vehicle, Geofence, GeofenceAssignment } from '../models/index.js';
+import { GeofenceAssignmentSource } from '../types/index.js';
+import { geofenceAssignmentService } from '../services/GeofenceAssignmentService.js';
+import config from '../config/index.js';
+
+/**
+ * Migration : `Vehicle.assignedGeofences` / `Geofence.assignedVehicles` -> `GeofenceAssignment`
+ * Exécuter avec: npx tsx src/migrations/003-geofence-assignments.ts
+ *
+ * Les deux tableaux pouvaient diverger : chaque couple présent d'un côté OU de
+ * l'autre devient une affectation sans échéance, valide depuis la création la plus
+ * récente des deux documents (au plus tôt, l'affectation a pu exister à ce moment).
+ * Une zone archivée donne une affectation close à `archivedAt`. Les anciens champs
+ * sont ensuite supprimés, puis le contrôle de cohérence est exécuté.
+ * Idempotente : un couple déjà migré n'est pas dupliqué.
+ */
+
+interface LegacyVehicle {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  assignedGeofences?: mongoose.Types.ObjectId[];
+}
+
+interface LegacyGeofence {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  isDepot?: boolean;
+  contractId?: mongoose.Types.ObjectId;
+  archivedAt?: Date | null;
+  assignedVehicles?: mongoose.Types.ObjectId[];
+}
+
+async function migrate() {
+  try {
+    await mongoose.connect(config.mongodb.uri);
+    console.log('[Migration] Connecté à MongoDB');
+
+    const vehicles = await Vehicle.collection.find<LegacyVehicle>({}).toArray();
+    const geofences = await Geofence.collection.find<LegacyGeofence>({}).toArray();
+    const vehicleById = new Map(vehicles.map((v) => [v._id.toString(), v]));
+    const geofenceById = new Map(geofences.map((g) => [g._id.toString(), g]));
+
+    // Union des deux côtés : "vehicleId:geofenceId"
+    const pairs = new Set<string>();
+    for (const vehicle of vehicles) {
+      for (const geofenceId of vehicle.assignedGeofences ?? []) {
+        pairs.add(`${vehicle._id}:${geofenceId}`);
+      }
+    }
+    for (const geofence of geofences) {
+      for (const vehicleId of geofence.assignedVehicles ?? []) {
+        pairs.add(`${vehicleId}:${geofence._id}`);
+      }
+    }
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const pair of pairs) {
+      const [vehicleId, geofenceId] = pair.split(':');
+      const vehicle = vehicleById.get(vehicleId);
+      const geofence = geofenceById.get(geofenceId);
+
+      if (!vehicle || !geofence) {
+        console.warn(`[Migration] Couple ignoré (document introuvable) : ${pair}`);
+        skipped++;
+        continue;
+      }
+
+      const exists = await GeofenceAssignment.exists({
+        vehicleId: vehicle._id,
+        geofenceId: geofence._id,
+      });
+      if (exists) continue;
+
+      const validFrom = new Date(
+        Math.max(vehicle.createdAt?.getTime() ?? 0, geofence.createdAt?.getTime() ?? 0)
+      );
+      const validTo =
+        geofence.archivedAt && geofence.archivedAt > validFrom ? geofence.archivedAt : null;
+
+      await GeofenceAssignment.create({
+        vehicleId: vehicle._id,
+        geofenceId: geofence._id,
+        organizationId: geofence.organizationId,
+        validFrom,
+        validTo,
+        source: geofence.contractId
+          ? GeofenceAssignmentSource.CONTRACT
+          : geofence.isDepot
+            ? GeofenceAssignmentSource.DEPOT
+            : GeofenceAssignmentSource.MANUAL,
+        contractId: geofence.contractId,
+      });
+      created++;
+    }
+
+    await Vehicle.collection.updateMany(
+      { assignedGeofences: { $exists: true } },
+      { $unset: { assignedGeofences: '' } }
+    );
+    await Geofence.collection.updateMany(
+      { assignedVehicles: { $exists: true } },
+      { $unset: { assignedVehicles: '' } }
+    );
+
+    console.log(`[Migration] ${created} affectation(s) créée(s), ${skipped} couple(s) ignoré(s)`);
+
+    const report = await geofenceAssignmentService.checkConsistency();
+    console.log(`[Migration] Contrôle de cohérence : ${report.issues.length} anomalie(s) sur ${report.total}`);
+    for (const issue of report.issues) {
+      console.warn(`   [${issue.type}] ${issue.assignmentId} : ${issue.message}`);
+    }
+  } catch (error) {
+    console.error('[Migration] Erreur lors de la migration:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('[Migration] Déconnecté de MongoDB');
+  }
+}
+
+// Exécuter la migration
+migrate();
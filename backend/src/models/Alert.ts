@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
-import { AlertType, AlertSeverity, AlertStatus, GeoJSONPoint } from '../types/index.js';
+import { AlertType, AlertSeverity, AlertStatus, GeoJSONPoint, RiskFactor } from '../types/index.js';
 
 /**
  * Interface pour le document Mongoose Alert
@@ -11,10 +11,15 @@ export interface IAlertDocument extends Document {
   status: AlertStatus;
   vehicleId: Types.ObjectId;
   geofenceId?: Types.ObjectId;
+  geofenceRevision?: number;
   organizationId: Types.ObjectId;
   message: string;
   location: GeoJSONPoint;
   triggeredAt: Date;
+  peakSpeed?: number;
+  speedLimit?: number;
+  riskScore?: number;
+  riskFactors?: RiskFactor[];
   acknowledgedAt?: Date;
   acknowledgedBy?: Types.ObjectId;
   resolvedAt?: Date;
@@ -80,6 +85,11 @@ const alertSchema = new Schema<IAlertDocument>(
       type: Schema.Types.ObjectId,
       ref: 'Geofence',
     },
+    // Révision de la zone évaluée (voir GeofenceRevision)
+    geofenceRevision: {
+      type: Number,
+      min: 1,
+    },
     organizationId: {
       type: Schema.Types.ObjectId,
       ref: 'Organization',
@@ -102,6 +112,26 @@ const alertSchema = new Schema<IAlertDocument>(
       default: Date.now,
       index: true,
     },
+    // Excès de vitesse : vitesse maximale atteinte et limite applicable
+    peakSpeed: {
+      type: Number,
+      min: 0,
+    },
+    speedLimit: {
+      type: Number,
+      min: 0,
+    },
+    // Vol potentiel : score et facteurs contributifs
+    riskScore: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    riskFactors: {
+      type: [String],
+      enum: Object.values(RiskFactor),
+      default: undefined,
+    },
     acknowledgedAt: {
       type: Date,
     },
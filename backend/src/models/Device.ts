@@ -0,0 +1,171 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import crypto from 'crypto';
+import { DeviceProtocol } from '../types/index.js';
+
+/**
+ * Affectation d'un tracker à un véhicule (historique)
+ */
+export interface IDeviceAssignment {
+  vehicleId: Types.ObjectId;
+  assignedAt: Date;
+  unassignedAt?: Date;
+  assignedBy?: Types.ObjectId;
+}
+
+/**
+ * Interface pour le document Mongoose Device
+ */
+export interface IDeviceDocument extends Document {
+  _id: Types.ObjectId;
+  imei: string;
+  protocol: DeviceProtocol;
+  deviceModel?: string;
+  firmware?: string;
+  simIccid?: string;
+  simPhoneNumber?: string;
+  lastSeenAt?: Date;
+  reportingIntervalSeconds: number;
+  tokenHash: string;
+  vehicleId?: Types.ObjectId;
+  assignments: Types.DocumentArray<IDeviceAssignment & Document>;
+  organizationId: Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Méthodes d'instance
+  verifyToken(token: string): boolean;
+}
+
+/**
+ * Hash SHA-256 d'un secret de tracker (le secret en clair n'est jamais stocké)
+ */
+export function hashDeviceToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Schéma d'une affectation tracker ↔ véhicule
+ */
+const assignmentSchema = new Schema<IDeviceAssignment>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true,
+    },
+    assignedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    unassignedAt: {
+      type: Date,
+    },
+    assignedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { _id: true }
+);
+
+/**
+ * Schéma Mongoose pour les trackers GPS
+ */
+const deviceSchema = new Schema<IDeviceDocument>(
+  {
+    imei: {
+      type: String,
+      required: [true, 'L\'IMEI est requis'],
+      unique: true,
+      trim: true,
+      match: [/^\d{15}$/, 'IMEI invalide (15 chiffres)'],
+    },
+    protocol: {
+      type: String,
+      enum: Object.values(DeviceProtocol),
+      required: [true, 'Le protocole est requis'],
+    },
+    deviceModel: {
+      type: String,
+      trim: true,
+    },
+    firmware: {
+      type: String,
+      trim: true,
+    },
+    simIccid: {
+      type: String,
+      trim: true,
+      match: [/^\d{18,22}$/, 'ICCID invalide (18 à 22 chiffres)'],
+    },
+    simPhoneNumber: {
+      type: String,
+      trim: true,
+    },
+    lastSeenAt: {
+      type: Date,
+    },
+    // Intervalle d'émission attendu (surveillance des trackers hors ligne)
+    reportingIntervalSeconds: {
+      type: Number,
+      min: [10, 'L\'intervalle d\'émission doit être d\'au moins 10 secondes'],
+      max: [86400, 'L\'intervalle d\'émission ne peut pas dépasser 24 heures'],
+      default: 300,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      index: true,
+    },
+    assignments: {
+      type: [assignmentSchema],
+      default: [],
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        delete ret.__v;
+        delete ret.tokenHash;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Vérifie le secret présenté par un tracker (comparaison à temps constant)
+ * Le document doit avoir été chargé avec `.select('+tokenHash')`
+ */
+deviceSchema.methods.verifyToken = function (token: string): boolean {
+  if (!this.tokenHash) return false;
+  const expected = Buffer.from(this.tokenHash, 'hex');
+  const actual = Buffer.from(hashDeviceToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+deviceSchema.index({ organizationId: 1, protocol: 1 });
+
+export const Device = mongoose.model<IDeviceDocument>('Device', deviceSchema);
+
+export default Device;
@@ -1,5 +1,20 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
-import { GeoJSONPolygon } from '../types/index.js';
+import {
+  GeoJSONPoint,
+  GeofenceGeometry,
+  GeofenceShape,
+  GeofenceMode,
+  GeofenceRevisionAction,
+  IWeeklySchedule,
+} from '../types/index.js';
+import {
+  GeofenceRevision,
+  GEOFENCE_REVISION_FIELDS,
+  GeofenceRevisionField,
+} from './GeofenceRevision.js';
+import { circleToPolygon, getGeometryError } from '../utils/geo.js';
+import { DEFAULT_TIMEZONE, toZonedTime } from '../utils/timezone.js';
+import { isWithinSchedule } from '../utils/schedule.js';
 
 /**
  * Interface pour le document Mongoose Geofence
@@ -8,23 +23,56 @@ export interface IGeofenceDocument extends Document {
   _id: Types.ObjectId;
   name: string;
   description?: string;
-  area: GeoJSONPolygon;
+  shape: GeofenceShape;
+  area: GeofenceGeometry;
+  center?: GeoJSONPoint;
+  radiusMeters?: number;
+  mode: GeofenceMode;
   isActive: boolean;
-  allowedHours?: {
-    start: string;
-    end: string;
-  };
-  allowedDays?: number[];
+  schedule?: IWeeklySchedule | null;
+  speedLimitKmh?: number;
+  isDepot: boolean;
   organizationId: Types.ObjectId;
-  assignedVehicles: Types.ObjectId[];
+  contractId?: Types.ObjectId;
+  archivedAt?: Date | null;
   color: string;
+  revision: number;
   createdAt: Date;
   updatedAt: Date;
   
   // Méthodes d'instance
   containsPoint(longitude: number, latitude: number): Promise<boolean>;
-  isWithinAllowedHours(): boolean;
-  isAllowedDay(): boolean;
+  isWithinSchedule(at?: Date, timeZone?: string): boolean;
+  setRevisionContext(context: GeofenceRevisionContext): IGeofenceDocument;
+  toRevisionSnapshot(): Partial<Record<GeofenceRevisionField, unknown>>;
+}
+
+/**
+ * Contexte de la prochaine révision enregistrée au save (auteur, motif, restauration)
+ */
+export interface GeofenceRevisionContext {
+  changedBy?: Types.ObjectId | string;
+  note?: string;
+  restoredFrom?: number;
+}
+
+/**
+ * Révision réservée au pre('save'), retirée si l'écriture de la zone échoue
+ */
+interface PendingRevision {
+  id: Types.ObjectId;
+  previousRevision: number;
+}
+
+/**
+ * Zone modifiée entre sa lecture et son enregistrement (révision déjà attribuée)
+ */
+export class GeofenceRevisionConflictError extends Error {
+  readonly code = 'CONFLICT';
+  constructor(geofenceId: string) {
+    super(`La zone ${geofenceId} a été modifiée entre-temps, rechargez-la avant de l'enregistrer`);
+    this.name = 'GeofenceRevisionConflictError';
+  }
 }
 
 /**
@@ -38,48 +86,30 @@ export interface IGeofenceModel extends Model<IGeofenceDocument> {
   ): Promise<IGeofenceDocument[]>;
   
   findIntersectingArea(
-    polygon: GeoJSONPolygon
+    geometry: GeofenceGeometry
   ): Promise<IGeofenceDocument[]>;
 }
 
 /**
- * Schéma GeoJSON Polygon pour les zones de geofencing
+ * Schéma de la géométrie des zones : Polygon (trous possibles) ou MultiPolygon (parcelles)
+ * Les coordonnées sont libres (Mixed) car leur profondeur dépend du type
  */
-const geoJSONPolygonSchema = new Schema(
+const geofenceGeometrySchema = new Schema(
   {
     type: {
       type: String,
-      enum: ['Polygon'],
+      enum: ['Polygon', 'MultiPolygon'],
       required: true,
       default: 'Polygon',
     },
     coordinates: {
-      type: [[[Number]]],
+      type: Schema.Types.Mixed,
       required: true,
       validate: {
-        validator: function (coords: number[][][]) {
-          if (!coords || coords.length === 0) return false;
-          
-          for (const ring of coords) {
-            if (ring.length < 4) return false;
-            
-            const first = ring[0];
-            const last = ring[ring.length - 1];
-            if (first[0] !== last[0] || first[1] !== last[1]) {
-              return false;
-            }
-            
-            for (const point of ring) {
-              if (point.length !== 2) return false;
-              const [lng, lat] = point;
-              if (lng < -180 || lng > 180 || lat < -90 || lat > 90) {
-                return false;
-              }
-            }
-          }
-          return true;
+        validator: function (this: GeofenceGeometry, coordinates: unknown) {
+          return getGeometryError({ type: this.type, coordinates } as GeofenceGeometry) === null;
         },
-        message: 'Polygone GeoJSON invalide.',
+        message: 'Géométrie GeoJSON invalide.',
       },
     },
   },
@@ -87,19 +117,95 @@ const geoJSONPolygonSchema = new Schema(
 );
 
 /**
- * Schéma des horaires autorisés
+ * Schéma GeoJSON Point (centre des zones circulaires)
  */
-const allowedHoursSchema = new Schema(
+const geoJSONPointSchema = new Schema(
   {
-    start: {
+    type: {
       type: String,
+      enum: ['Point'],
+      required: true,
+      default: 'Point',
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      validate: {
+        validator: function (coords: number[]) {
+          if (coords.length !== 2) return false;
+          const [lng, lat] = coords;
+          return lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90;
+        },
+        message: 'Coordonnées invalides. Format: [longitude, latitude]',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const TIME_FORMAT = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Schéma d'un créneau horaire (fin <= début : le créneau passe minuit)
+ */
+const timeField = {
+  type: String,
+  required: true,
+  match: [TIME_FORMAT, 'Format horaire invalide (HH:mm)'] as [RegExp, string],
+};
+
+const timeSlotFields = { start: timeField, end: timeField };
+
+const timeSlotSchema = new Schema(timeSlotFields, { _id: false });
+
+const weeklySlotSchema = new Schema(
+  {
+    day: {
+      type: Number,
       required: true,
-      match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Format horaire invalide (HH:mm)'],
+      min: [0, 'Les jours doivent être entre 0 (Dimanche) et 6 (Samedi)'],
+      max: [6, 'Les jours doivent être entre 0 (Dimanche) et 6 (Samedi)'],
     },
-    end: {
+    ...timeSlotFields,
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma d'une exception (date locale dont les créneaux remplacent ceux de la semaine)
+ */
+const scheduleExceptionSchema = new Schema(
+  {
+    date: {
       type: String,
       required: true,
-      match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Format horaire invalide (HH:mm)'],
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'],
+    },
+    slots: {
+      type: [timeSlotSchema],
+      default: [],
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Le libellé ne peut pas dépasser 100 caractères'],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma du planning hebdomadaire
+ */
+const weeklyScheduleSchema = new Schema(
+  {
+    slots: {
+      type: [weeklySlotSchema],
+      default: [],
+    },
+    exceptions: {
+      type: [scheduleExceptionSchema],
+      default: [],
     },
   },
   { _id: false }
@@ -121,28 +227,52 @@ const geofenceSchema = new Schema<IGeofenceDocument>(
       trim: true,
       maxlength: [500, 'La description ne peut pas dépasser 500 caractères'],
     },
+    shape: {
+      type: String,
+      enum: Object.values(GeofenceShape),
+      default: GeofenceShape.POLYGON,
+    },
+    // Pour un cercle, polygone généré à partir du centre et du rayon
     area: {
-      type: geoJSONPolygonSchema,
+      type: geofenceGeometrySchema,
       required: [true, 'La zone géographique est requise'],
       index: '2dsphere',
     },
+    center: {
+      type: geoJSONPointSchema,
+      required: false,
+    },
+    radiusMeters: {
+      type: Number,
+      min: [10, 'Le rayon doit être d\'au moins 10 m'],
+      max: [50000, 'Le rayon ne peut pas dépasser 50 km'],
+    },
+    // Interdite : toute entrée lève une alerte, indépendamment des affectations
+    mode: {
+      type: String,
+      enum: Object.values(GeofenceMode),
+      default: GeofenceMode.ALLOWED,
+    },
     isActive: {
       type: Boolean,
       default: true,
       index: true,
     },
-    allowedHours: {
-      type: allowedHoursSchema,
+    // Créneaux d'utilisation autorisés (absent = pas de restriction horaire)
+    schedule: {
+      type: weeklyScheduleSchema,
       required: false,
     },
-    allowedDays: {
-      type: [Number],
-      validate: {
-        validator: function (days: number[]) {
-          return days.every((d) => d >= 0 && d <= 6);
-        },
-        message: 'Les jours doivent être entre 0 (Dimanche) et 6 (Samedi)',
-      },
+    // Vitesse maximale dans la zone (ex. 10 km/h sur un chantier)
+    speedLimitKmh: {
+      type: Number,
+      min: [1, 'La limite de vitesse doit être d\'au moins 1 km/h'],
+      max: [200, 'La limite de vitesse ne peut pas dépasser 200 km/h'],
+    },
+    // Dépôt : un engin stationné ici est considéré à l'abri
+    isDepot: {
+      type: Boolean,
+      default: false,
     },
     organizationId: {
       type: Schema.Types.ObjectId,
@@ -150,15 +280,27 @@ const geofenceSchema = new Schema<IGeofenceDocument>(
       required: true,
       index: true,
     },
-    assignedVehicles: [{
+    // Zone de chantier générée automatiquement à l'activation d'un contrat
+    contractId: {
       type: Schema.Types.ObjectId,
-      ref: 'Vehicle',
-    }],
+      ref: 'Contract',
+      index: true,
+    },
+    // Archivée à la fin du contrat : désactivée et masquée de la liste par défaut
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
     color: {
       type: String,
       default: '#3B82F6',
       match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Couleur hexadécimale invalide'],
     },
+    // Numéro de la dernière révision enregistrée dans GeofenceRevision
+    revision: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -173,8 +315,112 @@ const geofenceSchema = new Schema<IGeofenceDocument>(
   }
 );
 
+// Zones circulaires : le polygone indexé est régénéré à chaque changement de centre ou de rayon
+geofenceSchema.pre('validate', function (next) {
+  const doc = this as IGeofenceDocument;
+
+  if (doc.shape !== GeofenceShape.CIRCLE) {
+    doc.center = undefined;
+    doc.radiusMeters = undefined;
+    return next();
+  }
+
+  if (!doc.center || !doc.radiusMeters) {
+    this.invalidate('center', 'Une zone circulaire requiert un centre et un rayon');
+    return next();
+  }
+
+  if (this.isModified('shape') || this.isModified('center') || this.isModified('radiusMeters')) {
+    doc.area = circleToPolygon(doc.center.coordinates, doc.radiusMeters);
+  }
+  next();
+});
+
+// Journal des révisions : chaque save modifiant la définition de la zone
+// incrémente son numéro de révision et enregistre un instantané immuable.
+// La révision est insérée avant la zone : l'index unique {geofenceId, revision}
+// réserve le numéro, et l'écriture de la zone est conditionnée à la révision lue.
+// Deux saves concurrents ne peuvent donc pas aboutir avec le même numéro.
+geofenceSchema.pre('save', async function () {
+  const changedFields = this.isNew
+    ? [...GEOFENCE_REVISION_FIELDS]
+    : GEOFENCE_REVISION_FIELDS.filter((field) => this.isModified(field));
+  if (changedFields.length === 0) return;
+
+  const context = (this.$locals.revisionContext ?? {}) as GeofenceRevisionContext;
+  const previousRevision = this.revision ?? 0;
+  const action = this.isNew ? GeofenceRevisionAction.CREATE : GeofenceRevisionAction.UPDATE;
+
+  if (!this.isNew) {
+    this.$where = { ...this.$where, revision: previousRevision };
+  }
+  this.revision = previousRevision + 1;
+
+  try {
+    const [entry] = await GeofenceRevision.create(
+      [
+        {
+          geofenceId: this._id,
+          organizationId: this.organizationId,
+          revision: this.revision,
+          action: context.restoredFrom !== undefined ? GeofenceRevisionAction.RESTORE : action,
+          changedFields,
+          snapshot: this.toRevisionSnapshot(),
+          changedBy: context.changedBy,
+          restoredFrom: context.restoredFrom,
+          note: context.note,
+        },
+      ],
+      { session: this.$session() }
+    );
+    this.$locals.pendingRevision = { id: entry._id, previousRevision };
+  } catch (error) {
+    this.revision = previousRevision;
+    if ((error as { code?: number }).code === 11000) {
+      throw new GeofenceRevisionConflictError(this._id.toString());
+    }
+    throw error;
+  }
+});
+
+geofenceSchema.post('save', function () {
+  delete this.$locals.pendingRevision;
+  delete this.$locals.revisionContext;
+  if (this.$where) delete this.$where.revision;
+});
+
+// Échec de l'écriture de la zone : la révision réservée est retirée du journal
+geofenceSchema.post(
+  'save',
+  async function (error: Error, doc: IGeofenceDocument, next: (error?: Error) => void) {
+    const pending = doc.$locals.pendingRevision as PendingRevision | undefined;
+    if (doc.$where) delete doc.$where.revision;
+    if (!pending) return next(error);
+
+    delete doc.$locals.pendingRevision;
+    doc.revision = pending.previousRevision;
+    try {
+      await GeofenceRevision.deleteOne({ _id: pending.id }, { session: doc.$session() ?? undefined });
+    } finally {
+      next(
+        error.name === 'DocumentNotFoundError'
+          ? new GeofenceRevisionConflictError(doc._id.toString())
+          : error
+      );
+    }
+  }
+);
+
+// Affectations de véhicules (GeofenceAssignment), chargées à la demande via populate
+geofenceSchema.virtual('assignments', {
+  ref: 'GeofenceAssignment',
+  localField: '_id',
+  foreignField: 'geofenceId',
+});
+
 // Index composites
 geofenceSchema.index({ organizationId: 1, isActive: 1 });
+geofenceSchema.index({ organizationId: 1, mode: 1, isActive: 1 });
 geofenceSchema.index({ organizationId: 1, area: '2dsphere' });
 
 // Méthodes statiques
@@ -203,13 +449,13 @@ geofenceSchema.statics.findContainingPoint = function (
 };
 
 geofenceSchema.statics.findIntersectingArea = function (
-  polygon: GeoJSONPolygon
+  geometry: GeofenceGeometry
 ): Promise<IGeofenceDocument[]> {
   return this.find({
     isActive: true,
     area: {
       $geoIntersects: {
-        $geometry: polygon,
+        $geometry: geometry,
       },
     },
   }).exec();
@@ -225,22 +471,33 @@ geofenceSchema.methods.containsPoint = async function (
   return results.some((g) => g._id.equals(this._id));
 };
 
-geofenceSchema.methods.isWithinAllowedHours = function (): boolean {
-  const doc = this as IGeofenceDocument;
-  if (!doc.allowedHours) return true;
+geofenceSchema.methods.setRevisionContext = function (
+  context: GeofenceRevisionContext
+): IGeofenceDocument {
+  this.$locals.revisionContext = context;
+  return this as IGeofenceDocument;
+};
 
-  const now = new Date();
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-  
-  return currentTime >= doc.allowedHours.start && currentTime <= doc.allowedHours.end;
+geofenceSchema.methods.toRevisionSnapshot = function (): Partial<
+  Record<GeofenceRevisionField, unknown>
+> {
+  const plain = this.toObject({ depopulate: true }) as Record<string, unknown>;
+  const snapshot: Partial<Record<GeofenceRevisionField, unknown>> = {};
+  for (const field of GEOFENCE_REVISION_FIELDS) {
+    if (plain[field] !== undefined) snapshot[field] = plain[field];
+  }
+  return snapshot;
 };
 
-geofenceSchema.methods.isAllowedDay = function (): boolean {
+// Les horaires s'évaluent dans le fuseau de l'organisation (et non celui du serveur)
+geofenceSchema.methods.isWithinSchedule = function (
+  at: Date = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
   const doc = this as IGeofenceDocument;
-  if (!doc.allowedDays || doc.allowedDays.length === 0) return true;
-  
-  const today = new Date().getDay();
-  return doc.allowedDays.includes(today);
+  if (!doc.schedule) return true;
+
+  return isWithinSchedule(doc.schedule, toZonedTime(at, timeZone));
 };
 
 export const Geofence = mongoose.model<IGeofenceDocument, IGeofenceModel>(
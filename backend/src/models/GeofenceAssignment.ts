@@ -0,0 +1,107 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { GeofenceAssignmentSource } from '../types/index.js';
+
+/**
+ * Interface pour le document Mongoose GeofenceAssignment
+ * Une affectation autorise un véhicule dans une zone sur [validFrom, validTo[
+ */
+export interface IGeofenceAssignmentDocument extends Document {
+  _id: Types.ObjectId;
+  vehicleId: Types.ObjectId;
+  geofenceId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  validFrom: Date;
+  validTo?: Date | null;
+  source: GeofenceAssignmentSource;
+  contractId?: Types.ObjectId;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Filtre MongoDB des affectations valides à un instant donné
+ */
+export function validAtFilter(at: Date): Record<string, unknown> {
+  return {
+    validFrom: { $lte: at },
+    $or: [{ validTo: null }, { validTo: { $gt: at } }],
+  };
+}
+
+/**
+ * Schéma Mongoose des affectations véhicule ↔ geofence
+ */
+const geofenceAssignmentSchema = new Schema<IGeofenceAssignmentDocument>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: [true, 'Le véhicule est requis'],
+    },
+    geofenceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Geofence',
+      required: [true, 'La zone est requise'],
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    validFrom: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    // null : affectation sans échéance (jusqu'à son retrait)
+    validTo: {
+      type: Date,
+      default: null,
+      validate: {
+        validator: function (this: IGeofenceAssignmentDocument, validTo: Date | null) {
+          return !validTo || validTo > this.validFrom;
+        },
+        message: 'La fin de validité doit être postérieure au début',
+      },
+    },
+    source: {
+      type: String,
+      enum: Object.values(GeofenceAssignmentSource),
+      default: GeofenceAssignmentSource.MANUAL,
+    },
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contract',
+      index: true,
+    },
+    // Absent : affectation système (contrat, migration)
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index composites (évaluation des positions et historique d'une zone)
+geofenceAssignmentSchema.index({ vehicleId: 1, validFrom: 1, validTo: 1 });
+geofenceAssignmentSchema.index({ geofenceId: 1, validTo: 1 });
+
+export const GeofenceAssignment = mongoose.model<IGeofenceAssignmentDocument>(
+  'GeofenceAssignment',
+  geofenceAssignmentSchema
+);
+
+export default GeofenceAssignment;
@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { GeofenceRevisionAction } from '../types/index.js';
+
+/**
+ * Champs d'une zone conservés dans chaque révision
+ */
+export const GEOFENCE_REVISION_FIELDS = [
+  'name',
+  'description',
+  'shape',
+  'area',
+  'center',
+  'radiusMeters',
+  'mode',
+  'isActive',
+  'schedule',
+  'speedLimitKmh',
+  'isDepot',
+  'color',
+  'contractId',
+  'archivedAt',
+] as const;
+
+export type GeofenceRevisionField = (typeof GEOFENCE_REVISION_FIELDS)[number];
+
+/**
+ * Interface pour le document Mongoose GeofenceRevision
+ * Un document = l'état complet d'une zone après une modification (journal immuable)
+ */
+export interface IGeofenceRevisionDocument extends Document {
+  _id: Types.ObjectId;
+  geofenceId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  revision: number;
+  action: GeofenceRevisionAction;
+  changedFields: GeofenceRevisionField[];
+  snapshot: Partial<Record<GeofenceRevisionField, unknown>>;
+  changedBy?: Types.ObjectId;
+  restoredFrom?: number;
+  note?: string;
+  createdAt: Date;
+}
+
+/**
+ * Schéma Mongoose du journal des révisions de geofences
+ */
+const geofenceRevisionSchema = new Schema<IGeofenceRevisionDocument>(
+  {
+    geofenceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Geofence',
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    action: {
+      type: String,
+      enum: Object.values(GeofenceRevisionAction),
+      required: true,
+    },
+    changedFields: {
+      type: [String],
+      default: [],
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    // Absent : modification système (contrat, import, migration...)
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    restoredFrom: {
+      type: Number,
+    },
+    note: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Une seule révision par numéro et par zone
+geofenceRevisionSchema.index({ geofenceId: 1, revision: -1 }, { unique: true });
+
+// Journal immuable : ni modification ni suppression après écriture
+function rejectMutation(next: (error?: Error) => void): void {
+  next(new Error('Les révisions de geofence sont immuables'));
+}
+
+geofenceRevisionSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectMutation(next);
+  next();
+});
+geofenceRevisionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+geofenceRevisionSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+
+export const GeofenceRevision = mongoose.model<IGeofenceRevisionDocument>(
+  'GeofenceRevision',
+  geofenceRevisionSchema
+);
+
+export default GeofenceRevision;
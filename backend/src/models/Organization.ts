@@ -1,4 +1,48 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { VehicleType, RiskFactor } from '../types/index.js';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../utils/timezone.js';
+
+/**
+ * Paramètres du score de risque de vol
+ */
+export interface ITheftRiskSettings {
+  windowMinutes: number; // Fenêtre glissante de combinaison des signaux
+  alertThreshold: number; // Score (0-100) déclenchant POTENTIAL_THEFT
+  deliveryRadiusMeters: number; // Distance au lieu de livraison jugée suspecte
+  weights: Map<RiskFactor, number>; // Poids par facteur (surcharge des défauts)
+}
+
+/**
+ * Période de fermeture des chantiers (bornes incluses, dates locales)
+ */
+export interface IClosurePeriod {
+  start: string; // "YYYY-MM-DD"
+  end: string; // "YYYY-MM-DD"
+  label: string; // Ex. "Fermeture estivale"
+}
+
+/**
+ * Calendrier des jours non travaillés
+ */
+export interface ICalendarSettings {
+  publicHolidays: boolean; // Jours fériés français calculés automatiquement
+  closures: IClosurePeriod[];
+}
+
+/**
+ * Paramètres métier d'une organisation
+ */
+export interface IOrganizationSettings {
+  timezone: string; // Fuseau IANA des règles horaires (ex. "Europe/Paris")
+  speedLimits: Map<VehicleType, number>; // km/h par type d'engin
+  speedViolationDelaySeconds: number; // Durée de dépassement avant alerte
+  batteryLowThreshold: number; // % de batterie tracker sous lequel alerter
+  externalVoltageLowThreshold?: number; // Volts d'alimentation sous lesquels alerter
+  towingDistanceMeters: number; // Déplacement contact coupé avant alerte de remorquage
+  siteGeofenceRadiusMeters?: number; // Rayon des zones générées autour des lieux de livraison
+  theftRisk: ITheftRiskSettings;
+  calendar: ICalendarSettings; // Jours où tout mouvement est hors horaires
+}
 
 /**
  * Interface pour le document Mongoose Organization
@@ -7,6 +51,7 @@ export interface IOrganizationDocument extends Document {
   _id: Types.ObjectId;
   name: string;
   slug: string;
+  settings: IOrganizationSettings;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -27,6 +72,160 @@ function generateSlug(name: string): string {
     .replace(/-+/g, '-');            // tirets multiples → un seul
 }
 
+/**
+ * Schéma des paramètres du score de risque de vol
+ */
+const theftRiskSchema = new Schema<ITheftRiskSettings>(
+  {
+    windowMinutes: {
+      type: Number,
+      min: 5,
+      max: 1440,
+      default: 30,
+    },
+    alertThreshold: {
+      type: Number,
+      min: 1,
+      max: 100,
+      default: 70,
+    },
+    deliveryRadiusMeters: {
+      type: Number,
+      min: 100,
+      max: 100000,
+      default: 5000,
+    },
+    weights: {
+      type: Map,
+      of: { type: Number, min: 0, max: 100 },
+      default: {},
+      validate: {
+        validator: function (weights: Map<string, number>) {
+          const factors = Object.values(RiskFactor) as string[];
+          return [...weights.keys()].every((factor) => factors.includes(factor));
+        },
+        message: 'Facteur de risque invalide dans les poids',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Schéma d'une période de fermeture
+ */
+const closurePeriodSchema = new Schema<IClosurePeriod>(
+  {
+    start: {
+      type: String,
+      required: true,
+      match: [DATE_FORMAT, 'Format de date invalide (YYYY-MM-DD)'],
+    },
+    end: {
+      type: String,
+      required: true,
+      match: [DATE_FORMAT, 'Format de date invalide (YYYY-MM-DD)'],
+      validate: {
+        validator: function (this: IClosurePeriod, end: string) {
+          return end >= this.start;
+        },
+        message: 'La fin de la fermeture doit suivre son début',
+      },
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma du calendrier des jours non travaillés
+ */
+const calendarSchema = new Schema<ICalendarSettings>(
+  {
+    publicHolidays: {
+      type: Boolean,
+      default: true,
+    },
+    closures: {
+      type: [closurePeriodSchema],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma des paramètres de l'organisation
+ */
+const settingsSchema = new Schema<IOrganizationSettings>(
+  {
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: 'Fuseau horaire IANA invalide',
+      },
+    },
+    speedLimits: {
+      type: Map,
+      of: { type: Number, min: 1, max: 200 },
+      default: {},
+      validate: {
+        validator: function (limits: Map<string, number>) {
+          const types = Object.values(VehicleType) as string[];
+          return [...limits.keys()].every((type) => types.includes(type));
+        },
+        message: 'Type d\'engin invalide dans les limites de vitesse',
+      },
+    },
+    speedViolationDelaySeconds: {
+      type: Number,
+      min: 0,
+      max: 600,
+      default: 10,
+    },
+    batteryLowThreshold: {
+      type: Number,
+      min: 1,
+      max: 99,
+      default: 20,
+    },
+    externalVoltageLowThreshold: {
+      type: Number,
+      min: 0,
+      max: 60,
+    },
+    towingDistanceMeters: {
+      type: Number,
+      min: 20,
+      max: 5000,
+      default: 100,
+    },
+    siteGeofenceRadiusMeters: {
+      type: Number,
+      min: 10,
+      max: 50000,
+    },
+    theftRisk: {
+      type: theftRiskSchema,
+      default: () => ({}),
+    },
+    calendar: {
+      type: calendarSchema,
+      default: () => ({}),
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Schéma Mongoose pour les organisations
  */
@@ -45,6 +244,10 @@ const organizationSchema = new Schema<IOrganizationDocument>(
       lowercase: true,
       maxlength: [220, 'Le slug ne peut pas dépasser 220 caractères'],
     },
+    settings: {
+      type: settingsSchema,
+      default: () => ({}),
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -0,0 +1,135 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { GeoJSONPoint, PositionRejectionReason } from '../types/index.js';
+
+/**
+ * Interface pour le document Mongoose Position
+ * Un document = un point GPS reçu d'un tracker (historique complet)
+ */
+export interface IPositionDocument extends Document {
+  _id: Types.ObjectId;
+  vehicleId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  location: GeoJSONPoint;
+  timestamp: Date;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
+  satellites?: number;
+  hdop?: number;
+  rejected?: boolean;
+  rejectionReason?: PositionRejectionReason;
+}
+
+/**
+ * Schéma GeoJSON Point pour la position
+ */
+const geoJSONPointSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true,
+      default: 'Point',
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma Mongoose pour l'historique des positions GPS
+ *
+ * Stocké dans une collection time-series MongoDB (5.0+) :
+ * - timeField: timestamp  → horodatage du point GPS (pas de l'insertion)
+ * - metaField: vehicleId  → regroupe les points d'un même véhicule dans les buckets
+ */
+const positionSchema = new Schema<IPositionDocument>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: [true, 'Le véhicule est requis'],
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    location: {
+      type: geoJSONPointSchema,
+      required: [true, 'La position est requise'],
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    speed: {
+      type: Number,
+      min: 0,
+    },
+    heading: {
+      type: Number,
+      min: 0,
+      max: 360,
+    },
+    batteryLevel: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    ignition: {
+      type: Boolean,
+    },
+    externalVoltage: {
+      type: Number,
+      min: 0,
+    },
+    satellites: {
+      type: Number,
+      min: 0,
+    },
+    hdop: {
+      type: Number,
+      min: 0,
+    },
+    // Point écarté par le filtrage : conservé pour analyse, exclu des traces et des règles
+    rejected: {
+      type: Boolean,
+    },
+    rejectionReason: {
+      type: String,
+      enum: Object.values(PositionRejectionReason),
+    },
+  },
+  {
+    timeseries: {
+      timeField: 'timestamp',
+      metaField: 'vehicleId',
+      granularity: 'seconds',
+    },
+    versionKey: false,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index pour les requêtes de relecture (véhicule + plage de dates)
+positionSchema.index({ vehicleId: 1, timestamp: 1 });
+positionSchema.index({ organizationId: 1, timestamp: -1 });
+
+export const Position = mongoose.model<IPositionDocument>(
+  'Position',
+  positionSchema
+);
+
+export default Position;
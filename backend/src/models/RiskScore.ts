@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { RiskFactor } from '../types/index.js';
+
+/**
+ * Facteur ayant contribué à un score de risque
+ */
+export interface IRiskScoreFactor {
+  factor: RiskFactor;
+  weight: number;
+  observedAt: Date;
+}
+
+/**
+ * Interface pour le document Mongoose RiskScore
+ * Un document = une évolution du score de risque de vol d'un véhicule
+ */
+export interface IRiskScoreDocument extends Document {
+  _id: Types.ObjectId;
+  vehicleId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  score: number;
+  factors: IRiskScoreFactor[];
+  alertTriggered: boolean;
+  computedAt: Date;
+}
+
+/**
+ * Schéma d'un facteur contributif
+ */
+const riskScoreFactorSchema = new Schema<IRiskScoreFactor>(
+  {
+    factor: {
+      type: String,
+      enum: Object.values(RiskFactor),
+      required: true,
+    },
+    weight: {
+      type: Number,
+      required: true,
+    },
+    observedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schéma Mongoose pour l'historique des scores de risque de vol
+ */
+const riskScoreSchema = new Schema<IRiskScoreDocument>(
+  {
+    vehicleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    score: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+    },
+    factors: {
+      type: [riskScoreFactorSchema],
+      default: [],
+    },
+    alertTriggered: {
+      type: Boolean,
+      default: false,
+    },
+    computedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = String(ret._id);
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Historique d'un véhicule, du plus récent au plus ancien
+riskScoreSchema.index({ vehicleId: 1, computedAt: -1 });
+
+export const RiskScore = mongoose.model<IRiskScoreDocument>('RiskScore', riskScoreSchema);
+
+export default RiskScore;
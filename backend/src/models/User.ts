@@ -26,6 +26,12 @@ export enum Permission {
   VEHICLES_DELETE = 'vehicles:delete',
   VEHICLES_LOCATION = 'vehicles:location',
   
+  // Trackers GPS
+  DEVICES_READ = 'devices:read',
+  DEVICES_CREATE = 'devices:create',
+  DEVICES_UPDATE = 'devices:update',
+  DEVICES_DELETE = 'devices:delete',
+  
   // Geofences
   GEOFENCES_READ = 'geofences:read',
   GEOFENCES_CREATE = 'geofences:create',
@@ -70,6 +76,9 @@ export const DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission.VEHICLES_CREATE,
     Permission.VEHICLES_UPDATE,
     Permission.VEHICLES_LOCATION,
+    Permission.DEVICES_READ,
+    Permission.DEVICES_CREATE,
+    Permission.DEVICES_UPDATE,
     Permission.GEOFENCES_READ,
     Permission.GEOFENCES_CREATE,
     Permission.GEOFENCES_UPDATE,
@@ -87,6 +96,7 @@ export const DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
   [UserRole.OPERATOR]: [
     Permission.VEHICLES_READ,
     Permission.VEHICLES_LOCATION,
+    Permission.DEVICES_READ,
     Permission.GEOFENCES_READ,
     Permission.ALERTS_READ,
     Permission.ALERTS_ACKNOWLEDGE,
@@ -25,8 +25,10 @@ export interface IVehicleDocument extends Document {
   fuelLevel?: number;
   engineHours?: number;
   odometer?: number;
+  batteryLevel?: number;
+  externalVoltage?: number;
+  lastTelemetryAt?: Date;
   organizationId: Types.ObjectId;
-  assignedGeofences: Types.ObjectId[];
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -159,16 +161,25 @@ const vehicleSchema = new Schema<IVehicleDocument>(
       type: Number,
       min: 0,
     },
+    // Dernière télémétrie d'alimentation remontée par le tracker
+    batteryLevel: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    externalVoltage: {
+      type: Number,
+      min: 0,
+    },
+    lastTelemetryAt: {
+      type: Date,
+    },
     organizationId: {
       type: Schema.Types.ObjectId,
       ref: 'Organization',
       required: true,
       index: true,
     },
-    assignedGeofences: [{
-      type: Schema.Types.ObjectId,
-      ref: 'Geofence',
-    }],
     notes: {
       type: String,
       maxlength: [1000, 'Les notes ne peuvent pas dépasser 1000 caractères'],
@@ -227,6 +238,13 @@ vehicleSchema.statics.findWithinPolygon = function (
   }).exec();
 };
 
+// Affectations de zones (GeofenceAssignment), chargées à la demande via populate
+vehicleSchema.virtual('assignments', {
+  ref: 'GeofenceAssignment',
+  localField: '_id',
+  foreignField: 'vehicleId',
+});
+
 // Middleware pre-save
 vehicleSchema.pre('save', function (next) {
   if (this.isModified('location')) {
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Geofence, GeofenceRevisionConflictError, IGeofenceDocument } from '../Geofence.js';
+import { GeofenceRevision } from '../GeofenceRevision.js';
+
+// ============================================
+// Attribution des numéros de révision au save
+// ============================================
+
+const revisionId = new mongoose.Types.ObjectId();
+
+function loadGeofence(revision: number): IGeofenceDocument {
+  return Geofence.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Dépôt Nord',
+    organizationId: new mongoose.Types.ObjectId(),
+    area: {
+      type: 'Polygon',
+      coordinates: [[[2.35, 48.85], [2.36, 48.85], [2.36, 48.86], [2.35, 48.85]]],
+    },
+    revision,
+  });
+}
+
+const duplicateKeyError = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+describe('Geofence.save (journal des révisions)', () => {
+  beforeEach(() => {
+    vi.spyOn(GeofenceRevision, 'create').mockResolvedValue([{ _id: revisionId }] as never);
+    vi.spyOn(GeofenceRevision, 'deleteOne').mockResolvedValue({ deletedCount: 1 } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('conditionne l\'écriture de la zone à la révision lue', async () => {
+    const updateOne = vi
+      .spyOn(Geofence.collection, 'updateOne')
+      .mockResolvedValue({ matchedCount: 1, modifiedCount: 1 } as never);
+    const geofence = loadGeofence(3);
+
+    geofence.name = 'Dépôt Nord (agrandi)';
+    await geofence.save();
+
+    expect(GeofenceRevision.create).toHaveBeenCalledWith(
+      [expect.objectContaining({ geofenceId: geofence._id, revision: 4, changedFields: ['name'] })],
+      expect.anything()
+    );
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: geofence._id, revision: 3 },
+      expect.objectContaining({ $set: expect.objectContaining({ revision: 4 }) }),
+      expect.anything()
+    );
+    expect(geofence.revision).toBe(4);
+    expect(geofence.$where?.revision).toBeUndefined();
+  });
+
+  it('échoue sans écrire la zone si le numéro est déjà pris', async () => {
+    vi.mocked(GeofenceRevision.create).mockRejectedValue(duplicateKeyError());
+    const updateOne = vi.spyOn(Geofence.collection, 'updateOne');
+    const geofence = loadGeofence(3);
+
+    geofence.name = 'Dépôt Nord (agrandi)';
+    await expect(geofence.save()).rejects.toBeInstanceOf(GeofenceRevisionConflictError);
+
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(geofence.revision).toBe(3);
+  });
+
+  it('retire la révision réservée si la zone a changé entre-temps', async () => {
+    vi.spyOn(Geofence.collection, 'updateOne').mockResolvedValue({
+      matchedCount: 0,
+      modifiedCount: 0,
+    } as never);
+    const geofence = loadGeofence(3);
+
+    geofence.name = 'Dépôt Nord (agrandi)';
+    await expect(geofence.save()).rejects.toBeInstanceOf(GeofenceRevisionConflictError);
+
+    expect(GeofenceRevision.deleteOne).toHaveBeenCalledWith({ _id: revisionId }, expect.anything());
+    expect(geofence.revision).toBe(3);
+    expect(geofence.$where?.revision).toBeUndefined();
+  });
+
+  it('retire la révision réservée si MongoDB refuse la zone', async () => {
+    const rejection = new Error('Can\'t extract geo keys');
+    vi.spyOn(Geofence.collection, 'updateOne').mockRejectedValue(rejection);
+    const geofence = loadGeofence(3);
+
+    geofence.name = 'Dépôt Nord (agrandi)';
+    await expect(geofence.save()).rejects.toBe(rejection);
+
+    expect(GeofenceRevision.deleteOne).toHaveBeenCalledWith({ _id: revisionId }, expect.anything());
+    expect(geofence.revision).toBe(3);
+  });
+});
@@ -1,9 +1,35 @@
 // Export de tous les modèles Mongoose
-export { Organization, IOrganizationDocument } from './Organization.js';
+export {
+  Organization,
+  IOrganizationDocument,
+  IOrganizationSettings,
+  ITheftRiskSettings,
+  ICalendarSettings,
+  IClosurePeriod,
+} from './Organization.js';
 export { Vehicle, IVehicleDocument, IVehicleModel } from './Vehicle.js';
-export { Geofence, IGeofenceDocument, IGeofenceModel } from './Geofence.js';
+export {
+  Geofence,
+  IGeofenceDocument,
+  IGeofenceModel,
+  GeofenceRevisionConflictError,
+} from './Geofence.js';
 export { Contract, IContractDocument } from './Contract.js';
 export { Alert, IAlertDocument } from './Alert.js';
 export { Client, IClientDocument } from './Client.js';
 export { User, IUserDocument, UserRole, Permission, DEFAULT_PERMISSIONS } from './User.js';
 export { RefreshToken, IRefreshTokenDocument, IRefreshTokenModel } from './RefreshToken.js';
+export { Position, IPositionDocument } from './Position.js';
+export { Device, IDeviceDocument, IDeviceAssignment, hashDeviceToken } from './Device.js';
+export {
+  GeofenceAssignment,
+  IGeofenceAssignmentDocument,
+  validAtFilter,
+} from './GeofenceAssignment.js';
+export {
+  GeofenceRevision,
+  IGeofenceRevisionDocument,
+  GEOFENCE_REVISION_FIELDS,
+  GeofenceRevisionField,
+} from './GeofenceRevision.js';
+export { RiskScore, IRiskScoreDocument, IRiskScoreFactor } from './RiskScore.js';
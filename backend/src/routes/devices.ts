@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { Permission } from '../models/User.js';
+import { DeviceController } from '../controllers/DeviceController.js';
+
+const router = Router();
+const controller = new DeviceController();
+
+/**
+ * Routes du registre des trackers GPS
+ *
+ * GET    /api/devices                 - Liste avec pagination/filtres
+ * GET    /api/devices/:id             - Détail d'un tracker
+ * GET    /api/devices/:id/assignments - Historique des affectations
+ * POST   /api/devices                 - Enregistrer un tracker (renvoie le secret)
+ * POST   /api/devices/:id/token       - Régénérer le secret
+ * POST   /api/devices/:id/assign      - Affecter à un véhicule
+ * POST   /api/devices/:id/unassign    - Désaffecter
+ * PATCH  /api/devices/:id             - Modifier
+ * DELETE /api/devices/:id             - Supprimer
+ */
+
+// Toutes les routes nécessitent une authentification
+router.use(authenticate);
+
+router.get(
+  '/',
+  requirePermission(Permission.DEVICES_READ),
+  controller.list.bind(controller)
+);
+
+router.get(
+  '/:id',
+  requirePermission(Permission.DEVICES_READ),
+  controller.getOne.bind(controller)
+);
+
+router.get(
+  '/:id/assignments',
+  requirePermission(Permission.DEVICES_READ),
+  controller.getAssignments.bind(controller)
+);
+
+router.post(
+  '/',
+  requirePermission(Permission.DEVICES_CREATE),
+  controller.create.bind(controller)
+);
+
+router.post(
+  '/:id/token',
+  requirePermission(Permission.DEVICES_UPDATE),
+  controller.regenerateToken.bind(controller)
+);
+
+router.post(
+  '/:id/assign',
+  requirePermission(Permission.DEVICES_UPDATE),
+  controller.assign.bind(controller)
+);
+
+router.post(
+  '/:id/unassign',
+  requirePermission(Permission.DEVICES_UPDATE),
+  controller.unassign.bind(controller)
+);
+
+router.patch(
+  '/:id',
+  requirePermission(Permission.DEVICES_UPDATE),
+  controller.update.bind(controller)
+);
+
+router.delete(
+  '/:id',
+  requirePermission(Permission.DEVICES_DELETE),
+  controller.remove.bind(controller)
+);
+
+export default router;
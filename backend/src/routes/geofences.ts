@@ -1,7 +1,15 @@
 import { Router } from 'express';
 import { geofenceController } from '../controllers/index.js';
+import { optionalAuth } from '../middleware/auth.js';
 import { validate, validateMongoId } from '../validators/index.js';
-import { createGeofenceSchema, updateGeofenceSchema, nearQuerySchema } from '../validators/schemas.js';
+import {
+  createGeofenceSchema,
+  updateGeofenceSchema,
+  nearQuerySchema,
+  importGeofencesSchema,
+  exportGeofencesQuerySchema,
+  geofenceRevisionParamsSchema,
+} from '../validators/schemas.js';
 
 const router = Router();
 
@@ -10,19 +18,45 @@ const router = Router();
  * 
  * GET    /api/geofences                    - Liste des geofences
  * GET    /api/geofences/containing-point   - Trouver par point
+ * GET    /api/geofences/export             - Export GeoJSON / KML / GPX
+ * POST   /api/geofences/import             - Import (aperçu avec dryRun)
+ * GET    /api/geofences/assignments/consistency - Cohérence des affectations véhicule ↔ zone
  * GET    /api/geofences/:id                - Détail d'une geofence
  * GET    /api/geofences/:id/vehicles       - Véhicules dans la zone
+ * GET    /api/geofences/:id/revisions      - Historique des révisions
+ * GET    /api/geofences/:id/revisions/:revision         - Détail d'une révision
+ * POST   /api/geofences/:id/revisions/:revision/restore - Restaurer une révision
  * POST   /api/geofences                    - Créer une geofence
  * PUT    /api/geofences/:id                - Modifier une geofence
  * DELETE /api/geofences/:id                - Supprimer une geofence
  */
 
+// Utilisateur identifié si un token est fourni (auteur des révisions)
+router.use(optionalAuth);
+
 router.get(
   '/containing-point',
   validate(nearQuerySchema),
   geofenceController.findContainingPoint.bind(geofenceController)
 );
 
+router.get(
+  '/export',
+  validate(exportGeofencesQuerySchema, 'query'),
+  geofenceController.exportFile.bind(geofenceController)
+);
+
+router.get(
+  '/assignments/consistency',
+  geofenceController.checkAssignments.bind(geofenceController)
+);
+
+router.post(
+  '/import',
+  validate(importGeofencesSchema),
+  geofenceController.importFile.bind(geofenceController)
+);
+
 router.get('/', geofenceController.getAll.bind(geofenceController));
 
 router.post(
@@ -43,6 +77,24 @@ router.get(
   geofenceController.getVehiclesInside.bind(geofenceController)
 );
 
+router.get(
+  '/:id/revisions',
+  validateMongoId('id'),
+  geofenceController.getRevisions.bind(geofenceController)
+);
+
+router.get(
+  '/:id/revisions/:revision',
+  validate(geofenceRevisionParamsSchema, 'params'),
+  geofenceController.getRevision.bind(geofenceController)
+);
+
+router.post(
+  '/:id/revisions/:revision/restore',
+  validate(geofenceRevisionParamsSchema, 'params'),
+  geofenceController.restoreRevision.bind(geofenceController)
+);
+
 router.put(
   '/:id',
   validateMongoId('id'),
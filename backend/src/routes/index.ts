@@ -6,6 +6,9 @@ import authRoutes from './auth.js';
 import userRoutes from './users.js';
 import contractRoutes from './contracts.js';
 import clientRoutes from './clients.js';
+import deviceRoutes from './devices.js';
+import ingestRoutes from './ingest.js';
+import organizationRoutes from './organization.js';
 
 const router = Router();
 
@@ -17,6 +20,9 @@ router.use('/geofences', geofenceRoutes);
 router.use('/users', userRoutes);
 router.use('/contracts', contractRoutes);
 router.use('/clients', clientRoutes);
+router.use('/devices', deviceRoutes);
+router.use('/ingest', ingestRoutes);
+router.use('/organization', organizationRoutes);
 
 // Route de santé
 router.get('/health', (_req, res) => {
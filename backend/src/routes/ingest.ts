@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ingestController } from '../controllers/index.js';
+import { validate } from '../validators/index.js';
+import { ingestPositionsSchema } from '../validators/schemas.js';
+
+const router = Router();
+
+/**
+ * Routes d'ingestion des trackers GPS
+ * Authentification par tracker (IMEI + secret) dans le corps de la requête
+ *
+ * POST   /api/ingest/positions  - Lots de positions horodatées (upload bufferisé)
+ */
+
+router.post(
+  '/positions',
+  validate(ingestPositionsSchema),
+  ingestController.ingestPositions.bind(ingestController)
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { Permission } from '../models/User.js';
+import { OrganizationController } from '../controllers/OrganizationController.js';
+
+const router = Router();
+const controller = new OrganizationController();
+
+/**
+ * Routes des paramètres de l'organisation de l'utilisateur
+ *
+ * GET    /api/organization/settings  - Paramètres (limites de vitesse...)
+ * PATCH  /api/organization/settings  - Modifier les paramètres
+ * GET    /api/organization/holidays  - Jours fériés français d'une année
+ */
+
+// Toutes les routes nécessitent une authentification
+router.use(authenticate);
+
+router.get(
+  '/settings',
+  controller.getSettings.bind(controller)
+);
+
+router.patch(
+  '/settings',
+  requirePermission(Permission.ORGANIZATION_SETTINGS),
+  controller.updateSettings.bind(controller)
+);
+
+router.get(
+  '/holidays',
+  controller.getHolidays.bind(controller)
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { vehicleController } from '../controllers/index.js';
+import { optionalAuth } from '../middleware/auth.js';
 import { validate, validateMongoId } from '../validators/index.js';
 import {
   createVehicleSchema,
@@ -7,7 +8,11 @@ import {
   updateVehicleLocationSchema,
   updateVehicleStatusSchema,
   vehicleQuerySchema,
+  positionsQuerySchema,
+  tripsQuerySchema,
+  riskHistoryQuerySchema,
   nearQuerySchema,
+  assignGeofenceSchema,
 } from '../validators/schemas.js';
 
 const router = Router();
@@ -20,15 +25,22 @@ const router = Router();
  * GET    /api/vehicles/near     - Recherche géographique
  * GET    /api/vehicles/:id      - Détail d'un véhicule
  * GET    /api/vehicles/:id/details - Véhicule + contrat + client
+ * GET    /api/vehicles/:id/positions - Historique GPS (GeoJSON, ?from=&to=)
+ * GET    /api/vehicles/:id/trips     - Trajets et arrêts (?from=&to=)
+ * GET    /api/vehicles/:id/risk      - Historique du score de risque de vol (?from=&to=)
  * POST   /api/vehicles          - Créer un véhicule
  * PUT    /api/vehicles/:id      - Modifier un véhicule
  * PATCH  /api/vehicles/:id/location - Mettre à jour la position
  * PATCH  /api/vehicles/:id/status   - Modifier le statut
- * POST   /api/vehicles/:id/geofences/:geofenceId - Assigner geofence
- * DELETE /api/vehicles/:id/geofences/:geofenceId - Retirer geofence
+ * GET    /api/vehicles/:id/geofences             - Historique des affectations de zones
+ * POST   /api/vehicles/:id/geofences/:geofenceId - Assigner geofence (validFrom / validTo)
+ * DELETE /api/vehicles/:id/geofences/:geofenceId - Retirer geofence (clôt l'affectation)
  * DELETE /api/vehicles/:id      - Supprimer (soft)
  */
 
+// Utilisateur identifié si un token est fourni (auteur des affectations)
+router.use(optionalAuth);
+
 // Routes sans paramètre d'ID (AVANT les routes avec :id)
 router.get('/stats', vehicleController.getStats.bind(vehicleController));
 
@@ -63,6 +75,27 @@ router.get(
   vehicleController.getDetails.bind(vehicleController)
 );
 
+router.get(
+  '/:id/positions',
+  validateMongoId('id'),
+  validate(positionsQuerySchema, 'query'),
+  vehicleController.getPositions.bind(vehicleController)
+);
+
+router.get(
+  '/:id/trips',
+  validateMongoId('id'),
+  validate(tripsQuerySchema, 'query'),
+  vehicleController.getTrips.bind(vehicleController)
+);
+
+router.get(
+  '/:id/risk',
+  validateMongoId('id'),
+  validate(riskHistoryQuerySchema, 'query'),
+  vehicleController.getRiskHistory.bind(vehicleController)
+);
+
 router.put(
   '/:id',
   validateMongoId('id'),
@@ -84,10 +117,17 @@ router.patch(
   vehicleController.updateStatus.bind(vehicleController)
 );
 
+router.get(
+  '/:id/geofences',
+  validateMongoId('id'),
+  vehicleController.getGeofenceAssignments.bind(vehicleController)
+);
+
 router.post(
   '/:id/geofences/:geofenceId',
   validateMongoId('id'),
   validateMongoId('geofenceId'),
+  validate(assignGeofenceSchema),
   vehicleController.assignGeofence.bind(vehicleController)
 );
 
@@ -1,5 +1,15 @@
 import mongoose from 'mongoose';
-import { Vehicle, Geofence, Client, Contract, Alert, User, RefreshToken } from './models/index.js';
+import {
+  Vehicle,
+  Geofence,
+  GeofenceAssignment,
+  GeofenceRevision,
+  Client,
+  Contract,
+  Alert,
+  User,
+  RefreshToken,
+} from './models/index.js';
 import { UserRole } from './models/User.js';
 import {
   VehicleType,
@@ -8,6 +18,7 @@ import {
   AlertType,
   AlertSeverity,
   AlertStatus,
+  GeofenceAssignmentSource,
 } from './types/index.js';
 import config, { DEMO_ORGANIZATION_ID } from './config/index.js';
 
@@ -123,13 +134,17 @@ const geofencesData = [
       ]],
     },
     isActive: true,
-    allowedHours: { start: '07:00', end: '19:00' },
-    allowedDays: [1, 2, 3, 4, 5], // Lun-Ven
+    schedule: {
+      // Lun-Ven 07:00-19:00
+      slots: [1, 2, 3, 4, 5].map((day) => ({ day, start: '07:00', end: '19:00' })),
+      exceptions: [],
+    },
     color: '#3B82F6',
   },
   {
     name: 'Dépôt Principal',
     description: 'Zone de stockage des engins',
+    isDepot: true,
     area: {
       type: 'Polygon' as const,
       coordinates: [[
@@ -157,8 +172,14 @@ const geofencesData = [
       ]],
     },
     isActive: true,
-    allowedHours: { start: '08:00', end: '18:00' },
-    allowedDays: [1, 2, 3, 4, 5, 6], // Lun-Sam
+    schedule: {
+      // Lun-Sam 08:00-18:00, avec coulage de nuit le jeudi (22:00-05:00)
+      slots: [
+        ...[1, 2, 3, 4, 5, 6].map((day) => ({ day, start: '08:00', end: '18:00' })),
+        { day: 4, start: '22:00', end: '05:00' },
+      ],
+      exceptions: [],
+    },
     color: '#F59E0B',
   },
 ];
@@ -204,6 +225,9 @@ async function seed() {
     await Promise.all([
       Vehicle.deleteMany({}),
       Geofence.deleteMany({}),
+      // Journal immuable : purge directe sur la collection (hors middleware)
+      GeofenceRevision.collection.deleteMany({}),
+      GeofenceAssignment.deleteMany({}),
       Client.deleteMany({}),
       Contract.deleteMany({}),
       Alert.deleteMany({}),
@@ -211,11 +235,11 @@ async function seed() {
 
     // Créer les geofences
     console.log('[Seed] Création des geofences...');
-    const geofences = await Geofence.insertMany(
+    // create (et non insertMany) : chaque zone reçoit sa révision initiale
+    const geofences = await Geofence.create(
       geofencesData.map((g) => ({
         ...g,
         organizationId: DEMO_ORG_ID,
-        assignedVehicles: [],
       }))
     );
     console.log(`   ${geofences.length} geofences créées`);
@@ -223,24 +247,28 @@ async function seed() {
     // Créer les véhicules
     console.log('[Seed] Création des véhicules...');
     const vehicles = await Vehicle.insertMany(
-      vehiclesData.map((v, i) => ({
+      vehiclesData.map((v) => ({
         ...v,
         organizationId: DEMO_ORG_ID,
         lastLocationUpdate: new Date(),
-        assignedGeofences: [geofences[i % geofences.length]._id],
       }))
     );
     console.log(`   ${vehicles.length} véhicules créés`);
 
-    // Mettre à jour les geofences avec les véhicules assignés
-    for (const geofence of geofences) {
-      const assignedVehicles = vehicles
-        .filter((v: typeof vehicles[0]) => v.assignedGeofences.some((g: mongoose.Types.ObjectId) => g.equals(geofence._id)))
-        .map((v: typeof vehicles[0]) => v._id);
-      await Geofence.findByIdAndUpdate(geofence._id, {
-        $set: { assignedVehicles },
-      });
-    }
+    // Affecter une zone à chaque véhicule (sans échéance)
+    const assignments = await GeofenceAssignment.insertMany(
+      vehicles.map((v, i) => {
+        const geofence = geofences[i % geofences.length];
+        return {
+          vehicleId: v._id,
+          geofenceId: geofence._id,
+          organizationId: DEMO_ORG_ID,
+          validFrom: new Date(),
+          source: geofence.isDepot ? GeofenceAssignmentSource.DEPOT : GeofenceAssignmentSource.MANUAL,
+        };
+      })
+    );
+    console.log(`   ${assignments.length} affectations de zones créées`);
 
     // Créer les clients
     console.log('[Seed] Création des clients...');
@@ -1,5 +1,5 @@
 import mongoose from 'mongoose';
-import { Alert, IAlertDocument, Vehicle } from '../models/index.js';
+import { Alert, IAlertDocument, Vehicle, IVehicleDocument } from '../models/index.js';
 import {
   IAlert,
   AlertType,
@@ -10,6 +10,14 @@ import {
 } from '../types/index.js';
 import { getOrganizationObjectId } from '../config/index.js';
 
+/**
+ * Données complémentaires selon le type d'alerte
+ */
+export type AlertDetails = Pick<
+  IAlert,
+  'geofenceRevision' | 'peakSpeed' | 'speedLimit' | 'riskScore' | 'riskFactors'
+>;
+
 /**
  * Service de gestion des alertes de sécurité
  * Gère la création, la mise à jour et la notification des alertes
@@ -17,6 +25,8 @@ import { getOrganizationObjectId } from '../config/index.js';
 export class AlertService {
   /**
    * Crée une nouvelle alerte et la retourne avec les infos véhicule
+   * @param details - Données complémentaires (révision de zone évaluée, vitesse de pointe,
+   * score de risque de vol)
    */
   async createAlert(
     vehicleId: string,
@@ -24,7 +34,9 @@ export class AlertService {
     severity: AlertSeverity,
     message: string,
     location: GeoJSONPoint,
-    geofenceId?: string
+    geofenceId?: string,
+    triggeredAt: Date = new Date(),
+    details: AlertDetails = {}
   ): Promise<AlertNotification> {
     // Récupérer le véhicule pour l'organisation
     const vehicle = await Vehicle.findById(vehicleId);
@@ -33,35 +45,38 @@ export class AlertService {
     }
 
     // Vérifier qu'il n'y a pas déjà une alerte active du même type pour ce véhicule
+    // (zones interdites : une alerte par zone, chaque entrée est un incident distinct)
     const existingAlert = await Alert.findOne({
       vehicleId: new mongoose.Types.ObjectId(vehicleId),
       type,
       status: AlertStatus.ACTIVE,
+      ...(type === AlertType.FORBIDDEN_ZONE_ENTRY && geofenceId
+        ? { geofenceId: new mongoose.Types.ObjectId(geofenceId) }
+        : {}),
     });
 
     if (existingAlert) {
       // Mettre à jour l'alerte existante avec la nouvelle position
       existingAlert.location = location;
       existingAlert.message = message;
+      // Rattachement à la dernière révision de zone évaluée
+      if (geofenceId && details.geofenceRevision !== undefined) {
+        existingAlert.geofenceId = new mongoose.Types.ObjectId(geofenceId);
+        existingAlert.geofenceRevision = details.geofenceRevision;
+      }
+      if (details.peakSpeed !== undefined) {
+        existingAlert.peakSpeed = Math.max(existingAlert.peakSpeed ?? 0, details.peakSpeed);
+      }
+      if (details.speedLimit !== undefined) {
+        existingAlert.speedLimit = details.speedLimit;
+      }
+      if (details.riskScore !== undefined) {
+        existingAlert.riskScore = details.riskScore;
+        existingAlert.riskFactors = details.riskFactors;
+      }
       await existingAlert.save();
 
-      return {
-        alert: {
-          ...existingAlert.toObject(),
-          _id: existingAlert._id.toString(),
-          vehicleId: existingAlert.vehicleId.toString(),
-          geofenceId: existingAlert.geofenceId?.toString(),
-          organizationId: existingAlert.organizationId.toString(),
-          acknowledgedBy: existingAlert.acknowledgedBy?.toString(),
-          resolvedBy: existingAlert.resolvedBy?.toString(),
-        } as unknown as IAlert,
-        vehicle: {
-          _id: vehicle._id.toString(),
-          name: vehicle.name,
-          registrationNumber: vehicle.registrationNumber,
-          type: vehicle.type,
-        },
-      };
+      return this.toNotification(existingAlert, vehicle);
     }
 
     // Créer une nouvelle alerte
@@ -71,27 +86,18 @@ export class AlertService {
       status: AlertStatus.ACTIVE,
       vehicleId: vehicle._id,
       geofenceId: geofenceId ? new mongoose.Types.ObjectId(geofenceId) : undefined,
+      geofenceRevision: geofenceId ? details.geofenceRevision : undefined,
       organizationId: vehicle.organizationId,
       message,
       location,
-      triggeredAt: new Date(),
+      triggeredAt,
+      peakSpeed: details.peakSpeed,
+      speedLimit: details.speedLimit,
+      riskScore: details.riskScore,
+      riskFactors: details.riskFactors,
     });
 
-    return {
-      alert: {
-        ...alert.toObject(),
-        _id: alert._id.toString(),
-        vehicleId: alert.vehicleId.toString(),
-        geofenceId: alert.geofenceId?.toString(),
-        organizationId: alert.organizationId.toString(),
-      } as unknown as IAlert,
-      vehicle: {
-        _id: vehicle._id.toString(),
-        name: vehicle.name,
-        registrationNumber: vehicle.registrationNumber,
-        type: vehicle.type,
-      },
-    };
+    return this.toNotification(alert, vehicle);
   }
 
   /**
@@ -152,6 +158,86 @@ export class AlertService {
     return alert;
   }
 
+  /**
+   * Résout automatiquement les alertes ouvertes d'un type pour un véhicule
+   * (ex. batterie revenue au-dessus du seuil)
+   * @returns Les alertes résolues, pour diffusion temps réel
+   */
+  async autoResolveAlerts(
+    vehicleId: string,
+    type: AlertType,
+    notes: string
+  ): Promise<AlertNotification[]> {
+    const alerts = await Alert.find({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      type,
+      status: { $in: [AlertStatus.ACTIVE, AlertStatus.ACKNOWLEDGED] },
+    });
+    if (alerts.length === 0) {
+      return [];
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${vehicleId}`);
+    }
+
+    const resolved: AlertNotification[] = [];
+    for (const alert of alerts) {
+      alert.status = AlertStatus.RESOLVED;
+      alert.resolvedAt = new Date();
+      alert.resolutionNotes = notes;
+      await alert.save();
+      resolved.push(this.toNotification(alert, vehicle));
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Relève la vitesse de pointe de l'alerte ouverte d'un dépassement déjà signalé
+   * @returns L'alerte mise à jour, pour diffusion temps réel (null si aucune alerte ouverte)
+   */
+  async updatePeakSpeed(
+    vehicleId: string,
+    peakSpeed: number,
+    message: string
+  ): Promise<AlertNotification | null> {
+    const alert = await Alert.findOne({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      type: AlertType.SPEED_EXCEEDED,
+      status: { $in: [AlertStatus.ACTIVE, AlertStatus.ACKNOWLEDGED] },
+    }).sort({ triggeredAt: -1 });
+    if (!alert || (alert.peakSpeed ?? 0) >= peakSpeed) {
+      return null;
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${vehicleId}`);
+    }
+
+    alert.peakSpeed = peakSpeed;
+    alert.message = message;
+    await alert.save();
+
+    return this.toNotification(alert, vehicle);
+  }
+
+  /**
+   * Zones des alertes ouvertes (actives ou acquittées) d'un type pour un véhicule
+   */
+  async getOpenAlertGeofenceIds(vehicleId: string, type: AlertType): Promise<string[]> {
+    const geofenceIds: mongoose.Types.ObjectId[] = await Alert.find({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      type,
+      status: { $in: [AlertStatus.ACTIVE, AlertStatus.ACKNOWLEDGED] },
+      geofenceId: { $exists: true },
+    }).distinct('geofenceId');
+
+    return geofenceIds.map((id) => id.toString());
+  }
+
   /**
    * Récupère l'historique des alertes d'un véhicule
    */
@@ -225,7 +311,10 @@ export class AlertService {
       [AlertType.BATTERY_LOW]: 0,
       [AlertType.DEVICE_OFFLINE]: 0,
       [AlertType.SPEED_EXCEEDED]: 0,
+      [AlertType.TOWING_DETECTED]: 0,
       [AlertType.POTENTIAL_THEFT]: 0,
+      [AlertType.FORBIDDEN_ZONE_ENTRY]: 0,
+      [AlertType.TRACKER_POWER_CUT]: 0,
     };
     for (const stat of typeStats) {
       byType[stat._id as AlertType] = stat.count;
@@ -264,6 +353,29 @@ export class AlertService {
 
     return result.deletedCount;
   }
+
+  /**
+   * Formate une alerte avec les infos véhicule pour la diffusion
+   */
+  private toNotification(alert: IAlertDocument, vehicle: IVehicleDocument): AlertNotification {
+    return {
+      alert: {
+        ...alert.toObject(),
+        _id: alert._id.toString(),
+        vehicleId: alert.vehicleId.toString(),
+        geofenceId: alert.geofenceId?.toString(),
+        organizationId: alert.organizationId.toString(),
+        acknowledgedBy: alert.acknowledgedBy?.toString(),
+        resolvedBy: alert.resolvedBy?.toString(),
+      } as unknown as IAlert,
+      vehicle: {
+        _id: vehicle._id.toString(),
+        name: vehicle.name,
+        registrationNumber: vehicle.registrationNumber,
+        type: vehicle.type,
+      },
+    };
+  }
 }
 
 // Export d'une instance singleton
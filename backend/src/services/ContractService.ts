@@ -2,7 +2,15 @@ import mongoose from 'mongoose';
 import { Contract, IContractDocument } from '../models/Contract.js';
 import { Client } from '../models/Client.js';
 import { Vehicle } from '../models/Vehicle.js';
-import { ContractStatus, VehicleStatus } from '../types/index.js';
+import { Geofence } from '../models/Geofence.js';
+import {
+  ContractStatus,
+  GeofenceAssignmentSource,
+  GeofenceShape,
+  VehicleStatus,
+} from '../types/index.js';
+import { organizationService } from './OrganizationService.js';
+import { geofenceAssignmentService } from './GeofenceAssignmentService.js';
 
 // ============================================
 // Interfaces
@@ -228,8 +236,10 @@ export class ContractService {
   /**
    * Met à jour un contrat (scoped à l'organisation)
    *
-   * - Si passage à ACTIF : re-vérifier l'absence de chevauchement
+   * - Si passage à ACTIF : re-vérifier l'absence de chevauchement,
+   *   puis générer la zone de chantier autour du lieu de livraison
    * - Si ANNULE ou TERMINE : mettre le véhicule à DISPONIBLE si aucun autre contrat actif
+   *   et archiver la zone de chantier générée
    */
   async updateContract(
     organizationId: string,
@@ -253,6 +263,7 @@ export class ContractService {
     if (data.deposit !== undefined) {
       contract.deposit = data.deposit;
     }
+    const deliveryLocationChanged = data.deliveryLocation !== undefined;
     if (data.deliveryLocation !== undefined) {
       contract.deliveryLocation = data.deliveryLocation;
     }
@@ -278,7 +289,7 @@ export class ContractService {
       // Passage à ACTIF → re-vérifier le chevauchement
       if (data.status === ContractStatus.ACTIF) {
         await this._checkVehicleOverlap(
-          contract.vehicleId.toString(),
+          this._refId(contract.vehicleId),
           contract.startDate,
           contract.endDate,
           contractId
@@ -286,14 +297,6 @@ export class ContractService {
       }
 
       contract.status = data.status;
-
-      // Si le contrat est terminé ou annulé, libérer le véhicule si nécessaire
-      if (
-        data.status === ContractStatus.ANNULE ||
-        data.status === ContractStatus.TERMINE
-      ) {
-        await this._releaseVehicleIfFree(contract.vehicleId.toString(), contractId);
-      }
     }
 
     // Validation dates (endDate > startDate)
@@ -303,8 +306,45 @@ export class ContractService {
       );
     }
 
+    const statusChanged = contract.status !== previousStatus;
+
+    // Contrat enregistré avant la zone de chantier : un échec d'enregistrement
+    // ne laisse ni zone ni affectation orpheline
     await contract.save();
 
+    if (statusChanged && contract.status === ContractStatus.ACTIF) {
+      const previousGeofenceId = contract.geofenceId;
+      try {
+        await this._createSiteGeofence(contract);
+      } catch (error) {
+        // Activation annulée : zone et affectation retirées, contrat rétabli
+        await this._archiveSiteGeofence(
+          contract,
+          `Échec de l'activation du contrat ${contract.contractNumber}`
+        );
+        contract.status = previousStatus;
+        contract.geofenceId = previousGeofenceId;
+        await contract.save();
+        throw error;
+      }
+      await contract.save();
+    } else if (
+      deliveryLocationChanged &&
+      contract.status === ContractStatus.ACTIF
+    ) {
+      await this._moveSiteGeofence(contract);
+    }
+
+    // Si le contrat est terminé ou annulé, libérer le véhicule et archiver sa zone
+    if (
+      statusChanged &&
+      (contract.status === ContractStatus.ANNULE ||
+        contract.status === ContractStatus.TERMINE)
+    ) {
+      await this._releaseVehicleIfFree(this._refId(contract.vehicleId), contractId);
+      await this._archiveSiteGeofence(contract);
+    }
+
     return contract;
   }
 
@@ -372,6 +412,107 @@ export class ContractService {
     }
   }
 
+  /**
+   * Génère la zone de chantier du contrat : cercle centré sur le lieu de livraison,
+   * au rayon par défaut de l'organisation, affecté au véhicule du contrat.
+   * Une zone déjà liée et non archivée est simplement (ré)affectée au véhicule.
+   * L'affectation est rattachée au contrat, valide dès son début et close à sa fin.
+   */
+  private async _createSiteGeofence(contract: IContractDocument): Promise<void> {
+    const vehicleId = this._refId(contract.vehicleId);
+    const assignment = {
+      source: GeofenceAssignmentSource.CONTRACT,
+      contractId: contract._id,
+      validFrom: contract.startDate,
+    };
+
+    if (contract.geofenceId) {
+      const linked = await Geofence.findById(contract.geofenceId).exec();
+      if (linked && !linked.archivedAt) {
+        await geofenceAssignmentService.assign(vehicleId, linked._id.toString(), assignment);
+        return;
+      }
+    }
+
+    const { siteGeofenceRadiusMeters } = await organizationService.getSettings(
+      contract.organizationId.toString()
+    );
+
+    const geofence = await new Geofence({
+      name: `Chantier ${contract.contractNumber}`,
+      description: contract.deliveryAddress,
+      shape: GeofenceShape.CIRCLE,
+      center: contract.deliveryLocation,
+      radiusMeters: siteGeofenceRadiusMeters,
+      organizationId: contract.organizationId,
+      contractId: contract._id,
+    })
+      .setRevisionContext({ note: `Activation du contrat ${contract.contractNumber}` })
+      .save();
+    contract.geofenceId = geofence._id;
+
+    await geofenceAssignmentService.assign(vehicleId, geofence._id.toString(), assignment);
+  }
+
+  /**
+   * Recentre la zone de chantier générée quand le lieu de livraison change
+   */
+  private async _moveSiteGeofence(contract: IContractDocument): Promise<void> {
+    if (!contract.geofenceId) return;
+
+    const geofence = await Geofence.findOne({
+      _id: contract.geofenceId,
+      contractId: contract._id,
+      archivedAt: null,
+    }).exec();
+
+    if (geofence) {
+      geofence.center = contract.deliveryLocation;
+      geofence.setRevisionContext({
+        note: `Lieu de livraison du contrat ${contract.contractNumber} modifié`,
+      });
+      await geofence.save();
+    }
+  }
+
+  /**
+   * Clôt les affectations du contrat puis archive la zone de chantier générée
+   * Une zone liée manuellement (sans contractId) n'est pas archivée
+   * @param note - Motif de l'archivage (par défaut : fin du contrat)
+   */
+  private async _archiveSiteGeofence(
+    contract: IContractDocument,
+    note = `Fin du contrat ${contract.contractNumber} (${contract.status})`
+  ): Promise<void> {
+    const endedAt = new Date();
+    await geofenceAssignmentService.endForContract(contract._id, endedAt);
+
+    if (!contract.geofenceId) return;
+
+    const geofence = await Geofence.findOne({
+      _id: contract.geofenceId,
+      contractId: contract._id,
+      archivedAt: null,
+    }).exec();
+
+    if (!geofence) return;
+
+    // Zone archivée : plus aucun véhicule n'y est affecté
+    await geofenceAssignmentService.endForGeofence(geofence._id, endedAt);
+
+    geofence.isActive = false;
+    geofence.archivedAt = endedAt;
+    geofence.setRevisionContext({ note });
+    await geofence.save();
+  }
+
+  /**
+   * ID d'une référence éventuellement populée (getContractById popule vehicleId)
+   */
+  private _refId(ref: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId }): string {
+    return ref instanceof mongoose.Types.ObjectId ? ref.toString() : ref._id.toString();
+  }
+
   /**
    * Libère le véhicule (status → DISPONIBLE) s'il n'a plus aucun contrat ACTIF
    * @param vehicleId - ID du véhicule
@@ -0,0 +1,393 @@
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import { Device, IDeviceDocument, hashDeviceToken } from '../models/Device.js';
+import { Vehicle } from '../models/Vehicle.js';
+import { AlertNotification, AlertType, DeviceProtocol } from '../types/index.js';
+import { alertService } from './AlertService.js';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface DeviceFilters {
+  search?: string;
+  protocol?: DeviceProtocol;
+  assigned?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateDeviceData {
+  imei: string;
+  protocol: DeviceProtocol;
+  deviceModel?: string;
+  firmware?: string;
+  simIccid?: string;
+  simPhoneNumber?: string;
+  reportingIntervalSeconds?: number;
+}
+
+export type UpdateDeviceData = Partial<Omit<CreateDeviceData, 'imei'>> & {
+  isActive?: boolean;
+};
+
+/**
+ * Tracker reconnu par l'ingestion : boîtier actif affecté à un véhicule
+ */
+export interface ResolvedTracker {
+  device: IDeviceDocument;
+  vehicleId: string;
+}
+
+// ============================================
+// Erreurs métier
+// ============================================
+
+export class DeviceNotFoundError extends Error {
+  readonly code = 'DEVICE_NOT_FOUND';
+  constructor(deviceId: string) {
+    super(`Tracker non trouvé : ${deviceId}`);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+export class DeviceConflictError extends Error {
+  readonly code = 'CONFLICT';
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceConflictError';
+  }
+}
+
+export class DeviceValidationError extends Error {
+  readonly code = 'VALIDATION_ERROR';
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceValidationError';
+  }
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service du registre des trackers GPS
+ *
+ * - Chaque tracker possède un secret (stocké haché) présenté lors de l'ingestion
+ * - Les affectations tracker ↔ véhicule sont historisées, ce qui permet
+ *   de déplacer un boîtier d'un engin à l'autre sans perdre l'historique
+ * - `Vehicle.trackerId` reste synchronisé avec l'IMEI du tracker affecté
+ */
+export class DeviceService {
+  /**
+   * Liste les trackers d'une organisation avec pagination et filtres
+   */
+  async listDevices(
+    organizationId: string,
+    filters: DeviceFilters
+  ): Promise<{ devices: IDeviceDocument[]; total: number }> {
+    const { search, protocol, assigned, page = 1, limit = 20 } = filters;
+
+    const safeLimit = Math.min(limit, 100);
+    const skip = (page - 1) * safeLimit;
+
+    const query: Record<string, unknown> = {
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+    };
+
+    if (protocol) query.protocol = protocol;
+    if (assigned !== undefined) query.vehicleId = { $exists: assigned };
+
+    if (search && search.trim().length > 0) {
+      const regex = { $regex: search.trim(), $options: 'i' };
+      query.$or = [{ imei: regex }, { simIccid: regex }, { deviceModel: regex }];
+    }
+
+    const [devices, total] = await Promise.all([
+      Device.find(query)
+        .populate('vehicleId', 'name registrationNumber type')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(safeLimit)
+        .exec(),
+      Device.countDocuments(query),
+    ]);
+
+    return { devices, total };
+  }
+
+  /**
+   * Récupère un tracker par son ID, scoped à l'organisation
+   */
+  async getDeviceById(organizationId: string, deviceId: string): Promise<IDeviceDocument> {
+    if (!mongoose.Types.ObjectId.isValid(deviceId)) {
+      throw new DeviceNotFoundError(deviceId);
+    }
+
+    const device = await Device.findOne({
+      _id: new mongoose.Types.ObjectId(deviceId),
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+    }).exec();
+
+    if (!device) {
+      throw new DeviceNotFoundError(deviceId);
+    }
+
+    return device;
+  }
+
+  /**
+   * Enregistre un tracker et génère son secret
+   * Le secret en clair n'est renvoyé qu'une seule fois
+   */
+  async createDevice(
+    organizationId: string,
+    data: CreateDeviceData
+  ): Promise<{ device: IDeviceDocument; token: string }> {
+    // L'IMEI est unique sur toute la plateforme
+    const existing = await Device.findOne({ imei: data.imei }).exec();
+    if (existing) {
+      throw new DeviceConflictError(`Un tracker avec l'IMEI "${data.imei}" est déjà enregistré`);
+    }
+
+    const token = this.generateToken();
+
+    const device = await Device.create({
+      ...data,
+      tokenHash: hashDeviceToken(token),
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+    });
+
+    return { device, token };
+  }
+
+  /**
+   * Met à jour un tracker (l'IMEI n'est pas modifiable)
+   */
+  async updateDevice(
+    organizationId: string,
+    deviceId: string,
+    data: UpdateDeviceData
+  ): Promise<IDeviceDocument> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+
+    if (data.protocol !== undefined) device.protocol = data.protocol;
+    if (data.deviceModel !== undefined) device.deviceModel = data.deviceModel;
+    if (data.firmware !== undefined) device.firmware = data.firmware;
+    if (data.simIccid !== undefined) device.simIccid = data.simIccid;
+    if (data.simPhoneNumber !== undefined) device.simPhoneNumber = data.simPhoneNumber;
+    if (data.reportingIntervalSeconds !== undefined) {
+      device.reportingIntervalSeconds = data.reportingIntervalSeconds;
+    }
+    if (data.isActive !== undefined) device.isActive = data.isActive;
+
+    await device.save();
+
+    return device;
+  }
+
+  /**
+   * Supprime un tracker (il doit d'abord être désaffecté)
+   */
+  async deleteDevice(organizationId: string, deviceId: string): Promise<void> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+
+    if (device.vehicleId) {
+      throw new DeviceConflictError('Ce tracker est affecté à un véhicule, désaffectez-le d\'abord');
+    }
+
+    await Device.deleteOne({ _id: device._id }).exec();
+  }
+
+  /**
+   * Régénère le secret d'un tracker (l'ancien est immédiatement invalidé)
+   */
+  async regenerateToken(organizationId: string, deviceId: string): Promise<string> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+    const token = this.generateToken();
+
+    await Device.updateOne({ _id: device._id }, { $set: { tokenHash: hashDeviceToken(token) } }).exec();
+
+    return token;
+  }
+
+  // ============================================
+  // Affectations tracker ↔ véhicule
+  // ============================================
+
+  /**
+   * Affecte un tracker à un véhicule
+   * Clôture l'affectation précédente du tracker et désaffecte
+   * l'éventuel tracker déjà présent sur le véhicule
+   */
+  async assignToVehicle(
+    organizationId: string,
+    deviceId: string,
+    vehicleId: string,
+    userId?: string
+  ): Promise<IDeviceDocument> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+
+    if (!mongoose.Types.ObjectId.isValid(vehicleId)) {
+      throw new DeviceValidationError(`Véhicule invalide : ${vehicleId}`);
+    }
+
+    const vehicle = await Vehicle.findOne({
+      _id: new mongoose.Types.ObjectId(vehicleId),
+      organizationId: device.organizationId,
+    }).exec();
+
+    if (!vehicle) {
+      throw new DeviceValidationError(`Véhicule non trouvé dans l'organisation : ${vehicleId}`);
+    }
+
+    if (device.vehicleId?.equals(vehicle._id)) {
+      return device;
+    }
+
+    // Libérer le véhicule de son tracker actuel
+    const currentDevice = await Device.findOne({ vehicleId: vehicle._id }).exec();
+    if (currentDevice) {
+      await this.closeAssignment(currentDevice);
+    }
+
+    // Clôturer l'affectation précédente de ce tracker
+    if (device.vehicleId) {
+      await this.closeAssignment(device);
+    }
+
+    device.vehicleId = vehicle._id;
+    device.assignments.push({
+      vehicleId: vehicle._id,
+      assignedAt: new Date(),
+      assignedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+    });
+    await device.save();
+
+    vehicle.trackerId = device.imei;
+    await vehicle.save();
+
+    return device;
+  }
+
+  /**
+   * Désaffecte un tracker de son véhicule
+   */
+  async unassign(organizationId: string, deviceId: string): Promise<IDeviceDocument> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+
+    if (!device.vehicleId) {
+      throw new DeviceConflictError('Ce tracker n\'est affecté à aucun véhicule');
+    }
+
+    await this.closeAssignment(device);
+
+    return device;
+  }
+
+  /**
+   * Historique des affectations d'un tracker (plus récente en premier)
+   */
+  async getAssignmentHistory(organizationId: string, deviceId: string): Promise<IDeviceDocument['assignments']> {
+    const device = await this.getDeviceById(organizationId, deviceId);
+    await device.populate('assignments.vehicleId', 'name registrationNumber type');
+
+    device.assignments.sort((a, b) => b.assignedAt.getTime() - a.assignedAt.getTime());
+    return device.assignments;
+  }
+
+  // ============================================
+  // Ingestion
+  // ============================================
+
+  /**
+   * Résout un tracker par son IMEI pour l'ingestion de positions
+   * Refuse les trackers inconnus, désactivés ou non affectés
+   */
+  async resolveTracker(imei: string): Promise<ResolvedTracker | null> {
+    const device = await Device.findOneAndUpdate(
+      { imei, isActive: true, vehicleId: { $exists: true } },
+      { $set: { lastSeenAt: new Date() } },
+      { new: true }
+    ).exec();
+
+    if (!device?.vehicleId) {
+      return null;
+    }
+
+    return { device, vehicleId: device.vehicleId.toString() };
+  }
+
+  /**
+   * Résout un tracker en vérifiant son secret (ingestion authentifiée)
+   */
+  async authenticateTracker(imei: string, token: string): Promise<ResolvedTracker | null> {
+    const device = await Device.findOne({ imei, isActive: true })
+      .select('+tokenHash')
+      .exec();
+
+    if (!device || !device.vehicleId || !device.verifyToken(token)) {
+      return null;
+    }
+
+    await Device.updateOne({ _id: device._id }, { $set: { lastSeenAt: new Date() } }).exec();
+
+    return { device, vehicleId: device.vehicleId.toString() };
+  }
+
+  /**
+   * Met à jour la date de dernière communication d'un tracker
+   * (position ou heartbeat) et résout son alerte hors ligne éventuelle
+   * @returns Les alertes résolues, pour diffusion temps réel
+   */
+  async touch(imei: string): Promise<AlertNotification[]> {
+    const device = await Device.findOneAndUpdate({ imei }, { $set: { lastSeenAt: new Date() } })
+      .select('vehicleId')
+      .exec();
+
+    return device?.vehicleId ? this.resolveOfflineAlerts(device.vehicleId.toString()) : [];
+  }
+
+  /**
+   * Résout l'alerte DEVICE_OFFLINE ouverte d'un véhicule dont le tracker émet de nouveau
+   */
+  async resolveOfflineAlerts(vehicleId: string): Promise<AlertNotification[]> {
+    return alertService.autoResolveAlerts(
+      vehicleId,
+      AlertType.DEVICE_OFFLINE,
+      'Résolue automatiquement : le tracker émet de nouveau'
+    );
+  }
+
+  /**
+   * Clôture l'affectation en cours d'un tracker et libère le véhicule
+   */
+  private async closeAssignment(device: IDeviceDocument): Promise<void> {
+    const previousVehicleId = device.vehicleId;
+    if (!previousVehicleId) return;
+
+    const openAssignment = device.assignments.find(
+      (a) => a.vehicleId.equals(previousVehicleId) && !a.unassignedAt
+    );
+    if (openAssignment) {
+      openAssignment.unassignedAt = new Date();
+    }
+
+    device.vehicleId = undefined;
+    await device.save();
+
+    await Vehicle.updateOne(
+      { _id: previousVehicleId, trackerId: device.imei },
+      { $unset: { trackerId: 1 } }
+    ).exec();
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+}
+
+export const deviceService = new DeviceService();
+
+export default deviceService;
@@ -0,0 +1,158 @@
+import { Alert, Device, Geofence, Vehicle, IVehicleDocument } from '../models/index.js';
+import {
+  AlertType,
+  AlertSeverity,
+  AlertStatus,
+  AlertNotification,
+  VehicleStatus,
+} from '../types/index.js';
+import { alertService } from './AlertService.js';
+import { deviceService } from './DeviceService.js';
+import { organizationService } from './OrganizationService.js';
+import { theftRiskService } from './TheftRiskService.js';
+import { toZonedTime } from '../utils/timezone.js';
+
+// Nombre d'intervalles d'émission manqués avant de déclarer un tracker hors ligne
+const OFFLINE_MISSED_REPORTS = 2;
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Bilan d'un passage du watchdog : alertes levées et alertes résolues
+ */
+export interface WatchdogResult {
+  raised: AlertNotification[];
+  resolved: AlertNotification[];
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Surveillance des trackers hors ligne
+ *
+ * Débrancher le boîtier est le premier geste d'un voleur. À chaque passage :
+ * 1. Dernière émission = la plus récente entre `Device.lastSeenAt` (positions,
+ *    heartbeats) et `Vehicle.lastLocationUpdate`
+ * 2. Silence supérieur à `OFFLINE_MISSED_REPORTS` × `reportingIntervalSeconds`
+ *    du tracker -> alerte DEVICE_OFFLINE, critique si l'engin est en location
+ *    ou hors d'un dépôt, puis réévaluation du score de risque de vol
+ * 3. Tracker qui émet de nouveau -> l'alerte ouverte est résolue automatiquement
+ *    (dès la réception, via `deviceService.touch` ; ici en filet de sécurité)
+ */
+export class DeviceWatchdogService {
+  async checkOfflineDevices(now: Date = new Date()): Promise<WatchdogResult> {
+    const result: WatchdogResult = { raised: [], resolved: [] };
+
+    const devices = await Device.find({ isActive: true, vehicleId: { $exists: true } })
+      .select('imei vehicleId lastSeenAt reportingIntervalSeconds')
+      .exec();
+    if (devices.length === 0) {
+      return result;
+    }
+
+    const vehicleIds = devices.map((device) => device.vehicleId!);
+    const [vehicles, openAlerts] = await Promise.all([
+      Vehicle.find({ _id: { $in: vehicleIds } }).exec(),
+      Alert.find({
+        vehicleId: { $in: vehicleIds },
+        type: AlertType.DEVICE_OFFLINE,
+        status: { $in: [AlertStatus.ACTIVE, AlertStatus.ACKNOWLEDGED] },
+      })
+        .select('vehicleId')
+        .exec(),
+    ]);
+
+    const vehiclesById = new Map(vehicles.map((vehicle) => [vehicle._id.toString(), vehicle]));
+    const offlineVehicles = new Set(openAlerts.map((alert) => alert.vehicleId.toString()));
+
+    for (const device of devices) {
+      const vehicleId = device.vehicleId!.toString();
+      const vehicle = vehiclesById.get(vehicleId);
+      if (!vehicle) continue;
+
+      const lastReport = Math.max(
+        device.lastSeenAt?.getTime() ?? 0,
+        vehicle.lastLocationUpdate?.getTime() ?? 0
+      );
+      const silenceSeconds = (now.getTime() - lastReport) / 1000;
+      const isOffline = silenceSeconds > device.reportingIntervalSeconds * OFFLINE_MISSED_REPORTS;
+
+      if (isOffline && !offlineVehicles.has(vehicleId)) {
+        const severity = await this.getOfflineSeverity(vehicle);
+        // Heure murale dans le fuseau de l'organisation (le serveur tourne souvent en UTC)
+        const { timezone } = await organizationService.getSettings(vehicle.organizationId.toString());
+        const since = lastReport > 0 ? this.formatZoned(new Date(lastReport), timezone) : 'jamais';
+
+        result.raised.push(
+          await alertService.createAlert(
+            vehicleId,
+            AlertType.DEVICE_OFFLINE,
+            severity,
+            `Tracker ${device.imei} de ${vehicle.name} (${vehicle.registrationNumber}) hors ligne depuis ${this.formatSilence(silenceSeconds)} (dernière émission : ${since})`,
+            vehicle.location,
+            undefined,
+            now
+          )
+        );
+
+        // Un tracker muet pèse dans le score de risque de vol
+        const risk = await theftRiskService.evaluate(vehicle, { at: now, location: vehicle.location });
+        if (risk.alert) {
+          result.raised.push(risk.alert);
+        }
+      } else if (!isOffline && offlineVehicles.has(vehicleId)) {
+        result.resolved.push(...(await deviceService.resolveOfflineAlerts(vehicleId)));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Un engin en location ou hors de tout dépôt est exposé au vol
+   */
+  private async getOfflineSeverity(vehicle: IVehicleDocument): Promise<AlertSeverity> {
+    if (vehicle.status === VehicleStatus.EN_LOCATION) {
+      return AlertSeverity.CRITICAL;
+    }
+
+    const inDepot = await Geofence.exists({
+      organizationId: vehicle.organizationId,
+      isActive: true,
+      isDepot: true,
+      area: {
+        $geoIntersects: {
+          $geometry: vehicle.location,
+        },
+      },
+    });
+
+    return inDepot ? AlertSeverity.WARNING : AlertSeverity.CRITICAL;
+  }
+
+  /**
+   * Date et heure locales (ex. "12/05/2026 04:10")
+   */
+  private formatZoned(at: Date, timeZone: string): string {
+    const { date, time } = toZonedTime(at, timeZone);
+    const [year, month, day] = date.split('-');
+    return `${day}/${month}/${year} ${time}`;
+  }
+
+  /**
+   * Durée lisible (ex. "2 h 05", "12 min")
+   */
+  private formatSilence(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours} h ${minutes.toString().padStart(2, '0')}` : `${minutes} min`;
+  }
+}
+
+// Export d'une instance singleton
+export const deviceWatchdogService = new DeviceWatchdogService();
+export default deviceWatchdogService;
@@ -0,0 +1,300 @@
+import mongoose from 'mongoose';
+import {
+  Contract,
+  Geofence,
+  GeofenceAssignment,
+  IGeofenceAssignmentDocument,
+  Vehicle,
+  validAtFilter,
+} from '../models/index.js';
+import { ContractStatus, GeofenceAssignmentSource, GeofenceMode } from '../types/index.js';
+
+// ============================================
+// Erreurs métier
+// ============================================
+
+export class GeofenceAssignmentNotFoundError extends Error {
+  readonly code = 'NOT_FOUND';
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeofenceAssignmentNotFoundError';
+  }
+}
+
+export class GeofenceAssignmentValidationError extends Error {
+  readonly code = 'VALIDATION_ERROR';
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeofenceAssignmentValidationError';
+  }
+}
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Période et origine d'une affectation (par défaut : à partir de maintenant, sans échéance)
+ */
+export interface AssignGeofenceOptions {
+  validFrom?: Date;
+  validTo?: Date | null;
+  source?: GeofenceAssignmentSource;
+  contractId?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+}
+
+export type AssignmentIssueType =
+  | 'ORPHAN_VEHICLE' // Véhicule introuvable
+  | 'ORPHAN_GEOFENCE' // Affectation en cours sur une zone supprimée
+  | 'ORGANIZATION_MISMATCH' // Véhicule, zone et affectation d'organisations différentes
+  | 'OVERLAP' // Deux affectations du même couple se chevauchent
+  | 'ARCHIVED_GEOFENCE' // Affectation en cours sur une zone archivée
+  | 'CONTRACT_ENDED'; // Affectation de contrat en cours alors que le contrat n'est plus actif
+
+export interface AssignmentIssue {
+  assignmentId: string;
+  type: AssignmentIssueType;
+  message: string;
+}
+
+export interface AssignmentConsistencyReport {
+  checkedAt: Date;
+  total: number;
+  issues: AssignmentIssue[];
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service des affectations véhicule ↔ geofence
+ *
+ * Une affectation autorise un véhicule dans une zone sur une période
+ * [validFrom, validTo[ ; elle n'est jamais supprimée une fois effective mais close
+ * (validTo), ce qui conserve l'historique des zones autorisées pour rejouer
+ * des positions passées.
+ */
+export class GeofenceAssignmentService {
+  /**
+   * Affecte une zone à un véhicule
+   * Une affectation du même couple chevauchant la période est étendue plutôt que dupliquée
+   */
+  async assign(
+    vehicleId: string,
+    geofenceId: string,
+    options: AssignGeofenceOptions = {}
+  ): Promise<IGeofenceAssignmentDocument> {
+    const [vehicle, geofence] = await Promise.all([
+      Vehicle.findById(vehicleId).select('organizationId').exec(),
+      Geofence.findById(geofenceId).select('organizationId isDepot mode').exec(),
+    ]);
+
+    if (!vehicle) {
+      throw new GeofenceAssignmentNotFoundError(`Véhicule non trouvé : ${vehicleId}`);
+    }
+    if (!geofence) {
+      throw new GeofenceAssignmentNotFoundError(`Geofence non trouvée : ${geofenceId}`);
+    }
+    if (!vehicle.organizationId.equals(geofence.organizationId)) {
+      throw new GeofenceAssignmentValidationError(
+        'Le véhicule et la zone appartiennent à des organisations différentes'
+      );
+    }
+    if (geofence.mode === GeofenceMode.FORBIDDEN) {
+      throw new GeofenceAssignmentValidationError(
+        'Une zone interdite ne peut pas être affectée à un véhicule'
+      );
+    }
+
+    const validFrom = options.validFrom ?? new Date();
+    const validTo = options.validTo ?? null;
+    if (validTo && validTo <= validFrom) {
+      throw new GeofenceAssignmentValidationError(
+        'La fin de validité doit être postérieure au début'
+      );
+    }
+
+    const overlapping = await GeofenceAssignment.findOne({
+      vehicleId: vehicle._id,
+      geofenceId: geofence._id,
+      ...(validTo && { validFrom: { $lt: validTo } }),
+      $or: [{ validTo: null }, { validTo: { $gt: validFrom } }],
+    }).exec();
+
+    if (overlapping) {
+      if (validFrom < overlapping.validFrom) {
+        overlapping.validFrom = validFrom;
+      }
+      if (overlapping.validTo && (!validTo || validTo > overlapping.validTo)) {
+        overlapping.validTo = validTo;
+      }
+      return overlapping.save();
+    }
+
+    return GeofenceAssignment.create({
+      vehicleId: vehicle._id,
+      geofenceId: geofence._id,
+      organizationId: vehicle.organizationId,
+      validFrom,
+      validTo,
+      source:
+        options.source ??
+        (geofence.isDepot ? GeofenceAssignmentSource.DEPOT : GeofenceAssignmentSource.MANUAL),
+      contractId: options.contractId,
+      createdBy: options.createdBy,
+    });
+  }
+
+  /**
+   * Retire une zone d'un véhicule à partir de `at`
+   * @returns Nombre d'affectations closes ou annulées
+   */
+  async unassign(vehicleId: string, geofenceId: string, at: Date = new Date()): Promise<number> {
+    return this._endWhere(
+      {
+        vehicleId: new mongoose.Types.ObjectId(vehicleId),
+        geofenceId: new mongoose.Types.ObjectId(geofenceId),
+      },
+      at
+    );
+  }
+
+  /**
+   * Clôt toutes les affectations d'une zone (suppression, archivage)
+   */
+  async endForGeofence(geofenceId: mongoose.Types.ObjectId, at: Date = new Date()): Promise<number> {
+    return this._endWhere({ geofenceId }, at);
+  }
+
+  /**
+   * Clôt les affectations créées par un contrat (fin ou annulation)
+   */
+  async endForContract(contractId: mongoose.Types.ObjectId, at: Date = new Date()): Promise<number> {
+    return this._endWhere({ contractId }, at);
+  }
+
+  /**
+   * IDs des zones autorisées pour un véhicule à un instant donné
+   */
+  async getValidGeofenceIds(
+    vehicleId: mongoose.Types.ObjectId,
+    at: Date = new Date()
+  ): Promise<mongoose.Types.ObjectId[]> {
+    return GeofenceAssignment.find({ vehicleId, ...validAtFilter(at) }).distinct('geofenceId');
+  }
+
+  /**
+   * Historique des affectations d'un véhicule (plus récente en premier)
+   */
+  async listForVehicle(vehicleId: string): Promise<IGeofenceAssignmentDocument[]> {
+    return GeofenceAssignment.find({ vehicleId: new mongoose.Types.ObjectId(vehicleId) })
+      .populate('geofenceId', 'name color isActive archivedAt')
+      .populate('createdBy', 'firstName lastName email')
+      .sort({ validFrom: -1 })
+      .exec();
+  }
+
+  /**
+   * Contrôle de cohérence des affectations (références, organisations,
+   * chevauchements, zones archivées, contrats terminés)
+   */
+  async checkConsistency(
+    organizationId?: mongoose.Types.ObjectId
+  ): Promise<AssignmentConsistencyReport> {
+    const checkedAt = new Date();
+    const assignments = await GeofenceAssignment.find(organizationId ? { organizationId } : {})
+      .sort({ validFrom: 1 })
+      .exec();
+
+    const [vehicles, geofences, contracts] = await Promise.all([
+      Vehicle.find({ _id: { $in: assignments.map((a) => a.vehicleId) } })
+        .select('organizationId')
+        .exec(),
+      Geofence.find({ _id: { $in: assignments.map((a) => a.geofenceId) } })
+        .select('organizationId archivedAt')
+        .exec(),
+      Contract.find({ _id: { $in: assignments.flatMap((a) => a.contractId ?? []) } })
+        .select('status contractNumber')
+        .exec(),
+    ]);
+    const vehicleById = new Map(vehicles.map((v) => [v._id.toString(), v]));
+    const geofenceById = new Map(geofences.map((g) => [g._id.toString(), g]));
+    const contractById = new Map(contracts.map((c) => [c._id.toString(), c]));
+
+    const issues: AssignmentIssue[] = [];
+    const report = (assignment: IGeofenceAssignmentDocument, type: AssignmentIssueType, message: string) =>
+      issues.push({ assignmentId: assignment._id.toString(), type, message });
+
+    // Dernière affectation vue par couple véhicule/zone (triées par validFrom)
+    const lastByPair = new Map<string, IGeofenceAssignmentDocument>();
+
+    for (const assignment of assignments) {
+      const isOpen = !assignment.validTo || assignment.validTo > checkedAt;
+      const vehicle = vehicleById.get(assignment.vehicleId.toString());
+      const geofence = geofenceById.get(assignment.geofenceId.toString());
+
+      if (!vehicle) {
+        report(assignment, 'ORPHAN_VEHICLE', `Véhicule introuvable : ${assignment.vehicleId}`);
+      }
+      if (!geofence && isOpen) {
+        report(assignment, 'ORPHAN_GEOFENCE', `Zone supprimée : ${assignment.geofenceId}`);
+      }
+      if (
+        (vehicle && !vehicle.organizationId.equals(assignment.organizationId)) ||
+        (geofence && !geofence.organizationId.equals(assignment.organizationId))
+      ) {
+        report(assignment, 'ORGANIZATION_MISMATCH', 'Véhicule, zone et affectation d\'organisations différentes');
+      }
+      if (geofence?.archivedAt && isOpen) {
+        report(assignment, 'ARCHIVED_GEOFENCE', 'Affectation en cours sur une zone archivée');
+      }
+
+      const contract = assignment.contractId && contractById.get(assignment.contractId.toString());
+      if (
+        assignment.source === GeofenceAssignmentSource.CONTRACT &&
+        isOpen &&
+        (!contract || contract.status !== ContractStatus.ACTIF)
+      ) {
+        report(
+          assignment,
+          'CONTRACT_ENDED',
+          contract
+            ? `Contrat ${contract.contractNumber} au statut ${contract.status}`
+            : 'Contrat introuvable'
+        );
+      }
+
+      const pair = `${assignment.vehicleId}:${assignment.geofenceId}`;
+      const previous = lastByPair.get(pair);
+      if (previous && (!previous.validTo || previous.validTo > assignment.validFrom)) {
+        report(assignment, 'OVERLAP', `Chevauche l'affectation ${previous._id}`);
+      }
+      if (!previous || (previous.validTo && (!assignment.validTo || assignment.validTo > previous.validTo))) {
+        lastByPair.set(pair, assignment);
+      }
+    }
+
+    return { checkedAt, total: assignments.length, issues };
+  }
+
+  /**
+   * Clôt à `at` les affectations en cours et annule celles qui n'ont pas encore commencé
+   * Une affectation débutant exactement à `at` est annulée : la clore la rendrait vide
+   */
+  private async _endWhere(filter: Record<string, unknown>, at: Date): Promise<number> {
+    const [ended, cancelled] = await Promise.all([
+      GeofenceAssignment.updateMany(
+        { ...filter, ...validAtFilter(at), validFrom: { $lt: at } },
+        { validTo: at }
+      ).exec(),
+      GeofenceAssignment.deleteMany({ ...filter, validFrom: { $gte: at } }).exec(),
+    ]);
+    return ended.modifiedCount + cancelled.deletedCount;
+  }
+}
+
+// Export d'une instance singleton
+export const geofenceAssignmentService = new GeofenceAssignmentService();
+export default geofenceAssignmentService;
@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import {
+  Geofence,
+  GeofenceRevision,
+  IGeofenceDocument,
+  IGeofenceRevisionDocument,
+  GeofenceRevisionField,
+} from '../models/index.js';
+import { GeofenceRevisionAction, GeofenceMode } from '../types/index.js';
+import { geofenceAssignmentService } from './GeofenceAssignmentService.js';
+
+// Champs restaurés depuis une révision : la définition de la zone uniquement
+// (le lien au contrat et l'archivage restent gérés par le cycle de vie du contrat)
+const RESTORABLE_FIELDS: GeofenceRevisionField[] = [
+  'name',
+  'description',
+  'shape',
+  'area',
+  'center',
+  'radiusMeters',
+  'mode',
+  'isActive',
+  'schedule',
+  'speedLimitKmh',
+  'isDepot',
+  'color',
+];
+
+// ============================================
+// Erreurs
+// ============================================
+
+export class GeofenceRevisionNotFoundError extends Error {
+  readonly code = 'NOT_FOUND';
+  constructor(geofenceId: string, revision?: number) {
+    super(
+      revision === undefined
+        ? `Geofence non trouvée : ${geofenceId}`
+        : `Révision ${revision} non trouvée pour la geofence ${geofenceId}`
+    );
+    this.name = 'GeofenceRevisionNotFoundError';
+  }
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service du journal des révisions de geofences
+ *
+ * Les révisions sont écrites par le middleware save du modèle Geofence ;
+ * ce service les expose, enregistre les suppressions et restaure une
+ * révision antérieure (ce qui crée une nouvelle révision, le journal restant immuable).
+ */
+export class GeofenceRevisionService {
+  /**
+   * Liste les révisions d'une zone, de la plus récente à la plus ancienne
+   */
+  async listRevisions(
+    geofenceId: string,
+    organizationId: mongoose.Types.ObjectId
+  ): Promise<IGeofenceRevisionDocument[]> {
+    return GeofenceRevision.find({
+      geofenceId: new mongoose.Types.ObjectId(geofenceId),
+      organizationId,
+    })
+      .populate('changedBy', 'firstName lastName email')
+      .sort({ revision: -1 })
+      .exec();
+  }
+
+  /**
+   * Récupère une révision précise d'une zone
+   */
+  async getRevision(
+    geofenceId: string,
+    revision: number,
+    organizationId: mongoose.Types.ObjectId
+  ): Promise<IGeofenceRevisionDocument> {
+    const found = await GeofenceRevision.findOne({
+      geofenceId: new mongoose.Types.ObjectId(geofenceId),
+      organizationId,
+      revision,
+    })
+      .populate('changedBy', 'firstName lastName email')
+      .exec();
+
+    if (!found) {
+      throw new GeofenceRevisionNotFoundError(geofenceId, revision);
+    }
+    return found;
+  }
+
+  /**
+   * Restaure la définition d'une zone telle qu'enregistrée dans une révision
+   * La restauration est elle-même tracée comme une nouvelle révision
+   */
+  async restoreRevision(
+    geofenceId: string,
+    revision: number,
+    organizationId: mongoose.Types.ObjectId,
+    changedBy?: mongoose.Types.ObjectId
+  ): Promise<IGeofenceDocument> {
+    const geofence = await Geofence.findOne({ _id: geofenceId, organizationId }).exec();
+    if (!geofence) {
+      throw new GeofenceRevisionNotFoundError(geofenceId);
+    }
+
+    const target = await this.getRevision(geofenceId, revision, organizationId);
+    if (target.action === GeofenceRevisionAction.DELETE) {
+      throw new GeofenceRevisionNotFoundError(geofenceId, revision);
+    }
+
+    for (const field of RESTORABLE_FIELDS) {
+      geofence.set(field, target.snapshot[field]);
+    }
+    // Révisions antérieures aux zones interdites : zone autorisée
+    geofence.set('mode', target.snapshot.mode ?? GeofenceMode.ALLOWED);
+    const becomesForbidden =
+      geofence.isModified('mode') && geofence.mode === GeofenceMode.FORBIDDEN;
+
+    geofence.setRevisionContext({
+      changedBy,
+      restoredFrom: revision,
+      note: `Restauration de la révision ${revision}`,
+    });
+    await geofence.save();
+
+    if (becomesForbidden) {
+      await geofenceAssignmentService.endForGeofence(geofence._id);
+    }
+
+    return geofence;
+  }
+
+  /**
+   * Enregistre la suppression d'une zone (dernier état conservé dans le journal)
+   */
+  async recordDeletion(
+    geofence: IGeofenceDocument,
+    changedBy?: mongoose.Types.ObjectId
+  ): Promise<IGeofenceRevisionDocument> {
+    return GeofenceRevision.create({
+      geofenceId: geofence._id,
+      organizationId: geofence.organizationId,
+      revision: (geofence.revision ?? 0) + 1,
+      action: GeofenceRevisionAction.DELETE,
+      changedFields: [],
+      snapshot: geofence.toRevisionSnapshot(),
+      changedBy,
+    });
+  }
+}
+
+// Export d'une instance singleton
+export const geofenceRevisionService = new GeofenceRevisionService();
+export default geofenceRevisionService;
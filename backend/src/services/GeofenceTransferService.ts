@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import { Geofence } from '../models/Geofence.js';
+import { GeofenceFileFormat, GeofenceGeometry, GeofenceShape } from '../types/index.js';
+import { createGeofenceSchema } from '../validators/schemas.js';
+import { circleToPolygon } from '../utils/geo.js';
+import {
+  GEO_FILE_CONTENT_TYPES,
+  ParsedZone,
+  parseGeoFile,
+  serializeGeoFile,
+} from '../utils/geoFormats.js';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface ImportGeofencesOptions {
+  dryRun: boolean;
+  color?: string; // Couleur des zones sans couleur (ou couleur invalide) dans le fichier
+  isActive: boolean;
+}
+
+/**
+ * Ligne du rapport d'import : une zone du fichier
+ */
+export interface ImportReportItem {
+  index: number;
+  name: string;
+  valid: boolean;
+  errors: string[];
+  shape?: GeofenceShape;
+  area?: GeofenceGeometry; // Aperçu carte (polygone généré pour un cercle)
+  geofenceId?: string; // Zone créée (hors dryRun)
+}
+
+export interface ImportReport {
+  format: GeofenceFileFormat;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created: number;
+  items: ImportReportItem[];
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const DEFAULT_IMPORT_COLOR = '#3B82F6';
+const COLOR_FORMAT = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Import / export des zones aux formats GeoJSON, KML et GPX
+ */
+export class GeofenceTransferService {
+  /**
+   * Lit un fichier, valide chaque zone et crée les zones valides (sauf dryRun)
+   * Un fichier illisible lève GeoFileParseError ; une zone invalide est
+   * simplement signalée dans le rapport
+   */
+  async importGeofences(
+    organizationId: string,
+    format: GeofenceFileFormat,
+    content: string,
+    options: ImportGeofencesOptions
+  ): Promise<ImportReport> {
+    const zones = parseGeoFile(format, content);
+    const items: ImportReportItem[] = [];
+
+    for (const [index, zone] of zones.entries()) {
+      const item = this._validateZone(zone, index, options);
+      items.push(item.report);
+
+      if (options.dryRun || !item.report.valid) continue;
+
+      try {
+        const geofence = await new Geofence({
+          ...item.data,
+          organizationId: new mongoose.Types.ObjectId(organizationId),
+        })
+          .setRevisionContext({ note: `Import ${format.toUpperCase()}` })
+          .save();
+        item.report.geofenceId = geofence._id.toString();
+      } catch (error) {
+        // Rejet Mongoose ou MongoDB (ex. polygone auto-intersecté refusé par l'index 2dsphere)
+        item.report.valid = false;
+        item.report.errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return {
+      format,
+      dryRun: options.dryRun,
+      total: items.length,
+      valid: items.filter((item) => item.valid).length,
+      created: items.filter((item) => item.geofenceId).length,
+      items,
+    };
+  }
+
+  /**
+   * Exporte les zones non archivées de l'organisation, ou une sélection
+   */
+  async exportGeofences(
+    organizationId: string,
+    format: GeofenceFileFormat,
+    ids?: string[]
+  ): Promise<ExportedFile> {
+    const filter: Record<string, unknown> = {
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+    };
+    if (ids && ids.length > 0) {
+      filter._id = { $in: ids.map((id) => new mongoose.Types.ObjectId(id)) };
+    } else {
+      filter.archivedAt = null;
+    }
+
+    const geofences = await Geofence.find(filter).sort({ name: 1 }).exec();
+
+    const content = serializeGeoFile(
+      format,
+      geofences.map((geofence) => ({
+        name: geofence.name,
+        description: geofence.description,
+        color: geofence.color,
+        shape: geofence.shape,
+        mode: geofence.mode,
+        area: geofence.area,
+        center: geofence.center,
+        radiusMeters: geofence.radiusMeters,
+      }))
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+    return {
+      filename: `zones-${date}.${format}`,
+      contentType: GEO_FILE_CONTENT_TYPES[format],
+      content,
+    };
+  }
+
+  // ============================================
+  // Méthodes privées
+  // ============================================
+
+  /**
+   * Valide une zone lue avec le schéma de création d'une geofence
+   */
+  private _validateZone(
+    zone: ParsedZone,
+    index: number,
+    options: ImportGeofencesOptions
+  ): { report: ImportReportItem; data: Record<string, unknown> } {
+    const name = (zone.name || `Zone importée ${index + 1}`).slice(0, 100);
+    const isCircle = zone.center !== undefined && zone.radiusMeters !== undefined;
+
+    const data: Record<string, unknown> = {
+      name,
+      description: zone.description?.slice(0, 500) || undefined,
+      color: zone.color && COLOR_FORMAT.test(zone.color)
+        ? zone.color
+        : options.color ?? DEFAULT_IMPORT_COLOR,
+      isActive: options.isActive,
+      mode: zone.mode,
+      shape: isCircle ? GeofenceShape.CIRCLE : GeofenceShape.POLYGON,
+      ...(isCircle
+        ? { center: zone.center, radiusMeters: zone.radiusMeters }
+        : { area: zone.geometry }),
+    };
+
+    const report: ImportReportItem = {
+      index,
+      name,
+      valid: false,
+      errors: [...zone.errors],
+      shape: data.shape as GeofenceShape,
+    };
+
+    if (report.errors.length > 0) {
+      return { report, data };
+    }
+
+    const result = createGeofenceSchema.safeParse(data);
+    if (!result.success) {
+      report.errors.push(
+        ...result.error.issues.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join('.')} : ${issue.message}` : issue.message
+        )
+      );
+      return { report, data };
+    }
+
+    report.valid = true;
+    report.area = isCircle
+      ? circleToPolygon(result.data.center!.coordinates, result.data.radiusMeters!)
+      : result.data.area;
+    return { report, data: result.data };
+  }
+}
+
+export const geofenceTransferService = new GeofenceTransferService();
+
+export default geofenceTransferService;
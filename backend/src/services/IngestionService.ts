@@ -0,0 +1,446 @@
+import { Vehicle, IVehicleDocument } from '../models/index.js';
+import {
+  GeoJSONPoint,
+  PositionRejectionReason,
+  AlertType,
+  AlertNotification,
+  PositionTelemetry,
+  VehicleLocationUpdate,
+  TrackerLocationInput,
+} from '../types/index.js';
+import { deviceService } from './DeviceService.js';
+import { positionService } from './PositionService.js';
+import { locationService, DetectedAlert } from './LocationService.js';
+import { alertService } from './AlertService.js';
+import { theftRiskService } from './TheftRiskService.js';
+import { positionFilterService, FilterReference } from './PositionFilterService.js';
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Point GPS horodaté d'un upload bufferisé
+ */
+export interface IngestFix extends PositionTelemetry {
+  location: GeoJSONPoint;
+  timestamp: Date;
+}
+
+/**
+ * Lot de points d'un tracker, authentifié par son secret
+ */
+export interface DeviceBatch {
+  imei: string;
+  token: string;
+  fixes: IngestFix[];
+}
+
+/**
+ * Bilan de l'ingestion d'un lot
+ */
+export interface DeviceIngestResult {
+  imei: string;
+  status: 'ACCEPTED' | 'UNAUTHORIZED';
+  received: number;
+  stored: number;
+  duplicates: number;
+  rejected: number;
+  vehicleUpdated: boolean;
+  alertsTriggered: number;
+}
+
+/**
+ * Résultat complet : bilan + événements à diffuser en temps réel
+ */
+export interface DeviceIngestOutcome {
+  result: DeviceIngestResult;
+  organizationId?: string;
+  locationUpdate?: VehicleLocationUpdate;
+  alerts: AlertNotification[];
+  resolvedAlerts: AlertNotification[];
+}
+
+/**
+ * Résultat du traitement d'une position temps réel : véhicule mis à jour
+ * et événements à diffuser (rien à diffuser si le point est rejeté par le filtrage)
+ */
+export interface LiveFixOutcome {
+  accepted: boolean;
+  rejectionReason?: PositionRejectionReason;
+  vehicle?: IVehicleDocument;
+  organizationId?: string;
+  locationUpdate?: VehicleLocationUpdate;
+  alerts: AlertNotification[];
+  updatedAlerts: AlertNotification[]; // Alertes ouvertes relevées (vitesse de pointe)
+  resolvedAlerts: AlertNotification[];
+}
+
+/**
+ * Résultat d'un relevé d'état sans position (heartbeat) : alertes à diffuser
+ */
+export interface TelemetryOutcome {
+  alerts: AlertNotification[];
+  resolvedAlerts: AlertNotification[];
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service d'ingestion des positions bufferisées
+ *
+ * Les trackers en sous-sol ou sur sites isolés stockent leurs points
+ * et les envoient en bloc, souvent dans le désordre. Pour chaque lot :
+ * 1. Tri chronologique et suppression des doublons (lot + historique)
+ * 2. Filtrage GPS (les points rejetés sont archivés avec leur motif)
+ * 3. Évaluation des règles de zone/horaires à l'horodatage de chaque point retenu,
+ *    des seuils d'alimentation sur le dernier relevé batterie du lot,
+ *    puis du score de risque de vol au dernier point
+ * 4. Mise à jour de `Vehicle.location` uniquement si le point le plus récent
+ *    est postérieur à `lastLocationUpdate`
+ */
+export class IngestionService {
+  /**
+   * Traite une position temps réel
+   * Point d'entrée commun des trackers (Socket.io, passerelles TCP) et de l'API REST :
+   * filtrage GPS, mise à jour du véhicule, alertes horodatées au point, score de vol
+   */
+  async ingestLiveFix(data: TrackerLocationInput): Promise<LiveFixOutcome> {
+    const { vehicleId, location: rawLocation, ...telemetry } = data;
+    const timestamp = telemetry.timestamp ?? new Date();
+
+    // Filtrage GPS : un point rejeté est archivé mais ne déclenche ni mise à jour ni alerte
+    const verdict = await positionFilterService.filterLocation(vehicleId, rawLocation, {
+      ...telemetry,
+      timestamp,
+    });
+    if (!verdict.accepted) {
+      return {
+        accepted: false,
+        rejectionReason: verdict.rejectionReason,
+        alerts: [],
+        updatedAlerts: [],
+        resolvedAlerts: [],
+      };
+    }
+    const { location } = verdict;
+
+    const result = await locationService.updateVehicleLocation(vehicleId, location, {
+      ...telemetry,
+      timestamp,
+    });
+    const organizationId = result.vehicle.organizationId.toString();
+
+    const alerts: AlertNotification[] = [];
+    const updatedAlerts: AlertNotification[] = [];
+    for (const alertData of result.alerts) {
+      // Dépassement déjà signalé : l'alerte ouverte est mise à jour, pas de nouvelle alerte
+      if (alertData.ongoing) {
+        const updated = await alertService.updatePeakSpeed(
+          vehicleId,
+          alertData.peakSpeed!,
+          alertData.message
+        );
+        if (updated) updatedAlerts.push(updated);
+        continue;
+      }
+
+      alerts.push(
+        await alertService.createAlert(
+          vehicleId,
+          alertData.type,
+          alertData.severity,
+          alertData.message,
+          location,
+          alertData.geofenceId,
+          timestamp,
+          {
+            geofenceRevision: alertData.geofenceRevision,
+            peakSpeed: alertData.peakSpeed,
+            speedLimit: alertData.speedLimit,
+          }
+        )
+      );
+    }
+
+    // Score de risque de vol (combinaison des signaux sur la fenêtre glissante)
+    const risk = await theftRiskService.evaluate(result.vehicle, { at: timestamp, location });
+    if (risk.alert) {
+      console.log(`[Alert] VOL POTENTIEL DETECTE pour le véhicule ${vehicleId} (score ${risk.score})`);
+      alerts.push(risk.alert);
+    }
+
+    return {
+      accepted: true,
+      vehicle: result.vehicle,
+      organizationId,
+      // Un point bufferisé plus ancien que la position courante n'est pas diffusé
+      locationUpdate: result.locationUpdated
+        ? { vehicleId, location, ...telemetry, timestamp }
+        : undefined,
+      alerts,
+      updatedAlerts,
+      resolvedAlerts: result.resolvedAlerts,
+    };
+  }
+
+  /**
+   * Traite une alarme remontée par un boîtier (coupure d'alimentation, déplacement...)
+   * L'alarme est un signal du score de vol : le risque est réévalué à son horodatage
+   * @returns Les alertes à diffuser (alarme, puis vol potentiel éventuel)
+   */
+  async ingestTrackerAlarm(
+    vehicleId: string,
+    alarm: DetectedAlert,
+    location: GeoJSONPoint,
+    at: Date
+  ): Promise<AlertNotification[]> {
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${vehicleId}`);
+    }
+
+    const alerts = [
+      await alertService.createAlert(
+        vehicleId,
+        alarm.type,
+        alarm.severity,
+        alarm.message,
+        location,
+        undefined,
+        at
+      ),
+    ];
+
+    const risk = await theftRiskService.evaluate(vehicle, { at, location });
+    if (risk.alert) {
+      console.log(`[Alert] VOL POTENTIEL DETECTE pour le véhicule ${vehicleId} (score ${risk.score})`);
+      alerts.push(risk.alert);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Traite un relevé d'état sans position (heartbeat avec niveau de batterie)
+   * Même enregistrement et mêmes seuils d'alimentation qu'une position ;
+   * l'alerte éventuelle est localisée à la dernière position connue
+   */
+  async ingestTelemetry(
+    vehicleId: string,
+    telemetry: PositionTelemetry,
+    at: Date
+  ): Promise<TelemetryOutcome> {
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${vehicleId}`);
+    }
+
+    const power = await locationService.checkPowerSupply(vehicle, telemetry, at);
+    const alerts: AlertNotification[] = [];
+    for (const alert of power.alerts) {
+      alerts.push(
+        await alertService.createAlert(
+          vehicleId,
+          alert.type,
+          alert.severity,
+          alert.message,
+          vehicle.location,
+          undefined,
+          at
+        )
+      );
+    }
+
+    return { alerts, resolvedAlerts: power.resolvedAlerts };
+  }
+
+  async ingestDeviceBatch(batch: DeviceBatch): Promise<DeviceIngestOutcome> {
+    const result: DeviceIngestResult = {
+      imei: batch.imei,
+      status: 'UNAUTHORIZED',
+      received: batch.fixes.length,
+      stored: 0,
+      duplicates: 0,
+      rejected: 0,
+      vehicleUpdated: false,
+      alertsTriggered: 0,
+    };
+
+    const tracker = await deviceService.authenticateTracker(batch.imei, batch.token);
+    if (!tracker) {
+      return { result, alerts: [], resolvedAlerts: [] };
+    }
+    result.status = 'ACCEPTED';
+
+    // Le tracker émet de nouveau : son alerte hors ligne est résolue, même si le lot est vide
+    const backOnline = await deviceService.resolveOfflineAlerts(tracker.vehicleId);
+
+    const vehicle = await Vehicle.findById(tracker.vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${tracker.vehicleId}`);
+    }
+    const vehicleId = vehicle._id.toString();
+    const organizationId = vehicle.organizationId.toString();
+
+    // 1. Tri chronologique et dédoublonnage
+    const sorted = [...batch.fixes].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const first = sorted[0].timestamp;
+    const last = sorted[sorted.length - 1].timestamp;
+
+    const seen = await positionService.getRecordedTimestamps(vehicleId, first, last);
+    const fixes: IngestFix[] = [];
+    for (const fix of sorted) {
+      const time = fix.timestamp.getTime();
+      if (seen.has(time)) {
+        result.duplicates++;
+        continue;
+      }
+      seen.add(time);
+      fixes.push(fix);
+    }
+
+    if (fixes.length === 0) {
+      return { result, organizationId, alerts: [], resolvedAlerts: backOnline };
+    }
+
+    // 2. Filtrage depuis le dernier point retenu avant le lot
+    const previous = await positionService.getLastPositionBefore(vehicleId, fixes[0].timestamp);
+    let reference: FilterReference | null = previous
+      ? { location: previous.location, timestamp: previous.timestamp }
+      : null;
+    if (!reference && vehicle.lastLocationUpdate && vehicle.lastLocationUpdate <= fixes[0].timestamp) {
+      reference = { location: vehicle.location, timestamp: vehicle.lastLocationUpdate };
+    }
+    const smoother = positionFilterService.createSmoother();
+
+    const filtered: (IngestFix & { rejectionReason?: PositionRejectionReason })[] = [];
+    const accepted: IngestFix[] = [];
+    for (const fix of fixes) {
+      const verdict = positionFilterService.filterFix(fix, reference, smoother);
+      if (!verdict.accepted) {
+        result.rejected++;
+        filtered.push({ ...fix, rejectionReason: verdict.rejectionReason });
+        continue;
+      }
+      const kept = { ...fix, location: verdict.location };
+      filtered.push(kept);
+      accepted.push(kept);
+      reference = { location: kept.location, timestamp: kept.timestamp };
+    }
+
+    result.stored = await positionService.recordPositions(vehicle, filtered);
+
+    if (accepted.length === 0) {
+      return { result, organizationId, alerts: [], resolvedAlerts: backOnline };
+    }
+
+    // 3. Règles évaluées point par point, à l'horodatage du point
+    let previousLocation = previous?.location ?? vehicle.location;
+
+    // Une alerte par type et par lot (par zone pour les zones interdites),
+    // déclenchée au premier point concerné
+    const triggered = new Map<string, DetectedAlert & { location: GeoJSONPoint; at: Date }>();
+    const triggerKey = (alert: DetectedAlert): string =>
+      alert.type === AlertType.FORBIDDEN_ZONE_ENTRY ? `${alert.type}:${alert.geofenceId}` : alert.type;
+    const evaluationState = locationService.createEvaluationState();
+
+    for (const fix of accepted) {
+      const fixAlerts = await locationService.evaluateFix(
+        vehicle,
+        fix.location,
+        previousLocation,
+        fix.timestamp,
+        fix,
+        evaluationState
+      );
+      for (const alert of fixAlerts) {
+        const existing = triggered.get(triggerKey(alert));
+        if (!existing) {
+          triggered.set(triggerKey(alert), { ...alert, location: fix.location, at: fix.timestamp });
+        } else if ((alert.peakSpeed ?? 0) > (existing.peakSpeed ?? 0)) {
+          // Conserver la vitesse de pointe de tout le lot (suite du dépassement signalé)
+          existing.peakSpeed = alert.peakSpeed;
+          existing.message = alert.message;
+        }
+      }
+      previousLocation = fix.location;
+    }
+
+    // Seul le relevé d'alimentation le plus récent du lot est significatif
+    const lastPowerFix = [...accepted]
+      .reverse()
+      .find((fix) => fix.batteryLevel !== undefined || fix.externalVoltage !== undefined);
+    const resolvedAlerts: AlertNotification[] = [...backOnline];
+    if (lastPowerFix) {
+      const power = await locationService.checkPowerSupply(vehicle, lastPowerFix, lastPowerFix.timestamp);
+      for (const alert of power.alerts) {
+        triggered.set(triggerKey(alert), { ...alert, location: lastPowerFix.location, at: lastPowerFix.timestamp });
+      }
+      resolvedAlerts.push(...power.resolvedAlerts);
+    }
+
+    const alerts: AlertNotification[] = [];
+    for (const alert of triggered.values()) {
+      alerts.push(
+        await alertService.createAlert(
+          vehicleId,
+          alert.type,
+          alert.severity,
+          alert.message,
+          alert.location,
+          alert.geofenceId,
+          alert.at,
+          {
+            geofenceRevision: alert.geofenceRevision,
+            peakSpeed: alert.peakSpeed,
+            speedLimit: alert.speedLimit,
+          }
+        )
+      );
+    }
+
+    // Score de risque de vol au dernier point du lot
+    const latest = accepted[accepted.length - 1];
+    const risk = await theftRiskService.evaluate(vehicle, {
+      at: latest.timestamp,
+      location: latest.location,
+    });
+    if (risk.alert) {
+      console.log(`[Alert] VOL POTENTIEL DETECTE pour le véhicule ${vehicleId} (score ${risk.score})`);
+      alerts.push(risk.alert);
+    }
+
+    // 4. Position courante : seulement si le lot contient un point plus récent
+    const update = await Vehicle.updateOne(
+      {
+        _id: vehicle._id,
+        $or: [
+          { lastLocationUpdate: { $exists: false } },
+          { lastLocationUpdate: { $lt: latest.timestamp } },
+        ],
+      },
+      { $set: { location: latest.location, lastLocationUpdate: latest.timestamp } }
+    ).exec();
+    result.vehicleUpdated = update.modifiedCount > 0;
+    result.alertsTriggered = alerts.length;
+
+    const { location, timestamp, ...telemetry } = latest;
+
+    return {
+      result,
+      organizationId,
+      locationUpdate: result.vehicleUpdated
+        ? { vehicleId, location, timestamp, ...telemetry }
+        : undefined,
+      alerts,
+      resolvedAlerts,
+    };
+  }
+}
+
+// Export d'une instance singleton
+export const ingestionService = new IngestionService();
+export default ingestionService;
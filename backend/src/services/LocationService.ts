@@ -1,12 +1,83 @@
-import { Vehicle, Geofence, Alert, IVehicleDocument, IGeofenceDocument } from '../models/index.js';
+import { Vehicle, Geofence, IVehicleDocument, IGeofenceDocument } from '../models/index.js';
 import {
   GeoJSONPoint,
   AlertType,
   AlertSeverity,
-  AlertStatus,
   VehicleStatus,
+  PositionTelemetry,
+  AlertNotification,
+  GeofenceMode,
 } from '../types/index.js';
 import { getOrganizationObjectId } from '../config/index.js';
+import { positionService } from './PositionService.js';
+import { organizationService } from './OrganizationService.js';
+import { alertService } from './AlertService.js';
+import { geofenceAssignmentService } from './GeofenceAssignmentService.js';
+import { toZonedTime } from '../utils/timezone.js';
+import { formatSlots, getSlotsForDate, isWithinSchedule } from '../utils/schedule.js';
+
+// Marges au-dessus des seuils avant résolution automatique (évite le battement)
+const BATTERY_RECOVERY_MARGIN_PERCENT = 5;
+const VOLTAGE_RECOVERY_MARGIN_VOLTS = 0.5;
+
+/**
+ * Alerte détectée lors de l'évaluation d'une position (avant création)
+ */
+export interface DetectedAlert {
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  geofenceId?: string;
+  geofenceRevision?: number; // Révision de la zone évaluée
+  peakSpeed?: number;
+  speedLimit?: number;
+  ongoing?: boolean; // Suite d'une alerte déjà levée : seule l'alerte ouverte est mise à jour
+}
+
+/**
+ * Dépassement de vitesse en cours pour un véhicule
+ */
+export interface SpeedViolationState {
+  startedAt: Date;
+  peakSpeed: number;
+  alerted: boolean; // Alerte déjà levée pour ce dépassement
+}
+
+/**
+ * Engin contact coupé : position à la coupure du contact
+ */
+export interface TowingAnchorState {
+  location: GeoJSONPoint;
+  alerted: boolean; // Déplacement déjà signalé depuis cette ancre
+}
+
+/**
+ * État des contrôles qui s'étalent sur plusieurs points
+ * (un état partagé pour le flux temps réel, un état vierge par lot ingéré)
+ */
+export interface FixEvaluationState {
+  speedViolations: Map<string, SpeedViolationState>;
+  towingAnchors: Map<string, TowingAnchorState>;
+  forbiddenZones: Map<string, string[]>; // Zones interdites occupées au dernier point
+}
+
+/**
+ * Résultat du contrôle d'alimentation : alerte à créer ou alertes résolues
+ */
+export interface PowerSupplyCheck {
+  alerts: DetectedAlert[];
+  resolvedAlerts: AlertNotification[];
+}
+
+/**
+ * Limite de vitesse applicable à une position
+ */
+interface SpeedLimit {
+  limit: number;
+  geofenceId?: string;
+  geofenceRevision?: number;
+  geofenceName?: string;
+}
 
 /**
  * Service de géolocalisation et détection de violations de zone
@@ -18,21 +89,30 @@ import { getOrganizationObjectId } from '../config/index.js';
  * - $nearSphere: Comme $near mais sur une sphère (plus précis pour la Terre)
  */
 export class LocationService {
+  // Contrôles en cours sur le flux temps réel, par véhicule
+  private liveState = this.createEvaluationState();
+
   /**
    * Met à jour la position d'un véhicule et vérifie les violations de geofence
    * 
    * @param vehicleId - ID du véhicule
    * @param location - Nouvelle position GeoJSON
-   * @returns Objet contenant le véhicule mis à jour et les éventuelles alertes générées
+   * @param telemetry - Télémétrie optionnelle (horodatage, vitesse, cap, batterie)
+   * @returns Le véhicule, les alertes générées, les alertes résolues automatiquement
+   *          et si la position courante du véhicule a changé
    */
   async updateVehicleLocation(
     vehicleId: string,
-    location: GeoJSONPoint
+    location: GeoJSONPoint,
+    telemetry: PositionTelemetry = {}
   ): Promise<{
     vehicle: IVehicleDocument;
-    alerts: { type: AlertType; severity: AlertSeverity; message: string }[];
+    alerts: DetectedAlert[];
+    resolvedAlerts: AlertNotification[];
+    locationUpdated: boolean;
   }> {
-    const alerts: { type: AlertType; severity: AlertSeverity; message: string }[] = [];
+    const alerts: DetectedAlert[] = [];
+    const at = telemetry.timestamp ?? new Date();
 
     // 1. Récupérer le véhicule
     const vehicle = await Vehicle.findById(vehicleId);
@@ -40,51 +120,116 @@ export class LocationService {
       throw new Error(`Véhicule non trouvé: ${vehicleId}`);
     }
 
-    // 2. Sauvegarder l'ancienne position pour comparaison
-    const previousLocation = vehicle.location;
+    // 2. Position précédant le point : la position courante, ou pour un point
+    //    bufferisé plus ancien (records Teltonika en lot), le dernier point archivé avant lui
+    const isLatest = !vehicle.lastLocationUpdate || vehicle.lastLocationUpdate < at;
+    const previousLocation = isLatest
+      ? vehicle.location
+      : (await positionService.getLastPositionBefore(vehicleId, at))?.location ?? vehicle.location;
+
+    // 3. Mettre à jour la position courante, seulement si le point est plus récent
+    //    (horodatage du point GPS et non heure de réception)
+    const update = await Vehicle.updateOne(
+      {
+        _id: vehicle._id,
+        $or: [
+          { lastLocationUpdate: { $exists: false } },
+          { lastLocationUpdate: { $lt: at } },
+        ],
+      },
+      { $set: { location, lastLocationUpdate: at } }
+    ).exec();
+    const locationUpdated = update.matchedCount > 0;
+    if (locationUpdated) {
+      Object.assign(vehicle, { location, lastLocationUpdate: at });
+    }
+
+    // Archiver le point dans l'historique des positions
+    await positionService.recordPosition(vehicle, location, { ...telemetry, timestamp: at });
+
+    // 4. Évaluer les règles à l'horodatage du point GPS
+    alerts.push(...(await this.evaluateFix(vehicle, location, previousLocation, at, telemetry)));
+
+    // 5. Batterie et alimentation du boîtier
+    const power = await this.checkPowerSupply(vehicle, telemetry, at);
+    alerts.push(...power.alerts);
+
+    return { vehicle, alerts, resolvedAlerts: power.resolvedAlerts, locationUpdated };
+  }
+
+  /**
+   * Évalue les règles de zone et d'horaires pour un point GPS
+   * Les horaires sont vérifiés à l'horodatage du point (et non à l'heure de réception),
+   * ce qui permet de rejouer des positions bufferisées par le tracker
+   */
+  async evaluateFix(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    previousLocation: GeoJSONPoint,
+    at: Date,
+    telemetry: Pick<PositionTelemetry, 'speed' | 'ignition'> = {},
+    state: FixEvaluationState = this.liveState
+  ): Promise<DetectedAlert[]> {
+    const alerts: DetectedAlert[] = [];
+
+    // Vérifier les limites de vitesse (quel que soit le statut du véhicule)
+    if (telemetry.speed !== undefined) {
+      alerts.push(
+        ...(await this.checkSpeedViolation(vehicle, location, telemetry.speed, at, state.speedViolations))
+      );
+    }
+
+    // Vérifier un déplacement contact coupé (quel que soit le statut du véhicule)
+    if (telemetry.ignition !== undefined) {
+      alerts.push(...(await this.checkTowing(vehicle, location, telemetry.ignition, state.towingAnchors)));
+    }
 
-    // 3. Mettre à jour la position
-    vehicle.location = location;
-    vehicle.lastLocationUpdate = new Date();
-    await vehicle.save();
+    // Vérifier l'entrée en zone interdite (quels que soient le statut et les affectations)
+    alerts.push(...(await this.checkForbiddenZones(vehicle, location, state.forbiddenZones)));
 
-    // 4. Vérifier les violations de geofence si le véhicule est en location
+    // Vérifier les violations de geofence si le véhicule est en location
     if (vehicle.status === VehicleStatus.EN_LOCATION) {
-      const geofenceViolations = await this.checkGeofenceViolations(vehicle, location);
+      const geofenceViolations = await this.checkGeofenceViolations(vehicle, location, at);
       alerts.push(...geofenceViolations);
 
-      // 5. Vérifier les mouvements hors horaires
-      const hourViolations = await this.checkAllowedHoursViolations(vehicle, location, previousLocation);
+      // Vérifier les mouvements hors horaires
+      const hourViolations = await this.checkAllowedHoursViolations(vehicle, location, previousLocation, at);
       alerts.push(...hourViolations);
     }
 
-    return { vehicle, alerts };
+    return alerts;
   }
 
   /**
    * Vérifie si le véhicule est sorti de ses zones autorisées
    * 
    * LOGIQUE:
-   * 1. Récupère toutes les geofences assignées au véhicule
+   * 1. Récupère les geofences affectées au véhicule à l'horodatage du point
    * 2. Utilise $geoIntersects pour vérifier si le point est dans chaque zone
    * 3. Si le véhicule n'est dans AUCUNE zone autorisée -> ALERTE
+   *
+   * @param at - Horodatage du point GPS (seules les affectations valides à cet instant comptent)
    */
   async checkGeofenceViolations(
     vehicle: IVehicleDocument,
-    location: GeoJSONPoint
-  ): Promise<{ type: AlertType; severity: AlertSeverity; message: string }[]> {
-    const alerts: { type: AlertType; severity: AlertSeverity; message: string }[] = [];
-
-    // Si le véhicule n'a pas de geofences assignées, pas de vérification
-    if (!vehicle.assignedGeofences || vehicle.assignedGeofences.length === 0) {
+    location: GeoJSONPoint,
+    at: Date = new Date()
+  ): Promise<DetectedAlert[]> {
+    const alerts: DetectedAlert[] = [];
+
+    // Si le véhicule n'a pas de geofences affectées à cet instant, pas de vérification
+    const assignedGeofences = await geofenceAssignmentService.getValidGeofenceIds(vehicle._id, at);
+    if (assignedGeofences.length === 0) {
       return alerts;
     }
 
     // Chercher les geofences actives qui contiennent ce point
     // On utilise $geoIntersects qui est plus flexible que $geoWithin pour les points
+    // (MultiPolygon : dans l'une des parcelles ; un point dans un trou n'est pas contenu)
     const containingGeofences = await Geofence.find({
-      _id: { $in: vehicle.assignedGeofences },
+      _id: { $in: assignedGeofences },
       isActive: true,
+      mode: { $ne: GeofenceMode.FORBIDDEN },
       area: {
         $geoIntersects: {
           $geometry: location,
@@ -96,30 +241,241 @@ export class LocationService {
     if (containingGeofences.length === 0) {
       // Récupérer les noms des zones autorisées pour le message
       const authorizedZones = await Geofence.find({
-        _id: { $in: vehicle.assignedGeofences },
-      }).select('name');
+        _id: { $in: assignedGeofences },
+        mode: { $ne: GeofenceMode.FORBIDDEN },
+      }).select('name revision');
 
       const zoneNames = authorizedZones.map((z: { name: string }) => z.name).join(', ');
 
+      // Une seule zone autorisée : l'alerte est rattachée à la révision évaluée
+      const [onlyZone] = authorizedZones.length === 1 ? authorizedZones : [];
+
       alerts.push({
         type: AlertType.GEOFENCE_EXIT,
         severity: AlertSeverity.CRITICAL,
         message: `ALERTE: ${vehicle.name} (${vehicle.registrationNumber}) est sorti de sa zone autorisée (${zoneNames}). Position: [${location.coordinates[1].toFixed(6)}, ${location.coordinates[0].toFixed(6)}]`,
+        geofenceId: onlyZone?._id.toString(),
+        geofenceRevision: onlyZone?.revision,
       });
     }
 
     return alerts;
   }
 
+  /**
+   * Vérifie si le véhicule est entré dans une zone interdite
+   *
+   * LOGIQUE:
+   * 1. Cherche les zones interdites actives de l'organisation contenant le point
+   * 2. Compare aux zones occupées au point précédent ; sans état (redémarrage,
+   *    début de lot), aux zones des alertes encore ouvertes (actives ou acquittées)
+   * 3. Chaque zone nouvellement entrée -> une ALERTE, même si le point est aussi
+   *    dans une zone autorisée ; un engin stationné dans la zone n'en relève pas d'autre
+   *
+   * Les horaires de la zone ne sont pas pris en compte : une zone interdite l'est en permanence.
+   *
+   * @param forbiddenZoneStates - Zones occupées par véhicule (temps réel ou lot ingéré)
+   */
+  async checkForbiddenZones(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    forbiddenZoneStates: Map<string, string[]> = this.liveState.forbiddenZones
+  ): Promise<DetectedAlert[]> {
+    const vehicleId = vehicle._id.toString();
+
+    const forbiddenZones = await Geofence.find({
+      organizationId: vehicle.organizationId,
+      mode: GeofenceMode.FORBIDDEN,
+      isActive: true,
+      archivedAt: null,
+      area: {
+        $geoIntersects: {
+          $geometry: location,
+        },
+      },
+    }).select('name revision');
+
+    const previousZones =
+      forbiddenZoneStates.get(vehicleId) ??
+      (await alertService.getOpenAlertGeofenceIds(vehicleId, AlertType.FORBIDDEN_ZONE_ENTRY));
+    forbiddenZoneStates.set(vehicleId, forbiddenZones.map((z) => z._id.toString()));
+
+    const enteredZones = forbiddenZones.filter((z) => !previousZones.includes(z._id.toString()));
+
+    return enteredZones.map((zone) => ({
+      type: AlertType.FORBIDDEN_ZONE_ENTRY,
+      severity: AlertSeverity.CRITICAL,
+      message: `ALERTE: ${vehicle.name} (${vehicle.registrationNumber}) est entré dans la zone interdite ${zone.name}. Position: [${location.coordinates[1].toFixed(6)}, ${location.coordinates[0].toFixed(6)}]`,
+      geofenceId: zone._id.toString(),
+      geofenceRevision: zone.revision,
+    }));
+  }
+
+  /**
+   * Crée un état de contrôle vierge (lot ingéré)
+   */
+  createEvaluationState(): FixEvaluationState {
+    return { speedViolations: new Map(), towingAnchors: new Map(), forbiddenZones: new Map() };
+  }
+
+  /**
+   * Détecte le remorquage ou le levage d'un engin
+   *
+   * LOGIQUE:
+   * 1. À la coupure du contact, la position courante sert d'ancre
+   * 2. Contact toujours coupé et engin à plus de `towingDistanceMeters`
+   *    de l'ancre -> alerte TOWING_DETECTED (engin chargé sur un porte-char),
+   *    une seule fois par ancre : les points suivants du transport n'en relèvent pas d'autre
+   * 3. Remise du contact -> l'ancre est oubliée
+   *
+   * @param towingAnchors - Ancres en cours (temps réel ou lot ingéré)
+   */
+  async checkTowing(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    ignition: boolean,
+    towingAnchors: Map<string, TowingAnchorState> = this.liveState.towingAnchors
+  ): Promise<DetectedAlert[]> {
+    const vehicleId = vehicle._id.toString();
+
+    if (ignition) {
+      towingAnchors.delete(vehicleId);
+      return [];
+    }
+
+    const anchor = towingAnchors.get(vehicleId);
+    if (!anchor) {
+      towingAnchors.set(vehicleId, { location, alerted: false });
+      return [];
+    }
+    if (anchor.alerted) {
+      return [];
+    }
+
+    const displacement = this.calculateDistance(anchor.location.coordinates, location.coordinates);
+    const settings = await organizationService.getSettings(vehicle.organizationId.toString());
+    if (displacement <= settings.towingDistanceMeters) {
+      return [];
+    }
+    anchor.alerted = true;
+
+    return [{
+      type: AlertType.TOWING_DETECTED,
+      severity: AlertSeverity.CRITICAL,
+      message: `ALERTE: ${vehicle.name} (${vehicle.registrationNumber}) déplacé de ${Math.round(displacement)} m contact coupé (remorquage ou levage)`,
+    }];
+  }
+
+  /**
+   * Vérifie le respect des limites de vitesse
+   *
+   * LOGIQUE:
+   * 1. Limite applicable = la plus basse entre la limite du type d'engin
+   *    (paramètres de l'organisation) et celles des zones contenant le point
+   * 2. Le dépassement doit durer `speedViolationDelaySeconds` avant l'alerte
+   * 3. L'alerte porte la vitesse de pointe du dépassement ; une fois levée, les points
+   *    suivants du même dépassement ne font que relever sa vitesse de pointe (`ongoing`)
+   *
+   * @param speedViolations - État des dépassements en cours (temps réel ou lot ingéré)
+   */
+  async checkSpeedViolation(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    speed: number,
+    at: Date,
+    speedViolations: Map<string, SpeedViolationState> = this.liveState.speedViolations
+  ): Promise<DetectedAlert[]> {
+    const vehicleId = vehicle._id.toString();
+    const settings = await organizationService.getSettings(vehicle.organizationId.toString());
+    const applicable = await this.getSpeedLimit(vehicle, location, settings.speedLimits[vehicle.type]);
+
+    if (!applicable || speed <= applicable.limit) {
+      speedViolations.delete(vehicleId);
+      return [];
+    }
+
+    let violation = speedViolations.get(vehicleId);
+    if (!violation) {
+      violation = { startedAt: at, peakSpeed: speed, alerted: false };
+      speedViolations.set(vehicleId, violation);
+    }
+    const peakRaised = speed > violation.peakSpeed;
+    violation.peakSpeed = Math.max(violation.peakSpeed, speed);
+
+    const sustainedSeconds = (at.getTime() - violation.startedAt.getTime()) / 1000;
+    if (sustainedSeconds < settings.speedViolationDelaySeconds) {
+      return [];
+    }
+
+    // Dépassement déjà signalé : rien de nouveau tant que la pointe n'augmente pas
+    const ongoing = violation.alerted;
+    if (ongoing && !peakRaised) {
+      return [];
+    }
+    violation.alerted = true;
+
+    const zone = applicable.geofenceName ? ` dans la zone ${applicable.geofenceName}` : '';
+
+    return [{
+      type: AlertType.SPEED_EXCEEDED,
+      severity: AlertSeverity.WARNING,
+      message: `Excès de vitesse de ${vehicle.name} (${vehicle.registrationNumber})${zone} : ${Math.round(violation.peakSpeed)} km/h pour une limite de ${applicable.limit} km/h`,
+      geofenceId: applicable.geofenceId,
+      geofenceRevision: applicable.geofenceRevision,
+      peakSpeed: violation.peakSpeed,
+      speedLimit: applicable.limit,
+      ongoing,
+    }];
+  }
+
+  /**
+   * Limite de vitesse la plus restrictive applicable à une position
+   */
+  private async getSpeedLimit(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    typeLimit?: number
+  ): Promise<SpeedLimit | null> {
+    const [zone] = await Geofence.find({
+      organizationId: vehicle.organizationId,
+      isActive: true,
+      speedLimitKmh: { $exists: true },
+      area: {
+        $geoIntersects: {
+          $geometry: location,
+        },
+      },
+    })
+      .sort({ speedLimitKmh: 1 })
+      .limit(1)
+      .select('name speedLimitKmh revision');
+
+    if (zone?.speedLimitKmh !== undefined && (typeLimit === undefined || zone.speedLimitKmh <= typeLimit)) {
+      return {
+        limit: zone.speedLimitKmh,
+        geofenceId: zone._id.toString(),
+        geofenceRevision: zone.revision,
+        geofenceName: zone.name,
+      };
+    }
+
+    return typeLimit !== undefined ? { limit: typeLimit } : null;
+  }
+
   /**
    * Vérifie si un mouvement a eu lieu en dehors des horaires autorisés
+   * Le planning (créneaux hebdomadaires, passages de minuit, exceptions) est évalué
+   * dans le fuseau horaire de l'organisation ; les jours fériés et fermetures
+   * de son calendrier sont des jours non autorisés
+   * @param at - Instant du mouvement (horodatage du point GPS)
    */
   async checkAllowedHoursViolations(
     vehicle: IVehicleDocument,
     newLocation: GeoJSONPoint,
-    previousLocation: GeoJSONPoint
-  ): Promise<{ type: AlertType; severity: AlertSeverity; message: string }[]> {
-    const alerts: { type: AlertType; severity: AlertSeverity; message: string }[] = [];
+    previousLocation: GeoJSONPoint,
+    at: Date = new Date()
+  ): Promise<DetectedAlert[]> {
+    const alerts: DetectedAlert[] = [];
 
     // Vérifier si la position a changé significativement (>10m)
     const distance = this.calculateDistance(
@@ -131,49 +487,152 @@ export class LocationService {
       return alerts; // Pas de mouvement significatif
     }
 
-    // Récupérer les geofences avec restrictions horaires
+    // Récupérer les geofences affectées à cet instant avec restrictions horaires
     const restrictedGeofences = await Geofence.find({
-      _id: { $in: vehicle.assignedGeofences },
+      _id: { $in: await geofenceAssignmentService.getValidGeofenceIds(vehicle._id, at) },
       isActive: true,
-      allowedHours: { $exists: true },
+      mode: { $ne: GeofenceMode.FORBIDDEN },
+      schedule: { $ne: null },
     });
+    if (restrictedGeofences.length === 0) {
+      return alerts;
+    }
+
+    // Heure murale dans le fuseau de l'organisation (le serveur tourne souvent en UTC)
+    const { timezone, calendar } = await organizationService.getSettings(vehicle.organizationId.toString());
+    const zoned = toZonedTime(at, timezone);
 
-    const now = new Date();
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-    const currentDay = now.getDay();
+    // Jours fériés et fermetures : aucun créneau, sauf exception propre à la zone
+    const isClosed = (date: string): boolean =>
+      organizationService.getNonWorkingDay(calendar, date) !== undefined;
 
     for (const geofence of restrictedGeofences) {
-      // Vérifier les jours autorisés
-      if (geofence.allowedDays && geofence.allowedDays.length > 0) {
-        if (!geofence.allowedDays.includes(currentDay)) {
-          alerts.push({
-            type: AlertType.MOVEMENT_OUTSIDE_HOURS,
-            severity: AlertSeverity.WARNING,
-            message: `Mouvement détecté pour ${vehicle.name} un jour non autorisé (${this.getDayName(currentDay)})`,
-          });
-          continue;
-        }
+      const schedule = geofence.schedule!;
+      if (isWithinSchedule(schedule, zoned, isClosed)) {
+        continue;
       }
 
-      // Vérifier les heures autorisées
-      if (geofence.allowedHours) {
-        const isOutsideHours =
-          currentTime < geofence.allowedHours.start ||
-          currentTime > geofence.allowedHours.end;
-
-        if (isOutsideHours) {
-          alerts.push({
-            type: AlertType.MOVEMENT_OUTSIDE_HOURS,
-            severity: AlertSeverity.CRITICAL,
-            message: `ALERTE: Mouvement de ${vehicle.name} détecté à ${currentTime} (horaires autorisés: ${geofence.allowedHours.start}-${geofence.allowedHours.end})`,
-          });
-        }
+      const todaySlots = getSlotsForDate(schedule, zoned.date, zoned.day, isClosed);
+      const exception = schedule.exceptions.find((e) => e.date === zoned.date);
+
+      // Aucun créneau ce jour-là : jour non autorisé
+      if (todaySlots.length === 0) {
+        const reason =
+          exception?.label ??
+          organizationService.getNonWorkingDay(calendar, zoned.date) ??
+          this.getDayName(zoned.day);
+        alerts.push({
+          type: AlertType.MOVEMENT_OUTSIDE_HOURS,
+          severity: AlertSeverity.WARNING,
+          message: `Mouvement détecté pour ${vehicle.name} un jour non autorisé (${reason})`,
+          geofenceId: geofence._id.toString(),
+          geofenceRevision: geofence.revision,
+        });
+        continue;
       }
+
+      alerts.push({
+        type: AlertType.MOVEMENT_OUTSIDE_HOURS,
+        severity: AlertSeverity.CRITICAL,
+        message: `ALERTE: Mouvement de ${vehicle.name} détecté à ${zoned.time} (horaires autorisés: ${formatSlots(todaySlots)})`,
+        geofenceId: geofence._id.toString(),
+        geofenceRevision: geofence.revision,
+      });
     }
 
     return alerts;
   }
 
+  /**
+   * Enregistre la dernière télémétrie d'alimentation et vérifie les seuils
+   *
+   * LOGIQUE:
+   * 1. Les relevés ne sont conservés que s'ils sont plus récents que les derniers
+   *    enregistrés (un lot bufferisé ancien ne réécrit pas l'état courant)
+   * 2. Batterie sous `batteryLowThreshold` ou alimentation sous
+   *    `externalVoltageLowThreshold` -> alerte BATTERY_LOW
+   * 3. Tous les relevés revenus au-dessus du seuil (plus une marge) -> les alertes
+   *    BATTERY_LOW ouvertes sont résolues automatiquement
+   */
+  async checkPowerSupply(
+    vehicle: IVehicleDocument,
+    telemetry: PositionTelemetry,
+    at: Date
+  ): Promise<PowerSupplyCheck> {
+    const { batteryLevel, externalVoltage } = telemetry;
+    if (batteryLevel === undefined && externalVoltage === undefined) {
+      return { alerts: [], resolvedAlerts: [] };
+    }
+
+    const readings: Partial<Pick<IVehicleDocument, 'batteryLevel' | 'externalVoltage'>> = {};
+    if (batteryLevel !== undefined) readings.batteryLevel = batteryLevel;
+    if (externalVoltage !== undefined) readings.externalVoltage = externalVoltage;
+
+    const update = await Vehicle.updateOne(
+      {
+        _id: vehicle._id,
+        $or: [
+          { lastTelemetryAt: { $exists: false } },
+          { lastTelemetryAt: { $lte: at } },
+        ],
+      },
+      { $set: { ...readings, lastTelemetryAt: at } }
+    ).exec();
+    if (update.matchedCount === 0) {
+      return { alerts: [], resolvedAlerts: [] };
+    }
+    Object.assign(vehicle, readings, { lastTelemetryAt: at });
+
+    const settings = await organizationService.getSettings(vehicle.organizationId.toString());
+    const lows: string[] = [];
+    let checked = false;
+    let recovered = true;
+
+    if (batteryLevel !== undefined) {
+      checked = true;
+      const threshold = settings.batteryLowThreshold;
+      if (batteryLevel < threshold) {
+        lows.push(`batterie du tracker à ${Math.round(batteryLevel)} % (seuil ${threshold} %)`);
+      }
+      if (batteryLevel < threshold + BATTERY_RECOVERY_MARGIN_PERCENT) {
+        recovered = false;
+      }
+    }
+
+    const voltageThreshold = settings.externalVoltageLowThreshold;
+    if (externalVoltage !== undefined && voltageThreshold !== undefined) {
+      checked = true;
+      if (externalVoltage < voltageThreshold) {
+        lows.push(`alimentation à ${externalVoltage.toFixed(1)} V (seuil ${voltageThreshold} V)`);
+      }
+      if (externalVoltage < voltageThreshold + VOLTAGE_RECOVERY_MARGIN_VOLTS) {
+        recovered = false;
+      }
+    }
+
+    if (lows.length > 0) {
+      return {
+        alerts: [{
+          type: AlertType.BATTERY_LOW,
+          severity: AlertSeverity.WARNING,
+          message: `Alimentation faible pour ${vehicle.name} (${vehicle.registrationNumber}) : ${lows.join(', ')}`,
+        }],
+        resolvedAlerts: [],
+      };
+    }
+
+    if (checked && recovered) {
+      const resolvedAlerts = await alertService.autoResolveAlerts(
+        vehicle._id.toString(),
+        AlertType.BATTERY_LOW,
+        'Résolue automatiquement : alimentation revenue au-dessus du seuil'
+      );
+      return { alerts: [], resolvedAlerts };
+    }
+
+    return { alerts: [], resolvedAlerts: [] };
+  }
+
   /**
    * Trouve tous les véhicules dans un rayon donné autour d'un point
    * Utilise l'opérateur $near de MongoDB avec index 2dsphere
@@ -260,7 +719,7 @@ export class LocationService {
   /**
    * Calcule la distance entre deux points en mètres (formule de Haversine)
    */
-  private calculateDistance(
+  calculateDistance(
     coord1: [number, number],
     coord2: [number, number]
   ): number {
@@ -288,43 +747,6 @@ export class LocationService {
     const days = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
     return days[day];
   }
-
-  /**
-   * Détecte un vol potentiel basé sur plusieurs critères
-   * - Sortie de zone + mouvement hors horaires = VOL POTENTIEL
-   */
-  async detectPotentialTheft(
-    vehicleId: string,
-    recentAlerts: { type: AlertType }[]
-  ): Promise<boolean> {
-    const hasGeofenceExit = recentAlerts.some(
-      (a) => a.type === AlertType.GEOFENCE_EXIT
-    );
-    const hasOutsideHoursMovement = recentAlerts.some(
-      (a) => a.type === AlertType.MOVEMENT_OUTSIDE_HOURS
-    );
-
-    // Si les deux conditions sont réunies dans un court laps de temps
-    if (hasGeofenceExit && hasOutsideHoursMovement) {
-      // Créer une alerte de vol potentiel
-      const vehicle = await Vehicle.findById(vehicleId);
-      if (vehicle) {
-        await Alert.create({
-          type: AlertType.POTENTIAL_THEFT,
-          severity: AlertSeverity.CRITICAL,
-          status: AlertStatus.ACTIVE,
-          vehicleId: vehicle._id,
-          organizationId: vehicle.organizationId,
-          message: `VOL POTENTIEL DÉTECTÉ: ${vehicle.name} (${vehicle.registrationNumber}) - Sortie de zone combinée à un mouvement hors horaires`,
-          location: vehicle.location,
-          triggeredAt: new Date(),
-        });
-        return true;
-      }
-    }
-
-    return false;
-  }
 }
 
 // Export d'une instance singleton
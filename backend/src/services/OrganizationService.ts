@@ -0,0 +1,262 @@
+import mongoose from 'mongoose';
+import { Organization } from '../models/Organization.js';
+import config from '../config/index.js';
+import { VehicleType, RiskFactor } from '../types/index.js';
+import { DEFAULT_TIMEZONE } from '../utils/timezone.js';
+import { findFrenchPublicHoliday, getFrenchPublicHolidays, PublicHoliday } from '../utils/holidays.js';
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Paramètres du score de risque de vol, avec les valeurs par défaut appliquées
+ */
+export interface TheftRiskSettings {
+  windowMinutes: number;
+  alertThreshold: number;
+  deliveryRadiusMeters: number;
+  weights: Record<RiskFactor, number>;
+}
+
+/**
+ * Période de fermeture des chantiers (bornes incluses)
+ */
+export interface ClosurePeriod {
+  start: string; // "YYYY-MM-DD"
+  end: string;
+  label: string;
+}
+
+/**
+ * Calendrier des jours non travaillés
+ */
+export interface CalendarSettings {
+  publicHolidays: boolean;
+  closures: ClosurePeriod[];
+}
+
+/**
+ * Paramètres d'une organisation, avec les valeurs par défaut appliquées
+ */
+export interface OrganizationSettings {
+  timezone: string;
+  speedLimits: Partial<Record<VehicleType, number>>;
+  speedViolationDelaySeconds: number;
+  batteryLowThreshold: number;
+  externalVoltageLowThreshold?: number;
+  towingDistanceMeters: number;
+  siteGeofenceRadiusMeters: number;
+  theftRisk: TheftRiskSettings;
+  calendar: CalendarSettings;
+}
+
+export type UpdateOrganizationSettingsData = Partial<
+  Omit<OrganizationSettings, 'externalVoltageLowThreshold' | 'theftRisk' | 'calendar'>
+> & {
+  externalVoltageLowThreshold?: number | null; // null désactive le seuil
+  theftRisk?: Partial<Omit<TheftRiskSettings, 'weights'>> & {
+    weights?: Partial<Record<RiskFactor, number>>;
+  };
+  calendar?: Partial<CalendarSettings>;
+};
+
+// Durée de dépassement de vitesse par défaut avant alerte (secondes)
+const DEFAULT_SPEED_VIOLATION_DELAY_SECONDS = 10;
+
+// Niveau de batterie tracker par défaut sous lequel alerter (%)
+const DEFAULT_BATTERY_LOW_THRESHOLD = 20;
+
+// Déplacement contact coupé par défaut avant alerte de remorquage (mètres)
+const DEFAULT_TOWING_DISTANCE_METERS = 100;
+
+// Durée de conservation des paramètres en mémoire : une même position les consulte
+// pour plusieurs contrôles (vitesse, remorquage, horaires, alimentation, risque de vol)
+const SETTINGS_CACHE_TTL_MS = 30 * 1000;
+
+// Score de risque de vol : valeurs par défaut
+const DEFAULT_THEFT_RISK: Omit<TheftRiskSettings, 'weights'> = {
+  windowMinutes: 30,
+  alertThreshold: 70,
+  deliveryRadiusMeters: 5000,
+};
+
+const DEFAULT_RISK_WEIGHTS: Record<RiskFactor, number> = {
+  [RiskFactor.GEOFENCE_EXIT]: 40,
+  [RiskFactor.OUTSIDE_HOURS]: 30,
+  [RiskFactor.MOVEMENT_WITHOUT_IGNITION]: 35,
+  [RiskFactor.DEVICE_OFFLINE]: 30,
+  [RiskFactor.HIGH_SPEED]: 15,
+  [RiskFactor.FAR_FROM_DELIVERY]: 25,
+  [RiskFactor.TRACKER_POWER_CUT]: 35,
+};
+
+// ============================================
+// Erreurs métier
+// ============================================
+
+export class OrganizationNotFoundError extends Error {
+  readonly code = 'ORGANIZATION_NOT_FOUND';
+  constructor(organizationId: string) {
+    super(`Organisation non trouvée : ${organizationId}`);
+    this.name = 'OrganizationNotFoundError';
+  }
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service des paramètres d'organisation
+ * (limites de vitesse par type d'engin, seuils d'alerte batterie,
+ * calendrier des jours non travaillés)
+ */
+export class OrganizationService {
+  // Paramètres récemment lus, par organisation
+  private settingsCache = new Map<string, { settings: OrganizationSettings; expiresAt: number }>();
+
+  /**
+   * Paramètres d'une organisation
+   * Une organisation inconnue (ex. démo) reçoit les valeurs par défaut
+   * Conservés `SETTINGS_CACHE_TTL_MS` en mémoire, invalidés à la mise à jour
+   */
+  async getSettings(organizationId: string): Promise<OrganizationSettings> {
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    const settings = await this.loadSettings(organizationId);
+    this.settingsCache.set(organizationId, { settings, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS });
+    return settings;
+  }
+
+  private async loadSettings(organizationId: string): Promise<OrganizationSettings> {
+    const organization = mongoose.Types.ObjectId.isValid(organizationId)
+      ? await Organization.findById(organizationId).select('settings').exec()
+      : null;
+
+    return {
+      timezone: organization?.settings?.timezone ?? DEFAULT_TIMEZONE,
+      speedLimits: Object.fromEntries(organization?.settings?.speedLimits ?? []),
+      speedViolationDelaySeconds:
+        organization?.settings?.speedViolationDelaySeconds ?? DEFAULT_SPEED_VIOLATION_DELAY_SECONDS,
+      batteryLowThreshold:
+        organization?.settings?.batteryLowThreshold ?? DEFAULT_BATTERY_LOW_THRESHOLD,
+      externalVoltageLowThreshold: organization?.settings?.externalVoltageLowThreshold,
+      towingDistanceMeters:
+        organization?.settings?.towingDistanceMeters ?? DEFAULT_TOWING_DISTANCE_METERS,
+      siteGeofenceRadiusMeters:
+        organization?.settings?.siteGeofenceRadiusMeters ?? config.geofencing.defaultRadiusMeters,
+      theftRisk: {
+        windowMinutes:
+          organization?.settings?.theftRisk?.windowMinutes ?? DEFAULT_THEFT_RISK.windowMinutes,
+        alertThreshold:
+          organization?.settings?.theftRisk?.alertThreshold ?? DEFAULT_THEFT_RISK.alertThreshold,
+        deliveryRadiusMeters:
+          organization?.settings?.theftRisk?.deliveryRadiusMeters ?? DEFAULT_THEFT_RISK.deliveryRadiusMeters,
+        weights: {
+          ...DEFAULT_RISK_WEIGHTS,
+          ...Object.fromEntries(organization?.settings?.theftRisk?.weights ?? []),
+        },
+      },
+      calendar: {
+        publicHolidays: organization?.settings?.calendar?.publicHolidays ?? true,
+        closures: (organization?.settings?.calendar?.closures ?? []).map(({ start, end, label }) => ({
+          start,
+          end,
+          label,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Met à jour les paramètres d'une organisation
+   * Les limites de vitesse, les poids de risque et les fermetures fournis
+   * remplacent entièrement les précédents
+   */
+  async updateSettings(
+    organizationId: string,
+    data: UpdateOrganizationSettingsData
+  ): Promise<OrganizationSettings> {
+    const organization = await Organization.findById(organizationId).exec();
+    if (!organization) {
+      throw new OrganizationNotFoundError(organizationId);
+    }
+
+    if (data.timezone !== undefined) {
+      organization.set('settings.timezone', data.timezone);
+    }
+    if (data.speedLimits !== undefined) {
+      organization.set('settings.speedLimits', data.speedLimits);
+    }
+    if (data.speedViolationDelaySeconds !== undefined) {
+      organization.set('settings.speedViolationDelaySeconds', data.speedViolationDelaySeconds);
+    }
+    if (data.batteryLowThreshold !== undefined) {
+      organization.set('settings.batteryLowThreshold', data.batteryLowThreshold);
+    }
+    if (data.externalVoltageLowThreshold !== undefined) {
+      organization.set('settings.externalVoltageLowThreshold', data.externalVoltageLowThreshold ?? undefined);
+    }
+    if (data.towingDistanceMeters !== undefined) {
+      organization.set('settings.towingDistanceMeters', data.towingDistanceMeters);
+    }
+    if (data.siteGeofenceRadiusMeters !== undefined) {
+      organization.set('settings.siteGeofenceRadiusMeters', data.siteGeofenceRadiusMeters);
+    }
+    if (data.theftRisk !== undefined) {
+      const { weights, ...thresholds } = data.theftRisk;
+      for (const [key, value] of Object.entries(thresholds)) {
+        if (value !== undefined) {
+          organization.set(`settings.theftRisk.${key}`, value);
+        }
+      }
+      // Les poids fournis remplacent entièrement les surcharges précédentes
+      if (weights !== undefined) {
+        organization.set('settings.theftRisk.weights', weights);
+      }
+    }
+    if (data.calendar?.publicHolidays !== undefined) {
+      organization.set('settings.calendar.publicHolidays', data.calendar.publicHolidays);
+    }
+    if (data.calendar?.closures !== undefined) {
+      organization.set(
+        'settings.calendar.closures',
+        [...data.calendar.closures].sort((a, b) => a.start.localeCompare(b.start))
+      );
+    }
+
+    await organization.save();
+    this.settingsCache.delete(organizationId);
+
+    return this.getSettings(organizationId);
+  }
+
+  /**
+   * Jours fériés français d'une année (pour affichage du calendrier)
+   */
+  getPublicHolidays(year: number): PublicHoliday[] {
+    return getFrenchPublicHolidays(year);
+  }
+
+  /**
+   * Motif de fermeture d'une date locale "YYYY-MM-DD" (jour férié ou fermeture),
+   * undefined si la date est travaillée
+   */
+  getNonWorkingDay(calendar: CalendarSettings, date: string): string | undefined {
+    if (calendar.publicHolidays) {
+      const holiday = findFrenchPublicHoliday(date);
+      if (holiday) {
+        return holiday.name;
+      }
+    }
+    return calendar.closures.find((closure) => closure.start <= date && date <= closure.end)?.label;
+  }
+}
+
+export const organizationService = new OrganizationService();
+
+export default organizationService;
@@ -0,0 +1,233 @@
+import { Vehicle } from '../models/index.js';
+import { GeoJSONPoint, PositionTelemetry, PositionRejectionReason } from '../types/index.js';
+import config from '../config/index.js';
+import { locationService } from './LocationService.js';
+import { positionService } from './PositionService.js';
+
+// Erreur de position typique d'un récepteur GPS pour un HDOP de 1 (mètres)
+const GPS_BASE_ACCURACY_METERS = 5;
+
+// Bruit de processus du filtre de Kalman : vitesse de déplacement attendue (m/s)
+const KALMAN_PROCESS_NOISE_MS = 3;
+
+// Lissage sans point depuis ce délai oublié : l'incertitude accumulée
+// rendrait de toute façon au point suivant la quasi-totalité de son poids
+const SMOOTHER_IDLE_MS = 10 * 60 * 1000;
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Dernier point retenu, servant de référence au contrôle de saut
+ */
+export interface FilterReference {
+  location: GeoJSONPoint;
+  timestamp: Date;
+}
+
+/**
+ * Point GPS soumis au filtrage
+ */
+export interface FilterFix extends PositionTelemetry {
+  location: GeoJSONPoint;
+  timestamp: Date;
+}
+
+/**
+ * Verdict du filtrage : point retenu (éventuellement lissé) ou rejeté
+ */
+export interface FilterVerdict {
+  accepted: boolean;
+  location: GeoJSONPoint;
+  rejectionReason?: PositionRejectionReason;
+}
+
+/**
+ * État du lissage de Kalman d'un véhicule
+ */
+export interface KalmanState {
+  longitude: number;
+  latitude: number;
+  variance: number; // m², négative tant que le filtre n'est pas initialisé
+  timestamp: number; // ms
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service de filtrage des points GPS avant évaluation des règles
+ *
+ * La dérive GPS d'un engin stationné déclenchait de fausses alertes
+ * (sortie de zone, mouvement hors horaires). Chaque point est contrôlé :
+ * 1. Précision : nombre de satellites et HDOP, quand le tracker les fournit
+ * 2. Saut irréaliste : vitesse déduite (Haversine / Δt) depuis le dernier point retenu
+ * 3. Lissage de Kalman optionnel (`GPS_SMOOTHING=true`)
+ *
+ * Un point rejeté est archivé avec son motif mais ne met pas à jour le véhicule.
+ */
+export class PositionFilterService {
+  // Lissage temps réel par véhicule (un lot ingéré utilise son propre état)
+  private smoothers = new Map<string, KalmanState>();
+  private lastEvictionAt = 0;
+
+  /**
+   * Filtre un point temps réel par rapport à la position courante du véhicule
+   * Les points rejetés sont archivés ici avec leur motif
+   */
+  async filterLocation(
+    vehicleId: string,
+    location: GeoJSONPoint,
+    telemetry: PositionTelemetry = {}
+  ): Promise<FilterVerdict> {
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new Error(`Véhicule non trouvé: ${vehicleId}`);
+    }
+
+    const fix: FilterFix = { ...telemetry, location, timestamp: telemetry.timestamp ?? new Date() };
+    let reference: FilterReference | null = vehicle.lastLocationUpdate
+      ? { location: vehicle.location, timestamp: vehicle.lastLocationUpdate }
+      : null;
+
+    // Point bufferisé plus ancien que la position courante : contrôlé par rapport
+    // au dernier point archivé avant lui, et non lissé (le lissage suit l'ordre chronologique)
+    const isBuffered = reference !== null && fix.timestamp < reference.timestamp;
+    if (isBuffered) {
+      const previous = await positionService.getLastPositionBefore(vehicleId, fix.timestamp);
+      reference = previous ? { location: previous.location, timestamp: previous.timestamp } : null;
+    }
+
+    const smoother =
+      config.positionFilter.smoothing && !isBuffered ? this.getSmoother(vehicleId) : undefined;
+    const verdict = this.filterFix(fix, reference, smoother);
+
+    if (!verdict.accepted) {
+      await positionService.recordPosition(vehicle, location, fix, verdict.rejectionReason);
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Contrôle un point et, s'il est retenu, le lisse avec l'état fourni
+   */
+  filterFix(fix: FilterFix, reference: FilterReference | null, smoother?: KalmanState): FilterVerdict {
+    const rejectionReason = this.check(fix, reference);
+    if (rejectionReason) {
+      return { accepted: false, location: fix.location, rejectionReason };
+    }
+
+    const location =
+      config.positionFilter.smoothing && smoother ? this.smooth(smoother, fix) : fix.location;
+
+    return { accepted: true, location };
+  }
+
+  /**
+   * Crée un état de lissage vierge
+   */
+  createSmoother(): KalmanState {
+    return { longitude: 0, latitude: 0, variance: -1, timestamp: 0 };
+  }
+
+  /**
+   * État de lissage temps réel d'un véhicule
+   */
+  private getSmoother(vehicleId: string, now = Date.now()): KalmanState {
+    this.evictIdleSmoothers(now);
+
+    let smoother = this.smoothers.get(vehicleId);
+    if (!smoother) {
+      smoother = this.createSmoother();
+      this.smoothers.set(vehicleId, smoother);
+    }
+    return smoother;
+  }
+
+  /**
+   * Oublie les lissages inactifs depuis `SMOOTHER_IDLE_MS` (au plus un passage par délai)
+   */
+  private evictIdleSmoothers(now: number): void {
+    if (now - this.lastEvictionAt < SMOOTHER_IDLE_MS) return;
+    this.lastEvictionAt = now;
+
+    for (const [vehicleId, smoother] of this.smoothers) {
+      if (now - smoother.timestamp >= SMOOTHER_IDLE_MS) {
+        this.smoothers.delete(vehicleId);
+      }
+    }
+  }
+
+  /**
+   * Retourne le motif de rejet d'un point, ou undefined s'il est plausible
+   */
+  private check(fix: FilterFix, reference: FilterReference | null): PositionRejectionReason | undefined {
+    const { minSatellites, maxHdop, maxSpeedKmh } = config.positionFilter;
+
+    if (fix.satellites !== undefined && fix.satellites < minSatellites) {
+      return PositionRejectionReason.LOW_SATELLITES;
+    }
+
+    if (fix.hdop !== undefined && fix.hdop > maxHdop) {
+      return PositionRejectionReason.HIGH_HDOP;
+    }
+
+    if (reference) {
+      const distance = locationService.calculateDistance(
+        reference.location.coordinates,
+        fix.location.coordinates
+      );
+      // Au moins 1 s pour ne pas diviser par zéro sur des points rapprochés
+      const seconds = Math.max(
+        Math.abs(fix.timestamp.getTime() - reference.timestamp.getTime()) / 1000,
+        1
+      );
+      const derivedSpeedKmh = (distance / seconds) * 3.6;
+
+      if (derivedSpeedKmh > maxSpeedKmh) {
+        return PositionRejectionReason.IMPLAUSIBLE_JUMP;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Filtre de Kalman simple (modèle à position constante)
+   * La variance de mesure dépend du HDOP, l'incertitude croît avec le temps écoulé
+   */
+  private smooth(state: KalmanState, fix: FilterFix): GeoJSONPoint {
+    const [longitude, latitude] = fix.location.coordinates;
+    const accuracy = (fix.hdop ?? 1) * GPS_BASE_ACCURACY_METERS;
+    const measurementVariance = accuracy * accuracy;
+    const time = fix.timestamp.getTime();
+
+    if (state.variance < 0) {
+      state.longitude = longitude;
+      state.latitude = latitude;
+      state.variance = measurementVariance;
+      state.timestamp = time;
+      return fix.location;
+    }
+
+    const elapsedSeconds = (time - state.timestamp) / 1000;
+    if (elapsedSeconds > 0) {
+      state.variance += elapsedSeconds * KALMAN_PROCESS_NOISE_MS * KALMAN_PROCESS_NOISE_MS;
+      state.timestamp = time;
+    }
+
+    const gain = state.variance / (state.variance + measurementVariance);
+    state.longitude += gain * (longitude - state.longitude);
+    state.latitude += gain * (latitude - state.latitude);
+    state.variance = (1 - gain) * state.variance;
+
+    return { type: 'Point', coordinates: [state.longitude, state.latitude] };
+  }
+}
+
+// Export d'une instance singleton
+export const positionFilterService = new PositionFilterService();
+export default positionFilterService;
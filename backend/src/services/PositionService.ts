@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { Position, IPositionDocument, IVehicleDocument } from '../models/index.js';
+import {
+  GeoJSONPoint,
+  GeoJSONLineString,
+  GeoJSONFeatureCollection,
+  PositionTelemetry,
+  PositionRejectionReason,
+} from '../types/index.js';
+
+/**
+ * Nombre maximum de points renvoyés par une requête de relecture
+ */
+const MAX_TRACK_POINTS = 20000;
+
+/**
+ * Propriétés d'un point de la trace GeoJSON
+ */
+export interface TrackPointProperties {
+  timestamp: Date;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
+}
+
+/**
+ * Propriétés de la ligne (trace complète) GeoJSON
+ */
+export interface TrackLineProperties {
+  vehicleId: string;
+  from: Date;
+  to: Date;
+  pointCount: number;
+  truncated: boolean;
+}
+
+export type VehicleTrack = GeoJSONFeatureCollection<
+  GeoJSONPoint | GeoJSONLineString,
+  TrackPointProperties | TrackLineProperties
+>;
+
+/**
+ * Service d'historique des positions GPS
+ * Archive chaque point reçu et permet la relecture d'un trajet sur une période
+ */
+export class PositionService {
+  /**
+   * Enregistre un point GPS dans l'historique du véhicule
+   * Un point rejeté par le filtrage est archivé avec son motif
+   */
+  async recordPosition(
+    vehicle: IVehicleDocument,
+    location: GeoJSONPoint,
+    telemetry: PositionTelemetry = {},
+    rejectionReason?: PositionRejectionReason
+  ): Promise<IPositionDocument> {
+    return Position.create({
+      vehicleId: vehicle._id,
+      organizationId: vehicle.organizationId,
+      location,
+      timestamp: telemetry.timestamp ?? new Date(),
+      speed: telemetry.speed,
+      heading: telemetry.heading,
+      batteryLevel: telemetry.batteryLevel,
+      ignition: telemetry.ignition,
+      externalVoltage: telemetry.externalVoltage,
+      satellites: telemetry.satellites,
+      hdop: telemetry.hdop,
+      rejected: rejectionReason ? true : undefined,
+      rejectionReason,
+    });
+  }
+
+  /**
+   * Enregistre un lot de points GPS horodatés (upload bufferisé d'un tracker)
+   */
+  async recordPositions(
+    vehicle: IVehicleDocument,
+    fixes: (PositionTelemetry & {
+      location: GeoJSONPoint;
+      timestamp: Date;
+      rejectionReason?: PositionRejectionReason;
+    })[]
+  ): Promise<number> {
+    if (fixes.length === 0) return 0;
+
+    const documents = await Position.insertMany(
+      fixes.map((fix) => ({
+        vehicleId: vehicle._id,
+        organizationId: vehicle.organizationId,
+        location: fix.location,
+        timestamp: fix.timestamp,
+        speed: fix.speed,
+        heading: fix.heading,
+        batteryLevel: fix.batteryLevel,
+        ignition: fix.ignition,
+        externalVoltage: fix.externalVoltage,
+        satellites: fix.satellites,
+        hdop: fix.hdop,
+        rejected: fix.rejectionReason ? true : undefined,
+        rejectionReason: fix.rejectionReason,
+      })),
+      { ordered: false }
+    );
+
+    return documents.length;
+  }
+
+  /**
+   * Horodatages (en ms) déjà enregistrés pour un véhicule sur une période
+   * Sert à écarter les doublons lors d'un ré-envoi de lot
+   */
+  async getRecordedTimestamps(vehicleId: string, from: Date, to: Date): Promise<Set<number>> {
+    const positions = await Position.find(
+      {
+        vehicleId: new mongoose.Types.ObjectId(vehicleId),
+        timestamp: { $gte: from, $lte: to },
+      },
+      { timestamp: 1 }
+    ).lean();
+
+    return new Set(positions.map((p) => p.timestamp.getTime()));
+  }
+
+  /**
+   * Dernière position retenue (non rejetée) strictement avant un instant donné
+   */
+  async getLastPositionBefore(vehicleId: string, before: Date): Promise<IPositionDocument | null> {
+    return Position.findOne({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      timestamp: { $lt: before },
+      rejected: { $ne: true },
+    })
+      .sort({ timestamp: -1 })
+      .exec();
+  }
+
+  /**
+   * Récupère les positions retenues d'un véhicule sur une période, triées chronologiquement
+   * Les points rejetés par le filtrage sont exclus
+   */
+  async getPositions(
+    vehicleId: string,
+    from: Date,
+    to: Date,
+    limit = MAX_TRACK_POINTS
+  ): Promise<IPositionDocument[]> {
+    return Position.find({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      timestamp: { $gte: from, $lte: to },
+      rejected: { $ne: true },
+    })
+      .sort({ timestamp: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Construit la trace GeoJSON d'un véhicule sur une période
+   *
+   * FeatureCollection composée de :
+   * - une Feature LineString (le trajet complet) en première position,
+   *   à partir de deux positions (une LineString GeoJSON en exige au moins deux)
+   * - une Feature Point par position, avec la télémétrie en propriétés
+   */
+  async getTrack(vehicleId: string, from: Date, to: Date): Promise<VehicleTrack> {
+    // +1 pour détecter une troncature
+    const positions = await this.getPositions(vehicleId, from, to, MAX_TRACK_POINTS + 1);
+    const truncated = positions.length > MAX_TRACK_POINTS;
+    const points = truncated ? positions.slice(0, MAX_TRACK_POINTS) : positions;
+
+    const track: VehicleTrack = { type: 'FeatureCollection', features: [] };
+
+    if (points.length >= 2) {
+      track.features.push({
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: points.map((p) => p.location.coordinates),
+        },
+        properties: {
+          vehicleId,
+          from,
+          to,
+          pointCount: points.length,
+          truncated,
+        },
+      });
+    }
+
+    for (const point of points) {
+      track.features.push({
+        type: 'Feature',
+        geometry: point.location,
+        properties: {
+          timestamp: point.timestamp,
+          speed: point.speed,
+          heading: point.heading,
+          batteryLevel: point.batteryLevel,
+          ignition: point.ignition,
+          externalVoltage: point.externalVoltage,
+        },
+      });
+    }
+
+    return track;
+  }
+}
+
+// Export d'une instance singleton
+export const positionService = new PositionService();
+export default positionService;
@@ -0,0 +1,254 @@
+import mongoose from 'mongoose';
+import {
+  Alert,
+  Contract,
+  RiskScore,
+  IVehicleDocument,
+  IRiskScoreDocument,
+  IRiskScoreFactor,
+} from '../models/index.js';
+import {
+  AlertType,
+  AlertSeverity,
+  AlertStatus,
+  AlertNotification,
+  ContractStatus,
+  GeoJSONPoint,
+  RiskFactor,
+  VehicleStatus,
+} from '../types/index.js';
+import { alertService } from './AlertService.js';
+import { locationService } from './LocationService.js';
+import { organizationService } from './OrganizationService.js';
+
+// Nombre maximal d'entrées d'historique renvoyées
+const MAX_HISTORY_ENTRIES = 500;
+
+// Alertes prises en compte comme signaux de risque
+const ALERT_FACTORS: Partial<Record<AlertType, RiskFactor>> = {
+  [AlertType.GEOFENCE_EXIT]: RiskFactor.GEOFENCE_EXIT,
+  [AlertType.MOVEMENT_OUTSIDE_HOURS]: RiskFactor.OUTSIDE_HOURS,
+  [AlertType.TOWING_DETECTED]: RiskFactor.MOVEMENT_WITHOUT_IGNITION,
+  [AlertType.DEVICE_OFFLINE]: RiskFactor.DEVICE_OFFLINE,
+  [AlertType.SPEED_EXCEEDED]: RiskFactor.HIGH_SPEED,
+  [AlertType.TRACKER_POWER_CUT]: RiskFactor.TRACKER_POWER_CUT,
+};
+
+const FACTOR_LABELS: Record<RiskFactor, string> = {
+  [RiskFactor.GEOFENCE_EXIT]: 'sortie de zone',
+  [RiskFactor.OUTSIDE_HOURS]: 'mouvement hors horaires',
+  [RiskFactor.MOVEMENT_WITHOUT_IGNITION]: 'déplacement contact coupé',
+  [RiskFactor.DEVICE_OFFLINE]: 'tracker hors ligne',
+  [RiskFactor.HIGH_SPEED]: 'excès de vitesse',
+  [RiskFactor.FAR_FROM_DELIVERY]: 'éloigné du lieu de livraison',
+  [RiskFactor.TRACKER_POWER_CUT]: 'alimentation du tracker coupée',
+};
+
+// ============================================
+// Interfaces
+// ============================================
+
+/**
+ * Observation ponctuelle d'un véhicule soumise au scoring
+ */
+export interface RiskObservation {
+  at: Date;
+  location: GeoJSONPoint;
+}
+
+/**
+ * Résultat d'une évaluation du risque de vol
+ * `alert` n'est renseignée que lorsque le score a évolué au-dessus du seuil
+ */
+export interface TheftRiskAssessment {
+  score: number;
+  factors: IRiskScoreFactor[];
+  alert?: AlertNotification;
+}
+
+// ============================================
+// Service
+// ============================================
+
+/**
+ * Service de scoring du risque de vol
+ *
+ * Combine plusieurs signaux observés sur une fenêtre glissante
+ * (`settings.theftRisk.windowMinutes`) :
+ * - Alertes récentes : sortie de zone, hors horaires, remorquage, tracker hors ligne,
+ *   excès de vitesse, coupure d'alimentation du tracker
+ * - Position : éloignement du lieu de livraison
+ *
+ * Chaque facteur présent apporte son poids (paramétrable par organisation),
+ * le score est plafonné à 100. Chaque évolution du score est historisée ;
+ * au-delà de `alertThreshold`, une alerte POTENTIAL_THEFT est levée
+ * via le pipeline d'alertes habituel.
+ */
+export class TheftRiskService {
+  // Signaux issus de la position (temps réel), par véhicule
+  private signals = new Map<string, Map<RiskFactor, Date>>();
+
+  /**
+   * Recalcule le score de risque d'un véhicule après une observation
+   */
+  async evaluate(vehicle: IVehicleDocument, observation: RiskObservation): Promise<TheftRiskAssessment> {
+    const vehicleId = vehicle._id.toString();
+    const { theftRisk } = await organizationService.getSettings(vehicle.organizationId.toString());
+    const windowStart = new Date(observation.at.getTime() - theftRisk.windowMinutes * 60 * 1000);
+
+    const observed = new Map<RiskFactor, Date>();
+    const observe = (factor: RiskFactor, at: Date): void => {
+      const current = observed.get(factor);
+      if (!current || at > current) observed.set(factor, at);
+    };
+
+    // 1. Alertes récentes (ou toujours ouvertes et mises à jour dans la fenêtre)
+    const alerts = await Alert.find({
+      vehicleId: vehicle._id,
+      type: { $in: Object.keys(ALERT_FACTORS) },
+      $or: [
+        { triggeredAt: { $gte: windowStart } },
+        { status: { $ne: AlertStatus.RESOLVED }, updatedAt: { $gte: windowStart } },
+      ],
+    })
+      .select('type status triggeredAt updatedAt')
+      .exec();
+
+    for (const alert of alerts) {
+      const lastSeen =
+        alert.status !== AlertStatus.RESOLVED && alert.updatedAt > alert.triggeredAt
+          ? alert.updatedAt
+          : alert.triggeredAt;
+      observe(ALERT_FACTORS[alert.type]!, lastSeen);
+    }
+
+    // 2. Signaux de position, conservés le temps de la fenêtre
+    const signals = this.signals.get(vehicleId) ?? new Map<RiskFactor, Date>();
+    for (const factor of await this.detectPositionSignals(vehicle, observation, theftRisk.deliveryRadiusMeters)) {
+      signals.set(factor, observation.at);
+    }
+    for (const [factor, at] of signals) {
+      if (at < windowStart) {
+        signals.delete(factor);
+      } else {
+        observe(factor, at);
+      }
+    }
+    // Aucun signal en cours : le véhicule n'est plus suivi
+    if (signals.size > 0) {
+      this.signals.set(vehicleId, signals);
+    } else {
+      this.signals.delete(vehicleId);
+    }
+
+    // 3. Score pondéré
+    const factors: IRiskScoreFactor[] = [...observed]
+      .map(([factor, observedAt]) => ({ factor, weight: theftRisk.weights[factor], observedAt }))
+      .filter((f) => f.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+    const score = Math.min(100, factors.reduce((sum, f) => sum + f.weight, 0));
+
+    // 4. Historique : une entrée par évolution du score ou des facteurs
+    const latest = await RiskScore.findOne({ vehicleId: vehicle._id }).sort({ computedAt: -1 }).exec();
+    if (!this.hasChanged(latest, score, factors)) {
+      return { score, factors };
+    }
+
+    const alertTriggered = score >= theftRisk.alertThreshold;
+    await RiskScore.create({
+      vehicleId: vehicle._id,
+      organizationId: vehicle.organizationId,
+      score,
+      factors,
+      alertTriggered,
+      computedAt: observation.at,
+    });
+
+    if (!alertTriggered) {
+      return { score, factors };
+    }
+
+    // 5. Alerte POTENTIAL_THEFT avec les facteurs contributifs
+    const labels = factors.map((f) => `${FACTOR_LABELS[f.factor]} (+${f.weight})`).join(', ');
+    const alert = await alertService.createAlert(
+      vehicleId,
+      AlertType.POTENTIAL_THEFT,
+      AlertSeverity.CRITICAL,
+      `VOL POTENTIEL: ${vehicle.name} (${vehicle.registrationNumber}) - risque ${score}/100 : ${labels}`,
+      observation.location,
+      undefined,
+      observation.at,
+      { riskScore: score, riskFactors: factors.map((f) => f.factor) }
+    );
+
+    return { score, factors, alert };
+  }
+
+  /**
+   * Historique des scores de risque d'un véhicule sur une période
+   */
+  async getRiskHistory(vehicleId: string, from: Date, to: Date): Promise<IRiskScoreDocument[]> {
+    return RiskScore.find({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      computedAt: { $gte: from, $lte: to },
+    })
+      .sort({ computedAt: -1 })
+      .limit(MAX_HISTORY_ENTRIES)
+      .exec();
+  }
+
+  /**
+   * Signaux déduits directement de l'observation
+   */
+  private async detectPositionSignals(
+    vehicle: IVehicleDocument,
+    observation: RiskObservation,
+    deliveryRadiusMeters: number
+  ): Promise<RiskFactor[]> {
+    const factors: RiskFactor[] = [];
+
+    // Éloignement du lieu de livraison du contrat en cours
+    if (vehicle.status === VehicleStatus.EN_LOCATION) {
+      const contract = await Contract.findOne({
+        vehicleId: vehicle._id,
+        status: ContractStatus.ACTIF,
+      })
+        .select('deliveryLocation')
+        .exec();
+
+      if (
+        contract &&
+        locationService.calculateDistance(
+          contract.deliveryLocation.coordinates,
+          observation.location.coordinates
+        ) > deliveryRadiusMeters
+      ) {
+        factors.push(RiskFactor.FAR_FROM_DELIVERY);
+      }
+    }
+
+    return factors;
+  }
+
+  /**
+   * Le score ou l'ensemble des facteurs diffère-t-il de la dernière entrée ?
+   */
+  private hasChanged(
+    latest: IRiskScoreDocument | null,
+    score: number,
+    factors: IRiskScoreFactor[]
+  ): boolean {
+    if (!latest) {
+      return score > 0;
+    }
+    if (latest.score !== score || latest.factors.length !== factors.length) {
+      return true;
+    }
+    const previous = new Set(latest.factors.map((f) => f.factor));
+    return factors.some((f) => !previous.has(f.factor));
+  }
+}
+
+// Export d'une instance singleton
+export const theftRiskService = new TheftRiskService();
+export default theftRiskService;
@@ -0,0 +1,233 @@
+import { IPositionDocument } from '../models/index.js';
+import { GeoJSONPoint } from '../types/index.js';
+import { positionService } from './PositionService.js';
+import { locationService } from './LocationService.js';
+
+// ============================================
+// Seuils de segmentation
+// ============================================
+
+/**
+ * Vitesse (km/h) au-delà de laquelle le véhicule est considéré en mouvement
+ */
+const MOVING_SPEED_KMH = 3;
+
+/**
+ * Déplacement minimum (m) entre deux points pour compter comme un mouvement
+ * (même seuil que la détection de mouvement hors horaires)
+ */
+const MIN_MOVE_DISTANCE_M = 10;
+
+/**
+ * Durée d'immobilisation à partir de laquelle un arrêt coupe le trajet
+ * En dessous, l'immobilisation est comptée comme du ralenti (idle) dans le trajet
+ */
+const MIN_STOP_DURATION_MS = 5 * 60 * 1000;
+
+/**
+ * Distance minimum (m) pour qu'un trajet soit retenu (filtre la dérive GPS)
+ */
+const MIN_TRIP_DISTANCE_M = 50;
+
+// ============================================
+// Types
+// ============================================
+
+export interface Trip {
+  startTime: Date;
+  endTime: Date;
+  startLocation: GeoJSONPoint;
+  endLocation: GeoJSONPoint;
+  distance: number; // mètres
+  duration: number; // secondes
+  movingDuration: number; // secondes
+  idleDuration: number; // secondes
+  maxSpeed: number; // km/h
+  averageSpeed: number; // km/h (sur le temps en mouvement)
+  pointCount: number;
+}
+
+export interface Stop {
+  startTime: Date;
+  endTime: Date;
+  location: GeoJSONPoint;
+  duration: number; // secondes
+}
+
+export interface TripSegmentation {
+  trips: Trip[];
+  stops: Stop[];
+}
+
+type SegmentState = 'moving' | 'stationary';
+
+interface Segment {
+  state: SegmentState;
+  points: IPositionDocument[];
+}
+
+/**
+ * Service de segmentation des trajets
+ *
+ * Découpe l'historique des positions d'un véhicule en trajets et arrêts :
+ * - moving : vitesse > seuil ou déplacement > 10 m entre deux points
+ * - idle   : immobilisation courte (< 5 min), rattachée au trajet en cours
+ * - stopped: immobilisation longue, qui termine le trajet
+ */
+export class TripService {
+  /**
+   * Calcule les trajets et arrêts d'un véhicule sur une période
+   */
+  async getTrips(vehicleId: string, from: Date, to: Date): Promise<TripSegmentation> {
+    const positions = await positionService.getPositions(vehicleId, from, to);
+    return this.segment(positions);
+  }
+
+  /**
+   * Segmente une liste de positions triées chronologiquement
+   */
+  segment(positions: IPositionDocument[]): TripSegmentation {
+    const trips: Trip[] = [];
+    const stops: Stop[] = [];
+
+    if (positions.length < 2) {
+      return { trips, stops };
+    }
+
+    // 1. Découper en segments homogènes (mouvement / immobile)
+    const segments: Segment[] = [];
+    for (let i = 1; i < positions.length; i++) {
+      const prev = positions[i - 1];
+      const cur = positions[i];
+      const state: SegmentState = this.isMoving(prev, cur) ? 'moving' : 'stationary';
+      const last = segments[segments.length - 1];
+
+      if (last && last.state === state) {
+        last.points.push(cur);
+      } else {
+        // Le point de bascule appartient aux deux segments
+        segments.push({ state, points: [prev, cur] });
+      }
+    }
+
+    // 2. Regrouper les segments en trajets, coupés par les arrêts longs
+    let current: Segment[] = [];
+    const flush = (): void => {
+      const trip = this.buildTrip(current);
+      if (trip && trip.distance >= MIN_TRIP_DISTANCE_M) {
+        trips.push(trip);
+      }
+      current = [];
+    };
+
+    for (const segment of segments) {
+      if (segment.state === 'stationary' && this.durationMs(segment.points) >= MIN_STOP_DURATION_MS) {
+        flush();
+        stops.push(this.buildStop(segment.points));
+      } else {
+        current.push(segment);
+      }
+    }
+    flush();
+
+    return { trips, stops };
+  }
+
+  /**
+   * Détermine si le véhicule s'est déplacé entre deux points
+   */
+  private isMoving(prev: IPositionDocument, cur: IPositionDocument): boolean {
+    if (cur.speed !== undefined && cur.speed > MOVING_SPEED_KMH) {
+      return true;
+    }
+
+    const distance = locationService.calculateDistance(
+      prev.location.coordinates,
+      cur.location.coordinates
+    );
+    return distance >= MIN_MOVE_DISTANCE_M;
+  }
+
+  /**
+   * Construit un trajet à partir de segments consécutifs
+   */
+  private buildTrip(segments: Segment[]): Trip | null {
+    if (!segments.some((s) => s.state === 'moving')) {
+      return null;
+    }
+
+    let distance = 0;
+    let movingMs = 0;
+    let idleMs = 0;
+    let maxSpeed = 0;
+
+    for (const segment of segments) {
+      const segmentMs = this.durationMs(segment.points);
+
+      if (segment.state === 'stationary') {
+        idleMs += segmentMs;
+        continue;
+      }
+
+      movingMs += segmentMs;
+
+      for (let i = 1; i < segment.points.length; i++) {
+        const prev = segment.points[i - 1];
+        const cur = segment.points[i];
+        const step = locationService.calculateDistance(
+          prev.location.coordinates,
+          cur.location.coordinates
+        );
+        distance += step;
+
+        // Vitesse remontée par le tracker, sinon vitesse déduite du déplacement
+        const stepSeconds = (cur.timestamp.getTime() - prev.timestamp.getTime()) / 1000;
+        const speed = cur.speed ?? (stepSeconds > 0 ? (step / stepSeconds) * 3.6 : 0);
+        maxSpeed = Math.max(maxSpeed, speed);
+      }
+    }
+
+    const first = segments[0].points[0];
+    const lastSegment = segments[segments.length - 1];
+    const last = lastSegment.points[lastSegment.points.length - 1];
+    const movingSeconds = movingMs / 1000;
+
+    return {
+      startTime: first.timestamp,
+      endTime: last.timestamp,
+      startLocation: first.location,
+      endLocation: last.location,
+      distance: Math.round(distance),
+      duration: Math.round((last.timestamp.getTime() - first.timestamp.getTime()) / 1000),
+      movingDuration: Math.round(movingSeconds),
+      idleDuration: Math.round(idleMs / 1000),
+      maxSpeed: Math.round(maxSpeed * 10) / 10,
+      averageSpeed: movingSeconds > 0 ? Math.round((distance / movingSeconds) * 36) / 10 : 0,
+      // Les points de bascule sont partagés entre segments
+      pointCount: segments.reduce((sum, s) => sum + s.points.length, 0) - (segments.length - 1),
+    };
+  }
+
+  /**
+   * Construit un arrêt à partir d'un segment immobile
+   */
+  private buildStop(points: IPositionDocument[]): Stop {
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return {
+      startTime: first.timestamp,
+      endTime: last.timestamp,
+      location: first.location,
+      duration: Math.round(this.durationMs(points) / 1000),
+    };
+  }
+
+  private durationMs(points: IPositionDocument[]): number {
+    return points[points.length - 1].timestamp.getTime() - points[0].timestamp.getTime();
+  }
+}
+
+// Export d'une instance singleton
+export const tripService = new TripService();
+export default tripService;
@@ -1,7 +1,8 @@
 import mongoose from 'mongoose';
-import { Vehicle, IVehicleDocument, Contract, Geofence } from '../models/index.js';
+import { Vehicle, IVehicleDocument, Contract, validAtFilter } from '../models/index.js';
 import { IVehicle, VehicleStatus, GeoJSONPoint, ContractStatus } from '../types/index.js';
 import { getOrganizationObjectId } from '../config/index.js';
+import { geofenceAssignmentService, AssignGeofenceOptions } from './GeofenceAssignmentService.js';
 
 /**
  * Service de gestion des véhicules/engins
@@ -65,7 +66,11 @@ export class VehicleService {
         .sort({ lastLocationUpdate: -1 })
         .skip(skip)
         .limit(limit)
-        .populate('assignedGeofences', 'name color')
+        .populate({
+          path: 'assignments',
+          match: validAtFilter(new Date()),
+          populate: { path: 'geofenceId', select: 'name color' },
+        })
         .exec(),
       Vehicle.countDocuments(filter),
     ]);
@@ -83,10 +88,21 @@ export class VehicleService {
    */
   async getVehicleById(vehicleId: string): Promise<IVehicleDocument | null> {
     return Vehicle.findById(vehicleId)
-      .populate('assignedGeofences', 'name color area isActive')
+      .populate({
+        path: 'assignments',
+        match: validAtFilter(new Date()),
+        populate: { path: 'geofenceId', select: 'name color area isActive' },
+      })
       .exec();
   }
 
+  /**
+   * Récupère un véhicule par l'identifiant de son tracker GPS (IMEI)
+   */
+  async getVehicleByTrackerId(trackerId: string): Promise<IVehicleDocument | null> {
+    return Vehicle.findOne({ trackerId }).exec();
+  }
+
   /**
    * Récupère un véhicule avec son contrat actif et le client associé
    */
@@ -166,51 +182,27 @@ export class VehicleService {
   }
 
   /**
-   * Assigne une geofence à un véhicule
+   * Assigne une geofence à un véhicule (affectation datée, voir GeofenceAssignmentService)
+   * @returns Le véhicule avec ses affectations en cours
    */
   async assignGeofence(
     vehicleId: string,
-    geofenceId: string
+    geofenceId: string,
+    options: AssignGeofenceOptions = {}
   ): Promise<IVehicleDocument | null> {
-    // Vérifier que la geofence existe
-    const geofence = await Geofence.findById(geofenceId);
-    if (!geofence) {
-      throw new Error(`Geofence non trouvée: ${geofenceId}`);
-    }
-
-    // Ajouter la geofence au véhicule (sans doublons)
-    const vehicle = await Vehicle.findByIdAndUpdate(
-      vehicleId,
-      { $addToSet: { assignedGeofences: new mongoose.Types.ObjectId(geofenceId) } },
-      { new: true }
-    ).exec();
-
-    // Ajouter le véhicule à la geofence
-    await Geofence.findByIdAndUpdate(geofenceId, {
-      $addToSet: { assignedVehicles: new mongoose.Types.ObjectId(vehicleId) },
-    });
-
-    return vehicle;
+    await geofenceAssignmentService.assign(vehicleId, geofenceId, options);
+    return this.getVehicleById(vehicleId);
   }
 
   /**
-   * Retire une geofence d'un véhicule
+   * Retire une geofence d'un véhicule (l'affectation est close, pas supprimée)
    */
   async removeGeofence(
     vehicleId: string,
     geofenceId: string
   ): Promise<IVehicleDocument | null> {
-    const vehicle = await Vehicle.findByIdAndUpdate(
-      vehicleId,
-      { $pull: { assignedGeofences: new mongoose.Types.ObjectId(geofenceId) } },
-      { new: true }
-    ).exec();
-
-    await Geofence.findByIdAndUpdate(geofenceId, {
-      $pull: { assignedVehicles: new mongoose.Types.ObjectId(vehicleId) },
-    });
-
-    return vehicle;
+    await geofenceAssignmentService.unassign(vehicleId, geofenceId);
+    return this.getVehicleById(vehicleId);
   }
 
   /**
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Alert, Vehicle } from '../../models/index.js';
+import { AlertSeverity, AlertType, GeoJSONPoint } from '../../types/index.js';
+import { alertService } from '../AlertService.js';
+
+// ============================================
+// Déduplication : une alerte active par type, par zone pour les zones interdites
+// ============================================
+
+const location: GeoJSONPoint = { type: 'Point', coordinates: [2.29, 48.94] };
+
+const vehicle = new Vehicle({
+  organizationId: new mongoose.Types.ObjectId(),
+  name: 'Mini-pelle 03',
+  registrationNumber: 'EF-456-GH',
+});
+
+describe('AlertService.createAlert', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ne fusionne pas les entrées dans deux zones interdites distinctes', async () => {
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+    const findOne = vi.spyOn(Alert, 'findOne').mockResolvedValue(null);
+    vi.spyOn(Alert, 'create').mockImplementation((async (data: object) => new Alert(data)) as never);
+    const zoneId = new mongoose.Types.ObjectId().toString();
+
+    const { alert } = await alertService.createAlert(
+      vehicle._id.toString(),
+      AlertType.FORBIDDEN_ZONE_ENTRY,
+      AlertSeverity.CRITICAL,
+      'Entrée en zone interdite',
+      location,
+      zoneId
+    );
+
+    expect(findOne.mock.calls[0][0]).toMatchObject({
+      type: AlertType.FORBIDDEN_ZONE_ENTRY,
+      geofenceId: new mongoose.Types.ObjectId(zoneId),
+    });
+    expect(alert.geofenceId).toBe(zoneId);
+  });
+
+  it('garde une seule alerte active par type pour les autres alertes', async () => {
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+    const findOne = vi.spyOn(Alert, 'findOne').mockResolvedValue(null);
+    vi.spyOn(Alert, 'create').mockImplementation((async (data: object) => new Alert(data)) as never);
+
+    await alertService.createAlert(
+      vehicle._id.toString(),
+      AlertType.GEOFENCE_EXIT,
+      AlertSeverity.CRITICAL,
+      'Sortie de zone',
+      location,
+      new mongoose.Types.ObjectId().toString()
+    );
+
+    expect(findOne.mock.calls[0][0]).not.toHaveProperty('geofenceId');
+  });
+});
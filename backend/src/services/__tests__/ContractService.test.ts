@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Contract, IContractDocument } from '../../models/Contract.js';
+import { Vehicle } from '../../models/Vehicle.js';
+import { Geofence } from '../../models/Geofence.js';
+import { ContractStatus, GeofenceAssignmentSource } from '../../types/index.js';
+import { contractService } from '../ContractService.js';
+import { organizationService, OrganizationSettings } from '../OrganizationService.js';
+import { geofenceAssignmentService } from '../GeofenceAssignmentService.js';
+
+// ============================================
+// Transitions de statut d'un contrat chargé par getContractById (vehicleId populé)
+// ============================================
+
+const organizationId = new mongoose.Types.ObjectId();
+const vehicleId = new mongoose.Types.ObjectId();
+
+function buildContract(status: ContractStatus, geofenceId?: mongoose.Types.ObjectId): IContractDocument {
+  const vehicle = new Vehicle({
+    _id: vehicleId,
+    name: 'Pelle 01',
+    registrationNumber: 'AB-123-CD',
+  });
+
+  const contract = new Contract({
+    contractNumber: 'CTR-2026-0001',
+    clientId: new mongoose.Types.ObjectId(),
+    vehicleId: vehicle,
+    organizationId,
+    startDate: new Date('2026-05-01'),
+    endDate: new Date('2026-06-01'),
+    dailyRate: 250,
+    deliveryLocation: { type: 'Point', coordinates: [2.35, 48.85] },
+    deliveryAddress: '1 rue du Chantier, Paris',
+    status,
+    geofenceId,
+  });
+  vi.spyOn(contract, 'save').mockResolvedValue(contract);
+  return contract;
+}
+
+/** Requête Mongoose simulée (`.exec()`) */
+const query = <T>(value: T) => ({ exec: async () => value }) as never;
+
+describe('ContractService.updateContract', () => {
+  beforeEach(() => {
+    vi.spyOn(organizationService, 'getSettings').mockResolvedValue({
+      siteGeofenceRadiusMeters: 300,
+    } as OrganizationSettings);
+    vi.spyOn(Contract, 'findOne').mockReturnValue(query(null));
+    vi.spyOn(Contract, 'countDocuments').mockResolvedValue(0 as never);
+    vi.spyOn(Vehicle, 'findByIdAndUpdate').mockReturnValue(query(null));
+    vi.spyOn(Geofence.prototype, 'save').mockImplementation(function (this: unknown) {
+      return Promise.resolve(this);
+    } as never);
+    vi.spyOn(geofenceAssignmentService, 'assign').mockResolvedValue({} as never);
+    vi.spyOn(geofenceAssignmentService, 'endForContract').mockResolvedValue(1);
+    vi.spyOn(geofenceAssignmentService, 'endForGeofence').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('génère et affecte la zone de chantier au passage à ACTIF', async () => {
+    const contract = buildContract(ContractStatus.BROUILLON);
+    expect(contract.populated('vehicleId')).toBeTruthy();
+    vi.spyOn(contractService, 'getContractById').mockResolvedValue(contract);
+
+    await contractService.updateContract(organizationId.toString(), contract._id.toString(), {
+      status: ContractStatus.ACTIF,
+    });
+
+    // Contrôle de chevauchement sur l'ID du véhicule, et non sur le document populé
+    expect(Contract.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ vehicleId: vehicleId, status: ContractStatus.ACTIF })
+    );
+    expect(contract.geofenceId).toBeDefined();
+    expect(geofenceAssignmentService.assign).toHaveBeenCalledWith(
+      vehicleId.toString(),
+      contract.geofenceId!.toString(),
+      {
+        source: GeofenceAssignmentSource.CONTRACT,
+        contractId: contract._id,
+        validFrom: contract.startDate,
+      }
+    );
+    expect(contract.status).toBe(ContractStatus.ACTIF);
+  });
+
+  it('ne génère pas de zone si le contrat ne peut pas être enregistré', async () => {
+    const contract = buildContract(ContractStatus.BROUILLON);
+    vi.mocked(contract.save).mockRejectedValue(new Error('Validation échouée'));
+    vi.spyOn(contractService, 'getContractById').mockResolvedValue(contract);
+
+    await expect(
+      contractService.updateContract(organizationId.toString(), contract._id.toString(), {
+        status: ContractStatus.ACTIF,
+      })
+    ).rejects.toThrow('Validation échouée');
+
+    expect(Geofence.prototype.save).not.toHaveBeenCalled();
+    expect(geofenceAssignmentService.assign).not.toHaveBeenCalled();
+  });
+
+  it('archive la zone générée et rétablit le contrat si l\'affectation échoue', async () => {
+    const contract = buildContract(ContractStatus.BROUILLON);
+    vi.spyOn(contractService, 'getContractById').mockResolvedValue(contract);
+    vi.mocked(geofenceAssignmentService.assign).mockRejectedValue(new Error('Affectation refusée'));
+    let generated: InstanceType<typeof Geofence> | undefined;
+    vi.mocked(Geofence.prototype.save).mockImplementation(function (this: InstanceType<typeof Geofence>) {
+      generated = this;
+      return Promise.resolve(this);
+    } as never);
+    vi.spyOn(Geofence, 'findOne').mockImplementation((() => query(generated)) as never);
+
+    await expect(
+      contractService.updateContract(organizationId.toString(), contract._id.toString(), {
+        status: ContractStatus.ACTIF,
+      })
+    ).rejects.toThrow('Affectation refusée');
+
+    expect(geofenceAssignmentService.endForContract).toHaveBeenCalledWith(contract._id, expect.any(Date));
+    expect(generated?.archivedAt).toBeInstanceOf(Date);
+    expect(contract.status).toBe(ContractStatus.BROUILLON);
+    expect(contract.geofenceId).toBeUndefined();
+  });
+
+  it.each([ContractStatus.TERMINE, ContractStatus.ANNULE])(
+    'libère le véhicule et archive la zone de chantier au passage à %s',
+    async (status) => {
+      const siteGeofence = new Geofence({ name: 'Chantier CTR-2026-0001', isActive: true });
+      const contract = buildContract(ContractStatus.ACTIF, siteGeofence._id);
+      siteGeofence.contractId = contract._id;
+      vi.spyOn(contractService, 'getContractById').mockResolvedValue(contract);
+      vi.spyOn(Geofence, 'findOne').mockReturnValue(query(siteGeofence));
+
+      await contractService.updateContract(organizationId.toString(), contract._id.toString(), {
+        status,
+      });
+
+      expect(Vehicle.findByIdAndUpdate).toHaveBeenCalledWith(
+        vehicleId.toString(),
+        expect.anything()
+      );
+      expect(geofenceAssignmentService.endForContract).toHaveBeenCalledWith(
+        contract._id,
+        expect.any(Date)
+      );
+      expect(geofenceAssignmentService.endForGeofence).toHaveBeenCalledWith(
+        siteGeofence._id,
+        expect.any(Date)
+      );
+      expect(siteGeofence.isActive).toBe(false);
+      expect(siteGeofence.archivedAt).toBeInstanceOf(Date);
+      expect(contract.status).toBe(status);
+    }
+  );
+});
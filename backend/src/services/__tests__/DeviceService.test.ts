@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Device, IDeviceDocument } from '../../models/Device.js';
+import { Vehicle } from '../../models/Vehicle.js';
+import { DeviceProtocol } from '../../types/index.js';
+import { deviceService } from '../DeviceService.js';
+
+// ============================================
+// Registre des trackers : secret haché, historique des affectations
+// ============================================
+
+const organizationId = new mongoose.Types.ObjectId();
+
+/** Requête Mongoose simulée (chaînage puis `.exec()`) */
+const chain = <T>(value: T) => {
+  const query = { select: () => query, exec: async () => value };
+  return query as never;
+};
+
+function buildDevice(vehicleId?: mongoose.Types.ObjectId): IDeviceDocument {
+  const device = new Device({
+    imei: '356307042441013',
+    protocol: DeviceProtocol.TELTONIKA,
+    organizationId,
+    vehicleId,
+    assignments: vehicleId ? [{ vehicleId, assignedAt: new Date('2026-01-05') }] : [],
+  });
+  vi.spyOn(device, 'save').mockResolvedValue(device);
+  return device;
+}
+
+function buildVehicle(): InstanceType<typeof Vehicle> {
+  const vehicle = new Vehicle({ organizationId, name: 'Compacteur 02', registrationNumber: 'WX-987-YZ' });
+  vi.spyOn(vehicle, 'save').mockResolvedValue(vehicle);
+  return vehicle;
+}
+
+/** Tracker créé par le service, avec son secret en clair */
+async function createWithToken(): Promise<{ device: IDeviceDocument; token: string }> {
+  vi.spyOn(Device, 'findOne').mockReturnValue(chain(null));
+  vi.spyOn(Device, 'create').mockImplementation((async (data: object) => new Device(data)) as never);
+
+  return deviceService.createDevice(organizationId.toString(), {
+    imei: '356307042441013',
+    protocol: DeviceProtocol.TELTONIKA,
+  });
+}
+
+describe('DeviceService (secret du tracker)', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ne stocke que le hash du secret renvoyé à la création', async () => {
+    const { device, token } = await createWithToken();
+
+    expect(device.tokenHash).not.toContain(token);
+    expect(device.verifyToken(token)).toBe(true);
+    expect(device.toJSON()).not.toHaveProperty('tokenHash');
+  });
+
+  it('authentifie un tracker affecté avec son secret uniquement', async () => {
+    const { device, token } = await createWithToken();
+    const updateOne = vi.spyOn(Device, 'updateOne').mockReturnValue(chain({ matchedCount: 1 }));
+
+    vi.mocked(Device.findOne).mockReturnValue(chain(device));
+    expect(await deviceService.authenticateTracker(device.imei, 'mauvais-secret')).toBeNull();
+
+    device.vehicleId = new mongoose.Types.ObjectId();
+    expect(await deviceService.authenticateTracker(device.imei, token)).toEqual({
+      device,
+      vehicleId: device.vehicleId.toString(),
+    });
+    expect(updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuse un tracker non affecté même avec le bon secret', async () => {
+    const { device, token } = await createWithToken();
+
+    vi.mocked(Device.findOne).mockReturnValue(chain(device));
+    expect(await deviceService.authenticateTracker(device.imei, token)).toBeNull();
+  });
+
+  it('invalide l\'ancien secret à la régénération', async () => {
+    const device = buildDevice();
+    vi.spyOn(deviceService, 'getDeviceById').mockResolvedValue(device);
+    const updateOne = vi.spyOn(Device, 'updateOne').mockReturnValue(chain({ matchedCount: 1 }));
+
+    const token = await deviceService.regenerateToken(organizationId.toString(), device._id.toString());
+
+    const [, update] = updateOne.mock.calls[0] as unknown as [unknown, { $set: { tokenHash: string } }];
+    device.tokenHash = update.$set.tokenHash;
+    expect(device.verifyToken(token)).toBe(true);
+    expect(device.verifyToken('ancien-secret')).toBe(false);
+  });
+});
+
+describe('DeviceService (affectations)', () => {
+  beforeEach(() => {
+    vi.spyOn(Vehicle, 'updateOne').mockReturnValue(chain({ matchedCount: 1 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('clôt l\'affectation précédente du tracker et ouvre la nouvelle', async () => {
+    const previousVehicle = buildVehicle();
+    const device = buildDevice(previousVehicle._id);
+    const vehicle = buildVehicle();
+    vi.spyOn(deviceService, 'getDeviceById').mockResolvedValue(device);
+    vi.spyOn(Vehicle, 'findOne').mockReturnValue(chain(vehicle));
+    vi.spyOn(Device, 'findOne').mockReturnValue(chain(null));
+
+    await deviceService.assignToVehicle(organizationId.toString(), device._id.toString(), vehicle._id.toString());
+
+    const [previous, current] = device.assignments;
+    expect(previous.vehicleId).toEqual(previousVehicle._id);
+    expect(previous.unassignedAt).toBeInstanceOf(Date);
+    expect(current.vehicleId).toEqual(vehicle._id);
+    expect(current.unassignedAt).toBeUndefined();
+    expect(device.vehicleId).toEqual(vehicle._id);
+    expect(vehicle.trackerId).toBe(device.imei);
+    // L'ancien véhicule n'est plus équipé de ce tracker
+    expect(Vehicle.updateOne).toHaveBeenCalledWith(
+      { _id: previousVehicle._id, trackerId: device.imei },
+      { $unset: { trackerId: 1 } }
+    );
+  });
+
+  it('désaffecte le tracker déjà présent sur le véhicule', async () => {
+    const vehicle = buildVehicle();
+    const installed = buildDevice(vehicle._id);
+    installed.imei = '356307042441099';
+    const device = buildDevice();
+    vi.spyOn(deviceService, 'getDeviceById').mockResolvedValue(device);
+    vi.spyOn(Vehicle, 'findOne').mockReturnValue(chain(vehicle));
+    vi.spyOn(Device, 'findOne').mockReturnValue(chain(installed));
+
+    await deviceService.assignToVehicle(organizationId.toString(), device._id.toString(), vehicle._id.toString());
+
+    expect(installed.vehicleId).toBeUndefined();
+    expect(installed.assignments[0].unassignedAt).toBeInstanceOf(Date);
+    expect(device.vehicleId).toEqual(vehicle._id);
+    expect(vehicle.trackerId).toBe(device.imei);
+  });
+
+  it('renvoie l\'historique de la plus récente à la plus ancienne affectation', async () => {
+    const device = buildDevice();
+    const assignment = (assignedAt: string, unassignedAt?: string) => ({
+      vehicleId: new mongoose.Types.ObjectId(),
+      assignedAt: new Date(assignedAt),
+      unassignedAt: unassignedAt ? new Date(unassignedAt) : undefined,
+    });
+    device.assignments.push(
+      assignment('2026-01-05', '2026-02-01'),
+      assignment('2026-03-01'),
+      assignment('2026-02-01', '2026-03-01')
+    );
+    vi.spyOn(deviceService, 'getDeviceById').mockResolvedValue(device);
+    vi.spyOn(device, 'populate').mockResolvedValue(device as never);
+
+    const history = await deviceService.getAssignmentHistory(organizationId.toString(), device._id.toString());
+
+    expect(history.map((a) => a.assignedAt)).toEqual([
+      new Date('2026-03-01'),
+      new Date('2026-02-01'),
+      new Date('2026-01-05'),
+    ]);
+  });
+});
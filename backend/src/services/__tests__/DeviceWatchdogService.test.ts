@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Alert, Device, Vehicle } from '../../models/index.js';
+import { AlertSeverity, AlertType, VehicleStatus } from '../../types/index.js';
+import { alertService } from '../AlertService.js';
+import { deviceService } from '../DeviceService.js';
+import { deviceWatchdogService } from '../DeviceWatchdogService.js';
+import { organizationService, OrganizationSettings } from '../OrganizationService.js';
+import { theftRiskService } from '../TheftRiskService.js';
+
+// ============================================
+// Tracker hors ligne : message daté dans le fuseau de l'organisation,
+// résolution dès que le tracker émet de nouveau
+// ============================================
+
+/** Requête Mongoose simulée (chaînage puis `.exec()`) */
+const chain = <T>(value: T) => {
+  const query = { select: () => query, exec: async () => value };
+  return query as never;
+};
+
+const vehicleId = new mongoose.Types.ObjectId();
+// 01:30 à Paris, 19:30 la veille à New York
+const lastSeenAt = new Date('2026-05-12T23:30:00Z');
+
+describe('DeviceWatchdogService.checkOfflineDevices', () => {
+  const vehicle = new Vehicle({
+    _id: vehicleId,
+    name: 'Pelle 01',
+    registrationNumber: 'AB-123-CD',
+    organizationId: new mongoose.Types.ObjectId(),
+    status: VehicleStatus.EN_LOCATION,
+    location: { type: 'Point', coordinates: [2.35, 48.85] },
+    lastLocationUpdate: lastSeenAt,
+  });
+
+  beforeEach(() => {
+    vi.spyOn(Device, 'find').mockReturnValue(
+      chain([
+        {
+          imei: '356307042441013',
+          vehicleId,
+          lastSeenAt,
+          reportingIntervalSeconds: 300,
+        },
+      ])
+    );
+    vi.spyOn(Vehicle, 'find').mockReturnValue(chain([vehicle]));
+    vi.spyOn(Alert, 'find').mockReturnValue(chain([]));
+    vi.spyOn(alertService, 'createAlert').mockResolvedValue({} as never);
+    vi.spyOn(theftRiskService, 'evaluate').mockResolvedValue({ score: 30, factors: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['Europe/Paris', '13/05/2026 01:30'],
+    ['America/New_York', '12/05/2026 19:30'],
+  ])('date la dernière émission dans le fuseau de l\'organisation (%s)', async (timezone, since) => {
+    vi.spyOn(organizationService, 'getSettings').mockResolvedValue({
+      timezone,
+    } as OrganizationSettings);
+
+    await deviceWatchdogService.checkOfflineDevices(new Date('2026-05-13T01:00:00Z'));
+
+    expect(alertService.createAlert).toHaveBeenCalledWith(
+      vehicleId.toString(),
+      AlertType.DEVICE_OFFLINE,
+      AlertSeverity.CRITICAL,
+      expect.stringContaining(`(dernière émission : ${since})`),
+      vehicle.location,
+      undefined,
+      new Date('2026-05-13T01:00:00Z')
+    );
+  });
+});
+
+describe('DeviceService.touch', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('résout l\'alerte hors ligne dès que le tracker émet de nouveau', async () => {
+    const resolved = [{ alert: { type: AlertType.DEVICE_OFFLINE } }] as never;
+    vi.spyOn(Device, 'findOneAndUpdate').mockReturnValue(chain({ vehicleId }));
+    vi.spyOn(alertService, 'autoResolveAlerts').mockResolvedValue(resolved);
+
+    await expect(deviceService.touch('356307042441013')).resolves.toBe(resolved);
+    expect(alertService.autoResolveAlerts).toHaveBeenCalledWith(
+      vehicleId.toString(),
+      AlertType.DEVICE_OFFLINE,
+      expect.any(String)
+    );
+  });
+
+  it('ne résout rien pour un tracker non affecté', async () => {
+    vi.spyOn(Device, 'findOneAndUpdate').mockReturnValue(chain({}));
+    vi.spyOn(alertService, 'autoResolveAlerts');
+
+    await expect(deviceService.touch('356307042441013')).resolves.toEqual([]);
+    expect(alertService.autoResolveAlerts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { GeofenceAssignment } from '../../models/index.js';
+import { geofenceAssignmentService } from '../GeofenceAssignmentService.js';
+
+// ============================================
+// Fin d'affectation : clôture des affectations en cours, annulation des autres
+// ============================================
+
+/** Requête Mongoose simulée (`.exec()`) */
+const query = <T>(value: T) => ({ exec: async () => value }) as never;
+
+const vehicleId = new mongoose.Types.ObjectId();
+const geofenceId = new mongoose.Types.ObjectId();
+const at = new Date('2026-06-01T08:00:00Z');
+
+describe('GeofenceAssignmentService.unassign', () => {
+  beforeEach(() => {
+    vi.spyOn(GeofenceAssignment, 'updateMany').mockReturnValue(query({ modifiedCount: 1 }));
+    vi.spyOn(GeofenceAssignment, 'deleteMany').mockReturnValue(query({ deletedCount: 1 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ne clôt que les affectations commencées avant la fin', async () => {
+    const count = await geofenceAssignmentService.unassign(
+      vehicleId.toString(),
+      geofenceId.toString(),
+      at
+    );
+
+    expect(count).toBe(2);
+    expect(GeofenceAssignment.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ vehicleId, geofenceId, validFrom: { $lt: at } }),
+      { validTo: at }
+    );
+  });
+
+  it('annule une affectation qui commence à l\'instant de fin au lieu de la rendre vide', async () => {
+    await geofenceAssignmentService.unassign(vehicleId.toString(), geofenceId.toString(), at);
+
+    expect(GeofenceAssignment.deleteMany).toHaveBeenCalledWith({
+      vehicleId,
+      geofenceId,
+      validFrom: { $gte: at },
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Vehicle } from '../../models/index.js';
+import { AlertSeverity, AlertType, GeoJSONPoint } from '../../types/index.js';
+import { deviceService } from '../DeviceService.js';
+import { positionService } from '../PositionService.js';
+import { locationService, DetectedAlert } from '../LocationService.js';
+import { alertService } from '../AlertService.js';
+import { theftRiskService } from '../TheftRiskService.js';
+import { ingestionService, IngestFix } from '../IngestionService.js';
+
+// ============================================
+// Lots bufferisés : ordre chronologique, doublons, alertes, position courante
+// ============================================
+
+const t0 = new Date('2026-07-15T07:00:00Z');
+const after = (minutes: number): Date => new Date(t0.getTime() + minutes * 60_000);
+const point = (longitude: number): GeoJSONPoint => ({ type: 'Point', coordinates: [longitude, 48.85] });
+
+// Un point par minute, ~70 m plus à l'est à chaque fois
+const fix = (minute: number, extra: Partial<IngestFix> = {}): IngestFix => ({
+  location: point(2.35 + minute * 0.001),
+  timestamp: after(minute),
+  ...extra,
+});
+
+const vehicle = new Vehicle({
+  organizationId: new mongoose.Types.ObjectId(),
+  name: 'Tractopelle 05',
+  registrationNumber: 'ST-654-UV',
+  location: point(2.35),
+  lastLocationUpdate: after(-1),
+});
+
+/** Requête Mongoose simulée (`.exec()`) */
+const query = <T>(value: T) => ({ exec: async () => value }) as never;
+
+const speeding = (peakSpeed: number): DetectedAlert => ({
+  type: AlertType.SPEED_EXCEEDED,
+  severity: AlertSeverity.WARNING,
+  message: `Excès de vitesse : ${peakSpeed} km/h`,
+  peakSpeed,
+  speedLimit: 40,
+});
+
+describe('IngestionService.ingestDeviceBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(deviceService, 'authenticateTracker').mockResolvedValue({
+      vehicleId: vehicle._id.toString(),
+    } as never);
+    vi.spyOn(deviceService, 'resolveOfflineAlerts').mockResolvedValue([]);
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+    vi.spyOn(Vehicle, 'updateOne').mockReturnValue(query({ modifiedCount: 1 }));
+    vi.spyOn(positionService, 'getRecordedTimestamps').mockResolvedValue(new Set());
+    vi.spyOn(positionService, 'getLastPositionBefore').mockResolvedValue(null);
+    vi.spyOn(positionService, 'recordPositions').mockImplementation(async (_vehicle, fixes) => fixes.length);
+    vi.spyOn(locationService, 'evaluateFix').mockResolvedValue([]);
+    vi.spyOn(alertService, 'createAlert').mockImplementation(
+      async (_vehicleId, type, _severity, message, _location, geofenceId) =>
+        ({ alert: { type, message, geofenceId } }) as never
+    );
+    vi.spyOn(theftRiskService, 'evaluate').mockResolvedValue({ score: 0, factors: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const ingest = (fixes: IngestFix[]) =>
+    ingestionService.ingestDeviceBatch({ imei: '356307042441013', token: 'secret', fixes });
+
+  it('traite les points dans l\'ordre chronologique quel que soit l\'ordre reçu', async () => {
+    const { result, locationUpdate } = await ingest([fix(2), fix(0), fix(1)]);
+
+    const recorded = vi.mocked(positionService.recordPositions).mock.calls[0][1];
+    expect(recorded.map((f) => f.timestamp)).toEqual([after(0), after(1), after(2)]);
+    expect(vi.mocked(locationService.evaluateFix).mock.calls.map((call) => call[3])).toEqual([
+      after(0),
+      after(1),
+      after(2),
+    ]);
+    expect(result).toMatchObject({ received: 3, stored: 3, duplicates: 0, vehicleUpdated: true });
+    expect(locationUpdate).toMatchObject({ location: fix(2).location, timestamp: after(2) });
+  });
+
+  it('ignore les horodatages déjà enregistrés, y compris en double dans le lot', async () => {
+    vi.mocked(positionService.getRecordedTimestamps).mockResolvedValue(new Set([after(0).getTime()]));
+
+    const { result } = await ingest([fix(0), fix(1), fix(1)]);
+
+    const recorded = vi.mocked(positionService.recordPositions).mock.calls[0][1];
+    expect(recorded.map((f) => f.timestamp)).toEqual([after(1)]);
+    expect(result).toMatchObject({ received: 3, stored: 1, duplicates: 2 });
+  });
+
+  it('ne crée qu\'une alerte par type pour le lot, avec la vitesse de pointe du lot', async () => {
+    vi.mocked(locationService.evaluateFix)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([speeding(55)])
+      .mockResolvedValueOnce([{ ...speeding(62), ongoing: true }]);
+
+    const { result, alerts } = await ingest([fix(0), fix(1), fix(2)]);
+
+    expect(alertService.createAlert).toHaveBeenCalledTimes(1);
+    expect(alertService.createAlert).toHaveBeenCalledWith(
+      vehicle._id.toString(),
+      AlertType.SPEED_EXCEEDED,
+      AlertSeverity.WARNING,
+      'Excès de vitesse : 62 km/h',
+      fix(1).location,
+      undefined,
+      after(1),
+      { geofenceRevision: undefined, peakSpeed: 62, speedLimit: 40 }
+    );
+    expect(alerts).toHaveLength(1);
+    expect(result.alertsTriggered).toBe(1);
+  });
+
+  it('crée une alerte par zone interdite entrée dans le lot', async () => {
+    const zoneA = new mongoose.Types.ObjectId().toString();
+    const zoneB = new mongoose.Types.ObjectId().toString();
+    const entry = (geofenceId: string): DetectedAlert => ({
+      type: AlertType.FORBIDDEN_ZONE_ENTRY,
+      severity: AlertSeverity.CRITICAL,
+      message: `Entrée en zone ${geofenceId}`,
+      geofenceId,
+    });
+    vi.mocked(locationService.evaluateFix)
+      .mockResolvedValueOnce([entry(zoneA)])
+      .mockResolvedValueOnce([entry(zoneB)]);
+
+    const { alerts } = await ingest([fix(0), fix(1)]);
+
+    expect(alerts.map((a) => a.alert.geofenceId)).toEqual([zoneA, zoneB]);
+  });
+
+  it('ne met à jour la position courante qu\'avec un point plus récent', async () => {
+    vi.mocked(Vehicle.updateOne).mockReturnValue(query({ modifiedCount: 0 }));
+
+    const { result, locationUpdate } = await ingest([fix(0), fix(1)]);
+
+    expect(Vehicle.updateOne).toHaveBeenCalledWith(
+      {
+        _id: vehicle._id,
+        $or: [
+          { lastLocationUpdate: { $exists: false } },
+          { lastLocationUpdate: { $lt: after(1) } },
+        ],
+      },
+      { $set: { location: fix(1).location, lastLocationUpdate: after(1) } }
+    );
+    expect(result.vehicleUpdated).toBe(false);
+    expect(locationUpdate).toBeUndefined();
+  });
+});
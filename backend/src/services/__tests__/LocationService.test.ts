@@ -0,0 +1,333 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Geofence, Vehicle } from '../../models/index.js';
+import { AlertType, GeoJSONPoint, VehicleType } from '../../types/index.js';
+import { locationService } from '../LocationService.js';
+import { alertService } from '../AlertService.js';
+import { organizationService } from '../OrganizationService.js';
+
+// ============================================
+// Entrée en zone interdite : une alerte par entrée, pas une par point
+// ============================================
+
+const port = { _id: new mongoose.Types.ObjectId(), name: 'Port de Gennevilliers', revision: 3 };
+const inside: GeoJSONPoint = { type: 'Point', coordinates: [2.29, 48.94] };
+const outside: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.85] };
+
+const vehicle = new Vehicle({
+  organizationId: new mongoose.Types.ObjectId(),
+  name: 'Mini-pelle 03',
+  registrationNumber: 'EF-456-GH',
+});
+
+/** Zones interdites contenant le point simulé */
+type GeoFilter = { area: { $geoIntersects: { $geometry: GeoJSONPoint } } };
+
+function stubForbiddenZones(): void {
+  vi.spyOn(Geofence, 'find').mockImplementation(((filter: GeoFilter) => ({
+    select: async () => (filter.area.$geoIntersects.$geometry === inside ? [port] : []),
+  })) as never);
+}
+
+describe('LocationService.checkForbiddenZones', () => {
+  beforeEach(() => {
+    stubForbiddenZones();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('alerte à l\'entrée, puis plus tant que l\'engin reste dans la zone', async () => {
+    vi.spyOn(alertService, 'getOpenAlertGeofenceIds').mockResolvedValue([]);
+    const { forbiddenZones } = locationService.createEvaluationState();
+
+    const entry = await locationService.checkForbiddenZones(vehicle, inside, forbiddenZones);
+    expect(entry).toHaveLength(1);
+    expect(entry[0]).toMatchObject({
+      type: AlertType.FORBIDDEN_ZONE_ENTRY,
+      geofenceId: port._id.toString(),
+      geofenceRevision: 3,
+    });
+
+    expect(await locationService.checkForbiddenZones(vehicle, inside, forbiddenZones)).toEqual([]);
+    expect(await locationService.checkForbiddenZones(vehicle, outside, forbiddenZones)).toEqual([]);
+
+    // Nouvelle entrée après une sortie
+    expect(await locationService.checkForbiddenZones(vehicle, inside, forbiddenZones)).toHaveLength(1);
+  });
+
+  it('lève une alerte par zone interdite entrée', async () => {
+    const quarry = { _id: new mongoose.Types.ObjectId(), name: 'Carrière', revision: 1 };
+    vi.spyOn(Geofence, 'find').mockReturnValue({ select: async () => [port, quarry] } as never);
+    vi.spyOn(alertService, 'getOpenAlertGeofenceIds').mockResolvedValue([]);
+    const { forbiddenZones } = locationService.createEvaluationState();
+
+    const alerts = await locationService.checkForbiddenZones(vehicle, inside, forbiddenZones);
+
+    expect(alerts.map((a) => a.geofenceId)).toEqual([port._id.toString(), quarry._id.toString()]);
+    expect(alerts[1].message).toContain('Carrière');
+  });
+
+  it('ne réalerte pas après un redémarrage si une alerte de la zone est encore ouverte', async () => {
+    vi.spyOn(alertService, 'getOpenAlertGeofenceIds').mockResolvedValue([port._id.toString()]);
+    const { forbiddenZones } = locationService.createEvaluationState();
+
+    expect(await locationService.checkForbiddenZones(vehicle, inside, forbiddenZones)).toEqual([]);
+    expect(alertService.getOpenAlertGeofenceIds).toHaveBeenCalledWith(
+      vehicle._id.toString(),
+      AlertType.FORBIDDEN_ZONE_ENTRY
+    );
+  });
+});
+
+// ============================================
+// Remorquage : une alerte par ancre contact coupé
+// ============================================
+
+describe('LocationService.checkTowing', () => {
+  // ~170 m puis ~330 m au nord de l'ancre
+  const parked: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.85] };
+  const loaded: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.8515] };
+  const onTheRoad: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.853] };
+
+  beforeEach(() => {
+    vi.spyOn(organizationService, 'getSettings').mockResolvedValue({
+      towingDistanceMeters: 100,
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('alerte une seule fois par ancre, puis de nouveau après une remise du contact', async () => {
+    const { towingAnchors } = locationService.createEvaluationState();
+
+    expect(await locationService.checkTowing(vehicle, parked, false, towingAnchors)).toEqual([]);
+
+    const towed = await locationService.checkTowing(vehicle, loaded, false, towingAnchors);
+    expect(towed).toHaveLength(1);
+    expect(towed[0].type).toBe(AlertType.TOWING_DETECTED);
+
+    // Suite du transport depuis la même ancre
+    expect(await locationService.checkTowing(vehicle, onTheRoad, false, towingAnchors)).toEqual([]);
+
+    // Contact remis puis coupé : nouvelle ancre
+    expect(await locationService.checkTowing(vehicle, onTheRoad, true, towingAnchors)).toEqual([]);
+    expect(await locationService.checkTowing(vehicle, onTheRoad, false, towingAnchors)).toEqual([]);
+    expect(await locationService.checkTowing(vehicle, parked, false, towingAnchors)).toHaveLength(1);
+  });
+
+  it('n\'alerte pas sous la distance de remorquage', async () => {
+    const { towingAnchors } = locationService.createEvaluationState();
+    const nudged: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.8505] };
+
+    await locationService.checkTowing(vehicle, parked, false, towingAnchors);
+    expect(await locationService.checkTowing(vehicle, nudged, false, towingAnchors)).toEqual([]);
+  });
+});
+
+// ============================================
+// Excès de vitesse : délai de dépassement, une alerte par dépassement
+// ============================================
+
+describe('LocationService.checkSpeedViolation', () => {
+  const truck = new Vehicle({
+    organizationId: new mongoose.Types.ObjectId(),
+    name: 'Chargeuse 02',
+    registrationNumber: 'JK-789-LM',
+    type: VehicleType.CHARGEUSE,
+  });
+  const road: GeoJSONPoint = { type: 'Point', coordinates: [2.35, 48.85] };
+  const start = new Date('2026-03-02T08:00:00Z');
+  const after = (seconds: number): Date => new Date(start.getTime() + seconds * 1000);
+
+  /** Zone limitée contenant le point (aucune si undefined) */
+  function stubSpeedZone(zone?: { name: string; speedLimitKmh: number }): void {
+    const found = zone ? [{ _id: new mongoose.Types.ObjectId(), revision: 1, ...zone }] : [];
+    vi.spyOn(Geofence, 'find').mockReturnValue({
+      sort: () => ({ limit: () => ({ select: async () => found }) }),
+    } as never);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(organizationService, 'getSettings').mockResolvedValue({
+      speedLimits: { [VehicleType.CHARGEUSE]: 40 },
+      speedViolationDelaySeconds: 30,
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('n\'alerte qu\'après le délai de dépassement, puis ne fait que relever la pointe', async () => {
+    stubSpeedZone();
+    const { speedViolations } = locationService.createEvaluationState();
+    const check = (speed: number, seconds: number) =>
+      locationService.checkSpeedViolation(truck, road, speed, after(seconds), speedViolations);
+
+    expect(await check(50, 0)).toEqual([]);
+    expect(await check(55, 20)).toEqual([]);
+
+    const [alert] = await check(52, 30);
+    expect(alert).toMatchObject({
+      type: AlertType.SPEED_EXCEEDED,
+      peakSpeed: 55,
+      speedLimit: 40,
+      ongoing: false,
+    });
+
+    // Même dépassement : pointe inchangée puis relevée
+    expect(await check(54, 40)).toEqual([]);
+    expect(await check(60, 50)).toEqual([expect.objectContaining({ peakSpeed: 60, ongoing: true })]);
+
+    // Retour sous la limite : un nouveau dépassement repart du délai
+    expect(await check(35, 60)).toEqual([]);
+    expect(await check(50, 70)).toEqual([]);
+    expect(await check(50, 100)).toEqual([expect.objectContaining({ ongoing: false })]);
+  });
+
+  it('un dépassement plus court que le délai ne déclenche rien', async () => {
+    stubSpeedZone();
+    const { speedViolations } = locationService.createEvaluationState();
+
+    expect(await locationService.checkSpeedViolation(truck, road, 70, after(0), speedViolations)).toEqual([]);
+    expect(await locationService.checkSpeedViolation(truck, road, 30, after(20), speedViolations)).toEqual([]);
+    expect(await locationService.checkSpeedViolation(truck, road, 70, after(40), speedViolations)).toEqual([]);
+  });
+
+  it('applique la limite de la zone si elle est plus basse que celle du type d\'engin', async () => {
+    stubSpeedZone({ name: 'Chantier Nord', speedLimitKmh: 20 });
+    const { speedViolations } = locationService.createEvaluationState();
+
+    await locationService.checkSpeedViolation(truck, road, 30, after(0), speedViolations);
+    const [alert] = await locationService.checkSpeedViolation(truck, road, 30, after(30), speedViolations);
+
+    expect(alert).toMatchObject({ speedLimit: 20, geofenceRevision: 1 });
+    expect(alert.message).toContain('Chantier Nord');
+  });
+
+  it('garde la limite du type d\'engin si la zone est plus permissive', async () => {
+    stubSpeedZone({ name: 'Piste', speedLimitKmh: 60 });
+    const { speedViolations } = locationService.createEvaluationState();
+
+    await locationService.checkSpeedViolation(truck, road, 50, after(0), speedViolations);
+    const [alert] = await locationService.checkSpeedViolation(truck, road, 50, after(30), speedViolations);
+
+    expect(alert).toMatchObject({ speedLimit: 40, geofenceId: undefined });
+  });
+});
+
+// ============================================
+// Alimentation : seuils batterie / tension et résolution automatique
+// ============================================
+
+describe('LocationService.checkPowerSupply', () => {
+  const at = new Date('2026-09-01T03:00:00Z');
+  const resolved = [{ alert: { type: AlertType.BATTERY_LOW } }] as never[];
+
+  /** Requête Mongoose simulée (`.exec()`) */
+  const query = <T>(value: T) => ({ exec: async () => value }) as never;
+
+  function stubSettings(externalVoltageLowThreshold?: number): void {
+    vi.spyOn(organizationService, 'getSettings').mockResolvedValue({
+      batteryLowThreshold: 20,
+      externalVoltageLowThreshold,
+    } as never);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(Vehicle, 'updateOne').mockReturnValue(query({ matchedCount: 1 }));
+    vi.spyOn(alertService, 'autoResolveAlerts').mockResolvedValue(resolved);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('enregistre le relevé et alerte sous le seuil de batterie', async () => {
+    stubSettings();
+
+    const check = await locationService.checkPowerSupply(vehicle, { batteryLevel: 12 }, at);
+
+    expect(Vehicle.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: vehicle._id }),
+      { $set: { batteryLevel: 12, lastTelemetryAt: at } }
+    );
+    expect(check.alerts).toEqual([
+      expect.objectContaining({
+        type: AlertType.BATTERY_LOW,
+        message: expect.stringContaining('12 % (seuil 20 %)'),
+      }),
+    ]);
+    expect(alertService.autoResolveAlerts).not.toHaveBeenCalled();
+  });
+
+  it('ignore un relevé plus ancien que le dernier enregistré', async () => {
+    stubSettings();
+    vi.mocked(Vehicle.updateOne).mockReturnValue(query({ matchedCount: 0 }));
+
+    expect(await locationService.checkPowerSupply(vehicle, { batteryLevel: 5 }, at)).toEqual({
+      alerts: [],
+      resolvedAlerts: [],
+    });
+  });
+
+  it('ne contrôle pas la tension externe sans seuil défini', async () => {
+    stubSettings();
+
+    expect(await locationService.checkPowerSupply(vehicle, { externalVoltage: 9 }, at)).toEqual({
+      alerts: [],
+      resolvedAlerts: [],
+    });
+    expect(alertService.autoResolveAlerts).not.toHaveBeenCalled();
+  });
+
+  it('alerte sous le seuil de tension externe', async () => {
+    stubSettings(11.5);
+
+    const [alert] = (await locationService.checkPowerSupply(vehicle, { externalVoltage: 9 }, at)).alerts;
+
+    expect(alert.message).toContain('alimentation à 9.0 V (seuil 11.5 V)');
+  });
+
+  it('résout les alertes ouvertes une fois la marge au-dessus du seuil franchie', async () => {
+    stubSettings(11.5);
+
+    // Au-dessus du seuil mais dans la marge : ni alerte ni résolution
+    const withinMargin = { batteryLevel: 22, externalVoltage: 12.5 };
+    expect(await locationService.checkPowerSupply(vehicle, withinMargin, at)).toEqual({
+      alerts: [],
+      resolvedAlerts: [],
+    });
+    expect(alertService.autoResolveAlerts).not.toHaveBeenCalled();
+
+    // Batterie rétablie mais tension encore dans la marge
+    await locationService.checkPowerSupply(vehicle, { batteryLevel: 80, externalVoltage: 11.8 }, at);
+    expect(alertService.autoResolveAlerts).not.toHaveBeenCalled();
+
+    const check = await locationService.checkPowerSupply(
+      vehicle,
+      { batteryLevel: 80, externalVoltage: 12.5 },
+      at
+    );
+    expect(alertService.autoResolveAlerts).toHaveBeenCalledWith(
+      vehicle._id.toString(),
+      AlertType.BATTERY_LOW,
+      expect.any(String)
+    );
+    expect(check.resolvedAlerts).toBe(resolved);
+  });
+
+  it('ne fait rien sans relevé d\'alimentation', async () => {
+    stubSettings();
+
+    expect(await locationService.checkPowerSupply(vehicle, { speed: 12 }, at)).toEqual({
+      alerts: [],
+      resolvedAlerts: [],
+    });
+    expect(Vehicle.updateOne).not.toHaveBeenCalled();
+  });
+});
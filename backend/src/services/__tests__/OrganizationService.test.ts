@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Organization } from '../../models/index.js';
+import { OrganizationService } from '../OrganizationService.js';
+
+// ============================================
+// Paramètres : lus une fois pour les contrôles d'une même position
+// ============================================
+
+/** Requête Mongoose simulée (chaînage puis `.exec()`) */
+const chain = <T>(value: T) => {
+  const query = { select: () => query, exec: async () => value };
+  return query as never;
+};
+
+describe('OrganizationService.getSettings', () => {
+  const organizationId = new mongoose.Types.ObjectId().toString();
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('relit les paramètres une fois le cache expiré', async () => {
+    vi.useFakeTimers();
+    const service = new OrganizationService();
+    const findById = vi.spyOn(Organization, 'findById').mockReturnValue(chain(null));
+
+    await service.getSettings(organizationId);
+    await service.getSettings(organizationId);
+    expect(findById).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31 * 1000);
+    await service.getSettings(organizationId);
+    expect(findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('renvoie les paramètres à jour après une modification', async () => {
+    const service = new OrganizationService();
+    const organization = new Organization({ name: 'Loxam Nord' });
+    vi.spyOn(organization, 'save').mockResolvedValue(organization);
+    vi.spyOn(Organization, 'findById').mockReturnValue(chain(organization));
+
+    expect((await service.getSettings(organizationId)).towingDistanceMeters).toBe(100);
+
+    await service.updateSettings(organizationId, { towingDistanceMeters: 250 });
+
+    expect((await service.getSettings(organizationId)).towingDistanceMeters).toBe(250);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Vehicle } from '../../models/index.js';
+import { GeoJSONPoint, PositionRejectionReason } from '../../types/index.js';
+import config from '../../config/index.js';
+import { FilterFix, positionFilterService } from '../PositionFilterService.js';
+import { positionService } from '../PositionService.js';
+
+// ============================================
+// Filtrage GPS : précision, sauts irréalistes, lissage
+// ============================================
+
+const t0 = new Date('2026-04-07T09:00:00Z');
+const after = (seconds: number): Date => new Date(t0.getTime() + seconds * 1000);
+const point = (longitude: number, latitude: number): GeoJSONPoint => ({
+  type: 'Point',
+  coordinates: [longitude, latitude],
+});
+
+// ~1,1 km au nord de la référence
+const parked = point(2.35, 48.85);
+const farAway = point(2.35, 48.86);
+
+const fix = (location: GeoJSONPoint, seconds: number, extra: Partial<FilterFix> = {}): FilterFix => ({
+  location,
+  timestamp: after(seconds),
+  ...extra,
+});
+
+describe('PositionFilterService.filterFix', () => {
+  const reference = { location: parked, timestamp: t0 };
+
+  afterEach(() => {
+    config.positionFilter.smoothing = false;
+  });
+
+  it('rejette un saut plus rapide que la vitesse maximale', () => {
+    // 1,1 km en 10 s : ~400 km/h
+    expect(positionFilterService.filterFix(fix(farAway, 10), reference)).toEqual({
+      accepted: false,
+      location: farAway,
+      rejectionReason: PositionRejectionReason.IMPLAUSIBLE_JUMP,
+    });
+    // 1,1 km en 2 min : ~33 km/h
+    expect(positionFilterService.filterFix(fix(farAway, 120), reference).accepted).toBe(true);
+  });
+
+  it('rejette un point avec trop peu de satellites ou un HDOP trop élevé', () => {
+    const { minSatellites, maxHdop } = config.positionFilter;
+
+    expect(
+      positionFilterService.filterFix(fix(parked, 10, { satellites: minSatellites - 1 }), reference)
+        .rejectionReason
+    ).toBe(PositionRejectionReason.LOW_SATELLITES);
+    expect(
+      positionFilterService.filterFix(fix(parked, 10, { hdop: maxHdop + 0.5 }), reference)
+        .rejectionReason
+    ).toBe(PositionRejectionReason.HIGH_HDOP);
+    expect(
+      positionFilterService.filterFix(fix(parked, 10, { satellites: minSatellites, hdop: maxHdop }), reference)
+        .accepted
+    ).toBe(true);
+  });
+
+  it('accepte le premier point d\'un véhicule sans référence', () => {
+    expect(positionFilterService.filterFix(fix(farAway, 0), null).accepted).toBe(true);
+  });
+
+  it('lisse les points successifs avec le filtre de Kalman', () => {
+    config.positionFilter.smoothing = true;
+    const smoother = positionFilterService.createSmoother();
+    const drifted = point(2.3501, 48.85);
+
+    // Premier point : initialise le filtre sans le modifier
+    expect(positionFilterService.filterFix(fix(parked, 0), null, smoother).location).toEqual(parked);
+
+    // Dérive d'un engin stationné : le point lissé reste entre l'estimation et la mesure
+    const { location } = positionFilterService.filterFix(
+      fix(drifted, 1),
+      { location: parked, timestamp: t0 },
+      smoother
+    );
+    const [longitude] = location.coordinates;
+    expect(longitude).toBeGreaterThan(2.35);
+    expect(longitude).toBeLessThan(2.3501);
+    expect(smoother.variance).toBeLessThan(25);
+  });
+
+  it('ne lisse pas sans lissage activé', () => {
+    const smoother = positionFilterService.createSmoother();
+
+    positionFilterService.filterFix(fix(parked, 0), null, smoother);
+
+    expect(smoother.variance).toBe(-1);
+  });
+});
+
+describe('PositionFilterService.filterLocation', () => {
+  const vehicle = new Vehicle({
+    organizationId: new mongoose.Types.ObjectId(),
+    name: 'Nacelle 04',
+    registrationNumber: 'NP-321-QR',
+    location: farAway,
+    lastLocationUpdate: after(600),
+  });
+
+  afterEach(() => {
+    config.positionFilter.smoothing = false;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('contrôle un point bufferisé par rapport au dernier point archivé avant lui', async () => {
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+    const lastBefore = vi
+      .spyOn(positionService, 'getLastPositionBefore')
+      .mockResolvedValue({ location: parked, timestamp: t0 } as never);
+    const record = vi.spyOn(positionService, 'recordPosition').mockResolvedValue(undefined as never);
+
+    // À 1,1 km de la position courante 10 s plus tôt, mais à côté du point archivé précédent
+    const verdict = await positionFilterService.filterLocation(vehicle._id.toString(), parked, {
+      timestamp: after(590),
+    });
+
+    expect(lastBefore).toHaveBeenCalledWith(vehicle._id.toString(), after(590));
+    expect(verdict).toEqual({ accepted: true, location: parked });
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('archive un point rejeté avec son motif', async () => {
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+    const record = vi.spyOn(positionService, 'recordPosition').mockResolvedValue(undefined as never);
+
+    const verdict = await positionFilterService.filterLocation(vehicle._id.toString(), parked, {
+      timestamp: after(610),
+    });
+
+    expect(verdict.rejectionReason).toBe(PositionRejectionReason.IMPLAUSIBLE_JUMP);
+    expect(record).toHaveBeenCalledWith(
+      vehicle,
+      parked,
+      expect.objectContaining({ timestamp: after(610) }),
+      PositionRejectionReason.IMPLAUSIBLE_JUMP
+    );
+  });
+
+  it('ne conserve pas d\'état de lissage sans lissage activé', async () => {
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+
+    await positionFilterService.filterLocation(vehicle._id.toString(), farAway, { timestamp: after(620) });
+
+    expect(positionFilterService['smoothers'].size).toBe(0);
+  });
+
+  it('oublie le lissage d\'un véhicule inactif', async () => {
+    config.positionFilter.smoothing = true;
+    vi.useFakeTimers({ now: after(620) });
+    vi.spyOn(Vehicle, 'findById').mockResolvedValue(vehicle);
+
+    await positionFilterService.filterLocation(vehicle._id.toString(), farAway, { timestamp: after(620) });
+    expect(positionFilterService['smoothers'].has(vehicle._id.toString())).toBe(true);
+
+    // Un autre véhicule émet 10 min plus tard
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    await positionFilterService.filterLocation(new mongoose.Types.ObjectId().toString(), farAway);
+    expect(positionFilterService['smoothers'].has(vehicle._id.toString())).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { positionService } from '../PositionService.js';
+
+// ============================================
+// Trace GeoJSON : LineString valide uniquement
+// ============================================
+
+const vehicleId = new mongoose.Types.ObjectId().toString();
+const from = new Date('2026-06-01T06:00:00Z');
+const to = new Date('2026-06-01T18:00:00Z');
+
+const position = (minutes: number, longitude: number) => ({
+  location: { type: 'Point' as const, coordinates: [longitude, 48.85] as [number, number] },
+  timestamp: new Date(from.getTime() + minutes * 60_000),
+  speed: 12,
+});
+
+describe('PositionService.getTrack', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renvoie une collection vide sans position', async () => {
+    vi.spyOn(positionService, 'getPositions').mockResolvedValue([]);
+
+    expect(await positionService.getTrack(vehicleId, from, to)).toEqual({
+      type: 'FeatureCollection',
+      features: [],
+    });
+  });
+
+  it('omet la LineString pour une position unique', async () => {
+    vi.spyOn(positionService, 'getPositions').mockResolvedValue([position(0, 2.35)] as never);
+
+    const track = await positionService.getTrack(vehicleId, from, to);
+
+    expect(track.features.map((f) => f.geometry.type)).toEqual(['Point']);
+  });
+
+  it('place la LineString du trajet avant les points', async () => {
+    vi.spyOn(positionService, 'getPositions').mockResolvedValue(
+      [position(0, 2.35), position(5, 2.36)] as never
+    );
+
+    const track = await positionService.getTrack(vehicleId, from, to);
+
+    expect(track.features.map((f) => f.geometry.type)).toEqual(['LineString', 'Point', 'Point']);
+    expect(track.features[0].geometry.coordinates).toEqual([
+      [2.35, 48.85],
+      [2.36, 48.85],
+    ]);
+    expect(track.features[0].properties).toMatchObject({ pointCount: 2, truncated: false });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { Alert, Organization, RiskScore, Vehicle } from '../../models/index.js';
+import { AlertSeverity, AlertStatus, AlertType, RiskFactor } from '../../types/index.js';
+import { alertService } from '../AlertService.js';
+import { theftRiskService } from '../TheftRiskService.js';
+
+// ============================================
+// Alarmes boîtier GT06 comme signaux du score de vol
+// ============================================
+
+const at = new Date('2026-05-12T02:10:00Z');
+const location = { type: 'Point' as const, coordinates: [2.35, 48.85] as [number, number] };
+
+/** Requête Mongoose simulée (chaînage puis `.exec()`) */
+const chain = <T>(value: T) => {
+  const query = { select: () => query, sort: () => query, exec: async () => value };
+  return query as never;
+};
+
+const openAlert = (type: AlertType, minutesAgo: number) => ({
+  type,
+  status: AlertStatus.ACTIVE,
+  triggeredAt: new Date(at.getTime() - minutesAgo * 60_000),
+  updatedAt: new Date(at.getTime() - minutesAgo * 60_000),
+});
+
+describe('TheftRiskService.evaluate', () => {
+  const vehicle = new Vehicle({
+    name: 'Remorque 07',
+    registrationNumber: 'EF-456-GH',
+    organizationId: new mongoose.Types.ObjectId(),
+  });
+
+  beforeEach(() => {
+    // Organisation sans surcharge : poids par défaut
+    vi.spyOn(Organization, 'findById').mockReturnValue(chain(null));
+    vi.spyOn(RiskScore, 'findOne').mockReturnValue(chain(null));
+    vi.spyOn(RiskScore, 'create').mockResolvedValue({} as never);
+    vi.spyOn(alertService, 'createAlert').mockImplementation(
+      async (_vehicleId, type) => ({ alert: { type } }) as never
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ne lève pas de vol potentiel sur une coupure d\'alimentation isolée', async () => {
+    vi.spyOn(Alert, 'find').mockReturnValue(chain([openAlert(AlertType.TRACKER_POWER_CUT, 0)]));
+
+    const risk = await theftRiskService.evaluate(vehicle, { at, location });
+
+    expect(risk.factors.map((f) => f.factor)).toEqual([RiskFactor.TRACKER_POWER_CUT]);
+    expect(risk.score).toBe(35);
+    expect(risk.alert).toBeUndefined();
+  });
+
+  it('lève un vol potentiel scoré quand la coupure suit un déplacement', async () => {
+    vi.spyOn(Alert, 'find').mockReturnValue(
+      chain([openAlert(AlertType.TOWING_DETECTED, 5), openAlert(AlertType.TRACKER_POWER_CUT, 0)])
+    );
+
+    const risk = await theftRiskService.evaluate(vehicle, { at, location });
+
+    expect(risk.score).toBe(70);
+    expect(alertService.createAlert).toHaveBeenCalledWith(
+      vehicle._id.toString(),
+      AlertType.POTENTIAL_THEFT,
+      AlertSeverity.CRITICAL,
+      expect.stringContaining('alimentation du tracker coupée (+35)'),
+      location,
+      undefined,
+      at,
+      {
+        riskScore: 70,
+        riskFactors: expect.arrayContaining([
+          RiskFactor.MOVEMENT_WITHOUT_IGNITION,
+          RiskFactor.TRACKER_POWER_CUT,
+        ]),
+      }
+    );
+  });
+
+  it('ne conserve pas d\'état pour un véhicule sans signal de position', async () => {
+    vi.spyOn(Alert, 'find').mockReturnValue(chain([]));
+
+    await theftRiskService.evaluate(vehicle, { at, location });
+
+    expect(theftRiskService['signals'].has(vehicle._id.toString())).toBe(false);
+  });
+});
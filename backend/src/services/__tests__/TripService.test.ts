@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { IPositionDocument } from '../../models/index.js';
+import { tripService } from '../TripService.js';
+
+// ============================================
+// Segmentation des trajets : mouvement, ralenti, arrêts
+// ============================================
+
+const t0 = new Date('2026-03-10T07:00:00Z');
+
+/**
+ * Position à `minute` minutes de t0, à `meters` mètres à l'est du point de départ
+ */
+function position(minute: number, meters: number, speed?: number): IPositionDocument {
+  // ~73 m par millième de degré de longitude à cette latitude
+  const longitude = 2.35 + (meters / 73) * 0.001;
+  return {
+    location: { type: 'Point', coordinates: [longitude, 48.85] },
+    timestamp: new Date(t0.getTime() + minute * 60_000),
+    speed,
+  } as IPositionDocument;
+}
+
+/** Points immobiles toutes les minutes, de `from` à `to` inclus */
+function parked(from: number, to: number, meters: number): IPositionDocument[] {
+  const points: IPositionDocument[] = [];
+  for (let minute = from; minute <= to; minute++) {
+    points.push(position(minute, meters, 0));
+  }
+  return points;
+}
+
+describe('TripService.segment', () => {
+  it('ne renvoie rien avec moins de deux positions', () => {
+    expect(tripService.segment([position(0, 0)])).toEqual({ trips: [], stops: [] });
+  });
+
+  it('coupe le trajet sur un arrêt long et le restitue comme arrêt', () => {
+    const positions = [
+      position(0, 0, 20),
+      position(1, 300, 20),
+      position(2, 600, 20),
+      ...parked(3, 13, 600),
+      position(14, 900, 25),
+      position(15, 1200, 25),
+    ];
+
+    const { trips, stops } = tripService.segment(positions);
+
+    expect(trips).toHaveLength(2);
+    expect(trips[0]).toMatchObject({
+      startTime: positions[0].timestamp,
+      endTime: positions[2].timestamp,
+      movingDuration: 120,
+      idleDuration: 0,
+      maxSpeed: 20,
+    });
+    expect(trips[0].distance).toBeGreaterThan(580);
+    expect(trips[0].distance).toBeLessThan(620);
+    expect(trips[1].maxSpeed).toBe(25);
+
+    // L'arrêt commence au dernier point du trajet et finit au premier point du suivant
+    expect(stops).toEqual([
+      {
+        startTime: positions[2].timestamp,
+        endTime: positions[13].timestamp,
+        location: positions[2].location,
+        duration: 11 * 60,
+      },
+    ]);
+  });
+
+  it('compte une immobilisation courte comme du ralenti dans le trajet', () => {
+    const positions = [
+      position(0, 0, 20),
+      position(1, 300, 20),
+      ...parked(2, 4, 300),
+      position(5, 600, 20),
+    ];
+
+    const { trips, stops } = tripService.segment(positions);
+
+    expect(stops).toEqual([]);
+    expect(trips).toHaveLength(1);
+    expect(trips[0]).toMatchObject({
+      duration: 5 * 60,
+      movingDuration: 2 * 60,
+      idleDuration: 3 * 60,
+      pointCount: positions.length,
+    });
+  });
+
+  it('ignore la dérive GPS d\'un engin stationné', () => {
+    // Sauts de ~15 m sans vitesse : mouvement, mais moins de 50 m au total
+    const positions = [position(0, 0), position(1, 15), position(2, 30), position(3, 15)];
+
+    expect(tripService.segment(positions).trips).toEqual([]);
+  });
+
+  it('déduit la vitesse du déplacement quand le tracker ne la fournit pas', () => {
+    // 500 m par minute : 30 km/h
+    const positions = [position(0, 0), position(1, 500), position(2, 1000)];
+
+    const [trip] = tripService.segment(positions).trips;
+
+    expect(trip.maxSpeed).toBeGreaterThan(28);
+    expect(trip.maxSpeed).toBeLessThan(32);
+    expect(trip.averageSpeed).toBeCloseTo(trip.maxSpeed, 0);
+  });
+});
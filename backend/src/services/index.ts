@@ -1,6 +1,14 @@
 // Export de tous les services
-export { LocationService, locationService } from './LocationService.js';
-export { AlertService, alertService } from './AlertService.js';
+export {
+  LocationService,
+  locationService,
+  DetectedAlert,
+  SpeedViolationState,
+  TowingAnchorState,
+  FixEvaluationState,
+  PowerSupplyCheck,
+} from './LocationService.js';
+export { AlertService, alertService, AlertDetails } from './AlertService.js';
 export { VehicleService, vehicleService } from './VehicleService.js';
 export { AuthService, authService, JWTPayload, AuthResult, RegisterData } from './AuthService.js';
 export {
@@ -32,3 +40,88 @@ export {
   ClientNotFoundError,
   ClientConflictError,
 } from './ClientService.js';
+export {
+  DeviceService,
+  deviceService,
+  DeviceFilters,
+  CreateDeviceData,
+  UpdateDeviceData,
+  ResolvedTracker,
+  DeviceNotFoundError,
+  DeviceConflictError,
+  DeviceValidationError,
+} from './DeviceService.js';
+export {
+  OrganizationService,
+  organizationService,
+  OrganizationSettings,
+  TheftRiskSettings,
+  UpdateOrganizationSettingsData,
+  OrganizationNotFoundError,
+} from './OrganizationService.js';
+export {
+  PositionService,
+  positionService,
+  TrackPointProperties,
+  TrackLineProperties,
+  VehicleTrack,
+} from './PositionService.js';
+export {
+  PositionFilterService,
+  positionFilterService,
+  FilterReference,
+  FilterFix,
+  FilterVerdict,
+  KalmanState,
+} from './PositionFilterService.js';
+export {
+  TripService,
+  tripService,
+  Trip,
+  Stop,
+  TripSegmentation,
+} from './TripService.js';
+export {
+  DeviceWatchdogService,
+  deviceWatchdogService,
+  WatchdogResult,
+} from './DeviceWatchdogService.js';
+export {
+  TheftRiskService,
+  theftRiskService,
+  RiskObservation,
+  TheftRiskAssessment,
+} from './TheftRiskService.js';
+export {
+  GeofenceTransferService,
+  geofenceTransferService,
+  ImportGeofencesOptions,
+  ImportReportItem,
+  ImportReport,
+  ExportedFile,
+} from './GeofenceTransferService.js';
+export {
+  GeofenceAssignmentService,
+  geofenceAssignmentService,
+  AssignGeofenceOptions,
+  AssignmentIssueType,
+  AssignmentIssue,
+  AssignmentConsistencyReport,
+  GeofenceAssignmentNotFoundError,
+  GeofenceAssignmentValidationError,
+} from './GeofenceAssignmentService.js';
+export {
+  GeofenceRevisionService,
+  geofenceRevisionService,
+  GeofenceRevisionNotFoundError,
+} from './GeofenceRevisionService.js';
+export {
+  IngestionService,
+  ingestionService,
+  IngestFix,
+  DeviceBatch,
+  DeviceIngestResult,
+  DeviceIngestOutcome,
+  LiveFixOutcome,
+  TelemetryOutcome,
+} from './IngestionService.js';
@@ -17,6 +17,38 @@ export interface GeoJSONPolygon {
   coordinates: [number, number][][]; // Array de rings (premier = extérieur)
 }
 
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: [number, number][][][]; // Array de polygones (parcelles)
+}
+
+/**
+ * Géométrie d'une zone : polygone (avec trous éventuels) ou plusieurs parcelles
+ */
+export type GeofenceGeometry = GeoJSONPolygon | GeoJSONMultiPolygon;
+
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: [number, number][];
+}
+
+export interface GeoJSONFeature<
+  G = GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon | GeoJSONMultiPolygon,
+  P = Record<string, unknown>
+> {
+  type: 'Feature';
+  geometry: G;
+  properties: P;
+}
+
+export interface GeoJSONFeatureCollection<
+  G = GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon | GeoJSONMultiPolygon,
+  P = Record<string, unknown>
+> {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature<G, P>[];
+}
+
 // ============================================
 // Enums
 // ============================================
@@ -53,7 +85,72 @@ export enum AlertType {
   BATTERY_LOW = 'battery_low',
   DEVICE_OFFLINE = 'device_offline',
   SPEED_EXCEEDED = 'speed_exceeded',
-  POTENTIAL_THEFT = 'potential_theft'
+  TOWING_DETECTED = 'towing_detected',
+  POTENTIAL_THEFT = 'potential_theft',
+  FORBIDDEN_ZONE_ENTRY = 'forbidden_zone_entry',
+  TRACKER_POWER_CUT = 'tracker_power_cut'
+}
+
+export enum GeofenceShape {
+  POLYGON = 'polygon', // Polygone dessiné
+  CIRCLE = 'circle' // Centre + rayon (polygone généré)
+}
+
+// Zone autorisée (affectée aux engins) ou interdite (ports, frontières, casses...)
+export enum GeofenceMode {
+  ALLOWED = 'allowed',
+  FORBIDDEN = 'forbidden'
+}
+
+// Origine d'une affectation véhicule ↔ zone
+export enum GeofenceAssignmentSource {
+  MANUAL = 'manual', // Affectation par un utilisateur
+  CONTRACT = 'contract', // Zone de chantier d'un contrat actif
+  DEPOT = 'depot' // Zone de dépôt
+}
+
+// Nature d'une révision de zone
+export enum GeofenceRevisionAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  RESTORE = 'restore', // Retour à une révision antérieure
+  DELETE = 'delete'
+}
+
+// Formats de fichiers d'import / export des zones
+export enum GeofenceFileFormat {
+  GEOJSON = 'geojson',
+  KML = 'kml', // Google Earth
+  GPX = 'gpx' // Traces et routes fermées
+}
+
+export enum DeviceProtocol {
+  TELTONIKA = 'teltonika',
+  GT06 = 'gt06',
+  SOCKET = 'socket', // Événement Socket.io tracker:location
+  HTTP = 'http' // API REST
+}
+
+/**
+ * Motif de rejet d'un point GPS par le filtrage (point archivé mais ignoré)
+ */
+export enum PositionRejectionReason {
+  IMPLAUSIBLE_JUMP = 'IMPLAUSIBLE_JUMP', // Vitesse déduite irréaliste
+  LOW_SATELLITES = 'LOW_SATELLITES',
+  HIGH_HDOP = 'HIGH_HDOP',
+}
+
+/**
+ * Facteurs du score de risque de vol (combinés sur une fenêtre glissante)
+ */
+export enum RiskFactor {
+  GEOFENCE_EXIT = 'GEOFENCE_EXIT', // Sortie de zone autorisée
+  OUTSIDE_HOURS = 'OUTSIDE_HOURS', // Mouvement hors horaires
+  MOVEMENT_WITHOUT_IGNITION = 'MOVEMENT_WITHOUT_IGNITION', // Déplacement contact coupé (remorquage)
+  DEVICE_OFFLINE = 'DEVICE_OFFLINE', // Tracker muet
+  HIGH_SPEED = 'HIGH_SPEED', // Excès de vitesse
+  FAR_FROM_DELIVERY = 'FAR_FROM_DELIVERY', // Éloigné du lieu de livraison du contrat
+  TRACKER_POWER_CUT = 'TRACKER_POWER_CUT', // Alimentation du tracker coupée (arrachage)
 }
 
 export enum AlertSeverity {
@@ -96,35 +193,69 @@ export interface IVehicle {
   fuelLevel?: number; // Pourcentage
   engineHours?: number;
   odometer?: number;
+  batteryLevel?: number; // Pourcentage (batterie du tracker)
+  externalVoltage?: number; // Volts (alimentation du boîtier)
+  lastTelemetryAt?: Date;
   
   // Métadonnées
   organizationId: string;
-  assignedGeofences: string[]; // IDs des geofences autorisées
   notes?: string;
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Créneau horaire "HH:mm" - "HH:mm"
+ * Une fin inférieure ou égale au début désigne un créneau qui passe minuit
+ * (ex. 22:00-06:00 se termine le lendemain à 06:00)
+ */
+export interface ITimeSlot {
+  start: string;
+  end: string;
+}
+
+export interface IWeeklySlot extends ITimeSlot {
+  day: number; // Jour de début du créneau : 0=Dimanche, 1=Lundi, etc.
+}
+
+/**
+ * Exception ponctuelle : remplace les créneaux hebdomadaires d'une date
+ * (aucun créneau = journée non autorisée)
+ */
+export interface IScheduleException {
+  date: string; // "YYYY-MM-DD", dans le fuseau de l'organisation
+  slots: ITimeSlot[];
+  label?: string;
+}
+
+export interface IWeeklySchedule {
+  slots: IWeeklySlot[];
+  exceptions: IScheduleException[];
+}
+
 export interface IGeofence {
   _id?: string;
   name: string;
   description?: string;
   
-  // Zone géographique (Polygon GeoJSON)
-  area: GeoJSONPolygon;
+  // Zone géographique (Polygon ou MultiPolygon GeoJSON, polygone généré pour les cercles)
+  shape: GeofenceShape;
+  area: GeofenceGeometry;
+  center?: GeoJSONPoint; // Cercle uniquement
+  radiusMeters?: number; // Cercle uniquement
   
   // Configuration
+  mode: GeofenceMode; // Interdite : alerte à l'entrée, quelles que soient les affectations
   isActive: boolean;
-  allowedHours?: {
-    start: string; // Format "HH:mm"
-    end: string;
-  };
-  allowedDays?: number[]; // 0=Dimanche, 1=Lundi, etc.
+  schedule?: IWeeklySchedule | null; // Créneaux d'utilisation autorisés (absent = sans restriction)
+  speedLimitKmh?: number; // Vitesse maximale dans la zone
+  isDepot: boolean; // Zone de stockage des engins
   
   // Relations
   organizationId: string;
-  assignedVehicles: string[];
+  contractId?: string; // Zone de chantier générée par un contrat
+  archivedAt?: Date | null; // Zone archivée (contrat terminé ou annulé)
   
   // Couleur pour l'affichage carte
   color: string;
@@ -133,6 +264,24 @@ export interface IGeofence {
   updatedAt: Date;
 }
 
+/**
+ * Affectation d'une zone autorisée à un véhicule, sur une période de validité
+ * (validTo absent : affectation en cours, sans échéance)
+ */
+export interface IGeofenceAssignment {
+  _id?: string;
+  vehicleId: string;
+  geofenceId: string;
+  organizationId: string;
+  validFrom: Date;
+  validTo?: Date | null;
+  source: GeofenceAssignmentSource;
+  contractId?: string; // Contrat à l'origine de l'affectation
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface IClient {
   _id?: string;
   companyName: string;
@@ -194,6 +343,7 @@ export interface IAlert {
   // Relations
   vehicleId: string;
   geofenceId?: string;
+  geofenceRevision?: number; // Révision de la zone évaluée lors du déclenchement
   organizationId: string;
   
   // Détails
@@ -201,6 +351,14 @@ export interface IAlert {
   location: GeoJSONPoint;
   triggeredAt: Date;
   
+  // Excès de vitesse
+  peakSpeed?: number; // km/h
+  speedLimit?: number; // km/h
+  
+  // Vol potentiel
+  riskScore?: number; // 0-100
+  riskFactors?: RiskFactor[];
+  
   // Résolution
   acknowledgedAt?: Date;
   acknowledgedBy?: string;
@@ -212,6 +370,50 @@ export interface IAlert {
   updatedAt: Date;
 }
 
+export interface IDevice {
+  _id?: string;
+  imei: string;
+  protocol: DeviceProtocol;
+  deviceModel?: string;
+  firmware?: string;
+  simIccid?: string;
+  simPhoneNumber?: string;
+  lastSeenAt?: Date;
+  reportingIntervalSeconds: number; // Intervalle d'émission attendu
+
+  // Véhicule actuellement équipé + historique des affectations
+  vehicleId?: string;
+  assignments: {
+    vehicleId: string;
+    assignedAt: Date;
+    unassignedAt?: Date;
+    assignedBy?: string;
+  }[];
+
+  organizationId: string;
+  isActive: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPosition {
+  _id?: string;
+  vehicleId: string;
+  organizationId: string;
+  location: GeoJSONPoint;
+  timestamp: Date;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
+  satellites?: number;
+  hdop?: number;
+  rejected?: boolean;
+  rejectionReason?: PositionRejectionReason;
+}
+
 export interface IOrganization {
   _id?: string;
   name: string;
@@ -301,8 +503,29 @@ export interface VehicleLocationUpdate {
   speed?: number;
   heading?: number;
   batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
+}
+
+/**
+ * Télémétrie optionnelle accompagnant une position GPS
+ */
+export interface PositionTelemetry {
+  timestamp?: Date;
+  speed?: number; // km/h
+  heading?: number; // degrés (0-360)
+  batteryLevel?: number; // Pourcentage
+  ignition?: boolean; // Contact moteur
+  externalVoltage?: number; // Volts (alimentation du boîtier)
+  satellites?: number; // Satellites utilisés pour le fix
+  hdop?: number; // Dilution horizontale de précision
 }
 
+/**
+ * Position reçue d'un tracker (Socket.io, passerelles TCP, API)
+ */
+export type TrackerLocationInput = Omit<VehicleLocationUpdate, 'timestamp'> & PositionTelemetry;
+
 export interface AlertNotification {
   alert: IAlert;
   vehicle: Pick<IVehicle, '_id' | 'name' | 'registrationNumber' | 'type'>;
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { CIRCLE_SEGMENTS, circleToPolygon, getGeometryError } from '../geo.js';
+
+// ============================================
+// Zones circulaires converties en polygones indexables
+// ============================================
+
+/** Distance Haversine en mètres entre deux [longitude, latitude] */
+function distanceMeters([lng1, lat1]: number[], [lng2, lat2]: number[]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+describe('circleToPolygon', () => {
+  const center: [number, number] = [2.3522, 48.8566];
+
+  it('produit un anneau fermé de CIRCLE_SEGMENTS sommets', () => {
+    const polygon = circleToPolygon(center, 500);
+    const [ring] = polygon.coordinates;
+
+    expect(polygon.type).toBe('Polygon');
+    expect(polygon.coordinates).toHaveLength(1);
+    expect(ring).toHaveLength(CIRCLE_SEGMENTS + 1);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+  });
+
+  it('place chaque sommet au rayon demandé depuis le centre', () => {
+    const [ring] = circleToPolygon(center, 500).coordinates;
+
+    for (const vertex of ring) {
+      expect(distanceMeters(center, vertex)).toBeCloseTo(500, 0);
+    }
+    // Premier sommet plein nord
+    expect(ring[0][0]).toBeCloseTo(center[0], 6);
+    expect(ring[0][1]).toBeGreaterThan(center[1]);
+  });
+
+  it('respecte le nombre de segments demandé', () => {
+    expect(circleToPolygon(center, 100, 8).coordinates[0]).toHaveLength(9);
+  });
+
+  it('garde les longitudes dans [-180, 180] près de l\'antiméridien', () => {
+    const [ring] = circleToPolygon([179.999, -16.5], 2000).coordinates;
+
+    expect(ring.every(([lng]) => lng >= -180 && lng <= 180)).toBe(true);
+    expect(ring.some(([lng]) => lng < 0)).toBe(true);
+    expect(ring.some(([lng]) => lng > 0)).toBe(true);
+  });
+});
+
+// ============================================
+// Validation des géométries : trous et parcelles multiples
+// ============================================
+
+/** Anneau carré fermé de côté `size` degrés, coin inférieur gauche en [lng, lat] */
+const square = (lng: number, lat: number, size: number): [number, number][] => [
+  [lng, lat],
+  [lng + size, lat],
+  [lng + size, lat + size],
+  [lng, lat + size],
+  [lng, lat],
+];
+
+describe('getGeometryError', () => {
+  const outer = square(2.3, 48.8, 0.1);
+
+  it('accepte un polygone simple et un polygone avec un trou intérieur', () => {
+    expect(getGeometryError({ type: 'Polygon', coordinates: [outer] })).toBeNull();
+    expect(
+      getGeometryError({ type: 'Polygon', coordinates: [outer, square(2.33, 48.83, 0.02)] })
+    ).toBeNull();
+  });
+
+  it('refuse un contour extérieur ouvert ou trop court', () => {
+    expect(getGeometryError({ type: 'Polygon', coordinates: [outer.slice(0, -1)] })).toBe(
+      'Contour extérieur invalide (anneau fermé d\'au moins 4 positions requis)'
+    );
+    expect(getGeometryError({ type: 'Polygon', coordinates: [] })).toBe('Polygone vide');
+  });
+
+  it('refuse des coordonnées hors bornes', () => {
+    expect(
+      getGeometryError({ type: 'Polygon', coordinates: [square(179.95, 48.8, 0.1)] })
+    ).toMatch(/^Contour extérieur invalide/);
+  });
+
+  it('désigne le trou invalide ou débordant', () => {
+    expect(
+      getGeometryError({ type: 'Polygon', coordinates: [outer, square(2.33, 48.83, 0.02).slice(0, 3)] })
+    ).toBe('Trou 1 invalide (anneau fermé d\'au moins 4 positions requis)');
+    expect(
+      getGeometryError({
+        type: 'Polygon',
+        coordinates: [outer, square(2.33, 48.83, 0.02), square(2.35, 48.85, 0.1)],
+      })
+    ).toBe('Le trou 2 doit être contenu dans le contour extérieur');
+  });
+
+  it('valide chaque parcelle d\'un MultiPolygon', () => {
+    const parcelA = [outer, square(2.33, 48.83, 0.02)];
+    const parcelB = [square(2.5, 48.8, 0.05)];
+
+    expect(getGeometryError({ type: 'MultiPolygon', coordinates: [parcelA, parcelB] })).toBeNull();
+    expect(getGeometryError({ type: 'MultiPolygon', coordinates: [] })).toBe('MultiPolygon vide');
+    expect(
+      getGeometryError({ type: 'MultiPolygon', coordinates: [parcelA, [square(2.5, 48.8, 0.05).slice(1)]] })
+    ).toBe('Parcelle 2 : Contour extérieur invalide (anneau fermé d\'au moins 4 positions requis)');
+  });
+
+  it('accepte le polygone d\'une zone circulaire', () => {
+    expect(getGeometryError(circleToPolygon([2.3522, 48.8566], 300))).toBeNull();
+  });
+});
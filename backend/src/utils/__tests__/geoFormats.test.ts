@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { GeofenceFileFormat } from '../../types/index.js';
+import { parseGeoJSON } from '../geoFormats.js';
+import { geofenceTransferService } from '../../services/GeofenceTransferService.js';
+
+// ============================================
+// Import GeoJSON : features mal formées et positions avec altitude
+// ============================================
+
+const square = [
+  [2.35, 48.85, 35],
+  [2.36, 48.85, 35],
+  [2.36, 48.86, 36],
+  [2.35, 48.86, 36],
+  [2.35, 48.85, 35],
+];
+
+const collection = (...features: unknown[]) =>
+  JSON.stringify({ type: 'FeatureCollection', features });
+
+const polygonFeature = (coordinates: unknown) => ({
+  type: 'Feature',
+  properties: { name: 'Dépôt' },
+  geometry: { type: 'Polygon', coordinates },
+});
+
+describe('parseGeoJSON', () => {
+  it.each([null, 42, 'Feature', []])('signale la feature %j comme invalide', (feature) => {
+    const zones = parseGeoJSON(collection(feature, polygonFeature([square])));
+
+    expect(zones).toHaveLength(2);
+    expect(zones[0].errors).toEqual(['Feature GeoJSON invalide (objet attendu)']);
+    expect(zones[1].errors).toEqual([]);
+  });
+
+  it('retire l\'altitude des positions [lng, lat, alt]', () => {
+    const [zone] = parseGeoJSON(collection(polygonFeature([square])));
+
+    expect(zone.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [square.map(([lng, lat]) => [lng, lat])],
+    });
+  });
+
+  it('retire l\'altitude du centre d\'un cercle', () => {
+    const [zone] = parseGeoJSON(
+      collection({
+        type: 'Feature',
+        properties: { name: 'Chantier', shape: 'circle', radiusMeters: 300 },
+        geometry: { type: 'Point', coordinates: [2.35, 48.85, 35] },
+      })
+    );
+
+    expect(zone.center?.coordinates).toEqual([2.35, 48.85]);
+    expect(zone.radiusMeters).toBe(300);
+  });
+});
+
+describe('GeofenceTransferService.importGeofences (dryRun)', () => {
+  const options = { dryRun: true, isActive: true };
+
+  it('rapporte une feature nulle comme ligne invalide au lieu d\'échouer', async () => {
+    const report = await geofenceTransferService.importGeofences(
+      'org',
+      GeofenceFileFormat.GEOJSON,
+      collection(null, polygonFeature([square])),
+      options
+    );
+
+    expect(report.total).toBe(2);
+    expect(report.valid).toBe(1);
+    expect(report.items[0]).toMatchObject({ index: 0, valid: false });
+    expect(report.items[1]).toMatchObject({ index: 1, valid: true });
+  });
+
+  it('accepte un polygone MultiPolygon exporté avec altitude', async () => {
+    const report = await geofenceTransferService.importGeofences(
+      'org',
+      GeofenceFileFormat.GEOJSON,
+      collection({
+        type: 'Feature',
+        properties: { name: 'Parcelles' },
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: [[square], [square.map(([lng, lat, alt]) => [lng + 0.1, lat, alt])]],
+        },
+      }),
+      options
+    );
+
+    expect(report.items[0].errors).toEqual([]);
+    expect(report.valid).toBe(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findFrenchPublicHoliday, getEasterSunday, getFrenchPublicHolidays } from '../holidays.js';
+
+// ============================================
+// Jours fériés mobiles calculés depuis le dimanche de Pâques
+// ============================================
+
+const mobileHolidays = (year: number) =>
+  getFrenchPublicHolidays(year)
+    .filter((h) => ['Lundi de Pâques', 'Ascension', 'Lundi de Pentecôte'].includes(h.name))
+    .map((h) => h.date);
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2027, '2027-03-28'],
+    [2038, '2038-04-25'], // Pâques le plus tardif possible
+    [2285, '2285-03-22'], // Pâques le plus précoce possible
+  ])('dimanche de Pâques %i : %s', (year, date) => {
+    expect(getEasterSunday(year)).toBe(date);
+  });
+});
+
+describe('getFrenchPublicHolidays', () => {
+  it('place lundi de Pâques, Ascension et lundi de Pentecôte depuis Pâques', () => {
+    expect(mobileHolidays(2026)).toEqual(['2026-04-06', '2026-05-14', '2026-05-25']);
+    // Changement de mois entre Pâques et son lundi
+    expect(mobileHolidays(2024)).toEqual(['2024-04-01', '2024-05-09', '2024-05-20']);
+  });
+
+  it('renvoie les onze jours fériés triés par date', () => {
+    const dates = getFrenchPublicHolidays(2026).map((h) => h.date);
+
+    expect(dates).toHaveLength(11);
+    expect([...dates].sort()).toEqual(dates);
+    expect(dates[0]).toBe('2026-01-01');
+    expect(dates[dates.length - 1]).toBe('2026-12-25');
+  });
+
+  it('conserve les deux jours fériés d\'une même date', () => {
+    // 2008 : Ascension le 1er mai
+    const firstOfMay = getFrenchPublicHolidays(2008).filter((h) => h.date === '2008-05-01');
+
+    expect(firstOfMay.map((h) => h.name)).toEqual(['Fête du Travail', 'Ascension']);
+  });
+});
+
+describe('findFrenchPublicHoliday', () => {
+  it('trouve un jour férié mobile et ignore un jour travaillé', () => {
+    expect(findFrenchPublicHoliday('2026-05-14')).toEqual({ date: '2026-05-14', name: 'Ascension' });
+    expect(findFrenchPublicHoliday('2026-05-13')).toBeUndefined();
+  });
+});
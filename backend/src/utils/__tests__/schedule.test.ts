@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isWithinSchedule } from '../schedule.js';
+import { toZonedTime } from '../timezone.js';
+import { IWeeklySchedule } from '../../types/index.js';
+
+// ============================================
+// Créneau de nuit du samedi 22:00 au dimanche 06:00 (heure de Paris),
+// la nuit du changement d'heure
+// ============================================
+
+const nightShift: IWeeklySchedule = {
+  slots: [{ day: 6, start: '22:00', end: '06:00' }],
+  exceptions: [],
+};
+
+const allowedAt = (iso: string) =>
+  isWithinSchedule(nightShift, toZonedTime(new Date(iso), 'Europe/Paris'));
+
+describe('isWithinSchedule', () => {
+  describe('passage à l\'heure d\'été (29/03/2026)', () => {
+    it('ouvre le créneau à 22:00 CET le samedi', () => {
+      expect(allowedAt('2026-03-28T20:59:00Z')).toBe(false); // 21:59
+      expect(allowedAt('2026-03-28T21:00:00Z')).toBe(true); // 22:00
+    });
+
+    it('reste autorisé à travers l\'heure sautée', () => {
+      expect(allowedAt('2026-03-29T00:59:00Z')).toBe(true); // 01:59 CET
+      expect(allowedAt('2026-03-29T01:00:00Z')).toBe(true); // 03:00 CEST
+    });
+
+    it('ferme le créneau à 06:00 CEST, soit 04:00 UTC', () => {
+      expect(allowedAt('2026-03-29T04:00:00Z')).toBe(true); // 06:00
+      expect(allowedAt('2026-03-29T04:30:00Z')).toBe(false); // 06:30 (05:30 avec un décalage fixe)
+    });
+  });
+
+  describe('retour à l\'heure d\'hiver (25/10/2026)', () => {
+    it('ouvre le créneau à 22:00 CEST le samedi', () => {
+      expect(allowedAt('2026-10-24T19:59:00Z')).toBe(false); // 21:59
+      expect(allowedAt('2026-10-24T20:00:00Z')).toBe(true); // 22:00
+    });
+
+    it('autorise les deux occurrences de 02:30', () => {
+      expect(allowedAt('2026-10-25T00:30:00Z')).toBe(true); // 02:30 CEST
+      expect(allowedAt('2026-10-25T01:30:00Z')).toBe(true); // 02:30 CET
+    });
+
+    it('ferme le créneau à 06:00 CET, soit 05:00 UTC', () => {
+      expect(allowedAt('2026-10-25T04:30:00Z')).toBe(true); // 05:30 (06:30 avec un décalage fixe)
+      expect(allowedAt('2026-10-25T05:00:00Z')).toBe(true); // 06:00
+      expect(allowedAt('2026-10-25T05:30:00Z')).toBe(false); // 06:30
+    });
+  });
+
+  it('applique l\'exception de la date au lieu du créneau hebdomadaire', () => {
+    const schedule: IWeeklySchedule = {
+      ...nightShift,
+      exceptions: [{ date: '2026-10-24', slots: [], label: 'Maintenance' }],
+    };
+    expect(isWithinSchedule(schedule, toZonedTime(new Date('2026-10-25T00:30:00Z'), 'Europe/Paris'))).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { toZonedTime } from '../timezone.js';
+
+// ============================================
+// Heure murale Europe/Paris autour des changements d'heure 2026
+// Été : 29/03 à 02:00 (CET) → 03:00 (CEST) ; hiver : 25/10 à 03:00 (CEST) → 02:00 (CET)
+// ============================================
+
+const paris = (iso: string) => toZonedTime(new Date(iso), 'Europe/Paris');
+
+describe('toZonedTime', () => {
+  it('saute de 01:59 à 03:00 au passage à l\'heure d\'été', () => {
+    expect(paris('2026-03-29T00:59:00Z')).toEqual({
+      date: '2026-03-29',
+      time: '01:59',
+      day: 0,
+      minutes: 119,
+    });
+    expect(paris('2026-03-29T01:00:00Z')).toMatchObject({ time: '03:00', minutes: 180 });
+  });
+
+  it('donne deux fois 02:30 au retour à l\'heure d\'hiver', () => {
+    expect(paris('2026-10-25T00:30:00Z')).toMatchObject({ date: '2026-10-25', time: '02:30' });
+    expect(paris('2026-10-25T01:30:00Z')).toMatchObject({ date: '2026-10-25', time: '02:30' });
+    expect(paris('2026-10-25T02:00:00Z')).toMatchObject({ time: '03:00', minutes: 180 });
+  });
+
+  it('change de date locale avant minuit UTC', () => {
+    expect(paris('2026-03-28T23:30:00Z')).toMatchObject({ date: '2026-03-29', time: '00:30', day: 0 });
+    expect(paris('2026-10-24T22:30:00Z')).toMatchObject({ date: '2026-10-25', time: '00:30', day: 0 });
+  });
+
+  it('utilise le fuseau par défaut de l\'organisation', () => {
+    expect(toZonedTime(new Date('2026-07-01T10:00:00Z')).time).toBe('12:00');
+  });
+});
@@ -0,0 +1,130 @@
+import { GeoJSONPolygon, GeofenceGeometry } from '../types/index.js';
+
+// Rayon moyen de la Terre en mètres (même valeur que LocationService.calculateDistance)
+const EARTH_RADIUS_METERS = 6371000;
+
+// Nombre de sommets du polygone approchant un cercle (écart < 0,2 % du rayon)
+export const CIRCLE_SEGMENTS = 64;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Polygone GeoJSON approchant un cercle géodésique
+ * Chaque sommet est le point atteint depuis le centre à `radiusMeters` selon un cap
+ * régulier, ce qui permet d'indexer la zone en 2dsphere comme un polygone dessiné.
+ * @param center - [longitude, latitude]
+ */
+export function circleToPolygon(
+  center: [number, number],
+  radiusMeters: number,
+  segments: number = CIRCLE_SEGMENTS
+): GeoJSONPolygon {
+  const [lng, lat] = center;
+  const lat1 = toRadians(lat);
+  const lng1 = toRadians(lng);
+  const angularDistance = radiusMeters / EARTH_RADIUS_METERS;
+
+  const ring: [number, number][] = [];
+  for (let i = 0; i < segments; i++) {
+    const bearing = (2 * Math.PI * i) / segments;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+        Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+
+    // Normalisation de la longitude dans [-180, 180]
+    const normalizedLng = ((toDegrees(lng2) + 540) % 360) - 180;
+    ring.push([Number(normalizedLng.toFixed(7)), Number(toDegrees(lat2).toFixed(7))]);
+  }
+  ring.push(ring[0]); // Fermer l'anneau
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Anneau GeoJSON valide : au moins 4 positions, fermé, coordonnées dans les bornes
+ */
+function isValidRing(ring: number[][]): boolean {
+  if (ring.length < 4) return false;
+
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) return false;
+
+  return ring.every(
+    (point) =>
+      point.length === 2 &&
+      point[0] >= -180 && point[0] <= 180 &&
+      point[1] >= -90 && point[1] <= 90
+  );
+}
+
+/**
+ * Point dans un anneau (lancer de rayon, en coordonnées planes)
+ */
+function isPointInRing([x, y]: number[], ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Erreur d'un polygone : anneaux invalides ou trou débordant du contour extérieur
+ */
+function getPolygonError(rings: number[][][]): string | null {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return 'Polygone vide';
+  }
+
+  for (const [index, ring] of rings.entries()) {
+    if (!Array.isArray(ring) || !isValidRing(ring)) {
+      return index === 0
+        ? 'Contour extérieur invalide (anneau fermé d\'au moins 4 positions requis)'
+        : `Trou ${index} invalide (anneau fermé d'au moins 4 positions requis)`;
+    }
+  }
+
+  const [outer, ...holes] = rings;
+  for (const [index, hole] of holes.entries()) {
+    if (!hole.every((point) => isPointInRing(point, outer))) {
+      return `Le trou ${index + 1} doit être contenu dans le contour extérieur`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Erreur de géométrie d'une zone (Polygon ou MultiPolygon), null si valide
+ */
+export function getGeometryError(geometry: GeofenceGeometry): string | null {
+  if (geometry.type === 'Polygon') {
+    return getPolygonError(geometry.coordinates);
+  }
+
+  if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+    return 'MultiPolygon vide';
+  }
+
+  for (const [index, polygon] of geometry.coordinates.entries()) {
+    const error = getPolygonError(polygon);
+    if (error) {
+      return `Parcelle ${index + 1} : ${error}`;
+    }
+  }
+
+  return null;
+}
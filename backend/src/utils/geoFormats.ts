@@ -0,0 +1,467 @@
+import { XMLParser } from 'fast-xml-parser';
+import { GeofenceFileFormat, GeofenceGeometry, GeoJSONPoint } from '../types/index.js';
+
+/**
+ * Zone lue dans un fichier, avant validation
+ */
+export interface ParsedZone {
+  name?: string;
+  description?: string;
+  color?: string;
+  mode?: string;
+  geometry?: GeofenceGeometry;
+  // Cercle exporté par la plateforme (GeoJSON uniquement)
+  center?: GeoJSONPoint;
+  radiusMeters?: number;
+  errors: string[];
+}
+
+/**
+ * Zone à exporter (sous-ensemble d'une geofence)
+ */
+export interface ExportableZone {
+  name: string;
+  description?: string;
+  color: string;
+  shape: string;
+  mode?: string;
+  area: GeofenceGeometry;
+  center?: GeoJSONPoint;
+  radiusMeters?: number;
+}
+
+/**
+ * Fichier illisible (JSON ou XML mal formé, racine inattendue)
+ */
+export class GeoFileParseError extends Error {
+  readonly code = 'INVALID_FILE';
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoFileParseError';
+  }
+}
+
+type Position = [number, number];
+type XmlNode = Record<string, unknown>;
+
+// ============================================
+// Helpers
+// ============================================
+
+const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const textOf = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') {
+    const text = (value as XmlNode)['#text'];
+    return text === undefined ? undefined : String(text).trim();
+  }
+  return String(value).trim();
+};
+
+/**
+ * Ferme un anneau ouvert (premier point répété en fin)
+ */
+function closeRing(ring: Position[]): Position[] {
+  if (ring.length === 0) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+/**
+ * Polygon pour une seule parcelle, MultiPolygon au-delà
+ */
+function toGeometry(polygons: Position[][][]): GeofenceGeometry | undefined {
+  if (polygons.length === 0) return undefined;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Retire l'altitude des positions ([lng, lat, alt] → [lng, lat]), à toute profondeur
+ * Les valeurs mal formées sont laissées telles quelles pour la validation
+ */
+function stripAltitude(coordinates: unknown): unknown {
+  if (!Array.isArray(coordinates)) return coordinates;
+  if (coordinates.length > 2 && coordinates.every((value) => typeof value === 'number')) {
+    return coordinates.slice(0, 2);
+  }
+  return coordinates.map(stripAltitude);
+}
+
+const polygonsOf = (area: GeofenceGeometry): Position[][][] =>
+  area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+});
+
+function parseXml(content: string, rootTag: string): XmlNode {
+  let document: XmlNode;
+  try {
+    document = xmlParser.parse(content, true) as XmlNode;
+  } catch (error) {
+    throw new GeoFileParseError(
+      `XML invalide : ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const root = document[rootTag];
+  if (!root || typeof root !== 'object') {
+    throw new GeoFileParseError(`Élément racine <${rootTag}> introuvable`);
+  }
+  return root as XmlNode;
+}
+
+// ============================================
+// GeoJSON
+// ============================================
+
+function parseGeoJSONFeature(feature: unknown): ParsedZone {
+  if (!feature || typeof feature !== 'object' || Array.isArray(feature)) {
+    return { errors: ['Feature GeoJSON invalide (objet attendu)'] };
+  }
+
+  const properties = ((feature as XmlNode).properties ?? {}) as XmlNode;
+  const geometry = (feature as XmlNode).geometry as XmlNode | null | undefined;
+  const zone: ParsedZone = {
+    name: typeof properties.name === 'string' ? properties.name : undefined,
+    description: typeof properties.description === 'string' ? properties.description : undefined,
+    // "stroke" : convention simplestyle (geojson.io, Mapbox)
+    color:
+      typeof properties.color === 'string'
+        ? properties.color
+        : typeof properties.stroke === 'string'
+          ? properties.stroke
+          : undefined,
+    mode: typeof properties.mode === 'string' ? properties.mode : undefined,
+    errors: [],
+  };
+
+  if (!geometry) {
+    zone.errors.push('Géométrie absente');
+    return zone;
+  }
+
+  // Cercle : centre + rayon, sous forme de Point ou du polygone généré à l'export
+  const radius = Number(properties.radiusMeters);
+  if (properties.shape === 'circle' && Number.isFinite(radius)) {
+    const center = geometry.type === 'Point' ? geometry : properties.center;
+    if (center && typeof center === 'object') {
+      const point = center as XmlNode;
+      zone.center = { ...point, coordinates: stripAltitude(point.coordinates) } as GeoJSONPoint;
+      zone.radiusMeters = radius;
+      return zone;
+    }
+  }
+
+  if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+    // Altitude ignorée, comme pour les coordonnées KML
+    zone.geometry = {
+      ...geometry,
+      coordinates: stripAltitude(geometry.coordinates),
+    } as unknown as GeofenceGeometry;
+  } else {
+    zone.errors.push(`Géométrie ${String(geometry.type)} non supportée (Polygon ou MultiPolygon attendu)`);
+  }
+  return zone;
+}
+
+/**
+ * FeatureCollection, Feature isolée ou géométrie nue
+ */
+export function parseGeoJSON(content: string): ParsedZone[] {
+  let document: XmlNode;
+  try {
+    document = JSON.parse(content) as XmlNode;
+  } catch (error) {
+    throw new GeoFileParseError(
+      `JSON invalide : ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  switch (document?.type) {
+    case 'FeatureCollection':
+      return asArray(document.features as unknown[]).map(parseGeoJSONFeature);
+    case 'Feature':
+      return [parseGeoJSONFeature(document)];
+    case 'Polygon':
+    case 'MultiPolygon':
+      return [parseGeoJSONFeature({ type: 'Feature', geometry: document, properties: {} })];
+    default:
+      throw new GeoFileParseError('Document GeoJSON attendu (FeatureCollection, Feature ou Polygon)');
+  }
+}
+
+export function toGeoJSON(zones: ExportableZone[]): string {
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: zones.map((zone) => ({
+        type: 'Feature',
+        geometry: zone.area,
+        properties: {
+          name: zone.name,
+          description: zone.description,
+          color: zone.color,
+          shape: zone.shape,
+          mode: zone.mode,
+          center: zone.center,
+          radiusMeters: zone.radiusMeters,
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ============================================
+// KML
+// ============================================
+
+/**
+ * "lng,lat[,alt] lng,lat[,alt] ..." → positions [lng, lat]
+ */
+function parseKmlCoordinates(value: unknown): Position[] {
+  return (textOf(value) ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      return [lng, lat] as Position;
+    });
+}
+
+function parseKmlPolygon(polygon: XmlNode): Position[][] {
+  const ringOf = (boundary: unknown): Position[] =>
+    closeRing(parseKmlCoordinates(((boundary as XmlNode)?.LinearRing as XmlNode)?.coordinates));
+
+  return [
+    ringOf(polygon.outerBoundaryIs),
+    ...asArray(polygon.innerBoundaryIs).map(ringOf),
+  ];
+}
+
+/**
+ * Polygones d'un Placemark, y compris imbriqués dans des MultiGeometry
+ */
+function collectKmlPolygons(node: XmlNode): Position[][][] {
+  const polygons = asArray(node.Polygon as XmlNode | XmlNode[]).map(parseKmlPolygon);
+  for (const multi of asArray(node.MultiGeometry as XmlNode | XmlNode[])) {
+    polygons.push(...collectKmlPolygons(multi));
+  }
+  return polygons;
+}
+
+/**
+ * Placemarks à toute profondeur (Document, Folder...)
+ */
+function collectPlacemarks(node: XmlNode): XmlNode[] {
+  const placemarks: XmlNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_') || typeof value !== 'object' || value === null) continue;
+    if (key === 'Placemark') {
+      placemarks.push(...asArray(value as XmlNode | XmlNode[]));
+    } else {
+      for (const child of asArray(value as XmlNode | XmlNode[])) {
+        if (typeof child === 'object' && child !== null) {
+          placemarks.push(...collectPlacemarks(child));
+        }
+      }
+    }
+  }
+  return placemarks;
+}
+
+export function parseKML(content: string): ParsedZone[] {
+  const root = parseXml(content, 'kml');
+
+  return collectPlacemarks(root).map((placemark) => {
+    const zone: ParsedZone = {
+      name: textOf(placemark.name),
+      description: textOf(placemark.description),
+      errors: [],
+    };
+    zone.geometry = toGeometry(collectKmlPolygons(placemark));
+    if (!zone.geometry) {
+      zone.errors.push('Aucun polygone dans ce repère (Point et LineString ignorés)');
+    }
+    return zone;
+  });
+}
+
+/**
+ * KML : #RRGGBB → aabbggrr (opacité pleine pour le contour, 25 % pour le remplissage)
+ */
+function toKmlColor(color: string, alpha: string): string {
+  const hex = color.length === 4
+    ? color.slice(1).split('').map((c) => c + c).join('')
+    : color.slice(1);
+  return `${alpha}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+}
+
+export function toKML(zones: ExportableZone[]): string {
+  const ringToKml = (ring: Position[]) =>
+    `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LinearRing>`;
+
+  const polygonToKml = ([outer, ...holes]: Position[][]) =>
+    '<Polygon>' +
+    `<outerBoundaryIs>${ringToKml(outer)}</outerBoundaryIs>` +
+    holes.map((hole) => `<innerBoundaryIs>${ringToKml(hole)}</innerBoundaryIs>`).join('') +
+    '</Polygon>';
+
+  const placemarks = zones.map((zone) => {
+    const polygons = polygonsOf(zone.area).map(polygonToKml);
+    const geometry = polygons.length === 1
+      ? polygons[0]
+      : `<MultiGeometry>${polygons.join('')}</MultiGeometry>`;
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(zone.name)}</name>`,
+      zone.description ? `      <description>${escapeXml(zone.description)}</description>` : null,
+      '      <Style>',
+      `        <LineStyle><color>${toKmlColor(zone.color, 'ff')}</color><width>2</width></LineStyle>`,
+      `        <PolyStyle><color>${toKmlColor(zone.color, '40')}</color></PolyStyle>`,
+      '      </Style>',
+      `      ${geometry}`,
+      '    </Placemark>',
+    ]
+      .filter((line) => line !== null)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// GPX
+// ============================================
+
+function parseGpxPoints(points: unknown): Position[] {
+  return asArray(points as XmlNode | XmlNode[]).map(
+    (point) => [Number(point['@_lon']), Number(point['@_lat'])] as Position
+  );
+}
+
+/**
+ * GPX ne connaît pas les polygones : chaque trace (un segment = une parcelle)
+ * ou route est lue comme un contour, refermé si besoin
+ */
+export function parseGPX(content: string): ParsedZone[] {
+  const root = parseXml(content, 'gpx');
+
+  const fromRings = (node: XmlNode, rings: Position[][]): ParsedZone => {
+    const zone: ParsedZone = {
+      name: textOf(node.name),
+      description: textOf(node.desc),
+      errors: [],
+    };
+    const polygons = rings.filter((ring) => ring.length > 0).map((ring) => [closeRing(ring)]);
+    zone.geometry = toGeometry(polygons);
+    if (!zone.geometry) {
+      zone.errors.push('Trace vide');
+    }
+    return zone;
+  };
+
+  const tracks = asArray(root.trk as XmlNode | XmlNode[]).map((track) =>
+    fromRings(
+      track,
+      asArray(track.trkseg as XmlNode | XmlNode[]).map((segment) => parseGpxPoints(segment?.trkpt))
+    )
+  );
+  const routes = asArray(root.rte as XmlNode | XmlNode[]).map((route) =>
+    fromRings(route, [parseGpxPoints(route.rtept)])
+  );
+
+  return [...tracks, ...routes];
+}
+
+/**
+ * Une trace par zone, un segment par parcelle (les trous ne sont pas représentables)
+ */
+export function toGPX(zones: ExportableZone[]): string {
+  const tracks = zones.map((zone) => {
+    const segments = polygonsOf(zone.area).map(
+      ([outer]) =>
+        '      <trkseg>\n' +
+        outer.map(([lng, lat]) => `        <trkpt lat="${lat}" lon="${lng}"/>`).join('\n') +
+        '\n      </trkseg>'
+    );
+
+    return [
+      '    <trk>',
+      `      <name>${escapeXml(zone.name)}</name>`,
+      zone.description ? `      <desc>${escapeXml(zone.description)}</desc>` : null,
+      ...segments,
+      '    </trk>',
+    ]
+      .filter((line) => line !== null)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="saas-btp" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// Dispatch par format
+// ============================================
+
+export function parseGeoFile(format: GeofenceFileFormat, content: string): ParsedZone[] {
+  switch (format) {
+    case GeofenceFileFormat.GEOJSON:
+      return parseGeoJSON(content);
+    case GeofenceFileFormat.KML:
+      return parseKML(content);
+    case GeofenceFileFormat.GPX:
+      return parseGPX(content);
+  }
+}
+
+export function serializeGeoFile(format: GeofenceFileFormat, zones: ExportableZone[]): string {
+  switch (format) {
+    case GeofenceFileFormat.GEOJSON:
+      return toGeoJSON(zones);
+    case GeofenceFileFormat.KML:
+      return toKML(zones);
+    case GeofenceFileFormat.GPX:
+      return toGPX(zones);
+  }
+}
+
+export const GEO_FILE_CONTENT_TYPES: Record<GeofenceFileFormat, string> = {
+  [GeofenceFileFormat.GEOJSON]: 'application/geo+json',
+  [GeofenceFileFormat.KML]: 'application/vnd.google-earth.kml+xml',
+  [GeofenceFileFormat.GPX]: 'application/gpx+xml',
+};
@@ -0,0 +1,76 @@
+import { shiftDate } from './schedule.js';
+
+/**
+ * Jour férié à une date locale
+ */
+export interface PublicHoliday {
+  date: string; // "YYYY-MM-DD"
+  name: string;
+}
+
+// Jours fériés à date fixe ("MM-DD")
+const FIXED_HOLIDAYS: [string, string][] = [
+  ['01-01', "Jour de l'an"],
+  ['05-01', 'Fête du Travail'],
+  ['05-08', 'Victoire 1945'],
+  ['07-14', 'Fête nationale'],
+  ['08-15', 'Assomption'],
+  ['11-01', 'Toussaint'],
+  ['11-11', 'Armistice 1918'],
+  ['12-25', 'Noël'],
+];
+
+// Jours fériés mobiles (décalage en jours depuis le dimanche de Pâques)
+const EASTER_HOLIDAYS: [number, string][] = [
+  [1, 'Lundi de Pâques'],
+  [39, 'Ascension'],
+  [50, 'Lundi de Pentecôte'],
+];
+
+// Calculés une fois par année
+const cache = new Map<number, PublicHoliday[]>();
+
+/**
+ * Dimanche de Pâques (calendrier grégorien, algorithme de Meeus/Jones/Butcher)
+ */
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Jours fériés légaux en France métropolitaine pour une année, triés par date
+ */
+export function getFrenchPublicHolidays(year: number): PublicHoliday[] {
+  let holidays = cache.get(year);
+  if (!holidays) {
+    const easter = getEasterSunday(year);
+    holidays = [
+      ...FIXED_HOLIDAYS.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name })),
+      ...EASTER_HOLIDAYS.map(([offset, name]) => ({ date: shiftDate(easter, offset), name })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    cache.set(year, holidays);
+  }
+  return holidays;
+}
+
+/**
+ * Jour férié tombant à une date "YYYY-MM-DD", le cas échéant
+ */
+export function findFrenchPublicHoliday(date: string): PublicHoliday | undefined {
+  return getFrenchPublicHolidays(Number(date.slice(0, 4))).find((h) => h.date === date);
+}
@@ -0,0 +1,93 @@
+import { ITimeSlot, IWeeklySchedule } from '../types/index.js';
+import { ZonedTime } from './timezone.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Convertit "HH:mm" en minutes écoulées depuis minuit
+ */
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Date calendaire "YYYY-MM-DD" décalée d'un nombre de jours
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Indique si une date "YYYY-MM-DD" est chômée (jour férié, fermeture...)
+ */
+export type ClosedDatePredicate = (date: string) => boolean;
+
+/**
+ * Créneaux qui débutent à une date donnée :
+ * ceux de l'exception de la date si elle existe, aucun si la date est chômée,
+ * sinon ceux du jour de la semaine
+ */
+export function getSlotsForDate(
+  schedule: IWeeklySchedule,
+  date: string,
+  day: number,
+  isClosed?: ClosedDatePredicate
+): ITimeSlot[] {
+  const exception = schedule.exceptions.find((e) => e.date === date);
+  if (exception) {
+    return exception.slots;
+  }
+  if (isClosed?.(date)) {
+    return [];
+  }
+  return schedule.slots.filter((slot) => slot.day === day);
+}
+
+/**
+ * Un créneau passe-t-il minuit ? (fin <= début, 00:00-00:00 couvrant 24 h)
+ */
+export function isOvernight(slot: ITimeSlot): boolean {
+  return parseTime(slot.end) <= parseTime(slot.start);
+}
+
+/**
+ * Vérifie qu'une heure locale tombe dans un créneau autorisé
+ *
+ * Sont pris en compte les créneaux débutant le jour même et, pour les
+ * créneaux de la veille qui passent minuit, leur prolongement jusqu'à l'heure de fin.
+ * Les bornes sont incluses. Une exception de la zone prime sur un jour chômé.
+ */
+export function isWithinSchedule(
+  schedule: IWeeklySchedule,
+  zoned: ZonedTime,
+  isClosed?: ClosedDatePredicate
+): boolean {
+  const { date, day, minutes } = zoned;
+
+  for (const slot of getSlotsForDate(schedule, date, day, isClosed)) {
+    const start = parseTime(slot.start);
+    const end = isOvernight(slot) ? MINUTES_PER_DAY : parseTime(slot.end);
+    if (minutes >= start && minutes <= end) {
+      return true;
+    }
+  }
+
+  const previousDate = shiftDate(date, -1);
+  const previousDay = (day + 6) % 7;
+  for (const slot of getSlotsForDate(schedule, previousDate, previousDay, isClosed)) {
+    if (isOvernight(slot) && minutes <= parseTime(slot.end)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Représentation lisible des créneaux (ex. "07:00-12:00, 13:30-19:00")
+ */
+export function formatSlots(slots: ITimeSlot[]): string {
+  return slots.map((slot) => `${slot.start}-${slot.end}`).join(', ');
+}
@@ -0,0 +1,77 @@
+// Fuseau horaire par défaut des organisations (clients en France métropolitaine)
+export const DEFAULT_TIMEZONE = 'Europe/Paris';
+
+/**
+ * Date et heure murale d'un instant dans un fuseau horaire IANA
+ */
+export interface ZonedTime {
+  date: string; // "YYYY-MM-DD"
+  time: string; // "HH:mm"
+  day: number; // 0=Dimanche, 1=Lundi, etc.
+  minutes: number; // Minutes écoulées depuis minuit
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// Formateurs Intl mis en cache par fuseau (leur création est coûteuse)
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Vérifie qu'un identifiant de fuseau IANA est reconnu (ex. "Europe/Paris")
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convertit un instant en date/heure locale du fuseau donné
+ * Les changements d'heure (DST) sont gérés par Intl : 02:30 le jour du passage
+ * à l'heure d'été n'existe pas, 02:30 le jour du retour existe deux fois.
+ */
+export function toZonedTime(at: Date, timeZone: string = DEFAULT_TIMEZONE): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+
+  const hours = Number(parts.hour);
+  const minutes = Number(parts.minute);
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    day: WEEKDAYS[parts.weekday],
+    minutes: hours * 60 + minutes,
+  };
+}
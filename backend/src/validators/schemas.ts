@@ -1,5 +1,14 @@
 import { z } from 'zod';
-import { VehicleType, VehicleStatus, ContractStatus, AlertStatus } from '../types/index.js';
+import {
+  VehicleType,
+  VehicleStatus,
+  ContractStatus,
+  AlertStatus,
+  GeofenceShape,
+  GeofenceMode,
+  GeofenceFileFormat,
+} from '../types/index.js';
+import { getGeometryError } from '../utils/geo.js';
 
 /**
  * Schémas de validation Zod pour les entrées API
@@ -25,6 +34,23 @@ export const geoJSONPolygonSchema = z.object({
   ).min(1),
 });
 
+export const geoJSONMultiPolygonSchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(geoJSONPolygonSchema.shape.coordinates).min(1),
+});
+
+/**
+ * Géométrie d'une zone : anneaux fermés, trous contenus dans le contour extérieur
+ */
+export const geofenceGeometrySchema = z
+  .discriminatedUnion('type', [geoJSONPolygonSchema, geoJSONMultiPolygonSchema])
+  .superRefine((geometry, ctx) => {
+    const error = getGeometryError(geometry);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['coordinates'] });
+    }
+  });
+
 export const mongoIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'ID MongoDB invalide');
 
 export const paginationSchema = z.object({
@@ -68,6 +94,40 @@ export const updateVehicleLocationSchema = z.object({
   batteryLevel: z.number().min(0).max(100).optional(),
 });
 
+// Position émise par un tracker via Socket.io (`tracker:location`)
+// Le véhicule est déduit du tracker authentifié : un vehicleId fourni doit correspondre
+export const trackerLocationSchema = updateVehicleLocationSchema.extend({
+  vehicleId: mongoIdSchema.optional(),
+  timestamp: z.coerce.date().optional(),
+  ignition: z.boolean().optional(),
+  externalVoltage: z.number().min(0).optional(),
+  satellites: z.number().int().min(0).optional(),
+  hdop: z.number().min(0).optional(),
+});
+
+// Tolérance sur l'horloge des trackers pour les points horodatés
+const FUTURE_FIX_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Point GPS horodaté d'un upload bufferisé (POST /api/ingest/positions)
+export const ingestFixSchema = trackerLocationSchema.omit({ vehicleId: true }).extend({
+  timestamp: z.coerce
+    .date()
+    .refine((d) => d.getTime() <= Date.now() + FUTURE_FIX_TOLERANCE_MS, 'Horodatage dans le futur'),
+});
+
+export const ingestPositionsSchema = z.object({
+  devices: z
+    .array(
+      z.object({
+        imei: z.string().regex(/^\d{15}$/, 'IMEI invalide (15 chiffres)'),
+        token: z.string().min(1, 'Secret du tracker requis'),
+        fixes: z.array(ingestFixSchema).min(1).max(10000),
+      })
+    )
+    .min(1)
+    .max(100),
+});
+
 export const updateVehicleStatusSchema = z.object({
   status: z.nativeEnum(VehicleStatus),
 });
@@ -78,25 +138,117 @@ export const vehicleQuerySchema = paginationSchema.extend({
   search: z.string().optional(),
 });
 
+// Historique des positions (par défaut : dernières 24h)
+export const positionsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .transform(({ from, to }) => {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - 24 * 60 * 60 * 1000);
+    return { from: start, to: end };
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'La date de début doit précéder la date de fin',
+    path: ['from'],
+  });
+
+// Segmentation des trajets (même fenêtre temporelle que l'historique)
+export const tripsQuerySchema = positionsQuerySchema;
+
+// Historique du score de risque de vol (même fenêtre temporelle)
+export const riskHistoryQuerySchema = positionsQuerySchema;
+
+// Affectation d'une zone : période de validité (par défaut à partir de maintenant, sans échéance)
+export const assignGeofenceSchema = z
+  .object({
+    validFrom: z.coerce.date().optional(),
+    validTo: z.coerce.date().nullable().optional(),
+  })
+  .refine(
+    ({ validFrom, validTo }) => !validTo || validTo > (validFrom ?? new Date()),
+    { message: 'La fin de validité doit être postérieure au début', path: ['validTo'] }
+  );
+
 // ============================================
 // Schémas Geofence
 // ============================================
 
-export const createGeofenceSchema = z.object({
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Format HH:mm requis');
+
+// Fin <= début : le créneau passe minuit (ex. 22:00-06:00)
+const timeSlotSchema = z.object({
+  start: timeSchema,
+  end: timeSchema,
+});
+
+export const weeklyScheduleSchema = z.object({
+  slots: z.array(timeSlotSchema.extend({ day: z.number().int().min(0).max(6) })).default([]),
+  exceptions: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format YYYY-MM-DD requis'),
+    slots: z.array(timeSlotSchema).default([]),
+    label: z.string().max(100).optional(),
+  }))
+    .default([])
+    .refine(
+      (exceptions) => new Set(exceptions.map((e) => e.date)).size === exceptions.length,
+      { message: 'Une seule exception par date' }
+    ),
+});
+
+const baseGeofenceSchema = z.object({
   name: z.string().min(1, 'Nom requis').max(100),
   description: z.string().max(500).optional(),
-  area: geoJSONPolygonSchema,
+  shape: z.nativeEnum(GeofenceShape).default(GeofenceShape.POLYGON),
+  // Polygone : zone dessinée. Cercle : centre + rayon (rayon par défaut de la config)
+  area: geofenceGeometrySchema.optional(),
+  center: geoJSONPointSchema.optional(),
+  radiusMeters: z.number().min(10).max(50000).optional(),
+  mode: z.nativeEnum(GeofenceMode).default(GeofenceMode.ALLOWED),
   isActive: z.boolean().default(true),
-  allowedHours: z.object({
-    start: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Format HH:mm requis'),
-    end: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Format HH:mm requis'),
-  }).optional(),
-  allowedDays: z.array(z.number().min(0).max(6)).optional(),
+  // null : suppression des restrictions horaires
+  schedule: weeklyScheduleSchema.nullable().optional(),
+  speedLimitKmh: z.number().min(1).max(200).optional(),
+  isDepot: z.boolean().default(false),
   color: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).default('#3B82F6'),
-  assignedVehicles: z.array(mongoIdSchema).optional(),
 });
 
-export const updateGeofenceSchema = createGeofenceSchema.partial();
+export const createGeofenceSchema = baseGeofenceSchema.superRefine((data, ctx) => {
+  if (data.shape === GeofenceShape.POLYGON && !data.area) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Géométrie requise', path: ['area'] });
+  }
+  if (data.shape === GeofenceShape.CIRCLE && !data.center) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Centre du cercle requis', path: ['center'] });
+  }
+});
+
+export const updateGeofenceSchema = baseGeofenceSchema.partial();
+
+// Contenu texte du fichier (lu côté client) ; dryRun : rapport sans création
+export const importGeofencesSchema = z.object({
+  format: z.nativeEnum(GeofenceFileFormat, {
+    errorMap: () => ({ message: 'Format attendu : geojson, kml ou gpx' }),
+  }),
+  content: z.string().min(1, 'Fichier vide').max(5_000_000, 'Fichier trop volumineux (5 Mo max)'),
+  dryRun: z.boolean().default(false),
+  color: z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/).optional(),
+  isActive: z.boolean().default(true),
+});
+
+// ids : sélection séparée par des virgules (toute l'organisation si absent)
+export const exportGeofencesQuerySchema = z.object({
+  format: z.nativeEnum(GeofenceFileFormat).default(GeofenceFileFormat.GEOJSON),
+  ids: z
+    .string()
+    .regex(/^[a-f\d]{24}(,[a-f\d]{24})*$/i, 'Liste d\'IDs invalide (séparés par des virgules)')
+    .optional(),
+});
+
+export const geofenceRevisionParamsSchema = z.object({
+  id: mongoIdSchema,
+  revision: z.string().regex(/^[1-9]\d*$/, 'Numéro de révision invalide'),
+});
 
 // ============================================
 // Schémas Contract
@@ -182,10 +334,18 @@ export const withinPolygonQuerySchema = z.object({
 export type CreateVehicleInput = z.infer<typeof createVehicleSchema>;
 export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>;
 export type UpdateVehicleLocationInput = z.infer<typeof updateVehicleLocationSchema>;
+export type IngestPositionsInput = z.infer<typeof ingestPositionsSchema>;
 export type VehicleQueryInput = z.infer<typeof vehicleQuerySchema>;
+export type PositionsQueryInput = z.infer<typeof positionsQuerySchema>;
+export type TripsQueryInput = z.infer<typeof tripsQuerySchema>;
+export type RiskHistoryQueryInput = z.infer<typeof riskHistoryQuerySchema>;
+export type AssignGeofenceInput = z.infer<typeof assignGeofenceSchema>;
 
 export type CreateGeofenceInput = z.infer<typeof createGeofenceSchema>;
 export type UpdateGeofenceInput = z.infer<typeof updateGeofenceSchema>;
+export type ImportGeofencesInput = z.infer<typeof importGeofencesSchema>;
+export type ExportGeofencesQueryInput = z.infer<typeof exportGeofencesQuerySchema>;
+export type GeofenceRevisionParamsInput = z.infer<typeof geofenceRevisionParamsSchema>;
 
 export type CreateContractInput = z.infer<typeof createContractSchema>;
 export type UpdateContractInput = z.infer<typeof updateContractSchema>;
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import http from 'http';
+import mongoose from 'mongoose';
+import { Server, Socket } from 'socket.io';
+import { User } from '../../models/index.js';
+import { authService, deviceService } from '../../services/index.js';
+import { WebSocketServer } from '../index.js';
+
+// ============================================
+// Handshake : authentification et room de l'organisation
+// ============================================
+
+type Middleware = (socket: Socket, next: (error?: Error & { data?: unknown }) => void) => Promise<void>;
+type ConnectionHandler = (socket: Socket) => void;
+
+const organizationId = new mongoose.Types.ObjectId();
+
+/** Socket simulé : seuls les champs lus par le serveur */
+function fakeSocket(auth: Record<string, unknown>, data: Record<string, unknown> = {}) {
+  return {
+    id: 'socket-1',
+    handshake: { auth },
+    data,
+    join: vi.fn(),
+    on: vi.fn(),
+  } as unknown as Socket & { join: ReturnType<typeof vi.fn> };
+}
+
+describe('WebSocketServer (handshake)', () => {
+  let middleware: Middleware;
+  let onConnection: ConnectionHandler;
+  let httpServer: http.Server;
+
+  /** Exécute le middleware d'authentification et renvoie l'erreur éventuelle */
+  const handshake = async (socket: Socket) => {
+    const next = vi.fn();
+    await middleware(socket, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    return next.mock.calls[0][0] as (Error & { data?: { code: string } }) | undefined;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Server.prototype, 'use').mockImplementation(function (this: Server, fn) {
+      middleware = fn as unknown as Middleware;
+      return this;
+    });
+    vi.spyOn(Server.prototype, 'on').mockImplementation(function (this: Server, event, fn) {
+      if (event === 'connection') onConnection = fn as ConnectionHandler;
+      return this;
+    });
+    vi.spyOn(
+      WebSocketServer.prototype as unknown as { startLocationBroadcast(): void },
+      'startLocationBroadcast'
+    ).mockImplementation(() => {});
+
+    httpServer = http.createServer();
+    new WebSocketServer(httpServer);
+  });
+
+  afterEach(() => {
+    httpServer.close();
+    vi.restoreAllMocks();
+  });
+
+  it('refuse un client web sans token', async () => {
+    const error = await handshake(fakeSocket({}));
+
+    expect(error?.data).toEqual({ code: 'UNAUTHORIZED' });
+  });
+
+  it('refuse un token invalide ou un utilisateur désactivé', async () => {
+    vi.spyOn(authService, 'verifyAccessToken').mockImplementation(() => {
+      throw new Error('Token invalide ou expiré');
+    });
+    expect((await handshake(fakeSocket({ token: 'expiré' })))?.message).toBe('Token invalide ou expiré');
+
+    vi.mocked(authService.verifyAccessToken).mockReturnValue({ userId: 'user-1' } as never);
+    vi.spyOn(User, 'findById').mockResolvedValue({ isActive: false } as never);
+    expect((await handshake(fakeSocket({ token: 'valide' })))?.data).toEqual({ code: 'UNAUTHORIZED' });
+  });
+
+  it('rejoint la room de l\'organisation de l\'utilisateur en base', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    vi.spyOn(authService, 'verifyAccessToken').mockReturnValue({ userId: userId.toString() } as never);
+    vi.spyOn(User, 'findById').mockResolvedValue({ _id: userId, organizationId, isActive: true } as never);
+    // Une organisation fournie par le client est ignorée
+    const socket = fakeSocket({ token: 'valide', organizationId: 'autre-organisation' });
+
+    expect(await handshake(socket)).toBeUndefined();
+    onConnection(socket);
+
+    expect(socket.data.user).toEqual({ userId: userId.toString(), organizationId: organizationId.toString() });
+    expect(socket.join).toHaveBeenCalledWith(`org:${organizationId}`);
+  });
+
+  it('lie un tracker authentifié au véhicule de son affectation, sans room', async () => {
+    const deviceId = new mongoose.Types.ObjectId();
+    vi.spyOn(deviceService, 'authenticateTracker').mockResolvedValue({
+      device: { _id: deviceId },
+      vehicleId: 'vehicle-1',
+    } as never);
+    const socket = fakeSocket({ imei: '356307042441013', token: 'secret' });
+
+    expect(await handshake(socket)).toBeUndefined();
+    onConnection(socket);
+
+    expect(deviceService.authenticateTracker).toHaveBeenCalledWith('356307042441013', 'secret');
+    expect(socket.data.tracker).toEqual({
+      deviceId: deviceId.toString(),
+      imei: '356307042441013',
+      vehicleId: 'vehicle-1',
+    });
+    expect(socket.join).not.toHaveBeenCalled();
+  });
+
+  it('refuse un tracker au secret invalide', async () => {
+    vi.spyOn(deviceService, 'authenticateTracker').mockResolvedValue(null);
+
+    const error = await handshake(fakeSocket({ imei: '356307042441013', token: 'mauvais-secret' }));
+
+    expect(error?.data).toEqual({ code: 'UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../rateLimiter.js';
+
+// ============================================
+// Budget par tracker, conservé entre connexions
+// ============================================
+
+const consumeMany = (limiter: RateLimiter, key: string, count: number, now: number) =>
+  Array.from({ length: count }, () => limiter.consume(key, now));
+
+describe('RateLimiter', () => {
+  it('plafonne une rafale à la capacité puis recharge progressivement', () => {
+    const limiter = new RateLimiter(3, 60_000);
+
+    expect(consumeMany(limiter, 'imei-1', 4, 0)).toEqual([true, true, true, false]);
+    // Un jeton toutes les 20 s
+    expect(limiter.consume('imei-1', 20_000)).toBe(true);
+    expect(limiter.consume('imei-1', 20_000)).toBe(false);
+  });
+
+  it('partage le budget entre les sockets d\'un même tracker', () => {
+    const limiter = new RateLimiter(3, 60_000);
+
+    // Deux sockets (ou une reconnexion) consomment la même clé
+    consumeMany(limiter, 'imei-1', 3, 0);
+    expect(limiter.consume('imei-1', 1_000)).toBe(false);
+    expect(limiter.consume('imei-2', 1_000)).toBe(true);
+  });
+
+  it('oublie les clés inactives depuis une fenêtre complète', () => {
+    const limiter = new RateLimiter(3, 60_000);
+
+    consumeMany(limiter, 'imei-1', 3, 0);
+    limiter.consume('imei-2', 30_000);
+    expect(limiter.size).toBe(2);
+
+    // imei-1 inactif depuis 70 s : oublié ; imei-2 (40 s) conservé
+    limiter.consume('imei-3', 70_000);
+    expect(limiter.size).toBe(2);
+
+    limiter.consume('imei-4', 130_000);
+    expect(limiter.size).toBe(1);
+  });
+
+  it('rend un réservoir plein à une clé oubliée, comme si elle était restée suivie', () => {
+    const limiter = new RateLimiter(3, 60_000);
+
+    consumeMany(limiter, 'imei-1', 3, 0);
+    limiter.consume('imei-2', 60_000);
+    expect(limiter.size).toBe(1);
+
+    expect(consumeMany(limiter, 'imei-1', 4, 60_000)).toEqual([true, true, true, false]);
+  });
+});
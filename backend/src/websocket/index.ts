@@ -1,13 +1,37 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
-import { locationService, alertService } from '../services/index.js';
-import { Vehicle } from '../models/index.js';
 import {
-  GeoJSONPoint,
+  deviceService,
+  authService,
+  ingestionService,
+  LiveFixOutcome,
+} from '../services/index.js';
+import { Vehicle, User } from '../models/index.js';
+import { trackerLocationSchema } from '../validators/schemas.js';
+import {
   VehicleLocationUpdate,
   AlertNotification,
+  TrackerLocationInput,
 } from '../types/index.js';
 import config from '../config/index.js';
+import { RateLimiter } from './rateLimiter.js';
+
+/**
+ * Utilisateur authentifié lors du handshake (client web)
+ */
+interface UserSocketData {
+  userId: string;
+  organizationId: string;
+}
+
+/**
+ * Tracker authentifié lors du handshake, lié au véhicule de son affectation
+ */
+interface TrackerSocketData {
+  deviceId: string;
+  imei: string;
+  vehicleId: string;
+}
 
 /**
  * Configuration et gestion du serveur WebSocket
@@ -15,8 +39,12 @@ import config from '../config/index.js';
  * 
  * ÉVÉNEMENTS:
  * 
+ * HANDSHAKE:
+ * - Client web : `auth: { token }` (access token JWT) ; le socket rejoint
+ *   automatiquement la room de l'organisation de l'utilisateur
+ * - Tracker    : `auth: { imei, token }` (secret du tracker)
+ * 
  * Client -> Serveur:
- * - join:organization     : Rejoindre la room d'une organisation
  * - tracker:location      : Mise à jour de position d'un tracker GPS
  * 
  * Serveur -> Client:
@@ -26,6 +54,7 @@ import config from '../config/index.js';
  */
 export class WebSocketServer {
   private io: Server;
+  private trackerRateLimiter = new RateLimiter(config.trackers.socketRateLimitPerMinute, 60_000);
 
   constructor(httpServer: HttpServer) {
     this.io = new Server(httpServer, {
@@ -37,10 +66,81 @@ export class WebSocketServer {
       transports: ['websocket', 'polling'],
     });
 
+    this.setupAuthentication();
     this.setupEventHandlers();
     this.startLocationBroadcast();
   }
 
+  /**
+   * Authentifie chaque socket au handshake
+   * Un socket qui présente un IMEI est un tracker, sinon un client web
+   * qui doit fournir un access token JWT valide
+   */
+  private setupAuthentication(): void {
+    this.io.use(async (socket, next) => {
+      const { imei, token } = socket.handshake.auth as { imei?: unknown; token?: unknown };
+
+      try {
+        if (imei !== undefined) {
+          await this.authenticateTracker(socket, imei, token);
+        } else {
+          await this.authenticateUser(socket, token);
+        }
+        next();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Authentification requise';
+        const authError = new Error(message) as Error & { data?: { code: string } };
+        authError.data = { code: 'UNAUTHORIZED' };
+        next(authError);
+      }
+    });
+  }
+
+  /**
+   * Vérifie le secret d'un tracker et le lie au véhicule de son affectation
+   */
+  private async authenticateTracker(socket: Socket, imei: unknown, token: unknown): Promise<void> {
+    if (typeof imei !== 'string' || typeof token !== 'string') {
+      throw new Error('Identifiants tracker invalides');
+    }
+
+    const tracker = await deviceService.authenticateTracker(imei, token);
+    if (!tracker) {
+      console.warn(`[WebSocket] Tracker refusé: ${imei}`);
+      throw new Error('Identifiants tracker invalides');
+    }
+
+    const data: TrackerSocketData = {
+      deviceId: tracker.device._id.toString(),
+      imei,
+      vehicleId: tracker.vehicleId,
+    };
+    socket.data.tracker = data;
+  }
+
+  /**
+   * Vérifie l'access token d'un client web
+   * L'organisation est celle de l'utilisateur en base, jamais une valeur fournie par le client
+   */
+  private async authenticateUser(socket: Socket, token: unknown): Promise<void> {
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new Error('Token d\'authentification requis');
+    }
+
+    const payload = authService.verifyAccessToken(token);
+    const user = await User.findById(payload.userId);
+
+    if (!user || !user.isActive) {
+      throw new Error('Utilisateur non trouvé ou désactivé');
+    }
+
+    const data: UserSocketData = {
+      userId: user._id.toString(),
+      organizationId: user.organizationId.toString(),
+    };
+    socket.data.user = data;
+  }
+
   /**
    * Configure les gestionnaires d'événements Socket.io
    */
@@ -48,31 +148,16 @@ export class WebSocketServer {
     this.io.on('connection', (socket: Socket) => {
       console.log(`[WebSocket] Client connecté: ${socket.id}`);
 
-      // Rejoindre la room de l'organisation
-      socket.on('join:organization', (organizationId: string) => {
-        socket.join(`org:${organizationId}`);
-        console.log(`[WebSocket] Socket ${socket.id} a rejoint org:${organizationId}`);
-      });
-
-      // Quitter la room
-      socket.on('leave:organization', (organizationId: string) => {
-        socket.leave(`org:${organizationId}`);
-      });
+      // Les clients web rejoignent la room de leur propre organisation
+      const user = socket.data.user as UserSocketData | undefined;
+      if (user) {
+        socket.join(`org:${user.organizationId}`);
+        console.log(`[WebSocket] Socket ${socket.id} a rejoint org:${user.organizationId}`);
+      }
 
       // Réception d'une mise à jour de position d'un tracker GPS
-      socket.on('tracker:location', async (data: {
-        vehicleId: string;
-        location: GeoJSONPoint;
-        speed?: number;
-        heading?: number;
-        batteryLevel?: number;
-      }) => {
-        try {
-          await this.handleLocationUpdate(data);
-        } catch (error) {
-          console.error('Erreur lors de la mise à jour de position:', error);
-          socket.emit('error', { message: 'Erreur de mise à jour de position' });
-        }
+      socket.on('tracker:location', async (payload: unknown) => {
+        await this.handleTrackerLocation(socket, payload);
       });
 
       // Déconnexion
@@ -82,56 +167,86 @@ export class WebSocketServer {
     });
   }
 
+  /**
+   * Valide et traite une position émise par un tracker authentifié
+   * Le véhicule mis à jour est toujours celui lié au socket
+   */
+  private async handleTrackerLocation(socket: Socket, payload: unknown): Promise<void> {
+    const tracker = socket.data.tracker as TrackerSocketData | undefined;
+
+    if (!tracker) {
+      socket.emit('error', { code: 'UNAUTHORIZED', message: 'Tracker non authentifié' });
+      return;
+    }
+
+    if (!this.trackerRateLimiter.consume(tracker.deviceId)) {
+      socket.emit('error', { code: 'RATE_LIMITED', message: 'Trop de positions envoyées' });
+      return;
+    }
+
+    const parseResult = trackerLocationSchema.safeParse(payload);
+    if (!parseResult.success) {
+      socket.emit('error', {
+        code: 'VALIDATION_ERROR',
+        message: 'Position invalide',
+        details: parseResult.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const { vehicleId, ...data } = parseResult.data;
+    if (vehicleId && vehicleId !== tracker.vehicleId) {
+      socket.emit('error', { code: 'FORBIDDEN', message: 'Véhicule non associé à ce tracker' });
+      return;
+    }
+
+    try {
+      await this.handleLocationUpdate({ ...data, vehicleId: tracker.vehicleId });
+      this.emitAlertUpdates(await deviceService.touch(tracker.imei));
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour de position:', error);
+      socket.emit('error', { message: 'Erreur de mise à jour de position' });
+    }
+  }
+
   /**
    * Traite une mise à jour de position et diffuse les alertes si nécessaire
+   * Point d'entrée commun des trackers (Socket.io et passerelles TCP)
    */
-  private async handleLocationUpdate(data: {
-    vehicleId: string;
-    location: GeoJSONPoint;
-    speed?: number;
-    heading?: number;
-    batteryLevel?: number;
-  }): Promise<void> {
-    const { vehicleId, location, speed, heading, batteryLevel } = data;
-
-    // Utiliser le service de localisation pour la mise à jour + vérification
-    const result = await locationService.updateVehicleLocation(vehicleId, location);
-    
-    // Récupérer l'organisation du véhicule
-    const organizationId = result.vehicle.organizationId.toString();
-
-    // Diffuser la nouvelle position à tous les clients de l'organisation
-    const locationUpdate: VehicleLocationUpdate = {
-      vehicleId,
-      location,
-      timestamp: new Date(),
-      speed,
-      heading,
-      batteryLevel,
-    };
+  public async handleLocationUpdate(data: TrackerLocationInput): Promise<void> {
+    this.emitLiveFix(await ingestionService.ingestLiveFix(data));
+  }
 
-    this.io.to(`org:${organizationId}`).emit('vehicle:location', locationUpdate);
-
-    // Si des alertes ont été générées, les créer et les diffuser
-    if (result.alerts.length > 0) {
-      for (const alertData of result.alerts) {
-        const alertNotification = await alertService.createAlert(
-          vehicleId,
-          alertData.type,
-          alertData.severity,
-          alertData.message,
-          location
-        );
-
-        // Diffuser l'alerte
-        this.io.to(`org:${organizationId}`).emit('alert:new', alertNotification);
-      }
+  /**
+   * Diffuse la position retenue d'un point temps réel, ses alertes et les alertes mises à jour ou résolues
+   */
+  public emitLiveFix(outcome: LiveFixOutcome): void {
+    const { organizationId } = outcome;
+    if (!organizationId) return;
 
-      // Vérifier si c'est un vol potentiel (combinaison de facteurs)
-      const isTheft = await locationService.detectPotentialTheft(vehicleId, result.alerts);
-      if (isTheft) {
-        console.log(`[Alert] VOL POTENTIEL DETECTE pour le véhicule ${vehicleId}`);
-      }
+    if (outcome.locationUpdate) {
+      this.emitLocationUpdate(organizationId, outcome.locationUpdate);
+    }
+    for (const alert of outcome.alerts) {
+      this.emitAlert(organizationId, alert);
+    }
+    // Alertes ouvertes mises à jour (vitesse de pointe d'un dépassement en cours)
+    for (const updated of outcome.updatedAlerts) {
+      this.emitAlertUpdate(organizationId, updated);
+    }
+    // Alertes résolues automatiquement (ex. batterie rechargée)
+    for (const resolved of outcome.resolvedAlerts) {
+      this.emitAlertUpdate(organizationId, resolved);
+    }
+  }
+
+  /**
+   * Diffuse des alertes mises à jour à l'organisation de chacune
+   * (ex. alerte hors ligne résolue au retour du tracker)
+   */
+  public emitAlertUpdates(alerts: AlertNotification[]): void {
+    for (const alert of alerts) {
+      this.emitAlertUpdate(alert.alert.organizationId, alert);
     }
   }
 
@@ -172,6 +287,13 @@ export class WebSocketServer {
     }, 30000); // 30 secondes
   }
 
+  /**
+   * Émet une mise à jour de position à une organisation spécifique
+   */
+  public emitLocationUpdate(organizationId: string, update: VehicleLocationUpdate): void {
+    this.io.to(`org:${organizationId}`).emit('vehicle:location', update);
+  }
+
   /**
    * Émet une alerte à une organisation spécifique
    */
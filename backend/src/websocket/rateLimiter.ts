@@ -0,0 +1,68 @@
+/**
+ * Limiteur de débit par clé (token bucket)
+ *
+ * Chaque clé dispose d'un réservoir de `capacity` jetons, rechargé
+ * progressivement sur `windowMs`. Un message consomme un jeton :
+ * les rafales courtes sont tolérées, un flux soutenu est plafonné.
+ *
+ * Les réservoirs survivent aux déconnexions : se reconnecter ne rend pas
+ * de jetons. Une clé inactive depuis `windowMs` a un réservoir plein ;
+ * elle est oubliée sans effet sur la limite.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly refillPerMs: number;
+  private lastEvictionAt = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly windowMs: number
+  ) {
+    this.refillPerMs = capacity / windowMs;
+  }
+
+  /**
+   * Consomme un jeton pour la clé ; retourne false si la limite est atteinte
+   */
+  consume(key: string, now = Date.now()): boolean {
+    this.evictIdle(now);
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+
+    bucket.tokens = Math.min(
+      this.capacity,
+      bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs
+    );
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    this.buckets.set(key, bucket);
+    return allowed;
+  }
+
+  /**
+   * Nombre de clés suivies
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Oublie les clés inactives depuis une fenêtre complète (au plus un passage par fenêtre)
+   */
+  private evictIdle(now: number): void {
+    if (now - this.lastEvictionAt < this.windowMs) return;
+    this.lastEvictionAt = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= this.windowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export default RateLimiter;
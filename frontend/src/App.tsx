@@ -23,7 +23,7 @@ function AppRoutes() {
   useEffect(() => {
     // Initialiser la connexion WebSocket uniquement si authentifié
     if (isAuthenticated && user) {
-      initializeWebSocket(user.organizationId);
+      initializeWebSocket();
     }
   }, [isAuthenticated, user]);
 
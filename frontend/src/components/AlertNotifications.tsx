@@ -48,7 +48,10 @@ const alertTypeLabels: Record<AlertType, string> = {
   [AlertType.BATTERY_LOW]: 'Batterie faible',
   [AlertType.DEVICE_OFFLINE]: 'Tracker hors ligne',
   [AlertType.SPEED_EXCEEDED]: 'Vitesse excessive',
+  [AlertType.TOWING_DETECTED]: 'Remorquage détecté',
   [AlertType.POTENTIAL_THEFT]: 'Vol potentiel',
+  [AlertType.FORBIDDEN_ZONE_ENTRY]: 'Entrée en zone interdite',
+  [AlertType.TRACKER_POWER_CUT]: 'Alimentation tracker coupée',
 };
 
 // ============================================
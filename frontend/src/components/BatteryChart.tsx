@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { api } from '@/services';
+import { TrackPointProperties } from '@/types';
+import { format, subDays } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+// ============================================
+// Constantes
+// ============================================
+
+// Période affichée (jours)
+const TREND_DAYS = 7;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const GRID_LEVELS = [0, 25, 50, 75, 100];
+
+interface BatteryReading {
+  time: number;
+  level: number;
+}
+
+// ============================================
+// Composant BatteryChart
+// ============================================
+
+interface BatteryChartProps {
+  vehicleId: string;
+}
+
+/**
+ * Courbe du niveau de batterie du tracker sur les derniers jours
+ * Construite à partir de l'historique des positions
+ */
+export function BatteryChart({ vehicleId }: BatteryChartProps) {
+  const [readings, setReadings] = useState<BatteryReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReadings = async () => {
+      setIsLoading(true);
+      try {
+        const now = new Date();
+        const response = await api.getVehiclePositions(
+          vehicleId,
+          subDays(now, TREND_DAYS).toISOString(),
+          now.toISOString()
+        );
+
+        const points: BatteryReading[] = [];
+        for (const feature of response.data?.features ?? []) {
+          if (feature.geometry.type !== 'Point') continue;
+          const properties = feature.properties as TrackPointProperties;
+          if (properties.batteryLevel !== undefined) {
+            points.push({
+              time: new Date(properties.timestamp).getTime(),
+              level: properties.batteryLevel,
+            });
+          }
+        }
+        setReadings(points);
+      } catch (error) {
+        console.error('Erreur chargement historique batterie:', error);
+        setReadings([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReadings();
+  }, [vehicleId]);
+
+  const path = useMemo(() => {
+    if (readings.length < 2) return '';
+    const start = readings[0].time;
+    const span = Math.max(readings[readings.length - 1].time - start, 1);
+    return readings
+      .map((r) => {
+        const x = ((r.time - start) / span) * CHART_WIDTH;
+        const y = CHART_HEIGHT - (r.level / 100) * CHART_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }, [readings]);
+
+  if (isLoading) {
+    return (
+      <div className="h-40 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (readings.length < 2) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">
+        Pas assez de relevés batterie sur les {TREND_DAYS} derniers jours
+      </p>
+    );
+  }
+
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-xs text-gray-400 h-40">
+          {[...GRID_LEVELS].reverse().map((level) => (
+            <span key={level}>{level}%</span>
+          ))}
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="flex-1 h-40 bg-gray-50 rounded"
+        >
+          {GRID_LEVELS.map((level) => {
+            const y = CHART_HEIGHT - (level / 100) * CHART_HEIGHT;
+            return (
+              <line
+                key={level}
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={y}
+                y2={y}
+                stroke="#e5e7eb"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+          <polyline
+            points={path}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1 pl-8">
+        <span>{format(first.time, 'dd MMM HH:mm', { locale: fr })}</span>
+        <span>{format(last.time, 'dd MMM HH:mm', { locale: fr })}</span>
+      </div>
+    </div>
+  );
+}
+
+export default BatteryChart;
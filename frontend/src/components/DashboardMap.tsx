@@ -1,10 +1,12 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polygon, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polygon, Circle, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import { useVehicleStore, useGeofenceStore, useAlertStore } from '@/stores';
-import { Vehicle, Geofence, VehicleStatus, AlertSeverity } from '@/types';
+import { Vehicle, Geofence, GeofenceShape, GeofenceMode, VehicleStatus, AlertSeverity } from '@/types';
 import { Truck, AlertTriangle } from 'lucide-react';
 import clsx from 'clsx';
+import { summarizeSchedule } from './ScheduleEditor';
+import { geometryToPositions, FORBIDDEN_ZONE_STYLE } from './geofenceGeometry';
 
 // Fix pour les icônes Leaflet avec Vite - utiliser les URLs CDN
 const markerIcon2x = 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png';
@@ -157,35 +159,51 @@ interface GeofencePolygonProps {
 }
 
 function GeofencePolygon({ geofence }: GeofencePolygonProps) {
-  // Convertir les coordonnées GeoJSON [lng, lat] en Leaflet [lat, lng]
-  const positions = geofence.area.coordinates[0].map(
-    (coord) => [coord[1], coord[0]] as [number, number]
+  const isForbidden = geofence.mode === GeofenceMode.FORBIDDEN;
+  const pathOptions = {
+    color: geofence.color,
+    fillColor: geofence.color,
+    fillOpacity: 0.2,
+    weight: 2,
+    ...(isForbidden && FORBIDDEN_ZONE_STYLE),
+  };
+
+  const popup = (
+    <Popup>
+      <div className="min-w-[150px]">
+        <h3 className="font-bold">{geofence.name}</h3>
+        {isForbidden && <p className="text-red-600 text-sm font-medium">Zone interdite</p>}
+        {geofence.description && (
+          <p className="text-gray-600 text-sm mt-1">{geofence.description}</p>
+        )}
+        {geofence.schedule && (
+          <div className="text-sm mt-2">
+            <span className="font-medium">Horaires:</span>
+            {summarizeSchedule(geofence.schedule).map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </Popup>
   );
 
+  // Zone circulaire : tracé natif Leaflet plutôt que le polygone généré
+  if (geofence.shape === GeofenceShape.CIRCLE && geofence.center && geofence.radiusMeters) {
+    const [lng, lat] = geofence.center.coordinates;
+    return (
+      <Circle center={[lat, lng]} radius={geofence.radiusMeters} pathOptions={pathOptions}>
+        {popup}
+      </Circle>
+    );
+  }
+
+  // Convertir les coordonnées GeoJSON [lng, lat] en Leaflet [lat, lng], trous et parcelles compris
+  const positions = geometryToPositions(geofence.area);
+
   return (
-    <Polygon
-      positions={positions}
-      pathOptions={{
-        color: geofence.color,
-        fillColor: geofence.color,
-        fillOpacity: 0.2,
-        weight: 2,
-      }}
-    >
-      <Popup>
-        <div className="min-w-[150px]">
-          <h3 className="font-bold">{geofence.name}</h3>
-          {geofence.description && (
-            <p className="text-gray-600 text-sm mt-1">{geofence.description}</p>
-          )}
-          {geofence.allowedHours && (
-            <p className="text-sm mt-2">
-              <span className="font-medium">Horaires:</span>{' '}
-              {geofence.allowedHours.start} - {geofence.allowedHours.end}
-            </p>
-          )}
-        </div>
-      </Popup>
+    <Polygon positions={positions} pathOptions={pathOptions}>
+      {popup}
     </Polygon>
   );
 }
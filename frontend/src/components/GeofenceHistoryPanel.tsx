@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import clsx from 'clsx';
+import { X, History, RotateCcw, User } from 'lucide-react';
+import { api } from '@/services/api';
+import {
+  Geofence,
+  GeofenceRevision,
+  GeofenceRevisionAction,
+  GeofenceRevisionSnapshot,
+} from '@/types';
+
+// Style de la révision affichée sur la carte, superposée à la version actuelle
+export const REVISION_OVERLAY_STYLE = {
+  color: '#6B7280',
+  fillColor: '#6B7280',
+  fillOpacity: 0.1,
+  weight: 2,
+  dashArray: '6 6',
+};
+
+const ACTION_LABELS: Record<GeofenceRevisionAction, { label: string; className: string }> = {
+  [GeofenceRevisionAction.CREATE]: { label: 'Création', className: 'bg-green-100 text-green-700' },
+  [GeofenceRevisionAction.UPDATE]: { label: 'Modification', className: 'bg-blue-100 text-blue-700' },
+  [GeofenceRevisionAction.RESTORE]: { label: 'Restauration', className: 'bg-purple-100 text-purple-700' },
+  [GeofenceRevisionAction.DELETE]: { label: 'Suppression', className: 'bg-red-100 text-red-700' },
+};
+
+const FIELD_LABELS: Record<keyof GeofenceRevisionSnapshot, string> = {
+  name: 'nom',
+  description: 'description',
+  shape: 'forme',
+  area: 'tracé',
+  center: 'centre',
+  radiusMeters: 'rayon',
+  mode: 'type de zone',
+  isActive: 'activation',
+  schedule: 'horaires',
+  speedLimitKmh: 'limite de vitesse',
+  isDepot: 'dépôt',
+  color: 'couleur',
+  contractId: 'contrat',
+  archivedAt: 'archivage',
+};
+
+/**
+ * Champs dont la valeur diffère entre une révision et la version actuelle
+ */
+function diffWithCurrent(snapshot: GeofenceRevisionSnapshot, geofence: Geofence): string[] {
+  return (Object.keys(FIELD_LABELS) as (keyof GeofenceRevisionSnapshot)[])
+    .filter((field) => JSON.stringify(snapshot[field] ?? null) !== JSON.stringify(geofence[field] ?? null))
+    .map((field) => FIELD_LABELS[field]);
+}
+
+function authorName(revision: GeofenceRevision): string {
+  if (!revision.changedBy) return 'Système';
+  return `${revision.changedBy.firstName} ${revision.changedBy.lastName}`;
+}
+
+// ============================================
+// Panneau d'historique
+// ============================================
+
+interface GeofenceHistoryPanelProps {
+  geofence: Geofence;
+  selectedRevision: GeofenceRevision | null;
+  onSelectRevision: (revision: GeofenceRevision | null) => void;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Historique des révisions d'une zone : la révision sélectionnée est
+ * superposée sur la carte (pointillés) et peut être restaurée
+ */
+export function GeofenceHistoryPanel({
+  geofence,
+  selectedRevision,
+  onSelectRevision,
+  onRestored,
+  onClose,
+}: GeofenceHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<GeofenceRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Rechargé à chaque nouvelle révision de la zone (modification, restauration)
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    api
+      .getGeofenceRevisions(geofence._id)
+      .then((response) => {
+        if (!cancelled) setRevisions(response.data ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Impossible de charger l\'historique');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [geofence._id, geofence.revision]);
+
+  const handleRestore = async (revision: GeofenceRevision) => {
+    setIsRestoring(true);
+    try {
+      await api.restoreGeofenceRevision(geofence._id, revision.revision);
+      toast.success(`Révision ${revision.revision} restaurée`);
+      onSelectRevision(null);
+      onRestored();
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error?.message
+        : undefined;
+      toast.error(message ?? 'Restauration impossible');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const differences = selectedRevision ? diffWithCurrent(selectedRevision.snapshot, geofence) : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 border-b flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <History className="w-5 h-5 text-gray-500 flex-shrink-0" />
+          <h2 className="font-semibold text-gray-900 truncate">Historique · {geofence.name}</h2>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded" title="Fermer">
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      {selectedRevision && (
+        <div className="p-3 border-b bg-gray-50 text-sm space-y-2">
+          <p className="text-gray-600">
+            Sur la carte : révision {selectedRevision.revision} en pointillés gris,
+            version actuelle en trait plein.
+          </p>
+          <p className="text-gray-700">
+            {differences.length === 0
+              ? 'Identique à la version actuelle.'
+              : `Différences : ${differences.join(', ')}`}
+          </p>
+          {selectedRevision.revision !== geofence.revision &&
+            selectedRevision.action !== GeofenceRevisionAction.DELETE && (
+              <button
+                onClick={() => handleRestore(selectedRevision)}
+                disabled={isRestoring || differences.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restaurer la révision {selectedRevision.revision}
+              </button>
+            )}
+        </div>
+      )}
+
+      <div className="p-3 space-y-2 max-h-[440px] overflow-y-auto">
+        {isLoading && revisions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <div className="w-6 h-6 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-2" />
+            Chargement...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">Aucune révision enregistrée</p>
+        ) : (
+          revisions.map((revision) => {
+            const action = ACTION_LABELS[revision.action];
+            const isSelected = selectedRevision?._id === revision._id;
+            return (
+              <div
+                key={revision._id}
+                onClick={() => onSelectRevision(isSelected ? null : revision)}
+                className={clsx(
+                  'border rounded-lg p-3 cursor-pointer transition-all text-sm',
+                  isSelected
+                    ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500'
+                    : 'border-gray-200 hover:border-gray-300 hover:shadow-sm'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">Rév. {revision.revision}</span>
+                    <span className={clsx('px-2 py-0.5 rounded-full text-xs', action.className)}>
+                      {action.label}
+                    </span>
+                    {revision.revision === geofence.revision && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+                        Actuelle
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {new Date(revision.createdAt).toLocaleString('fr-FR')}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {authorName(revision)}
+                </p>
+                {revision.note && <p className="mt-1 text-xs text-gray-600">{revision.note}</p>}
+                {revision.action === GeofenceRevisionAction.UPDATE && revision.changedFields.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    Modifié : {revision.changedFields.map((field) => FIELD_LABELS[field] ?? field).join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GeofenceHistoryPanel;
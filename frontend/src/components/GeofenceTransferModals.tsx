@@ -0,0 +1,405 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Polygon, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import clsx from 'clsx';
+import { X, Upload, Download, CheckCircle, XCircle, FileSearch } from 'lucide-react';
+import { api } from '@/services/api';
+import { Geofence, GeofenceFileFormat, GeofenceImportReport } from '@/types';
+import { geometryToPositions } from './geofenceGeometry';
+
+const FORMAT_LABELS: Record<GeofenceFileFormat, string> = {
+  [GeofenceFileFormat.GEOJSON]: 'GeoJSON',
+  [GeofenceFileFormat.KML]: 'KML (Google Earth)',
+  [GeofenceFileFormat.GPX]: 'GPX',
+};
+
+/**
+ * Format déduit de l'extension du fichier (.geojson / .json, .kml, .gpx)
+ */
+function detectFormat(filename: string): GeofenceFileFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'geojson' || extension === 'json') return GeofenceFileFormat.GEOJSON;
+  if (extension === 'kml') return GeofenceFileFormat.KML;
+  if (extension === 'gpx') return GeofenceFileFormat.GPX;
+  return null;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error?.message ?? fallback;
+  }
+  return fallback;
+}
+
+// ============================================
+// Aperçu carte des zones importées
+// ============================================
+
+function FitToPositions({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length > 0) {
+      map.fitBounds(L.latLngBounds(positions), { padding: [20, 20] });
+    }
+  }, [map, positions]);
+
+  return null;
+}
+
+function ImportPreviewMap({ report }: { report: GeofenceImportReport }) {
+  const polygons = useMemo(
+    () =>
+      report.items.flatMap((item) =>
+        item.valid && item.area
+          ? [{ index: item.index, positions: geometryToPositions(item.area) }]
+          : []
+      ),
+    [report]
+  );
+  const allPositions = useMemo(
+    () => polygons.flatMap((polygon) => polygon.positions.flatMap((rings) => rings[0])),
+    [polygons]
+  );
+
+  if (polygons.length === 0) return null;
+
+  return (
+    <div className="h-56 rounded-lg overflow-hidden border">
+      <MapContainer center={allPositions[0]} zoom={12} className="w-full h-full">
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        {polygons.map((polygon) => (
+          <Polygon
+            key={polygon.index}
+            positions={polygon.positions}
+            pathOptions={{ color: '#3B82F6', fillOpacity: 0.2, weight: 2 }}
+          />
+        ))}
+        <FitToPositions positions={allPositions} />
+      </MapContainer>
+    </div>
+  );
+}
+
+// ============================================
+// Modal d'import
+// ============================================
+
+interface GeofenceImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Import en deux temps : analyse (dryRun) avec aperçu et rapport, puis création
+ */
+export function GeofenceImportModal({ isOpen, onClose, onImported }: GeofenceImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<GeofenceFileFormat>(GeofenceFileFormat.GEOJSON);
+  const [report, setReport] = useState<GeofenceImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setReport(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+    const detected = selected ? detectFormat(selected.name) : null;
+    if (detected) setFormat(detected);
+  };
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const content = await file.text();
+      const response = await api.importGeofences({ format, content, dryRun });
+      if (!response.success || !response.data) {
+        toast.error(response.error?.message ?? 'Import impossible');
+        return;
+      }
+
+      if (dryRun) {
+        setReport(response.data);
+      } else {
+        const { created, total } = response.data;
+        toast.success(`${created} zone${created > 1 ? 's' : ''} importée${created > 1 ? 's' : ''} sur ${total}`);
+        onImported();
+        onClose();
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, 'Fichier invalide'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[2000] p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-semibold">Importer des zones</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fichier</label>
+              <input
+                type="file"
+                accept=".geojson,.json,.kml,.gpx"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                className="w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:border-0 file:rounded-lg file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as GeofenceFileFormat);
+                  setReport(null);
+                }}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {Object.values(GeofenceFileFormat).map((value) => (
+                  <option key={value} value={value}>
+                    {FORMAT_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {report && (
+            <>
+              <ImportPreviewMap report={report} />
+
+              <p className="text-sm text-gray-600">
+                {report.valid} zone{report.valid > 1 ? 's' : ''} valide{report.valid > 1 ? 's' : ''} sur{' '}
+                {report.total}
+              </p>
+
+              <ul className="divide-y border rounded-lg max-h-60 overflow-y-auto">
+                {report.items.map((item) => (
+                  <li key={item.index} className="flex items-start gap-2 p-2 text-sm">
+                    {item.valid ? (
+                      <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                      {item.errors.map((error) => (
+                        <p key={error} className="text-red-600 text-xs">
+                          {error}
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Annuler
+            </button>
+            {!report ? (
+              <button
+                type="button"
+                onClick={() => send(true)}
+                disabled={isLoading || !file}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <FileSearch className="w-4 h-4" />
+                Analyser
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => send(false)}
+                disabled={isLoading || report.valid === 0}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Importer {report.valid} zone{report.valid > 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Modal d'export
+// ============================================
+
+interface GeofenceExportModalProps {
+  isOpen: boolean;
+  geofences: Geofence[];
+  onClose: () => void;
+}
+
+export function GeofenceExportModal({ isOpen, geofences, onClose }: GeofenceExportModalProps) {
+  const [format, setFormat] = useState<GeofenceFileFormat>(GeofenceFileFormat.GEOJSON);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set(geofences.map((g) => g._id)));
+    }
+  }, [isOpen, geofences]);
+
+  if (!isOpen) return null;
+
+  const allSelected = selectedIds.size === geofences.length;
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsLoading(true);
+    try {
+      // Toutes les zones sélectionnées : export de l'organisation entière
+      const blob = await api.exportGeofences(format, allSelected ? undefined : [...selectedIds]);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `zones-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      toast.error(errorMessage(error, "Erreur lors de l'export"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[2000] p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-semibold">Exporter des zones</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <div className="flex gap-2">
+              {Object.values(GeofenceFileFormat).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFormat(value)}
+                  className={clsx(
+                    'flex-1 px-3 py-2 border rounded-lg text-sm',
+                    format === value
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  {FORMAT_LABELS[value]}
+                </button>
+              ))}
+            </div>
+            {format === GeofenceFileFormat.GPX && (
+              <p className="text-xs text-gray-500 mt-1">
+                GPX : seuls les contours sont exportés (les trous ne sont pas représentables).
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">
+                Zones ({selectedIds.size}/{geofences.length})
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedIds(allSelected ? new Set() : new Set(geofences.map((g) => g._id)))
+                }
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {allSelected ? 'Tout désélectionner' : 'Tout sélectionner'}
+              </button>
+            </div>
+            <ul className="divide-y border rounded-lg max-h-60 overflow-y-auto">
+              {geofences.map((geofence) => (
+                <li key={geofence._id}>
+                  <label className="flex items-center gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(geofence._id)}
+                      onChange={() => toggle(geofence._id)}
+                      className="rounded"
+                    />
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: geofence.color }}
+                    />
+                    <span className="truncate">{geofence.name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Annuler
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isLoading || selectedIds.size === 0}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Exporter
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, CircleMarker, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { api } from '@/services';
+import { GeoJSONPoint, Stop, TrackPointProperties } from '@/types';
+import { Play, Pause, RotateCcw, Search, Route, Gauge } from 'lucide-react';
+import clsx from 'clsx';
+import { format, subDays } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+// ============================================
+// Constantes
+// ============================================
+
+// Intervalle entre deux points à vitesse x1
+const BASE_STEP_MS = 500;
+
+const PLAYBACK_SPEEDS = [1, 2, 5, 10] as const;
+
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const replayIcon = L.divIcon({
+  className: 'custom-vehicle-marker',
+  html: `
+    <div class="w-6 h-6 rounded-full bg-primary-600 border-2 border-white shadow-lg"></div>
+  `,
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+interface ReplayPoint {
+  position: [number, number]; // [lat, lng] pour Leaflet
+  properties: TrackPointProperties;
+}
+
+const toLatLng = (point: GeoJSONPoint): [number, number] => [
+  point.coordinates[1],
+  point.coordinates[0],
+];
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h${minutes.toString().padStart(2, '0')}` : `${minutes} min`;
+};
+
+// ============================================
+// Ajustement de la vue sur la trace
+// ============================================
+
+function FitTrack({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length > 0) {
+      map.fitBounds(L.latLngBounds(positions), { padding: [20, 20] });
+    }
+  }, [positions, map]);
+
+  return null;
+}
+
+// ============================================
+// Composant RouteReplay
+// ============================================
+
+interface RouteReplayProps {
+  vehicleId: string;
+}
+
+export function RouteReplay({ vehicleId }: RouteReplayProps) {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 1), DATETIME_INPUT_FORMAT));
+  const [to, setTo] = useState(() => format(new Date(), DATETIME_INPUT_FORMAT));
+  const [points, setPoints] = useState<ReplayPoint[]>([]);
+  const [stops, setStops] = useState<Stop[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
+
+  const loadTrack = async () => {
+    setIsLoading(true);
+    setIsPlaying(false);
+    try {
+      const fromIso = new Date(from).toISOString();
+      const toIso = new Date(to).toISOString();
+      const [trackResponse, tripsResponse] = await Promise.all([
+        api.getVehiclePositions(vehicleId, fromIso, toIso),
+        api.getVehicleTrips(vehicleId, fromIso, toIso),
+      ]);
+
+      const replayPoints: ReplayPoint[] = [];
+      let isTruncated = false;
+      for (const feature of trackResponse.data?.features ?? []) {
+        if (feature.geometry.type === 'Point') {
+          replayPoints.push({
+            position: toLatLng(feature.geometry),
+            properties: feature.properties as TrackPointProperties,
+          });
+        } else if ('truncated' in feature.properties) {
+          isTruncated = feature.properties.truncated;
+        }
+      }
+
+      setPoints(replayPoints);
+      setStops(tripsResponse.data?.stops ?? []);
+      setTruncated(isTruncated);
+      setIndex(0);
+    } catch (error) {
+      console.error('Erreur chargement historique:', error);
+      setPoints([]);
+      setStops([]);
+    } finally {
+      setIsLoading(false);
+      setHasLoaded(true);
+    }
+  };
+
+  // Animation : avance d'un point à chaque pas
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (index >= points.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setIndex((current) => current + 1), BASE_STEP_MS / playbackSpeed);
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, playbackSpeed, index, points.length]);
+
+  const positions = useMemo(() => points.map((p) => p.position), [points]);
+  const travelled = useMemo(() => positions.slice(0, index + 1), [positions, index]);
+  const current = points[index];
+
+  const togglePlay = () => {
+    if (index >= points.length - 1) {
+      setIndex(0);
+    }
+    setIsPlaying((playing) => !playing);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Sélection de la période */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Du</label>
+          <input
+            type="datetime-local"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-2 py-1.5 border rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Au</label>
+          <input
+            type="datetime-local"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-2 py-1.5 border rounded-lg text-sm"
+          />
+        </div>
+        <button
+          onClick={loadTrack}
+          disabled={isLoading || !from || !to}
+          className="flex items-center gap-2 px-3 py-1.5 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          {isLoading ? 'Chargement...' : 'Afficher'}
+        </button>
+      </div>
+
+      {/* Carte */}
+      <div className="h-72 rounded-lg overflow-hidden border">
+        <MapContainer center={[46.6, 2.4]} zoom={6} className="w-full h-full">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+
+          {positions.length > 1 && (
+            <>
+              <Polyline positions={positions} pathOptions={{ color: '#94a3b8', weight: 3 }} />
+              <Polyline positions={travelled} pathOptions={{ color: '#2563eb', weight: 4 }} />
+            </>
+          )}
+
+          {/* Arrêts */}
+          {stops.map((stop) => (
+            <CircleMarker
+              key={stop.startTime}
+              center={toLatLng(stop.location)}
+              radius={8}
+              pathOptions={{ color: '#f59e0b', fillColor: '#f59e0b', fillOpacity: 0.6 }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <p className="font-semibold">Arrêt de {formatDuration(stop.duration)}</p>
+                  <p className="text-gray-600">
+                    {format(new Date(stop.startTime), 'dd/MM HH:mm', { locale: fr })} →{' '}
+                    {format(new Date(stop.endTime), 'dd/MM HH:mm', { locale: fr })}
+                  </p>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {current && <Marker position={current.position} icon={replayIcon} />}
+
+          <FitTrack positions={positions} />
+        </MapContainer>
+      </div>
+
+      {/* Contrôles de lecture */}
+      {points.length > 0 ? (
+        <div className="space-y-3">
+          <input
+            type="range"
+            min={0}
+            max={points.length - 1}
+            value={index}
+            onChange={(e) => setIndex(Number(e.target.value))}
+            className="w-full accent-primary-600"
+          />
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={togglePlay}
+                className="p-2 bg-primary-600 text-white rounded-full hover:bg-primary-700"
+                title={isPlaying ? 'Pause' : 'Lecture'}
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => {
+                  setIsPlaying(false);
+                  setIndex(0);
+                }}
+                className="p-2 hover:bg-gray-100 rounded-full"
+                title="Revenir au début"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <div className="flex items-center gap-1 ml-2">
+                {PLAYBACK_SPEEDS.map((speed) => (
+                  <button
+                    key={speed}
+                    onClick={() => setPlaybackSpeed(speed)}
+                    className={clsx(
+                      'px-2 py-0.5 text-xs rounded',
+                      playbackSpeed === speed
+                        ? 'bg-primary-100 text-primary-700 font-medium'
+                        : 'text-gray-500 hover:bg-gray-100'
+                    )}
+                  >
+                    x{speed}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {current && (
+              <div className="text-right text-sm">
+                <p className="font-medium">
+                  {format(new Date(current.properties.timestamp), 'dd/MM/yyyy HH:mm:ss', { locale: fr })}
+                </p>
+                {current.properties.speed !== undefined && (
+                  <p className="text-gray-500 flex items-center justify-end gap-1">
+                    <Gauge className="w-3 h-3" />
+                    {Math.round(current.properties.speed)} km/h
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {points.length} positions • {stops.length} arrêt(s)
+            {truncated && ' • Période tronquée, réduisez l\'intervalle'}
+          </p>
+        </div>
+      ) : (
+        hasLoaded && (
+          <div className="text-center py-6 text-gray-500">
+            <Route className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+            <p>Aucune position enregistrée sur cette période</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export default RouteReplay;
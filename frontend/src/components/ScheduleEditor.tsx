@@ -0,0 +1,287 @@
+import { ScheduleException, TimeSlot, WeeklySchedule, WeeklySlot } from '@/types';
+import { Plus, Trash2, Moon, CalendarOff } from 'lucide-react';
+
+// ============================================
+// Constantes
+// ============================================
+
+const DAY_NAMES = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+// Affichage du lundi au dimanche
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const DEFAULT_SCHEDULE: WeeklySchedule = {
+  slots: [1, 2, 3, 4, 5].map((day) => ({ day, start: '07:00', end: '19:00' })),
+  exceptions: [],
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Un créneau dont la fin précède (ou égale) le début se termine le lendemain
+ */
+function isOvernight(slot: TimeSlot): boolean {
+  return slot.end <= slot.start;
+}
+
+function formatSlots(slots: TimeSlot[]): string {
+  return [...slots]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map((slot) => `${slot.start}-${slot.end}`)
+    .join(', ');
+}
+
+/**
+ * Résumé lisible d'un planning, jours consécutifs identiques regroupés
+ * Ex. ["Lun-Ven : 07:00-19:00", "Sam : 08:00-12:00"]
+ */
+export function summarizeSchedule(schedule: WeeklySchedule): string[] {
+  const lines: string[] = [];
+  let group: { first: number; last: number; slots: string } | null = null;
+
+  const flush = () => {
+    if (group && group.slots) {
+      const days =
+        group.first === group.last
+          ? DAY_NAMES[group.first]
+          : `${DAY_NAMES[group.first]}-${DAY_NAMES[group.last]}`;
+      lines.push(`${days} : ${group.slots}`);
+    }
+  };
+
+  for (const day of WEEK_ORDER) {
+    const slots = formatSlots(schedule.slots.filter((slot) => slot.day === day));
+    if (group && group.slots === slots) {
+      group.last = day;
+    } else {
+      flush();
+      group = { first: day, last: day, slots };
+    }
+  }
+  flush();
+
+  if (schedule.exceptions.length > 0) {
+    lines.push(`${schedule.exceptions.length} exception(s)`);
+  }
+
+  return lines;
+}
+
+// ============================================
+// Ligne de créneau
+// ============================================
+
+interface SlotInputProps {
+  slot: TimeSlot;
+  onChange: (slot: TimeSlot) => void;
+  onRemove: () => void;
+}
+
+function SlotInput({ slot, onChange, onRemove }: SlotInputProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="time"
+        value={slot.start}
+        onChange={(e) => onChange({ ...slot, start: e.target.value })}
+        className="px-1 py-0.5 border rounded text-xs"
+        required
+      />
+      <span className="text-gray-400 text-xs">-</span>
+      <input
+        type="time"
+        value={slot.end}
+        onChange={(e) => onChange({ ...slot, end: e.target.value })}
+        className="px-1 py-0.5 border rounded text-xs"
+        required
+      />
+      {isOvernight(slot) && (
+        <span
+          className="flex items-center gap-0.5 text-[10px] text-indigo-600"
+          title="Le créneau se termine le lendemain"
+        >
+          <Moon className="w-3 h-3" />
+          +1 j
+        </span>
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-0.5 text-gray-400 hover:text-red-600"
+        title="Supprimer le créneau"
+      >
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+// ============================================
+// Éditeur de planning hebdomadaire
+// ============================================
+
+interface ScheduleEditorProps {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+export function ScheduleEditor({ value, onChange }: ScheduleEditorProps) {
+  // --- Créneaux hebdomadaires ---
+
+  const updateSlot = (index: number, slot: TimeSlot) => {
+    const slots = value.slots.map((s, i) => (i === index ? { ...s, ...slot } : s));
+    onChange({ ...value, slots });
+  };
+
+  const removeSlot = (index: number) => {
+    onChange({ ...value, slots: value.slots.filter((_, i) => i !== index) });
+  };
+
+  const addSlot = (day: number) => {
+    const newSlot: WeeklySlot = { day, start: '08:00', end: '18:00' };
+    onChange({ ...value, slots: [...value.slots, newSlot] });
+  };
+
+  // --- Exceptions ---
+
+  const updateException = (index: number, exception: ScheduleException) => {
+    const exceptions = value.exceptions.map((e, i) => (i === index ? exception : e));
+    onChange({ ...value, exceptions });
+  };
+
+  const removeException = (index: number) => {
+    onChange({ ...value, exceptions: value.exceptions.filter((_, i) => i !== index) });
+  };
+
+  const addException = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    onChange({ ...value, exceptions: [...value.exceptions, { date, slots: [] }] });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Créneaux par jour */}
+      <div className="space-y-1">
+        {WEEK_ORDER.map((day) => {
+          const daySlots = value.slots
+            .map((slot, index) => ({ slot, index }))
+            .filter(({ slot }) => slot.day === day);
+
+          return (
+            <div key={day} className="flex items-start gap-2">
+              <span className="w-8 pt-1 text-xs font-medium text-gray-600">{DAY_NAMES[day]}</span>
+              <div className="flex-1 flex flex-wrap items-center gap-2">
+                {daySlots.length === 0 && (
+                  <span className="text-xs text-gray-400 pt-1">Non autorisé</span>
+                )}
+                {daySlots.map(({ slot, index }) => (
+                  <SlotInput
+                    key={index}
+                    slot={slot}
+                    onChange={(s) => updateSlot(index, s)}
+                    onRemove={() => removeSlot(index)}
+                  />
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addSlot(day)}
+                  className="p-0.5 text-blue-600 hover:bg-blue-50 rounded"
+                  title="Ajouter un créneau"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Exceptions */}
+      <div className="border-t pt-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <CalendarOff className="w-3.5 h-3.5" />
+            Exceptions (remplacent les créneaux de la date)
+          </span>
+          <button
+            type="button"
+            onClick={addException}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+          >
+            <Plus className="w-3 h-3" />
+            Ajouter
+          </button>
+        </div>
+
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="bg-gray-50 rounded p-2 space-y-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={exception.date}
+                onChange={(e) => updateException(index, { ...exception, date: e.target.value })}
+                className="px-1 py-0.5 border rounded text-xs"
+                required
+              />
+              <input
+                type="text"
+                value={exception.label || ''}
+                onChange={(e) =>
+                  updateException(index, { ...exception, label: e.target.value || undefined })
+                }
+                className="flex-1 px-1 py-0.5 border rounded text-xs"
+                placeholder="Libellé (ex. Fermeture chantier)"
+                maxLength={100}
+              />
+              <button
+                type="button"
+                onClick={() => removeException(index)}
+                className="p-0.5 text-gray-400 hover:text-red-600"
+                title="Supprimer l'exception"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {exception.slots.length === 0 && (
+                <span className="text-xs text-gray-400">Journée fermée</span>
+              )}
+              {exception.slots.map((slot, slotIndex) => (
+                <SlotInput
+                  key={slotIndex}
+                  slot={slot}
+                  onChange={(s) =>
+                    updateException(index, {
+                      ...exception,
+                      slots: exception.slots.map((x, i) => (i === slotIndex ? s : x)),
+                    })
+                  }
+                  onRemove={() =>
+                    updateException(index, {
+                      ...exception,
+                      slots: exception.slots.filter((_, i) => i !== slotIndex),
+                    })
+                  }
+                />
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  updateException(index, {
+                    ...exception,
+                    slots: [...exception.slots, { start: '08:00', end: '12:00' }],
+                  })
+                }
+                className="p-0.5 text-blue-600 hover:bg-blue-50 rounded"
+                title="Ajouter un créneau"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
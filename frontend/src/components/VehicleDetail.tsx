@@ -13,8 +13,12 @@ import {
   Phone,
   Mail,
   FileText,
+  BatteryMedium,
+  Plug,
 } from 'lucide-react';
 import clsx from 'clsx';
+import { RouteReplay } from './RouteReplay';
+import { BatteryChart } from './BatteryChart';
 import { format, formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
 
@@ -60,7 +64,7 @@ interface VehicleDetails {
 export function VehicleDetail({ vehicleId, onClose }: VehicleDetailProps) {
   const [details, setDetails] = useState<VehicleDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'info' | 'contract' | 'alerts'>('info');
+  const [activeTab, setActiveTab] = useState<'info' | 'contract' | 'alerts' | 'replay'>('info');
 
   useEffect(() => {
     const fetchDetails = async () => {
@@ -148,7 +152,7 @@ export function VehicleDetail({ vehicleId, onClose }: VehicleDetailProps) {
 
       {/* Tabs */}
       <div className="flex border-b">
-        {(['info', 'contract', 'alerts'] as const).map((tab) => (
+        {(['info', 'contract', 'alerts', 'replay'] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -162,6 +166,7 @@ export function VehicleDetail({ vehicleId, onClose }: VehicleDetailProps) {
             {tab === 'info' && 'Informations'}
             {tab === 'contract' && 'Contrat'}
             {tab === 'alerts' && `Alertes (${recentAlerts.length})`}
+            {tab === 'replay' && 'Relecture'}
           </button>
         ))}
       </div>
@@ -242,6 +247,43 @@ export function VehicleDetail({ vehicleId, onClose }: VehicleDetailProps) {
                 </div>
               </section>
             )}
+
+            {/* Alimentation du tracker */}
+            {(vehicle.batteryLevel !== undefined || vehicle.externalVoltage !== undefined) && (
+              <section>
+                <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                  Alimentation du tracker
+                </h3>
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  {vehicle.batteryLevel !== undefined && (
+                    <MetricCard
+                      icon={<BatteryMedium className="w-5 h-5" />}
+                      label="Batterie"
+                      value={`${Math.round(vehicle.batteryLevel)}%`}
+                      color={vehicle.batteryLevel < 20 ? 'red' : vehicle.batteryLevel < 50 ? 'yellow' : 'green'}
+                    />
+                  )}
+                  {vehicle.externalVoltage !== undefined && (
+                    <MetricCard
+                      icon={<Plug className="w-5 h-5" />}
+                      label="Alimentation"
+                      value={`${vehicle.externalVoltage.toFixed(1)} V`}
+                    />
+                  )}
+                </div>
+                {vehicle.lastTelemetryAt && (
+                  <p className="text-sm text-gray-500 mb-3 flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    Dernier relevé:{' '}
+                    {formatDistanceToNow(new Date(vehicle.lastTelemetryAt), {
+                      addSuffix: true,
+                      locale: fr,
+                    })}
+                  </p>
+                )}
+                <BatteryChart vehicleId={vehicle._id} />
+              </section>
+            )}
           </div>
         )}
 
@@ -334,6 +376,9 @@ export function VehicleDetail({ vehicleId, onClose }: VehicleDetailProps) {
             )}
           </div>
         )}
+
+        {/* Tab: Relecture de trajet */}
+        {activeTab === 'replay' && <RouteReplay vehicleId={vehicle._id} />}
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import type { GeofenceGeometry } from '@/types';
+
+type LatLng = [number, number];
+
+/**
+ * Polygones d'une zone au format Leaflet : [polygone][anneau][sommet] en [lat, lng]
+ * Le premier anneau de chaque polygone est le contour, les suivants sont des trous
+ */
+export function geometryToPositions(area: GeofenceGeometry): LatLng[][][] {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  return polygons.map((rings) =>
+    rings.map((ring) => ring.map(([lng, lat]) => [lat, lng] as LatLng))
+  );
+}
+
+/**
+ * Géométrie GeoJSON à partir de polygones dessinés (anneaux ouverts en [lat, lng])
+ * Un seul polygone donne un Polygon, plusieurs un MultiPolygon
+ */
+export function positionsToGeometry(polygons: LatLng[][][]): GeofenceGeometry {
+  const coordinates = polygons.map((rings) =>
+    rings.map((ring) => {
+      const closed = ring.map(([lat, lng]) => [lng, lat] as [number, number]);
+      closed.push(closed[0]); // Fermer l'anneau
+      return closed;
+    })
+  );
+
+  return coordinates.length === 1
+    ? { type: 'Polygon', coordinates: coordinates[0] }
+    : { type: 'MultiPolygon', coordinates };
+}
+
+/**
+ * Sommets des contours extérieurs (GeoJSON [lng, lat]), pour centrer la carte
+ */
+export function outerRingCoordinates(area: GeofenceGeometry): [number, number][] {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  return polygons.flatMap((rings) => rings[0]);
+}
+
+/**
+ * Résumé lisible d'une géométrie (ex. "2 parcelles · 1 trou · 12 sommets")
+ */
+export function describeGeometry(area: GeofenceGeometry): string {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  const holes = polygons.reduce((sum, rings) => sum + rings.length - 1, 0);
+  const vertices = polygons.reduce(
+    (sum, rings) => sum + rings.reduce((n, ring) => n + ring.length - 1, 0),
+    0
+  );
+
+  const parts: string[] = [];
+  if (polygons.length > 1) parts.push(`${polygons.length} parcelles`);
+  if (holes > 0) parts.push(`${holes} trou${holes > 1 ? 's' : ''}`);
+  parts.push(`${vertices} sommets`);
+  return parts.join(' · ');
+}
+
+/**
+ * Anneau entièrement contenu dans un contour (lancer de rayon, coordonnées planes)
+ */
+export function isRingInside(ring: LatLng[], outer: LatLng[]): boolean {
+  return ring.every(([y, x]) => {
+    let inside = false;
+    for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+      const [yi, xi] = outer[i];
+      const [yj, xj] = outer[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
+
+/**
+ * Tracé d'une zone interdite : contour rouge épais, quelle que soit la couleur choisie
+ */
+export const FORBIDDEN_ZONE_STYLE = {
+  color: '#DC2626',
+  fillColor: '#DC2626',
+  weight: 3,
+};
@@ -1,5 +1,18 @@
 export { DashboardMap } from './DashboardMap';
 export { VehicleDetail } from './VehicleDetail';
+export { RouteReplay } from './RouteReplay';
+export { BatteryChart } from './BatteryChart';
+export { ScheduleEditor, summarizeSchedule, DEFAULT_SCHEDULE } from './ScheduleEditor';
+export {
+  geometryToPositions,
+  positionsToGeometry,
+  outerRingCoordinates,
+  describeGeometry,
+  isRingInside,
+  FORBIDDEN_ZONE_STYLE,
+} from './geofenceGeometry';
+export { GeofenceImportModal, GeofenceExportModal } from './GeofenceTransferModals';
+export { GeofenceHistoryPanel, REVISION_OVERLAY_STYLE } from './GeofenceHistoryPanel';
 export { 
   AlertNotificationProvider, 
   AlertListPanel, 
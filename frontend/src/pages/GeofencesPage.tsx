@@ -4,6 +4,7 @@ import {
   MapContainer,
   TileLayer,
   Polygon,
+  Circle,
   Marker,
   Polyline,
   Popup,
@@ -11,7 +12,29 @@ import {
 } from 'react-leaflet';
 import L from 'leaflet';
 import { useGeofenceStore } from '@/stores';
-import { Geofence, GeoJSONPolygon } from '@/types';
+import {
+  ScheduleEditor,
+  summarizeSchedule,
+  DEFAULT_SCHEDULE,
+  geometryToPositions,
+  positionsToGeometry,
+  outerRingCoordinates,
+  describeGeometry,
+  isRingInside,
+  GeofenceImportModal,
+  GeofenceExportModal,
+  GeofenceHistoryPanel,
+  REVISION_OVERLAY_STYLE,
+  FORBIDDEN_ZONE_STYLE,
+} from '@/components';
+import {
+  Geofence,
+  GeofenceShape,
+  GeofenceMode,
+  GeofenceGeometry,
+  GeofenceRevision,
+  WeeklySchedule,
+} from '@/types';
 import {
   ArrowLeft,
   Plus,
@@ -19,13 +42,19 @@ import {
   Trash2,
   MapPin,
   Clock,
-  Calendar,
   Shield,
   ShieldOff,
   X,
   Check,
   MousePointer,
   Undo2,
+  Circle as CircleIcon,
+  Scissors,
+  Layers,
+  Upload,
+  Download,
+  History,
+  Ban,
 } from 'lucide-react';
 import clsx from 'clsx';
 import toast from 'react-hot-toast';
@@ -34,9 +63,8 @@ import toast from 'react-hot-toast';
 // Constantes
 // ============================================
 
-const DAY_NAMES = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
-const DAY_NAMES_FULL = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
 const DEFAULT_CENTER: [number, number] = [48.8566, 2.3522]; // Paris
+const DEFAULT_CIRCLE_RADIUS = 500; // mètres
 const PRESET_COLORS = [
   '#3B82F6', '#EF4444', '#22C55E', '#F59E0B',
   '#8B5CF6', '#EC4899', '#06B6D4', '#F97316',
@@ -53,14 +81,22 @@ const vertexIcon = L.divIcon({
 // Composant de dessin de polygone sur la carte
 // ============================================
 
+export type RingKind = 'outer' | 'hole';
+
 interface DrawingLayerProps {
   isDrawing: boolean;
+  polygons: [number, number][][][];
   points: [number, number][];
+  ringKind: RingKind;
   onAddPoint: (latlng: [number, number]) => void;
   color: string;
 }
 
-function DrawingLayer({ isDrawing, points, onAddPoint, color }: DrawingLayerProps) {
+/**
+ * Les polygones terminés (parcelles et leurs trous) restent affichés
+ * pendant le tracé de l'anneau en cours
+ */
+function DrawingLayer({ isDrawing, polygons, points, ringKind, onAddPoint, color }: DrawingLayerProps) {
   useMapEvents({
     click(e) {
       if (isDrawing) {
@@ -69,10 +105,17 @@ function DrawingLayer({ isDrawing, points, onAddPoint, color }: DrawingLayerProp
     },
   });
 
-  if (points.length === 0) return null;
+  if (polygons.length === 0 && points.length === 0) return null;
 
   return (
     <>
+      {/* Parcelles terminées */}
+      {polygons.length > 0 && (
+        <Polygon
+          positions={polygons}
+          pathOptions={{ color, fillColor: color, fillOpacity: 0.15, weight: 2, dashArray: '6' }}
+        />
+      )}
       {/* Vertices */}
       {points.map((point, i) => (
         <Marker key={i} position={point} icon={vertexIcon} />
@@ -84,17 +127,69 @@ function DrawingLayer({ isDrawing, points, onAddPoint, color }: DrawingLayerProp
           pathOptions={{ color, weight: 2, dashArray: '6' }}
         />
       )}
-      {/* Apercu du polygone fermé */}
+      {/* Apercu de l'anneau fermé (un trou n'est pas rempli) */}
       {points.length >= 3 && (
         <Polygon
           positions={points}
-          pathOptions={{ color, fillColor: color, fillOpacity: 0.15, weight: 2, dashArray: '6' }}
+          pathOptions={{
+            color,
+            fillColor: color,
+            fillOpacity: ringKind === 'hole' ? 0 : 0.15,
+            weight: 2,
+            dashArray: '6',
+          }}
         />
       )}
     </>
   );
 }
 
+// ============================================
+// Composant de dessin de cercle sur la carte
+// ============================================
+
+export interface DrawnCircle {
+  center: [number, number]; // [lat, lng]
+  radius: number; // mètres
+}
+
+interface CircleDrawingLayerProps {
+  isDrawing: boolean;
+  circle: DrawnCircle | null;
+  onChange: (circle: DrawnCircle) => void;
+  color: string;
+}
+
+/**
+ * Premier clic : centre. Clics suivants : le rayon suit la distance au centre.
+ */
+function CircleDrawingLayer({ isDrawing, circle, onChange, color }: CircleDrawingLayerProps) {
+  useMapEvents({
+    click(e) {
+      if (!isDrawing) return;
+      if (!circle) {
+        onChange({ center: [e.latlng.lat, e.latlng.lng], radius: DEFAULT_CIRCLE_RADIUS });
+      } else {
+        const radius = Math.round(L.latLng(circle.center).distanceTo(e.latlng));
+        onChange({ ...circle, radius: Math.max(10, radius) });
+      }
+    },
+  });
+
+  if (!circle) return null;
+
+  return (
+    <>
+      <Marker position={circle.center} icon={vertexIcon} />
+      <Circle
+        center={circle.center}
+        radius={circle.radius}
+        pathOptions={{ color, fillColor: color, fillOpacity: 0.15, weight: 2, dashArray: '6' }}
+      />
+    </>
+  );
+}
+
 // ============================================
 // Modal de formulaire Geofence
 // ============================================
@@ -103,17 +198,18 @@ interface GeofenceFormData {
   name: string;
   description: string;
   color: string;
+  mode: GeofenceMode;
   isActive: boolean;
-  allowedHoursEnabled: boolean;
-  allowedHoursStart: string;
-  allowedHoursEnd: string;
-  allowedDays: number[];
+  radiusMeters: number;
+  scheduleEnabled: boolean;
+  schedule: WeeklySchedule;
 }
 
 interface GeofenceFormModalProps {
   isOpen: boolean;
   editingGeofence: Geofence | null;
-  drawnPoints: [number, number][];
+  drawnArea: GeofenceGeometry | null;
+  drawnCircle: DrawnCircle | null;
   onSubmit: (data: GeofenceFormData) => void;
   onClose: () => void;
   isLoading: boolean;
@@ -122,7 +218,8 @@ interface GeofenceFormModalProps {
 function GeofenceFormModal({
   isOpen,
   editingGeofence,
-  drawnPoints,
+  drawnArea,
+  drawnCircle,
   onSubmit,
   onClose,
   isLoading,
@@ -131,11 +228,11 @@ function GeofenceFormModal({
     name: '',
     description: '',
     color: PRESET_COLORS[0],
+    mode: GeofenceMode.ALLOWED,
     isActive: true,
-    allowedHoursEnabled: false,
-    allowedHoursStart: '07:00',
-    allowedHoursEnd: '19:00',
-    allowedDays: [],
+    radiusMeters: DEFAULT_CIRCLE_RADIUS,
+    scheduleEnabled: false,
+    schedule: DEFAULT_SCHEDULE,
   });
 
   useEffect(() => {
@@ -144,46 +241,41 @@ function GeofenceFormModal({
         name: editingGeofence.name,
         description: editingGeofence.description || '',
         color: editingGeofence.color,
+        mode: editingGeofence.mode ?? GeofenceMode.ALLOWED,
         isActive: editingGeofence.isActive,
-        allowedHoursEnabled: !!editingGeofence.allowedHours,
-        allowedHoursStart: editingGeofence.allowedHours?.start || '07:00',
-        allowedHoursEnd: editingGeofence.allowedHours?.end || '19:00',
-        allowedDays: editingGeofence.allowedDays || [],
+        radiusMeters: editingGeofence.radiusMeters ?? DEFAULT_CIRCLE_RADIUS,
+        scheduleEnabled: !!editingGeofence.schedule,
+        schedule: editingGeofence.schedule || DEFAULT_SCHEDULE,
       });
     } else {
       setForm({
         name: '',
         description: '',
         color: PRESET_COLORS[0],
+        mode: GeofenceMode.ALLOWED,
         isActive: true,
-        allowedHoursEnabled: false,
-        allowedHoursStart: '07:00',
-        allowedHoursEnd: '19:00',
-        allowedDays: [],
+        radiusMeters: drawnCircle?.radius ?? DEFAULT_CIRCLE_RADIUS,
+        scheduleEnabled: false,
+        schedule: DEFAULT_SCHEDULE,
       });
     }
-  }, [editingGeofence, isOpen]);
-
-  const toggleDay = (day: number) => {
-    setForm((prev) => ({
-      ...prev,
-      allowedDays: prev.allowedDays.includes(day)
-        ? prev.allowedDays.filter((d) => d !== day)
-        : [...prev.allowedDays, day],
-    }));
-  };
+  }, [editingGeofence, drawnCircle, isOpen]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.name.trim()) return;
-    if (!editingGeofence && drawnPoints.length < 3) return;
+    if (!editingGeofence && !drawnCircle && !drawnArea) return;
     onSubmit(form);
   };
 
   if (!isOpen) return null;
 
   const isNew = !editingGeofence;
-  const hasValidPolygon = editingGeofence || drawnPoints.length >= 3;
+  const isCircle = editingGeofence
+    ? editingGeofence.shape === GeofenceShape.CIRCLE
+    : drawnCircle !== null;
+  const hasValidArea = !!editingGeofence || drawnArea !== null || drawnCircle !== null;
+  const isForbidden = form.mode === GeofenceMode.FORBIDDEN;
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[2000] p-4">
@@ -227,6 +319,41 @@ function GeofenceFormModal({
             />
           </div>
 
+          {/* Type de zone */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type de zone</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setForm((p) => ({ ...p, mode: GeofenceMode.ALLOWED }))}
+                className={clsx(
+                  'flex items-center justify-center gap-2 px-3 py-2 border rounded-lg text-sm',
+                  !isForbidden ? 'border-blue-500 bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <Shield className="w-4 h-4" />
+                Autorisée
+              </button>
+              <button
+                type="button"
+                onClick={() => setForm((p) => ({ ...p, mode: GeofenceMode.FORBIDDEN }))}
+                className={clsx(
+                  'flex items-center justify-center gap-2 px-3 py-2 border rounded-lg text-sm',
+                  isForbidden ? 'border-red-500 bg-red-50 text-red-700' : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <Ban className="w-4 h-4" />
+                Interdite
+              </button>
+            </div>
+            {isForbidden && (
+              <p className="mt-1 text-xs text-red-600">
+                Toute entrée d'un engin lève une alerte immédiate, à toute heure.
+                La zone ne peut pas être affectée à un véhicule.
+              </p>
+            )}
+          </div>
+
           {/* Couleur */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Couleur</label>
@@ -260,96 +387,71 @@ function GeofenceFormModal({
             <span className="text-sm text-gray-700">Zone active</span>
           </div>
 
-          {/* Restrictions horaires */}
-          <div className="border rounded-lg p-3 space-y-3">
-            <div className="flex items-center gap-3">
-              <label className="relative inline-flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={form.allowedHoursEnabled}
-                  onChange={(e) =>
-                    setForm((p) => ({ ...p, allowedHoursEnabled: e.target.checked }))
-                  }
-                  className="sr-only peer"
-                />
-                <div className="w-11 h-6 bg-gray-200 peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          {/* Rayon (zone circulaire) */}
+          {isCircle && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rayon (mètres)
               </label>
-              <div className="flex items-center gap-2">
-                <Clock className="w-4 h-4 text-gray-500" />
-                <span className="text-sm font-medium text-gray-700">Restrictions horaires</span>
-              </div>
+              <input
+                type="number"
+                min={10}
+                max={50000}
+                step={10}
+                value={form.radiusMeters}
+                onChange={(e) =>
+                  setForm((p) => ({ ...p, radiusMeters: Number(e.target.value) }))
+                }
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
             </div>
+          )}
 
-            {form.allowedHoursEnabled && (
-              <>
-                <div className="flex items-center gap-3">
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Début</label>
-                    <input
-                      type="time"
-                      value={form.allowedHoursStart}
-                      onChange={(e) =>
-                        setForm((p) => ({ ...p, allowedHoursStart: e.target.value }))
-                      }
-                      className="px-2 py-1 border rounded text-sm"
-                    />
-                  </div>
-                  <span className="text-gray-400 mt-5">-</span>
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">Fin</label>
-                    <input
-                      type="time"
-                      value={form.allowedHoursEnd}
-                      onChange={(e) =>
-                        setForm((p) => ({ ...p, allowedHoursEnd: e.target.value }))
-                      }
-                      className="px-2 py-1 border rounded text-sm"
-                    />
-                  </div>
+          {/* Restrictions horaires (sans objet pour une zone interdite) */}
+          {!isForbidden && (
+            <div className="border rounded-lg p-3 space-y-3">
+              <div className="flex items-center gap-3">
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.scheduleEnabled}
+                    onChange={(e) =>
+                      setForm((p) => ({ ...p, scheduleEnabled: e.target.checked }))
+                    }
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-gray-500" />
+                  <span className="text-sm font-medium text-gray-700">Planning horaire autorisé</span>
                 </div>
+              </div>
 
-                {/* Jours autorisés */}
-                <div>
-                  <div className="flex items-center gap-2 mb-2">
-                    <Calendar className="w-4 h-4 text-gray-500" />
-                    <span className="text-xs text-gray-500">
-                      Jours autorisés (vide = tous les jours)
-                    </span>
-                  </div>
-                  <div className="flex gap-1">
-                    {DAY_NAMES.map((name, i) => (
-                      <button
-                        key={i}
-                        type="button"
-                        onClick={() => toggleDay(i)}
-                        className={clsx(
-                          'px-2 py-1 rounded text-xs font-medium transition-colors',
-                          form.allowedDays.includes(i)
-                            ? 'bg-blue-600 text-white'
-                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                        )}
-                      >
-                        {name}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              </>
-            )}
-          </div>
+              {form.scheduleEnabled && (
+                <ScheduleEditor
+                  value={form.schedule}
+                  onChange={(schedule) => setForm((p) => ({ ...p, schedule }))}
+                />
+              )}
+            </div>
+          )}
 
           {/* Info polygone */}
           {isNew && (
             <div
               className={clsx(
                 'flex items-center gap-2 text-sm p-2 rounded',
-                hasValidPolygon ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'
+                hasValidArea ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'
               )}
             >
               <MapPin className="w-4 h-4 flex-shrink-0" />
-              {hasValidPolygon
-                ? `Polygone: ${drawnPoints.length} points`
-                : `Dessinez au moins 3 points sur la carte`}
+              {isCircle
+                ? `Cercle: rayon ${form.radiusMeters} m`
+                : drawnArea
+                  ? `Polygone: ${describeGeometry(drawnArea)}`
+                  : `Dessinez au moins 3 points sur la carte`}
             </div>
           )}
 
@@ -364,7 +466,7 @@ function GeofenceFormModal({
             </button>
             <button
               type="submit"
-              disabled={isLoading || !form.name.trim() || !hasValidPolygon}
+              disabled={isLoading || !form.name.trim() || !hasValidArea}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {isLoading ? (
@@ -434,6 +536,7 @@ interface GeofenceCardProps {
   onEdit: () => void;
   onDelete: () => void;
   onToggleActive: () => void;
+  onShowHistory: () => void;
 }
 
 function GeofenceCard({
@@ -443,6 +546,7 @@ function GeofenceCard({
   onEdit,
   onDelete,
   onToggleActive,
+  onShowHistory,
 }: GeofenceCardProps) {
   return (
     <div
@@ -487,6 +591,16 @@ function GeofenceCard({
           >
             <Pencil className="w-4 h-4 text-gray-500" />
           </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onShowHistory();
+            }}
+            className="p-1 hover:bg-gray-200 rounded"
+            title="Historique"
+          >
+            <History className="w-4 h-4 text-gray-500" />
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -516,22 +630,35 @@ function GeofenceCard({
           {geofence.isActive ? 'Active' : 'Inactive'}
         </span>
 
-        {geofence.allowedHours && (
-          <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 flex items-center gap-1">
-            <Clock className="w-3 h-3" />
-            {geofence.allowedHours.start}-{geofence.allowedHours.end}
+        {geofence.mode === GeofenceMode.FORBIDDEN && (
+          <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 flex items-center gap-1">
+            <Ban className="w-3 h-3" />
+            Zone interdite
           </span>
         )}
 
-        {geofence.allowedDays && geofence.allowedDays.length > 0 && (
-          <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">
-            {geofence.allowedDays.map((d) => DAY_NAMES[d]).join(', ')}
-          </span>
-        )}
+        {geofence.schedule &&
+          summarizeSchedule(geofence.schedule).map((line) => (
+            <span
+              key={line}
+              className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 flex items-center gap-1"
+            >
+              <Clock className="w-3 h-3" />
+              {line}
+            </span>
+          ))}
 
         <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
-          {geofence.area.coordinates[0].length - 1} sommets
+          {geofence.shape === GeofenceShape.CIRCLE
+            ? `Cercle · ${geofence.radiusMeters} m`
+            : describeGeometry(geofence.area)}
         </span>
+
+        {geofence.contractId && (
+          <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">
+            Chantier (contrat)
+          </span>
+        )}
       </div>
     </div>
   );
@@ -554,10 +681,18 @@ export function GeofencesPage() {
   } = useGeofenceStore();
 
   const [isDrawing, setIsDrawing] = useState(false);
+  const [drawShape, setDrawShape] = useState<GeofenceShape>(GeofenceShape.POLYGON);
+  const [drawnPolygons, setDrawnPolygons] = useState<[number, number][][][]>([]);
   const [drawnPoints, setDrawnPoints] = useState<[number, number][]>([]);
+  const [ringKind, setRingKind] = useState<RingKind>('outer');
+  const [drawnCircle, setDrawnCircle] = useState<DrawnCircle | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingGeofence, setEditingGeofence] = useState<Geofence | null>(null);
   const [deletingGeofence, setDeletingGeofence] = useState<Geofence | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [historyGeofenceId, setHistoryGeofenceId] = useState<string | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<GeofenceRevision | null>(null);
   const [drawColor] = useState(PRESET_COLORS[0]);
 
   useEffect(() => {
@@ -567,7 +702,7 @@ export function GeofencesPage() {
   // Calculer le centre de la carte basé sur les geofences existantes
   const mapCenter: [number, number] = (() => {
     if (geofences.length === 0) return DEFAULT_CENTER;
-    const allCoords = geofences.flatMap((g) => g.area.coordinates[0]);
+    const allCoords = geofences.flatMap((g) => outerRingCoordinates(g.area));
     const avgLat = allCoords.reduce((sum, c) => sum + c[1], 0) / allCoords.length;
     const avgLng = allCoords.reduce((sum, c) => sum + c[0], 0) / allCoords.length;
     return [avgLat, avgLng];
@@ -575,9 +710,10 @@ export function GeofencesPage() {
 
   // --- Handlers dessin ---
 
-  const startDrawing = () => {
+  const startDrawing = (shape: GeofenceShape) => {
     setIsDrawing(true);
-    setDrawnPoints([]);
+    setDrawShape(shape);
+    resetDrawing();
     setEditingGeofence(null);
     setSelectedGeofence(null);
   };
@@ -595,52 +731,108 @@ export function GeofencesPage() {
     setDrawnPoints((prev) => prev.slice(0, -1));
   };
 
-  const finishDrawing = () => {
+  /**
+   * Ajoute l'anneau en cours aux polygones dessinés : nouvelle parcelle,
+   * ou trou de la dernière parcelle. Renvoie null si l'anneau est invalide.
+   */
+  const commitRing = (): [number, number][][][] | null => {
+    if (drawnPoints.length === 0) return drawnPolygons;
     if (drawnPoints.length < 3) {
+      toast.error('Il faut au moins 3 points pour former un anneau');
+      return null;
+    }
+
+    if (ringKind === 'outer') {
+      return [...drawnPolygons, [drawnPoints]];
+    }
+
+    const last = drawnPolygons[drawnPolygons.length - 1];
+    if (!isRingInside(drawnPoints, last[0])) {
+      toast.error('Le trou doit être entièrement contenu dans la parcelle');
+      return null;
+    }
+    return [...drawnPolygons.slice(0, -1), [...last, drawnPoints]];
+  };
+
+  const startRing = (kind: RingKind) => {
+    const polygons = commitRing();
+    if (!polygons) return;
+    if (kind === 'hole' && polygons.length === 0) {
+      toast.error('Dessinez d\'abord le contour de la parcelle');
+      return;
+    }
+    setDrawnPolygons(polygons);
+    setDrawnPoints([]);
+    setRingKind(kind);
+  };
+
+  const finishDrawing = () => {
+    if (drawShape === GeofenceShape.CIRCLE) {
+      if (!drawnCircle) {
+        toast.error('Cliquez sur la carte pour placer le centre du cercle');
+        return;
+      }
+      setIsDrawing(false);
+      setIsFormOpen(true);
+      return;
+    }
+    const polygons = commitRing();
+    if (!polygons) return;
+    if (polygons.length === 0) {
       toast.error('Il faut au moins 3 points pour former une zone');
       return;
     }
+    setDrawnPolygons(polygons);
+    setDrawnPoints([]);
     setIsDrawing(false);
     setIsFormOpen(true);
   };
 
   const cancelDrawing = () => {
     setIsDrawing(false);
+    resetDrawing();
+  };
+
+  const resetDrawing = () => {
+    setDrawnPolygons([]);
     setDrawnPoints([]);
+    setRingKind('outer');
+    setDrawnCircle(null);
   };
 
+  const drawnArea = drawnPolygons.length > 0 ? positionsToGeometry(drawnPolygons) : null;
+
   // --- Handlers CRUD ---
 
   const handleCreate = async (formData: GeofenceFormData) => {
-    // Convertir points Leaflet [lat, lng] en GeoJSON [lng, lat] et fermer le polygone
-    const geoCoords = drawnPoints.map((p) => [p[1], p[0]] as [number, number]);
-    geoCoords.push(geoCoords[0]); // Fermer le polygone
-
-    const area: GeoJSONPolygon = {
-      type: 'Polygon',
-      coordinates: [geoCoords],
-    };
-
     const data: Partial<Geofence> = {
       name: formData.name,
       description: formData.description || undefined,
       color: formData.color,
+      mode: formData.mode,
       isActive: formData.isActive,
-      area,
-      allowedHours: formData.allowedHoursEnabled
-        ? { start: formData.allowedHoursStart, end: formData.allowedHoursEnd }
-        : undefined,
-      allowedDays:
-        formData.allowedHoursEnabled && formData.allowedDays.length > 0
-          ? formData.allowedDays
+      schedule:
+        formData.scheduleEnabled && formData.mode !== GeofenceMode.FORBIDDEN
+          ? formData.schedule
           : undefined,
     };
 
+    if (drawnCircle) {
+      // Le serveur génère le polygone indexé à partir du centre et du rayon
+      data.shape = GeofenceShape.CIRCLE;
+      data.center = { type: 'Point', coordinates: [drawnCircle.center[1], drawnCircle.center[0]] };
+      data.radiusMeters = formData.radiusMeters;
+    } else if (drawnArea) {
+      // Polygon (une parcelle) ou MultiPolygon, en coordonnées GeoJSON [lng, lat]
+      data.shape = GeofenceShape.POLYGON;
+      data.area = drawnArea;
+    }
+
     const result = await createGeofence(data);
     if (result) {
       toast.success(`Zone "${result.name}" créée`);
       setIsFormOpen(false);
-      setDrawnPoints([]);
+      resetDrawing();
     }
   };
 
@@ -648,7 +840,7 @@ export function GeofencesPage() {
     setEditingGeofence(geofence);
     setIsFormOpen(true);
     setIsDrawing(false);
-    setDrawnPoints([]);
+    resetDrawing();
   };
 
   const handleUpdate = async (formData: GeofenceFormData) => {
@@ -658,21 +850,22 @@ export function GeofencesPage() {
       name: formData.name,
       description: formData.description || undefined,
       color: formData.color,
+      mode: formData.mode,
       isActive: formData.isActive,
-      allowedHours: formData.allowedHoursEnabled
-        ? { start: formData.allowedHoursStart, end: formData.allowedHoursEnd }
-        : undefined,
-      allowedDays:
-        formData.allowedHoursEnabled && formData.allowedDays.length > 0
-          ? formData.allowedDays
-          : undefined,
+      // null : suppression du planning existant
+      schedule:
+        formData.scheduleEnabled && formData.mode !== GeofenceMode.FORBIDDEN
+          ? formData.schedule
+          : null,
     };
 
+    if (editingGeofence.shape === GeofenceShape.CIRCLE) {
+      data.radiusMeters = formData.radiusMeters;
+    }
+
     // Si un nouveau polygone a été dessiné, l'utiliser
-    if (drawnPoints.length >= 3) {
-      const geoCoords = drawnPoints.map((p) => [p[1], p[0]] as [number, number]);
-      geoCoords.push(geoCoords[0]);
-      data.area = { type: 'Polygon', coordinates: [geoCoords] };
+    if (drawnArea) {
+      data.area = drawnArea;
     }
 
     const result = await updateGeofence(editingGeofence._id, data);
@@ -680,7 +873,7 @@ export function GeofencesPage() {
       toast.success(`Zone "${result.name}" mise à jour`);
       setIsFormOpen(false);
       setEditingGeofence(null);
-      setDrawnPoints([]);
+      resetDrawing();
     }
   };
 
@@ -703,6 +896,22 @@ export function GeofencesPage() {
     }
   };
 
+  // --- Historique des révisions ---
+
+  // Relu depuis le store : la zone affichée suit les modifications et restaurations
+  const historyGeofence = geofences.find((g) => g._id === historyGeofenceId) ?? null;
+
+  const handleShowHistory = (geofence: Geofence) => {
+    setHistoryGeofenceId(geofence._id);
+    setSelectedRevision(null);
+    setSelectedGeofence(geofence);
+  };
+
+  const closeHistory = () => {
+    setHistoryGeofenceId(null);
+    setSelectedRevision(null);
+  };
+
   // --- Centrer la carte sur une geofence ---
 
   const handleSelectGeofence = (geofence: Geofence) => {
@@ -729,19 +938,70 @@ export function GeofencesPage() {
             </div>
 
             {!isDrawing ? (
-              <button
-                onClick={startDrawing}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                <Plus className="w-4 h-4" />
-                Nouvelle zone
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center gap-2 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Upload className="w-4 h-4" />
+                  Importer
+                </button>
+                <button
+                  onClick={() => setIsExportOpen(true)}
+                  disabled={geofences.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  Exporter
+                </button>
+                <button
+                  onClick={() => startDrawing(GeofenceShape.CIRCLE)}
+                  className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  <CircleIcon className="w-4 h-4" />
+                  Nouveau cercle
+                </button>
+                <button
+                  onClick={() => startDrawing(GeofenceShape.POLYGON)}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Nouvelle zone
+                </button>
+              </div>
+            ) : drawShape === GeofenceShape.CIRCLE ? (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 flex items-center gap-2">
+                  <MousePointer className="w-4 h-4" />
+                  {drawnCircle
+                    ? `Cliquez pour ajuster le rayon (${drawnCircle.radius} m)`
+                    : 'Cliquez sur la carte pour placer le centre'}
+                </span>
+                {drawnCircle && (
+                  <button
+                    onClick={finishDrawing}
+                    className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                  >
+                    <Check className="w-4 h-4" />
+                    Terminer
+                  </button>
+                )}
+                <button
+                  onClick={cancelDrawing}
+                  className="flex items-center gap-1 px-3 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+                >
+                  <X className="w-4 h-4" />
+                  Annuler
+                </button>
+              </div>
             ) : (
               <div className="flex items-center gap-2">
                 <span className="text-sm text-gray-600 flex items-center gap-2">
                   <MousePointer className="w-4 h-4" />
-                  Cliquez sur la carte pour placer les points ({drawnPoints.length} point
-                  {drawnPoints.length > 1 ? 's' : ''})
+                  {ringKind === 'hole' ? 'Trou' : 'Contour'} : cliquez sur la carte pour placer
+                  les points ({drawnPoints.length} point{drawnPoints.length > 1 ? 's' : ''})
+                  {drawnPolygons.length > 0 &&
+                    ` · ${drawnPolygons.length} parcelle${drawnPolygons.length > 1 ? 's' : ''}`}
                 </span>
                 {drawnPoints.length > 0 && (
                   <button
@@ -753,6 +1013,27 @@ export function GeofencesPage() {
                   </button>
                 )}
                 {drawnPoints.length >= 3 && (
+                  <>
+                    <button
+                      onClick={() => startRing('outer')}
+                      title="Terminer l'anneau et dessiner une autre parcelle"
+                      className="flex items-center gap-1 px-3 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      <Layers className="w-4 h-4" />
+                      Parcelle
+                    </button>
+                    <button
+                      onClick={() => startRing('hole')}
+                      title="Terminer l'anneau et découper un trou dans la dernière parcelle"
+                      className="flex items-center gap-1 px-3 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      <Scissors className="w-4 h-4" />
+                      Trou
+                    </button>
+                  </>
+                )}
+                {(drawnPoints.length >= 3 ||
+                  (drawnPoints.length === 0 && drawnPolygons.length > 0)) && (
                   <button
                     onClick={finishDrawing}
                     className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
@@ -793,107 +1074,171 @@ export function GeofencesPage() {
 
                 {/* Geofences existantes */}
                 {geofences.map((geofence) => {
-                  const positions = geofence.area.coordinates[0].map(
-                    (coord) => [coord[1], coord[0]] as [number, number]
-                  );
                   const isSelected = selectedGeofence?._id === geofence._id;
+                  const pathOptions = {
+                    color: geofence.color,
+                    fillColor: geofence.color,
+                    fillOpacity: isSelected ? 0.35 : geofence.isActive ? 0.2 : 0.05,
+                    weight: isSelected ? 3 : 2,
+                    dashArray: geofence.isActive ? undefined : '8',
+                    ...(geofence.mode === GeofenceMode.FORBIDDEN && FORBIDDEN_ZONE_STYLE),
+                  };
+                  const eventHandlers = {
+                    click: () => handleSelectGeofence(geofence),
+                  };
+                  const popup = (
+                    <Popup>
+                      <div className="min-w-[180px]">
+                        <h3 className="font-bold">{geofence.name}</h3>
+                        {geofence.description && (
+                          <p className="text-gray-600 text-sm mt-1">{geofence.description}</p>
+                        )}
+                        <div className="mt-2 space-y-1 text-sm">
+                          <p>
+                            Statut:{' '}
+                            <span
+                              className={
+                                geofence.isActive ? 'text-green-600' : 'text-gray-500'
+                              }
+                            >
+                              {geofence.isActive ? 'Active' : 'Inactive'}
+                            </span>
+                          </p>
+                          {geofence.mode === GeofenceMode.FORBIDDEN && (
+                            <p className="text-red-600 font-medium">Zone interdite</p>
+                          )}
+                          {geofence.shape === GeofenceShape.CIRCLE && (
+                            <p>Rayon: {geofence.radiusMeters} m</p>
+                          )}
+                          {geofence.schedule &&
+                            summarizeSchedule(geofence.schedule).map((line) => (
+                              <p key={line}>Horaires: {line}</p>
+                            ))}
+                        </div>
+                      </div>
+                    </Popup>
+                  );
+
+                  if (
+                    geofence.shape === GeofenceShape.CIRCLE &&
+                    geofence.center &&
+                    geofence.radiusMeters
+                  ) {
+                    const [lng, lat] = geofence.center.coordinates;
+                    return (
+                      <Circle
+                        key={geofence._id}
+                        center={[lat, lng]}
+                        radius={geofence.radiusMeters}
+                        pathOptions={pathOptions}
+                        eventHandlers={eventHandlers}
+                      >
+                        {popup}
+                      </Circle>
+                    );
+                  }
+
+                  const positions = geometryToPositions(geofence.area);
 
                   return (
                     <Polygon
                       key={geofence._id}
                       positions={positions}
-                      pathOptions={{
-                        color: geofence.color,
-                        fillColor: geofence.color,
-                        fillOpacity: isSelected ? 0.35 : geofence.isActive ? 0.2 : 0.05,
-                        weight: isSelected ? 3 : 2,
-                        dashArray: geofence.isActive ? undefined : '8',
-                      }}
-                      eventHandlers={{
-                        click: () => handleSelectGeofence(geofence),
-                      }}
+                      pathOptions={pathOptions}
+                      eventHandlers={eventHandlers}
                     >
-                      <Popup>
-                        <div className="min-w-[180px]">
-                          <h3 className="font-bold">{geofence.name}</h3>
-                          {geofence.description && (
-                            <p className="text-gray-600 text-sm mt-1">{geofence.description}</p>
-                          )}
-                          <div className="mt-2 space-y-1 text-sm">
-                            <p>
-                              Statut:{' '}
-                              <span
-                                className={
-                                  geofence.isActive ? 'text-green-600' : 'text-gray-500'
-                                }
-                              >
-                                {geofence.isActive ? 'Active' : 'Inactive'}
-                              </span>
-                            </p>
-                            {geofence.allowedHours && (
-                              <p>
-                                Horaires: {geofence.allowedHours.start} -{' '}
-                                {geofence.allowedHours.end}
-                              </p>
-                            )}
-                            {geofence.allowedDays && geofence.allowedDays.length > 0 && (
-                              <p>
-                                Jours: {geofence.allowedDays.map((d) => DAY_NAMES_FULL[d]).join(', ')}
-                              </p>
-                            )}
-                          </div>
-                        </div>
-                      </Popup>
+                      {popup}
                     </Polygon>
                   );
                 })}
 
-                {/* Couche de dessin */}
+                {/* Révision sélectionnée dans l'historique, superposée à la version actuelle */}
+                {selectedRevision?.snapshot.area &&
+                  (selectedRevision.snapshot.shape === GeofenceShape.CIRCLE &&
+                  selectedRevision.snapshot.center &&
+                  selectedRevision.snapshot.radiusMeters ? (
+                    <Circle
+                      key={`revision-${selectedRevision._id}`}
+                      center={[
+                        selectedRevision.snapshot.center.coordinates[1],
+                        selectedRevision.snapshot.center.coordinates[0],
+                      ]}
+                      radius={selectedRevision.snapshot.radiusMeters}
+                      pathOptions={REVISION_OVERLAY_STYLE}
+                    />
+                  ) : (
+                    <Polygon
+                      key={`revision-${selectedRevision._id}`}
+                      positions={geometryToPositions(selectedRevision.snapshot.area)}
+                      pathOptions={REVISION_OVERLAY_STYLE}
+                    />
+                  ))}
+
+                {/* Couches de dessin */}
                 <DrawingLayer
-                  isDrawing={isDrawing}
+                  isDrawing={isDrawing && drawShape === GeofenceShape.POLYGON}
+                  polygons={drawnPolygons}
                   points={drawnPoints}
+                  ringKind={ringKind}
                   onAddPoint={addPoint}
                   color={drawColor}
                 />
+                <CircleDrawingLayer
+                  isDrawing={isDrawing && drawShape === GeofenceShape.CIRCLE}
+                  circle={drawnCircle}
+                  onChange={setDrawnCircle}
+                  color={drawColor}
+                />
               </MapContainer>
             </div>
           </div>
 
-          {/* Liste des geofences */}
+          {/* Liste des geofences (ou historique de la zone choisie) */}
           <div className="lg:col-span-1">
-            <div className="bg-white rounded-xl shadow-lg overflow-hidden">
-              <div className="p-4 border-b">
-                <h2 className="font-semibold text-gray-900">Zones configurées</h2>
-              </div>
-              <div className="p-3 space-y-2 max-h-[540px] overflow-y-auto">
-                {isLoading && geofences.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    <div className="w-6 h-6 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-2" />
-                    Chargement...
-                  </div>
-                ) : geofences.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    <MapPin className="w-8 h-8 mx-auto mb-2 text-gray-300" />
-                    <p>Aucune zone configurée</p>
-                    <p className="text-xs mt-1">
-                      Cliquez sur "Nouvelle zone" pour commencer
-                    </p>
-                  </div>
-                ) : (
-                  geofences.map((geofence) => (
-                    <GeofenceCard
-                      key={geofence._id}
-                      geofence={geofence}
-                      isSelected={selectedGeofence?._id === geofence._id}
-                      onSelect={() => handleSelectGeofence(geofence)}
-                      onEdit={() => handleEdit(geofence)}
-                      onDelete={() => setDeletingGeofence(geofence)}
-                      onToggleActive={() => handleToggleActive(geofence)}
-                    />
-                  ))
-                )}
+            {historyGeofence ? (
+              <GeofenceHistoryPanel
+                geofence={historyGeofence}
+                selectedRevision={selectedRevision}
+                onSelectRevision={setSelectedRevision}
+                onRestored={fetchGeofences}
+                onClose={closeHistory}
+              />
+            ) : (
+              <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+                <div className="p-4 border-b">
+                  <h2 className="font-semibold text-gray-900">Zones configurées</h2>
+                </div>
+                <div className="p-3 space-y-2 max-h-[540px] overflow-y-auto">
+                  {isLoading && geofences.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <div className="w-6 h-6 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-2" />
+                      Chargement...
+                    </div>
+                  ) : geofences.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <MapPin className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                      <p>Aucune zone configurée</p>
+                      <p className="text-xs mt-1">
+                        Cliquez sur "Nouvelle zone" pour commencer
+                      </p>
+                    </div>
+                  ) : (
+                    geofences.map((geofence) => (
+                      <GeofenceCard
+                        key={geofence._id}
+                        geofence={geofence}
+                        isSelected={selectedGeofence?._id === geofence._id}
+                        onSelect={() => handleSelectGeofence(geofence)}
+                        onEdit={() => handleEdit(geofence)}
+                        onDelete={() => setDeletingGeofence(geofence)}
+                        onToggleActive={() => handleToggleActive(geofence)}
+                        onShowHistory={() => handleShowHistory(geofence)}
+                      />
+                    ))
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </main>
@@ -902,12 +1247,13 @@ export function GeofencesPage() {
       <GeofenceFormModal
         isOpen={isFormOpen}
         editingGeofence={editingGeofence}
-        drawnPoints={drawnPoints}
+        drawnArea={drawnArea}
+        drawnCircle={drawnCircle}
         onSubmit={editingGeofence ? handleUpdate : handleCreate}
         onClose={() => {
           setIsFormOpen(false);
           setEditingGeofence(null);
-          setDrawnPoints([]);
+          resetDrawing();
         }}
         isLoading={isLoading}
       />
@@ -918,6 +1264,18 @@ export function GeofencesPage() {
         onCancel={() => setDeletingGeofence(null)}
         isLoading={isLoading}
       />
+
+      <GeofenceImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={fetchGeofences}
+      />
+
+      <GeofenceExportModal
+        isOpen={isExportOpen}
+        geofences={geofences}
+        onClose={() => setIsExportOpen(false)}
+      />
     </div>
   );
 }
@@ -11,16 +11,25 @@ import {
   Users,
   FileText,
   Lock,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
 import { UserMenu } from '@/components';
 import { useAuthStore } from '@/stores';
-import { UserRole } from '@/types';
+import { organizationService } from '@/services';
+import type { ClosurePeriod, PublicHoliday } from '@/services';
+import { Permission, UserRole } from '@/types';
 
 // ============================================
 // Types
 // ============================================
 
-type TabId = 0 | 1 | 2;
+type TabId = 0 | 1 | 2 | 3;
 
 interface NotifPrefs {
   criticalAlerts: boolean;
@@ -175,7 +184,262 @@ function TabOrganisation() {
 }
 
 // ============================================
-// Onglet 1 : Notifications
+// Onglet 1 : Calendrier (jours fériés et fermetures)
+// ============================================
+
+const EMPTY_CLOSURE: ClosurePeriod = { start: '', end: '', label: '' };
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'EEEE d MMMM yyyy', { locale: fr });
+}
+
+function TabCalendar() {
+  const { user } = useAuthStore();
+  const canEdit = user?.permissions.includes(Permission.ORGANIZATION_SETTINGS) ?? false;
+
+  const [publicHolidays, setPublicHolidays] = useState(true);
+  const [closures, setClosures] = useState<ClosurePeriod[]>([]);
+  const [newClosure, setNewClosure] = useState<ClosurePeriod>(EMPTY_CLOSURE);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    organizationService
+      .getSettings()
+      .then((settings) => {
+        setPublicHolidays(settings.calendar.publicHolidays);
+        setClosures(settings.calendar.closures);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Erreur lors du chargement du calendrier')
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    organizationService
+      .getHolidays(year)
+      .then(setHolidays)
+      .catch(() => setHolidays([]));
+  }, [year]);
+
+  const isNewClosureValid =
+    !!newClosure.start &&
+    !!newClosure.end &&
+    newClosure.end >= newClosure.start &&
+    newClosure.label.trim().length > 0;
+
+  const handleAddClosure = () => {
+    if (!isNewClosureValid) return;
+    setClosures((prev) =>
+      [...prev, { ...newClosure, label: newClosure.label.trim() }].sort((a, b) =>
+        a.start.localeCompare(b.start)
+      )
+    );
+    setNewClosure(EMPTY_CLOSURE);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const settings = await organizationService.updateSettings({
+        calendar: { publicHolidays, closures },
+      });
+      setClosures(settings.calendar.closures);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erreur lors de l'enregistrement");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-6 text-sm text-gray-500">
+        Chargement du calendrier...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {saved && <SuccessBanner message="Calendrier enregistré avec succès" />}
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+          {error}
+        </div>
+      )}
+
+      {/* ── Jours fériés ── */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-base font-semibold text-gray-900">Jours fériés</h2>
+          <button
+            onClick={() => setPublicHolidays((v) => !v)}
+            disabled={!canEdit}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+              publicHolidays ? 'bg-blue-600' : 'bg-gray-200'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                publicHolidays ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Tout mouvement un jour férié est signalé comme hors horaires sur les zones
+          ayant un planning (sauf exception définie sur la zone).
+        </p>
+
+        <div className="flex items-center gap-2 mb-3">
+          <button
+            onClick={() => setYear((y) => y - 1)}
+            className="p-1 rounded hover:bg-gray-100"
+            aria-label="Année précédente"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-medium text-gray-900">{year}</span>
+          <button
+            onClick={() => setYear((y) => y + 1)}
+            className="p-1 rounded hover:bg-gray-100"
+            aria-label="Année suivante"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul
+          className={`divide-y divide-gray-100 text-sm ${publicHolidays ? '' : 'opacity-50'}`}
+        >
+          {holidays.map((holiday) => (
+            <li key={holiday.date} className="flex items-center justify-between py-2">
+              <span className="text-gray-900">{holiday.name}</span>
+              <span className="text-gray-500 capitalize">{formatDay(holiday.date)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* ── Fermetures ── */}
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-base font-semibold text-gray-900 mb-1">
+          Périodes de fermeture
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Fermetures des chantiers (congés d'août, fin d'année...), dates incluses.
+        </p>
+
+        {closures.length === 0 ? (
+          <p className="text-sm text-gray-400 mb-4">Aucune fermeture programmée</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm mb-4">
+            {closures.map((closure, index) => (
+              <li
+                key={`${closure.start}-${index}`}
+                className="flex items-center justify-between py-2"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{closure.label}</p>
+                  <p className="text-gray-500">
+                    {closure.start === closure.end
+                      ? formatDay(closure.start)
+                      : `Du ${formatDay(closure.start)} au ${formatDay(closure.end)}`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => setClosures((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Supprimer la fermeture"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="closure-start" className="block text-xs text-gray-500 mb-1">
+                Début
+              </label>
+              <input
+                id="closure-start"
+                type="date"
+                value={newClosure.start}
+                onChange={(e) => setNewClosure((c) => ({ ...c, start: e.target.value }))}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="closure-end" className="block text-xs text-gray-500 mb-1">
+                Fin
+              </label>
+              <input
+                id="closure-end"
+                type="date"
+                value={newClosure.end}
+                min={newClosure.start || undefined}
+                onChange={(e) => setNewClosure((c) => ({ ...c, end: e.target.value }))}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="flex-1 min-w-[180px]">
+              <label htmlFor="closure-label" className="block text-xs text-gray-500 mb-1">
+                Libellé
+              </label>
+              <input
+                id="closure-label"
+                value={newClosure.label}
+                maxLength={100}
+                onChange={(e) => setNewClosure((c) => ({ ...c, label: e.target.value }))}
+                placeholder="Ex. Fermeture estivale"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              onClick={handleAddClosure}
+              disabled={!isNewClosureValid}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" /> Ajouter
+            </button>
+          </div>
+        )}
+      </div>
+
+      {canEdit ? (
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Enregistrement...' : 'Enregistrer le calendrier'}
+        </button>
+      ) : (
+        <p className="text-sm text-amber-600 bg-amber-50 px-3 py-2 rounded-lg">
+          Seuls les administrateurs peuvent modifier ces paramètres.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Onglet 2 : Notifications
 // ============================================
 
 interface NotifRow {
@@ -276,7 +540,7 @@ function TabNotifications() {
 }
 
 // ============================================
-// Onglet 2 : Sécurité
+// Onglet 3 : Sécurité
 // ============================================
 
 interface SessionRow {
@@ -414,6 +678,7 @@ interface TabConfig {
 
 const TABS: TabConfig[] = [
   { label: 'Organisation', icon: <Building2 className="w-4 h-4" /> },
+  { label: 'Calendrier', icon: <CalendarDays className="w-4 h-4" /> },
   { label: 'Notifications', icon: <Bell className="w-4 h-4" /> },
   { label: 'Sécurité', icon: <Shield className="w-4 h-4" /> },
 ];
@@ -488,8 +753,9 @@ export function SettingsPage() {
 
         {/* ── Contenu de l'onglet actif ── */}
         {activeTab === 0 && <TabOrganisation />}
-        {activeTab === 1 && <TabNotifications />}
-        {activeTab === 2 && <TabSecurity />}
+        {activeTab === 1 && <TabCalendar />}
+        {activeTab === 2 && <TabNotifications />}
+        {activeTab === 3 && <TabSecurity />}
       </main>
     </div>
   );
@@ -3,10 +3,15 @@ import {
   ApiResponse,
   Vehicle,
   Geofence,
+  GeofenceFileFormat,
+  GeofenceImportReport,
+  GeofenceRevision,
   Alert,
   VehicleStats,
   AlertStats,
   VehicleStatus,
+  VehicleTrack,
+  TripSegmentation,
 } from '@/types';
 import { authService } from './auth';
 
@@ -100,6 +105,16 @@ class ApiClient {
     return data;
   }
 
+  async getVehiclePositions(id: string, from?: string, to?: string): Promise<ApiResponse<VehicleTrack>> {
+    const { data } = await this.client.get(`/vehicles/${id}/positions`, { params: { from, to } });
+    return data;
+  }
+
+  async getVehicleTrips(id: string, from?: string, to?: string): Promise<ApiResponse<TripSegmentation>> {
+    const { data } = await this.client.get(`/vehicles/${id}/trips`, { params: { from, to } });
+    return data;
+  }
+
   async createVehicle(vehicleData: Partial<Vehicle>): Promise<ApiResponse<Vehicle>> {
     const { data } = await this.client.post('/vehicles', vehicleData);
     return data;
@@ -158,6 +173,38 @@ class ApiClient {
     return data;
   }
 
+  async importGeofences(payload: {
+    format: GeofenceFileFormat;
+    content: string;
+    dryRun: boolean;
+  }): Promise<ApiResponse<GeofenceImportReport>> {
+    const { data } = await this.client.post('/geofences/import', payload);
+    return data;
+  }
+
+  async exportGeofences(format: GeofenceFileFormat, ids?: string[]): Promise<Blob> {
+    const { data } = await this.client.get('/geofences/export', {
+      params: { format, ids: ids?.join(',') },
+      responseType: 'blob',
+    });
+    return data;
+  }
+
+  async getGeofenceRevisions(id: string): Promise<ApiResponse<GeofenceRevision[]>> {
+    const { data } = await this.client.get(`/geofences/${id}/revisions`);
+    return data;
+  }
+
+  async getGeofenceRevision(id: string, revision: number): Promise<ApiResponse<GeofenceRevision>> {
+    const { data } = await this.client.get(`/geofences/${id}/revisions/${revision}`);
+    return data;
+  }
+
+  async restoreGeofenceRevision(id: string, revision: number): Promise<ApiResponse<Geofence>> {
+    const { data } = await this.client.post(`/geofences/${id}/revisions/${revision}/restore`);
+    return data;
+  }
+
   // ============================================
   // Alerts
   // ============================================
@@ -26,3 +26,11 @@ export type {
   ClientsListResponse,
 } from './clients';
 
+export { organizationService } from './organization';
+export type {
+  OrganizationSettings,
+  CalendarSettings,
+  ClosurePeriod,
+  PublicHoliday,
+  UpdateOrganizationSettingsPayload,
+} from './organization';
@@ -0,0 +1,68 @@
+import { api } from '@/services/api';
+import type { ApiResponse, RiskFactor, VehicleType } from '@/types';
+
+export interface ClosurePeriod {
+  start: string; // "YYYY-MM-DD"
+  end: string;
+  label: string;
+}
+
+export interface CalendarSettings {
+  publicHolidays: boolean;
+  closures: ClosurePeriod[];
+}
+
+export interface PublicHoliday {
+  date: string; // "YYYY-MM-DD"
+  name: string;
+}
+
+export interface OrganizationSettings {
+  timezone: string;
+  speedLimits: Partial<Record<VehicleType, number>>;
+  speedViolationDelaySeconds: number;
+  batteryLowThreshold: number;
+  externalVoltageLowThreshold?: number;
+  towingDistanceMeters: number;
+  siteGeofenceRadiusMeters: number;
+  theftRisk: {
+    windowMinutes: number;
+    alertThreshold: number;
+    deliveryRadiusMeters: number;
+    weights: Record<RiskFactor, number>;
+  };
+  calendar: CalendarSettings;
+}
+
+export interface UpdateOrganizationSettingsPayload {
+  timezone?: string;
+  calendar?: Partial<CalendarSettings>;
+}
+
+class OrganizationService {
+  async getSettings(): Promise<OrganizationSettings> {
+    const { data } = await api.get<ApiResponse<OrganizationSettings>>('/organization/settings');
+    if (data.success && data.data) return data.data;
+    throw new Error(data.error?.message ?? 'Erreur lors du chargement des paramètres');
+  }
+
+  async updateSettings(payload: UpdateOrganizationSettingsPayload): Promise<OrganizationSettings> {
+    const { data } = await api.patch<ApiResponse<OrganizationSettings>>(
+      '/organization/settings',
+      payload
+    );
+    if (data.success && data.data) return data.data;
+    throw new Error(data.error?.message ?? 'Erreur lors de la mise à jour');
+  }
+
+  async getHolidays(year: number): Promise<PublicHoliday[]> {
+    const { data } = await api.get<ApiResponse<PublicHoliday[]>>('/organization/holidays', {
+      params: { year },
+    });
+    if (data.success && data.data) return data.data;
+    throw new Error(data.error?.message ?? 'Erreur lors du chargement des jours fériés');
+  }
+}
+
+export const organizationService = new OrganizationService();
+export default organizationService;
@@ -21,7 +21,6 @@ export interface VehicleItem {
   notes?: string;
   location: { type: 'Point'; coordinates: [number, number] };
   lastLocationUpdate?: string;
-  assignedGeofences: string[];
   createdAt: string;
   updatedAt: string;
 }
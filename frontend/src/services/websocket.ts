@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { VehicleLocationUpdate, AlertNotification, Vehicle } from '@/types';
+import { authService } from './auth';
 
 type LocationUpdateHandler = (update: VehicleLocationUpdate) => void;
 type AlertHandler = (notification: AlertNotification) => void;
@@ -8,10 +9,14 @@ type PositionsHandler = (vehicles: Vehicle[]) => void;
 /**
  * Service WebSocket pour la communication temps réel
  * Gère la connexion Socket.io et les événements
+ *
+ * L'access token est envoyé au handshake ; le serveur en déduit la room
+ * de l'organisation. Un handshake refusé (token expiré) déclenche un
+ * refresh puis une reconnexion.
  */
 class WebSocketService {
   private socket: Socket | null = null;
-  private organizationId: string | null = null;
+  private refreshAttempted = false;
   
   // Event handlers
   private locationUpdateHandlers: Set<LocationUpdateHandler> = new Set();
@@ -22,30 +27,33 @@ class WebSocketService {
   /**
    * Connecte au serveur WebSocket
    */
-  connect(organizationId: string): void {
+  connect(): void {
     if (this.socket?.connected) {
       console.log('WebSocket déjà connecté');
       return;
     }
 
-    this.organizationId = organizationId;
-    
     this.socket = io({
       transports: ['websocket', 'polling'],
       autoConnect: true,
+      // Évalué à chaque (re)connexion pour toujours envoyer le token courant
+      auth: (cb) => cb({ token: authService.getAccessToken() }),
     });
 
     this.socket.on('connect', () => {
       console.log('[WebSocket] Connecté');
-      // Rejoindre la room de l'organisation
-      this.socket?.emit('join:organization', organizationId);
+      this.refreshAttempted = false;
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log('[WebSocket] Déconnecté:', reason);
     });
 
-    this.socket.on('connect_error', (error) => {
+    this.socket.on('connect_error', (error: Error & { data?: { code?: string } }) => {
+      if (error.data?.code === 'UNAUTHORIZED') {
+        void this.refreshAndReconnect();
+        return;
+      }
       console.error('[WebSocket] Erreur de connexion:', error);
     });
 
@@ -76,14 +84,30 @@ class WebSocketService {
    */
   disconnect(): void {
     if (this.socket) {
-      if (this.organizationId) {
-        this.socket.emit('leave:organization', this.organizationId);
-      }
       this.socket.disconnect();
       this.socket = null;
     }
   }
 
+  /**
+   * Rafraîchit l'access token puis relance la connexion
+   * Un handshake refusé n'est pas retenté automatiquement par Socket.io
+   */
+  private async refreshAndReconnect(): Promise<void> {
+    if (this.refreshAttempted) {
+      console.error('[WebSocket] Authentification refusée après refresh du token');
+      return;
+    }
+    this.refreshAttempted = true;
+
+    try {
+      await authService.refreshTokens();
+      this.socket?.connect();
+    } catch (error) {
+      console.error('[WebSocket] Impossible de rafraîchir le token:', error);
+    }
+  }
+
   /**
    * Vérifie si connecté
    */
@@ -114,25 +138,6 @@ class WebSocketService {
     this.positionsHandlers.add(handler);
     return () => this.positionsHandlers.delete(handler);
   }
-
-  // ============================================
-  // Envoi d'événements (pour simuler un tracker GPS)
-  // ============================================
-
-  sendLocationUpdate(vehicleId: string, location: { type: 'Point'; coordinates: [number, number] }): void {
-    if (!this.socket?.connected) {
-      console.warn('WebSocket non connecté');
-      return;
-    }
-
-    this.socket.emit('tracker:location', {
-      vehicleId,
-      location,
-      speed: Math.random() * 30,
-      heading: Math.random() * 360,
-      batteryLevel: 85 + Math.random() * 15,
-    });
-  }
 }
 
 // Export d'une instance singleton
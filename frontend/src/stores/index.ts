@@ -62,7 +62,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         isAuthenticated: true,
         isLoading: false,
       });
-      initializeWebSocket(response.user.organizationId);
+      initializeWebSocket();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Erreur de connexion',
@@ -85,7 +85,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         isLoading: false,
         mfaPending: null,
       });
-      initializeWebSocket(response.user.organizationId);
+      initializeWebSocket();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Code MFA invalide',
@@ -106,7 +106,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         isAuthenticated: true,
         isLoading: false,
       });
-      initializeWebSocket(response.user.organizationId);
+      initializeWebSocket();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Erreur lors de l\'inscription',
@@ -148,7 +148,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     
     // Si authentifié, initialiser WebSocket
     if (isAuthenticated && user) {
-      initializeWebSocket(user.organizationId);
+      initializeWebSocket();
     }
   },
 
@@ -227,7 +227,13 @@ export const useVehicleStore = create<VehicleState>((set, get) => ({
     const { vehicles } = get();
     const updatedVehicles = vehicles.map((v) =>
       v._id === update.vehicleId
-        ? { ...v, location: update.location, lastLocationUpdate: update.timestamp }
+        ? {
+            ...v,
+            location: update.location,
+            lastLocationUpdate: update.timestamp,
+            batteryLevel: update.batteryLevel ?? v.batteryLevel,
+            externalVoltage: update.externalVoltage ?? v.externalVoltage,
+          }
         : v
     );
     set({ vehicles: updatedVehicles });
@@ -426,8 +432,8 @@ export const useGeofenceStore = create<GeofenceState>((set, get) => ({
 // WebSocket connection initializer
 // ============================================
 
-export function initializeWebSocket(organizationId: string): void {
-  wsService.connect(organizationId);
+export function initializeWebSocket(): void {
+  wsService.connect();
 
   // S'abonner aux mises à jour de position
   wsService.onLocationUpdate((update) => {
@@ -17,6 +17,25 @@ export interface GeoJSONPolygon {
   coordinates: [number, number][][];
 }
 
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: [number, number][][][];
+}
+
+// Polygone (avec trous éventuels) ou plusieurs parcelles
+export type GeofenceGeometry = GeoJSONPolygon | GeoJSONMultiPolygon;
+
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: [number, number][];
+}
+
+export interface GeoJSONFeature<G, P> {
+  type: 'Feature';
+  geometry: G;
+  properties: P;
+}
+
 // ============================================
 // Enums
 // ============================================
@@ -53,7 +72,50 @@ export enum AlertType {
   BATTERY_LOW = 'battery_low',
   DEVICE_OFFLINE = 'device_offline',
   SPEED_EXCEEDED = 'speed_exceeded',
-  POTENTIAL_THEFT = 'potential_theft'
+  TOWING_DETECTED = 'towing_detected',
+  POTENTIAL_THEFT = 'potential_theft',
+  FORBIDDEN_ZONE_ENTRY = 'forbidden_zone_entry',
+  TRACKER_POWER_CUT = 'tracker_power_cut'
+}
+
+export enum GeofenceShape {
+  POLYGON = 'polygon',
+  CIRCLE = 'circle'
+}
+
+// Zone autorisée (affectée aux engins) ou interdite (alerte à l'entrée)
+export enum GeofenceMode {
+  ALLOWED = 'allowed',
+  FORBIDDEN = 'forbidden'
+}
+
+export enum GeofenceFileFormat {
+  GEOJSON = 'geojson',
+  KML = 'kml',
+  GPX = 'gpx'
+}
+
+export enum GeofenceAssignmentSource {
+  MANUAL = 'manual',
+  CONTRACT = 'contract',
+  DEPOT = 'depot'
+}
+
+export enum GeofenceRevisionAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  RESTORE = 'restore',
+  DELETE = 'delete'
+}
+
+export enum RiskFactor {
+  GEOFENCE_EXIT = 'GEOFENCE_EXIT',
+  OUTSIDE_HOURS = 'OUTSIDE_HOURS',
+  MOVEMENT_WITHOUT_IGNITION = 'MOVEMENT_WITHOUT_IGNITION',
+  DEVICE_OFFLINE = 'DEVICE_OFFLINE',
+  HIGH_SPEED = 'HIGH_SPEED',
+  FAR_FROM_DELIVERY = 'FAR_FROM_DELIVERY',
+  TRACKER_POWER_CUT = 'TRACKER_POWER_CUT',
 }
 
 export enum AlertSeverity {
@@ -90,32 +152,134 @@ export interface Vehicle {
   fuelLevel?: number;
   engineHours?: number;
   odometer?: number;
+  batteryLevel?: number;
+  externalVoltage?: number;
+  lastTelemetryAt?: string;
   organizationId: string;
-  assignedGeofences: Geofence[];
+  assignments?: GeofenceAssignment[]; // Affectations de zones en cours
   notes?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Créneau "HH:mm" - "HH:mm" (fin <= début : le créneau passe minuit)
+ */
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+export interface WeeklySlot extends TimeSlot {
+  day: number; // 0=Dimanche, 1=Lundi, etc.
+}
+
+export interface ScheduleException {
+  date: string; // "YYYY-MM-DD"
+  slots: TimeSlot[]; // Vide = journée fermée
+  label?: string;
+}
+
+export interface WeeklySchedule {
+  slots: WeeklySlot[];
+  exceptions: ScheduleException[];
+}
+
 export interface Geofence {
   id: string;
   _id: string;
   name: string;
   description?: string;
-  area: GeoJSONPolygon;
+  shape: GeofenceShape;
+  area: GeofenceGeometry; // Polygone généré côté serveur pour les cercles
+  center?: GeoJSONPoint;
+  radiusMeters?: number;
+  mode: GeofenceMode;
   isActive: boolean;
-  allowedHours?: {
-    start: string;
-    end: string;
-  };
-  allowedDays?: number[];
+  schedule?: WeeklySchedule | null;
+  speedLimitKmh?: number;
+  isDepot: boolean;
   organizationId: string;
-  assignedVehicles: string[];
+  assignments?: GeofenceAssignment[]; // Véhicules affectés à la zone
+  contractId?: string; // Zone de chantier générée par un contrat
+  archivedAt?: string | null;
   color: string;
+  revision: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Affectation véhicule ↔ zone sur une période (validTo absent : sans échéance)
+export interface GeofenceAssignment {
+  id: string;
+  _id: string;
+  vehicleId: string | Pick<Vehicle, '_id' | 'name' | 'registrationNumber' | 'status'>;
+  geofenceId: string | Pick<Geofence, '_id' | 'name' | 'color'>;
+  organizationId: string;
+  validFrom: string;
+  validTo?: string | null;
+  source: GeofenceAssignmentSource;
+  contractId?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Révision d'une zone (journal immuable)
+export type GeofenceRevisionSnapshot = Partial<
+  Pick<
+    Geofence,
+    | 'name'
+    | 'description'
+    | 'shape'
+    | 'area'
+    | 'center'
+    | 'radiusMeters'
+    | 'mode'
+    | 'isActive'
+    | 'schedule'
+    | 'speedLimitKmh'
+    | 'isDepot'
+    | 'color'
+    | 'contractId'
+    | 'archivedAt'
+  >
+>;
+
+export interface GeofenceRevision {
+  id: string;
+  _id: string;
+  geofenceId: string;
+  revision: number;
+  action: GeofenceRevisionAction;
+  changedFields: (keyof GeofenceRevisionSnapshot)[];
+  snapshot: GeofenceRevisionSnapshot;
+  changedBy?: { _id: string; firstName: string; lastName: string; email: string } | null;
+  restoredFrom?: number;
+  note?: string;
+  createdAt: string;
+}
+
+// Rapport d'import de zones (aperçu avec dryRun)
+export interface GeofenceImportItem {
+  index: number;
+  name: string;
+  valid: boolean;
+  errors: string[];
+  shape?: GeofenceShape;
+  area?: GeofenceGeometry;
+  geofenceId?: string;
+}
+
+export interface GeofenceImportReport {
+  format: GeofenceFileFormat;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created: number;
+  items: GeofenceImportItem[];
+}
+
 export interface Client {
   id: string;
   _id: string;
@@ -158,10 +322,15 @@ export interface Alert {
   status: AlertStatus;
   vehicleId: string | Vehicle;
   geofenceId?: string | Geofence;
+  geofenceRevision?: number;
   organizationId: string;
   message: string;
   location: GeoJSONPoint;
   triggeredAt: string;
+  peakSpeed?: number;
+  speedLimit?: number;
+  riskScore?: number;
+  riskFactors?: RiskFactor[];
   acknowledgedAt?: string;
   acknowledgedBy?: string;
   resolvedAt?: string;
@@ -169,6 +338,65 @@ export interface Alert {
   resolutionNotes?: string;
 }
 
+// ============================================
+// Types historique GPS et trajets
+// ============================================
+
+export interface TrackPointProperties {
+  timestamp: string;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
+}
+
+export interface TrackLineProperties {
+  vehicleId: string;
+  from: string;
+  to: string;
+  pointCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Trace GeoJSON renvoyée par GET /vehicles/:id/positions
+ * Première feature = LineString complète (dès deux positions), puis un Point par position
+ */
+export interface VehicleTrack {
+  type: 'FeatureCollection';
+  features: (
+    | GeoJSONFeature<GeoJSONLineString, TrackLineProperties>
+    | GeoJSONFeature<GeoJSONPoint, TrackPointProperties>
+  )[];
+}
+
+export interface Trip {
+  startTime: string;
+  endTime: string;
+  startLocation: GeoJSONPoint;
+  endLocation: GeoJSONPoint;
+  distance: number; // mètres
+  duration: number; // secondes
+  movingDuration: number;
+  idleDuration: number;
+  maxSpeed: number; // km/h
+  averageSpeed: number;
+  pointCount: number;
+}
+
+export interface Stop {
+  startTime: string;
+  endTime: string;
+  location: GeoJSONPoint;
+  duration: number; // secondes
+}
+
+export interface TripSegmentation {
+  trips: Trip[];
+  stops: Stop[];
+}
+
 // ============================================
 // Types API Response
 // ============================================
@@ -200,6 +428,8 @@ export interface VehicleLocationUpdate {
   speed?: number;
   heading?: number;
   batteryLevel?: number;
+  ignition?: boolean;
+  externalVoltage?: number;
 }
 
 export interface AlertNotification {
@@ -242,6 +472,10 @@ export enum Permission {
   VEHICLES_UPDATE = 'vehicles:update',
   VEHICLES_DELETE = 'vehicles:delete',
   VEHICLES_LOCATION = 'vehicles:location',
+  DEVICES_READ = 'devices:read',
+  DEVICES_CREATE = 'devices:create',
+  DEVICES_UPDATE = 'devices:update',
+  DEVICES_DELETE = 'devices:delete',
   GEOFENCES_READ = 'geofences:read',
   GEOFENCES_CREATE = 'geofences:create',
   GEOFENCES_UPDATE = 'geofences:update',